@@ -0,0 +1,167 @@
+import { runBacktest } from '../src/backtest/backtest';
+import { calculateMaxDrawdown, calculateMetrics } from '../src/backtest/metrics';
+import { expandRange, indicatorParameterSpace, optimizeParameters, walkForwardOptimize } from '../src/backtest/optimizer';
+import type { BacktestConfig } from '../src/backtest/types';
+import { HOUR, makeCandles, type CandleShape } from './helpers/candles';
+
+const SHAPE: CandleShape = {
+  start: 1700000000000,
+  trend: 0.05,
+  wave: (i) => Math.sin(i / 6) * 15,
+  open: 0.3,
+  range: 1.5,
+  volume: (i) => 1000 + (i % 7) * 150,
+};
+
+const config: BacktestConfig = {
+  indicator: { type: 'mfi', params: { period: 14, buyLevel: 30, sellLevel: 70 } },
+  position: { tradeLegUsdc: 100, atrTpMultiplier: 1, atrTrailMultiplier: 2.5, breakEvenLockMultiplier: 0.25 },
+  initialUsdcBalance: 1000,
+  slippageBps: 0,
+};
+
+describe('runBacktest', () => {
+  it('replays candles through the paper broker and reports trades', async () => {
+    const candles = makeCandles(300, SHAPE);
+    const result = await runBacktest(candles, config);
+
+    expect(result.equityCurve).toHaveLength(candles.length);
+    expect(result.metrics.positionsOpened).toBeGreaterThan(0);
+    expect(result.trades.length).toBeGreaterThan(0);
+    expect(result.metrics.finalEquity).toBe(result.equityCurve[result.equityCurve.length - 1].equity);
+
+    for (const trade of result.trades) {
+      // Exits are stamped at the close of their candle
+      expect(trade.exitTime).toBeGreaterThan(trade.entryTime);
+      expect(trade.exitTime).toBeLessThanOrEqual(candles[candles.length - 1].timestamp + HOUR);
+    }
+  });
+
+  it('realized PnL plus open value reconciles with final equity', async () => {
+    const candles = makeCandles(300, SHAPE);
+    const result = await runBacktest(candles, config);
+    const lastClose = candles[candles.length - 1].close;
+
+    const realized = result.trades.reduce((sum, t) => sum + t.pnlUsdc, 0);
+    const unrealized = result.openLegs.reduce((sum, l) => sum + (lastClose - l.entryPrice) * l.quantity, 0);
+
+    expect(result.metrics.finalEquity).toBeCloseTo(1000 + realized + unrealized, 6);
+  });
+
+  it('gates entries by market regime', async () => {
+    const candles = makeCandles(300, SHAPE);
+    const open = await runBacktest(candles, { ...config, regime: {} });
+    const blocked = await runBacktest(candles, { ...config, regime: { blockLongs: [{}] } });
+
+    expect(open.rejectedByRegime).toBe(0);
+    expect(blocked.metrics.positionsOpened).toBe(0);
+    expect(blocked.rejectedByRegime).toBe(open.metrics.positionsOpened);
+  });
+
+  it('fills intrabar exits inside the exit candle range', async () => {
+    const candles = makeCandles(300, SHAPE);
+    const intrabar = { ...config, position: { ...config.position, intrabar: { policy: 'OPTIMISTIC' as const } } };
+    const result = await runBacktest(candles, intrabar);
+
+    expect(result.trades.length).toBeGreaterThan(0);
+    for (const trade of result.trades) {
+      const candle = candles.find((c) => c.timestamp + HOUR === trade.exitTime)!;
+      expect(trade.exitPrice).toBeGreaterThanOrEqual(candle.low);
+      expect(trade.exitPrice).toBeLessThanOrEqual(candle.high);
+    }
+
+    const lowerTimeframe = { ...config, position: { ...config.position, intrabar: { policy: 'LOWER_TIMEFRAME' as const } } };
+    await expect(runBacktest(candles, lowerTimeframe)).rejects.toThrow('require timeframe and lowerTimeframeCandles');
+  });
+});
+
+describe('backtest metrics', () => {
+  it('computes drawdown, win rate and profit factor', () => {
+    const curve = [100, 120, 90, 130].map((equity, i) => ({ timestamp: i * HOUR, equity }));
+    const trade = { legId: 'x', legType: 'TP' as const, entryTime: 0, entryPrice: 1, exitTime: 1, exitPrice: 1, quantity: 1, pnlPercent: 0, closeReason: '' };
+
+    expect(calculateMaxDrawdown(curve)).toBeCloseTo(25);
+
+    const metrics = calculateMetrics(curve, [{ ...trade, pnlUsdc: 30 }, { ...trade, pnlUsdc: -10 }], 2, 1);
+    expect(metrics.winRatePct).toBe(50);
+    expect(metrics.profitFactor).toBe(3);
+    expect(metrics.exposurePct).toBe(50);
+    expect(metrics.totalReturnPct).toBeCloseTo(30);
+  });
+});
+
+describe('optimizer', () => {
+  const base = { ...config, windowSize: 60 };
+  const space = {
+    indicator: { buyLevel: { values: [25, 30] } },
+    position: { atrTrailMultiplier: { min: 2, max: 3, step: 0.5 } },
+  };
+
+  it('expands stepped ranges without float drift', () => {
+    expect(expandRange({ min: 0.1, max: 0.3, step: 0.1 })).toEqual([0.1, 0.2, 0.3]);
+  });
+
+  it('grid search ranks every combination and builds heatmaps', async () => {
+    const result = await optimizeParameters(makeCandles(200, SHAPE), { base, space, objective: 'totalReturn', minTrades: 0 });
+
+    expect(result.runs).toHaveLength(6);
+    expect(result.runs[0].score).toBeGreaterThanOrEqual(result.runs[5].score);
+    expect(result.heatmaps).toHaveLength(1);
+    expect(result.heatmaps[0].xValues).toEqual([25, 30]);
+    expect(result.heatmaps[0].yValues).toEqual([2, 2.5, 3]);
+    expect(result.sensitivity.map((s) => s.param)).toEqual(['indicator.buyLevel', 'position.atrTrailMultiplier']);
+  });
+
+  it('checks indicator ranges against the indicator registry', async () => {
+    expect(indicatorParameterSpace('mfi', ['buyLevel'])).toEqual({ buyLevel: { min: 0, max: 100, step: 1 } });
+
+    await expect(
+      optimizeParameters(makeCandles(200, SHAPE), { base, space: { indicator: { lookback: { values: [1, 2] } } } })
+    ).rejects.toThrow("Unknown parameter 'lookback' for indicator mfi");
+    await expect(
+      optimizeParameters(makeCandles(200, SHAPE), { base, space: { indicator: { period: { values: [1, 14] } } } })
+    ).rejects.toThrow('indicator.period value 1 is outside 2..100');
+
+    // buyLevel 80 is not below sellLevel 70, so that combination is skipped
+    const result = await optimizeParameters(makeCandles(200, SHAPE), {
+      base,
+      space: { indicator: { buyLevel: { values: [30, 80] } } },
+      minTrades: 0,
+    });
+    expect(result.runs.map((run) => run.params['indicator.buyLevel'])).toEqual([30]);
+  });
+
+  it('ranks runs without losing trades under the profitFactor objective', async () => {
+    const result = await optimizeParameters(makeCandles(200, SHAPE), { base, space, objective: 'profitFactor' });
+
+    expect(result.runs.some((run) => run.metrics.profitFactor === Infinity)).toBe(true);
+    expect(result.best).not.toBeNull();
+    expect(result.best?.score).toBe(100);
+    expect(result.runs.every((run) => Number.isFinite(run.score))).toBe(true);
+  });
+
+  it('rejects a grid over maxRuns before enumerating it', async () => {
+    const wide = { min: 1, max: 1000, step: 1 };
+    await expect(
+      optimizeParameters(makeCandles(200, SHAPE), {
+        base,
+        space: { position: { atrTpMultiplier: wide, atrTrailMultiplier: wide, breakEvenLockMultiplier: wide } },
+      })
+    ).rejects.toThrow('Search space has 1000000000 parameter sets, exceeding maxRuns (5000)');
+  });
+
+  it('walk-forward evaluates each out-of-sample window', async () => {
+    const result = await walkForwardOptimize(makeCandles(240, SHAPE), {
+      base,
+      space,
+      method: 'random',
+      samples: 3,
+      minTrades: 0,
+      inSampleSize: 120,
+      outOfSampleSize: 60,
+    });
+
+    expect(result.windows).toHaveLength(2);
+    expect(result.windows[0].outOfSample.start).toBeGreaterThan(result.windows[0].inSample.end);
+  });
+});
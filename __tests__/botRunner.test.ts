@@ -0,0 +1,288 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BotRunner } from '../src/runner/BotRunner';
+import { PaperBroker } from '../src/execution/PaperBroker';
+import { IndicatorStrategy, type IndicatorReading } from '../src/strategy/Strategy';
+import { registerStrategy } from '../src/strategy/registry';
+import { RegimeClassifier } from '../src/strategy/regime';
+import type { BinanceFetcher } from '../src/data/BinanceFetcher';
+import type { JournalEvent } from '../src/journal/types';
+import type { BotConfig, Candle, PlatformConfig } from '../src/types';
+import { makeCandles, type CandleShape } from './helpers/candles';
+
+const SHAPE: CandleShape = {
+  start: 1700000000000,
+  wave: (i) => Math.sin(i / 5) * 10,
+  open: 0.5,
+  volume: (i) => 1000 + i,
+};
+
+class AlwaysLongStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number>) {
+    super('always-long', params);
+  }
+
+  protected indicatorWarmup(): number {
+    return 1;
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading {
+    return { type: 'LONG', value: candles.length };
+  }
+}
+
+registerStrategy('always-long', (params) => new AlwaysLongStrategy(params));
+
+const platform: PlatformConfig = {
+  solanaRpcUrl: 'http://localhost',
+  walletSecretKey: 'unused',
+  tokens: { usdc: 'usdc' },
+};
+
+function makeConfig(stateFile: string): BotConfig {
+  return {
+    botId: 'test-bot',
+    timeframe: '1h',
+    paperMode: true,
+    liveTradingEnabled: false,
+    indicator: { type: 'mfi', params: { period: 14, buyLevel: 30, sellLevel: 70 } },
+    position: { tradeLegUsdc: 100, atrTpMultiplier: 1, atrTrailMultiplier: 2.5, breakEvenLockMultiplier: 0.25 },
+    risk: { maxDailyLossPct: 5, maxConsecutiveLosses: 3, maxDailyTrades: 10 },
+    stateFile,
+  };
+}
+
+describe('BotRunner', () => {
+  let stateFile: string;
+
+  beforeEach(() => {
+    stateFile = path.join(os.tmpdir(), `runner-${Date.now()}-${Math.random().toString(16).slice(2)}.json`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(stateFile, { force: true });
+    fs.rmSync(`${stateFile}.snapshots`, { force: true, recursive: true });
+  });
+
+  it('processes each completed candle only once', async () => {
+    const candles = makeCandles(100, SHAPE);
+    const fetcher = { fetchCandles: jest.fn().mockResolvedValue(candles) } as unknown as BinanceFetcher;
+
+    const runner = new BotRunner(makeConfig(stateFile), platform, { createFetcher: () => fetcher });
+
+    const first = await runner.runCycle();
+    const second = await runner.runCycle();
+
+    // Last fetched candle is still forming, so the one before it is processed
+    expect(first.processed).toBe(true);
+    expect(first.candleTime).toBe(candles[98].timestamp);
+    expect(second.processed).toBe(false);
+
+    const saved = JSON.parse(fs.readFileSync(stateFile, 'utf-8'));
+    expect(saved.lastProcessedCandleTime).toBe(candles[98].timestamp);
+  });
+
+  it('catches up on candles missed while down', async () => {
+    const candles = makeCandles(104, SHAPE);
+    const fetchCandles = jest
+      .fn()
+      .mockResolvedValueOnce(candles.slice(0, 100))
+      .mockResolvedValueOnce(candles);
+    const fetcher = { fetchCandles } as unknown as BinanceFetcher;
+
+    const runner = new BotRunner(makeConfig(stateFile), platform, { createFetcher: () => fetcher });
+
+    await runner.runCycle();
+    const caughtUp = await runner.runCycle();
+
+    expect(caughtUp.candlesProcessed).toBe(4);
+    expect(caughtUp.candleTime).toBe(candles[102].timestamp);
+    expect(runner.getState().lastProcessedCandleTime).toBe(candles[102].timestamp);
+  });
+
+  it('uses a PaperBroker unless live trading is explicitly enabled', () => {
+    const config = { ...makeConfig(stateFile), paperMode: false, liveTradingEnabled: false };
+    const runner = new BotRunner(config, platform);
+
+    expect(runner.getMode()).toBe('PAPER');
+    expect(runner.getBroker('BTC')).toBeInstanceOf(PaperBroker);
+  });
+
+  it('reconciles wallet balances with open legs before the first cycle', async () => {
+    const fetcher = { fetchCandles: jest.fn().mockResolvedValue(makeCandles(100, SHAPE)) } as unknown as BinanceFetcher;
+    const fetchBalances = jest.fn().mockResolvedValue([{ mint: 'cbbtc', balance: 0.3 }]);
+    const events: JournalEvent[] = [];
+
+    const halting = new BotRunner(makeConfig(stateFile), platform, { createFetcher: () => fetcher, fetchBalances });
+    await expect(halting.runCycle()).rejects.toThrow('Reconciliation halted trading: Holdings drift: BTC ORPHAN');
+
+    const adopting = new BotRunner(makeConfig(stateFile), platform, {
+      createFetcher: () => fetcher,
+      fetchBalances,
+      reconciliation: { onOrphan: 'ADOPT' },
+      onEvent: (event) => events.push(event),
+    });
+    await adopting.runCycle();
+
+    const [leg] = adopting.getState().assetPositions[0].openLegs;
+    expect(leg).toMatchObject({ type: 'RUNNER', quantity: 0.3, btcMint: 'cbbtc', status: 'OPEN' });
+    expect(events.find((e) => e.type === 'RECONCILIATION')?.payload).toMatchObject({
+      kind: 'ORPHAN',
+      action: 'ADOPT',
+      legIds: [leg.id],
+    });
+  });
+
+  it('journals the market regime and rejects LONGs in blocked regimes', async () => {
+    const candles = makeCandles(200, SHAPE);
+    const fetcher = { fetchCandles: jest.fn().mockResolvedValue(candles) } as unknown as BinanceFetcher;
+    const regime = new RegimeClassifier().classify(candles.slice(0, 199));
+    const events: JournalEvent[] = [];
+
+    const runner = new BotRunner(
+      {
+        ...makeConfig(stateFile),
+        indicator: { type: 'always-long', params: {} },
+        regime: { blockLongs: [{ trend: regime.trend, volatility: regime.volatility }] },
+      },
+      platform,
+      { createFetcher: () => fetcher, onEvent: (event) => events.push(event) }
+    );
+    const result = await runner.runCycle();
+
+    const rejected = events.find((e) => e.type === 'SIGNAL_REJECTED')!;
+    expect(result.positionsOpened).toBe(0);
+    expect(rejected.market).toMatchObject({ trend: regime.trend, volatility: regime.volatility });
+    expect(rejected.payload).toMatchObject({
+      reason: `LONG entries blocked in ${regime.trend} trend, ${regime.volatility} volatility regime`,
+      details: { regime: { trend: regime.trend, volatility: regime.volatility, atrPercentile: regime.atrPercentile } },
+    });
+  });
+
+  it('journals positions closed by the initial stop-loss', async () => {
+    const candles = makeCandles(102, SHAPE);
+    // Crash well below the 2 × ATR stop on the candle after entry
+    candles[99] = { ...candles[99], open: 60, high: 61, low: 59, close: 60 };
+    const fetchCandles = jest
+      .fn()
+      .mockResolvedValueOnce(candles.slice(0, 100))
+      .mockResolvedValueOnce(candles);
+    const events: JournalEvent[] = [];
+
+    const runner = new BotRunner(
+      {
+        ...makeConfig(stateFile),
+        indicator: { type: 'always-long', params: {} },
+        position: { ...makeConfig(stateFile).position, initialStop: { type: 'ATR', value: 2 } },
+      },
+      platform,
+      { createFetcher: () => ({ fetchCandles }) as unknown as BinanceFetcher, onEvent: (event) => events.push(event) }
+    );
+    await runner.runCycle();
+    await runner.runCycle();
+
+    const opened = events.find((e) => e.type === 'POSITION_OPENED')!;
+    const stopped = events.filter((e) => e.type === 'STOP_LOSS_HIT');
+    expect(opened.payload).toMatchObject({ stopLoss: expect.any(Number) });
+    expect(stopped).toHaveLength(2);
+    expect(stopped[0].payload).toMatchObject({ stopLoss: (opened.payload as { stopLoss: number }).stopLoss });
+  });
+
+  it('persists closed legs when the asset fails later in the cycle', async () => {
+    const candles = makeCandles(101, SHAPE);
+    // Crash through the stop on the candle after entry, then fail on journaling the next LONG
+    candles[99] = { ...candles[99], open: 60, high: 61, low: 59, close: 60 };
+    const fetchCandles = jest
+      .fn()
+      .mockResolvedValueOnce(candles.slice(0, 100))
+      .mockResolvedValueOnce(candles);
+    let failSignals = false;
+
+    const runner = new BotRunner(
+      {
+        ...makeConfig(stateFile),
+        indicator: { type: 'always-long', params: {} },
+        position: { ...makeConfig(stateFile).position, initialStop: { type: 'ATR', value: 2 } },
+      },
+      platform,
+      {
+        createFetcher: () => ({ fetchCandles }) as unknown as BinanceFetcher,
+        onEvent: (event) => {
+          if (failSignals && event.type === 'SIGNAL_GENERATED') throw new Error('journal down');
+        },
+      }
+    );
+    await runner.runCycle();
+    failSignals = true;
+    const result = await runner.runCycle();
+
+    const saved = JSON.parse(fs.readFileSync(stateFile, 'utf-8'));
+    expect(result.positionsClosed).toBe(2);
+    expect(saved.assetPositions[0].openLegs).toEqual([]);
+  });
+
+  it('journals legs closed by time exits', async () => {
+    const candles = makeCandles(102, SHAPE);
+    // Flat after the entry on candle 98: no target or stop, only the clock closes the legs
+    for (let i = 99; i < 102; i++) {
+      const close = candles[98].close;
+      candles[i] = { ...candles[i], open: close, high: close + 0.1, low: close - 0.1, close };
+    }
+    const fetchCandles = jest
+      .fn()
+      .mockResolvedValueOnce(candles.slice(0, 100))
+      .mockResolvedValueOnce(candles);
+    const events: JournalEvent[] = [];
+
+    const runner = new BotRunner(
+      {
+        ...makeConfig(stateFile),
+        indicator: { type: 'always-long', params: {} },
+        position: { ...makeConfig(stateFile).position, timeExits: { maxHoldingHours: { TP: 1, RUNNER: 1 } } },
+      },
+      platform,
+      { createFetcher: () => ({ fetchCandles }) as unknown as BinanceFetcher, onEvent: (event) => events.push(event) }
+    );
+    await runner.runCycle();
+    await runner.runCycle();
+
+    const timeExits = events.filter((e) => e.type === 'TIME_EXIT');
+    expect(timeExits).toHaveLength(2);
+    expect(timeExits[0].payload).toMatchObject({ rule: 'MAX_HOLDING', exitPrice: candles[98].close });
+    expect(events.some((e) => e.type === 'TRAILING_STOP_HIT')).toBe(false);
+  });
+
+  it('journals every trailing stop move with its method', async () => {
+    const candles = makeCandles(106, SHAPE);
+    // Rally after the entry on candle 98: the TP fills, then the runner trails new highs
+    for (let i = 99; i < 106; i++) {
+      const close = candles[98].close + (i - 98) * 4;
+      candles[i] = { ...candles[i], open: close - 2, high: close + 1, low: close - 3, close };
+    }
+    const fetchCandles = jest
+      .fn()
+      .mockResolvedValueOnce(candles.slice(0, 100))
+      .mockResolvedValueOnce(candles);
+    const events: JournalEvent[] = [];
+
+    const runner = new BotRunner(
+      {
+        ...makeConfig(stateFile),
+        indicator: { type: 'always-long', params: {} },
+        position: { ...makeConfig(stateFile).position, trailingStop: { type: 'PERCENT', percent: 3 } },
+      },
+      platform,
+      { createFetcher: () => ({ fetchCandles }) as unknown as BinanceFetcher, onEvent: (event) => events.push(event) }
+    );
+    await runner.runCycle();
+    await runner.runCycle();
+
+    const updates = events.filter((e) => e.type === 'TRAILING_STOP_UPDATED').map((e) => e.payload);
+    expect(updates[0]).toMatchObject({ reason: 'ACTIVATED', method: 'PERCENT', previousStop: null });
+    expect(updates[1]).toMatchObject({ reason: 'NEW_HIGH', method: 'PERCENT' });
+    expect((updates[1] as { newStop: number; newHighest: number }).newStop).toBeCloseTo(
+      (updates[1] as { newHighest: number }).newHighest * 0.97
+    );
+  });
+});
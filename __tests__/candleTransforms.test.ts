@@ -0,0 +1,121 @@
+import { resampleCandles, toHeikinAshi, toRenko } from '../src/data/transforms';
+import { validateCandleArray } from '../src/data/BinanceFetcher';
+import { listIndicators, resolveIndicatorParams } from '../src/indicators';
+import type { Candle } from '../src/types';
+import { HOUR, makeCandles } from './helpers/candles';
+
+// Monday 2024-01-01 00:00 UTC
+const START = Date.UTC(2024, 0, 1);
+
+const hourly = (count: number, from: number = START) =>
+  makeCandles(count, {
+    start: from,
+    trend: 0.1,
+    wave: (i) => Math.sin(i / 4) * 5,
+    open: 0.5,
+    range: 1.25,
+    volume: (i) => 10 + i,
+  });
+
+describe('resampleCandles', () => {
+  it('aggregates OHLCV per bucket', () => {
+    const candles = hourly(8);
+    const [first, second] = resampleCandles(candles, '4h');
+    const window = candles.slice(0, 4);
+
+    expect(first).toEqual({
+      timestamp: START,
+      open: window[0].open,
+      high: Math.max(...window.map((c) => c.high)),
+      low: Math.min(...window.map((c) => c.low)),
+      close: window[3].close,
+      volume: 10 + 11 + 12 + 13,
+    });
+    expect(second.timestamp).toBe(START + 4 * HOUR);
+  });
+
+  it('drops partial buckets unless asked to keep them', () => {
+    // Starts 02:00 and ends mid-bucket, with 09:00 missing
+    const candles = hourly(14, START + 2 * HOUR).filter((c) => c.timestamp !== START + 9 * HOUR);
+
+    expect(resampleCandles(candles, '4h').map((c) => c.timestamp)).toEqual([START + 4 * HOUR, START + 12 * HOUR]);
+    expect(resampleCandles(candles, '4h', { partial: 'keep' })).toHaveLength(4);
+  });
+
+  it('aligns days, Monday weeks and calendar months', () => {
+    // Starts 02:00 on Sunday 2023-12-31, so that day and week are partial
+    const candles = hourly(24 * 40, START - 22 * HOUR);
+
+    expect(resampleCandles(candles, '1d', { from: '1h' })[0].timestamp).toBe(START);
+    expect(resampleCandles(candles, '1w').map((c) => c.timestamp)).toEqual([
+      START,
+      START + 7 * 24 * HOUR,
+      START + 14 * 24 * HOUR,
+      START + 21 * 24 * HOUR,
+      START + 28 * 24 * HOUR,
+    ]);
+    expect(resampleCandles(candles, '1M').map((c) => c.timestamp)).toEqual([START]);
+  });
+
+  it('rejects intervals that are not whole multiples', () => {
+    expect(() => resampleCandles(resampleCandles(hourly(48), '6h'), '4h')).toThrow('Cannot resample');
+    expect(() => resampleCandles(hourly(1), '4h')).toThrow('pass options.from');
+  });
+});
+
+describe('toHeikinAshi', () => {
+  it('averages prices and carries the previous body forward', () => {
+    const candles: Candle[] = [
+      { timestamp: 0, open: 10, high: 14, low: 8, close: 12, volume: 5 },
+      { timestamp: HOUR, open: 12, high: 13, low: 9, close: 10, volume: 7 },
+    ];
+    const [first, second] = toHeikinAshi(candles);
+
+    expect(first).toEqual({ timestamp: 0, open: 11, high: 14, low: 8, close: 11, volume: 5 });
+    expect(second).toEqual({ timestamp: HOUR, open: 11, high: 13, low: 9, close: 11, volume: 7 });
+  });
+});
+
+describe('toRenko', () => {
+  const at = (i: number, close: number): Candle => ({ timestamp: i * HOUR, open: close, high: close, low: close, close, volume: 1 });
+
+  it('forms bricks on full moves and needs two bricks to reverse', () => {
+    const candles = [at(0, 100), at(1, 101), at(2, 102.5), at(3, 101.5), at(4, 100.5), at(5, 99.9), at(6, 97.5)];
+    const bricks = toRenko(candles, { brickSize: 1 });
+
+    expect(bricks.map((b) => [b.open, b.close])).toEqual([
+      [100, 101],
+      [101, 102],
+      [101, 100],
+      [100, 99],
+      [99, 98],
+    ]);
+    expect(bricks.map((b) => b.timestamp)).toEqual([HOUR, 2 * HOUR, 5 * HOUR, 6 * HOUR, 6 * HOUR + 1]);
+    // Candles 3-5 formed the reversal brick; candle 6's volume is split
+    expect(bricks[2]).toMatchObject({ high: 101, low: 100, volume: 3 });
+    expect(bricks[4].volume).toBe(0.5);
+  });
+
+  it('sizes bricks by the ATR of the first candles', () => {
+    const candles = hourly(200);
+    const bricks = toRenko(candles, { atrPeriod: 14 });
+    const size = Math.abs(bricks[0].close - bricks[0].open);
+
+    expect(size).toBeCloseTo(2.5, 1);
+    expect(bricks.every((b) => Math.abs(Math.abs(b.close - b.open) - size) < 1e-9)).toBe(true);
+    expect(validateCandleArray(bricks)).toBe(true);
+  });
+});
+
+describe('indicators on transformed candles', () => {
+  it('every registry indicator runs on resampled and Heikin-Ashi candles', () => {
+    const daily = resampleCandles(hourly(24 * 160), '1d');
+    const heikinAshi = toHeikinAshi(hourly(300));
+
+    for (const definition of listIndicators()) {
+      const params = resolveIndicatorParams(definition.id);
+      expect(definition.calculate(daily, params).length).toBeGreaterThan(0);
+      expect(definition.getSignal(heikinAshi, params).result).not.toBeNull();
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  calculateBollingerSeries,
+  calculateBollingerWithSignal,
+  calculateKeltnerSeries,
+  calculateATRSeries,
+  calculateEMA,
+  calculateDonchianSeries,
+  calculateDonchianWithSignal,
+  detectChannelSignal,
+} from '../src/indicators';
+import { createStrategy } from '../src/strategy/registry';
+import { candlesFromCloses } from './helpers/candles';
+
+describe('Bollinger Bands', () => {
+  it('computes bands, %B and bandwidth', () => {
+    const [result] = calculateBollingerSeries(candlesFromCloses([2, 4, 4, 4, 5, 5, 7, 9]), 8, 2);
+
+    // Mean 5, population standard deviation 2
+    expect(result.middle).toBe(5);
+    expect(result.upper).toBe(9);
+    expect(result.lower).toBe(1);
+    expect(result.percentB).toBe(1);
+    expect(result.bandwidth).toBeCloseTo(8 / 5, 12);
+  });
+
+  it('signals LONG when the close re-enters above the lower band', () => {
+    const closes = [...new Array(20).fill(100).map((c, i) => c + (i % 2)), 90, 99];
+    const { signal, result } = calculateBollingerWithSignal(candlesFromCloses(closes), 20, 2);
+
+    expect(result!.percentB).toBeGreaterThan(0);
+    expect(signal).toBe('LONG');
+    expect(calculateBollingerWithSignal(candlesFromCloses(closes), 20, 2, 'BREAKOUT').signal).toBe('NONE');
+  });
+});
+
+describe('Keltner Channels', () => {
+  it('builds bands from the EMA and ATR series', () => {
+    const candles = candlesFromCloses(Array.from({ length: 40 }, (_, i) => 100 + Math.sin(i / 3) * 5));
+    const series = calculateKeltnerSeries(candles, 20, 10, 2);
+    const ema = calculateEMA(candles.map((c) => c.close), 20);
+    const atr = calculateATRSeries(candles, 10);
+    const last = series[series.length - 1];
+
+    expect(series).toHaveLength(40 - 19);
+    expect(last.middle).toBe(ema[39]);
+    expect(last.upper).toBeCloseTo(ema[39]! + 2 * atr[39]!, 12);
+    expect(last.lower).toBeCloseTo(ema[39]! - 2 * atr[39]!, 12);
+  });
+});
+
+describe('Donchian Channels', () => {
+  it('excludes the current candle and signals a breakout of the prior high', () => {
+    const closes = [...new Array(20).fill(100), 100, 105];
+    const series = calculateDonchianSeries(candlesFromCloses(closes), 20);
+
+    expect(series).toHaveLength(2);
+    expect(series[1]).toEqual({ upper: 101, middle: 100, lower: 99, timestamp: 21 * 3600000 });
+    expect(calculateDonchianWithSignal(candlesFromCloses(closes), 20).signal).toBe('LONG');
+  });
+});
+
+describe('detectChannelSignal', () => {
+  const bands = { upper: 110, middle: 100, lower: 90 };
+
+  it('detects breakouts and re-entries on both sides', () => {
+    expect(detectChannelSignal(105, bands, 111, bands, 'BREAKOUT').signal).toBe('LONG');
+    expect(detectChannelSignal(95, bands, 89, bands, 'BREAKOUT').signal).toBe('SHORT');
+    expect(detectChannelSignal(89, bands, 91, bands, 'REENTRY')).toEqual({ signal: 'LONG', trend: 'SHORT' });
+    expect(detectChannelSignal(111, bands, 109, bands, 'REENTRY')).toEqual({ signal: 'SHORT', trend: 'LONG' });
+    expect(detectChannelSignal(105, bands, 111, bands, 'REENTRY').signal).toBe('NONE');
+  });
+});
+
+describe('channel strategies', () => {
+  it('produce a reading as soon as warmupCandles are available', () => {
+    const candles = candlesFromCloses(Array.from({ length: 60 }, (_, i) => 100 + Math.sin(i / 6) * 10));
+
+    for (const type of ['bollinger', 'keltner', 'donchian']) {
+      const strategy = createStrategy({ type, params: {} });
+      const window = candles.slice(0, strategy.warmupCandles);
+
+      expect(strategy.onCandle(window).indicatorValue).toEqual(expect.any(Number));
+      expect(strategy.onCandle(window.slice(0, -1)).indicatorValue).toBeUndefined();
+    }
+  });
+
+  it('keeps the Keltner band ATR apart from the position ATR', () => {
+    const candles = candlesFromCloses(Array.from({ length: 60 }, (_, i) => 100 + Math.sin(i / 6) * 10));
+    const base = createStrategy({ type: 'keltner', params: {} }).onCandle(candles);
+    const wider = createStrategy({ type: 'keltner', params: { channelAtrPeriod: 30 } }).onCandle(candles);
+    const positionAtr = createStrategy({ type: 'keltner', params: { atrPeriod: 5 } }).onCandle(candles);
+
+    expect(wider.atr).toBe(base.atr);
+    expect(positionAtr.atr).not.toBe(base.atr);
+    expect(positionAtr.indicatorValue).toBe(base.indicatorValue);
+    expect(positionAtr.type).toBe(base.type);
+  });
+});
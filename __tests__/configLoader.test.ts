@@ -0,0 +1,315 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadBotConfigFile, readBotConfigFile, resolveConfigFilePath, validateBotConfig } from '../src/config';
+
+const YAML_CONFIG = `
+botId: mfi-4h
+timeframe: 4h
+paperMode: true
+liveTradingEnabled: false
+indicator:
+  type: mfi
+  params: { period: 14, buyLevel: 30, sellLevel: 70 }
+position:
+  tradeLegUsdc: \${TRADE_LEG_USDC:-100}
+  atrTpMultiplier: 1
+  atrTrailMultiplier: 2.5
+  breakEvenLockMultiplier: 0.25
+risk:
+  maxDailyLossPct: 5
+  maxConsecutiveLosses: 3
+  maxDailyTrades: 10
+stateFile: \${STATE_DIR}/state-mfi-4h.json
+environments:
+  production:
+    paperMode: false
+    liveTradingEnabled: true
+    risk:
+      maxDailyTrades: 4
+`;
+
+describe('loadBotConfigFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeConfig(name: string, content: string): string {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  }
+
+  it('loads YAML with env interpolation, defaults and an environment overlay', () => {
+    const file = writeConfig('bot.yaml', YAML_CONFIG);
+
+    const dev = loadBotConfigFile(file, { env: { STATE_DIR: '/data' } });
+    expect(dev.paperMode).toBe(true);
+    expect(dev.position.tradeLegUsdc).toBe(100);
+    expect(dev.stateFile).toBe('/data/state-mfi-4h.json');
+    expect(dev).not.toHaveProperty('environments');
+
+    const prod = loadBotConfigFile(file, {
+      environment: 'production',
+      env: { STATE_DIR: '/data', TRADE_LEG_USDC: '250' },
+    });
+    expect(prod.paperMode).toBe(false);
+    expect(prod.liveTradingEnabled).toBe(true);
+    expect(prod.position.tradeLegUsdc).toBe(250);
+    expect(prod.risk).toEqual({ maxDailyLossPct: 5, maxConsecutiveLosses: 3, maxDailyTrades: 4 });
+  });
+
+  it('reports every validation error with its field path', () => {
+    const file = writeConfig('bot.json', JSON.stringify({
+      botId: 'bad',
+      timeframe: '2h',
+      paperMode: 'yes',
+      liveTradingEnabled: false,
+      indicator: { type: 'nope', params: {} },
+      position: { tradeLegUsdc: -1, atrTpMultiplier: 1, atrTrailMultiplier: 2 },
+      risk: { maxDailyLossPct: 5, maxConsecutiveLosses: 3, maxDailyTrades: 10 },
+      assets: [{ symbol: 'BTC', name: 'Bitcoin', binanceSymbol: 'BTCUSDT', tradeLegUsdc: 50, enabled: true, extra: 1 }],
+    }));
+
+    let message = '';
+    try {
+      loadBotConfigFile(file, { env: {} });
+    } catch (error: any) {
+      message = error.message;
+    }
+
+    expect(message).toContain('timeframe: must be one of 1h, 4h, 1d');
+    expect(message).toContain('paperMode: expected boolean, got string');
+    expect(message).toContain("indicator.type: unknown indicator 'nope'");
+    expect(message).toContain('position.tradeLegUsdc: must be >= 0');
+    expect(message).toContain('position.breakEvenLockMultiplier: is required');
+    expect(message).toContain('assets[0].extra: is not a recognized field');
+  });
+
+  it('checks indicator params and timeframes against the indicator registry', () => {
+    const issues = validateBotConfig({
+      botId: 'vwap-daily',
+      timeframe: '1d',
+      paperMode: true,
+      liveTradingEnabled: false,
+      indicator: { type: 'vwap', params: { period: -1, window: 5 } },
+      combinator: {
+        mode: 'AND',
+        indicators: [{ type: 'macd', params: { fastPeriod: 30, slowPeriod: 20 } }],
+      },
+      position: { tradeLegUsdc: 100, atrTpMultiplier: 1, atrTrailMultiplier: 2, breakEvenLockMultiplier: 0.25 },
+      risk: { maxDailyLossPct: 5, maxConsecutiveLosses: 3, maxDailyTrades: 10 },
+    });
+
+    expect(issues).toEqual(expect.arrayContaining([
+      { path: 'indicator.type', message: 'VWAP does not support timeframe 1d (supported: 1h, 4h)' },
+      { path: 'indicator.params.period', message: 'must be between 0 and 500' },
+      { path: 'indicator.params.window', message: expect.stringContaining('unknown parameter') },
+      { path: 'combinator.indicators[0].params.fastPeriod', message: 'must be below slowPeriod' },
+    ]));
+  });
+
+  it('validates regime settings', () => {
+    const issues = validateBotConfig({
+      botId: 'regime',
+      timeframe: '4h',
+      paperMode: true,
+      liveTradingEnabled: false,
+      indicator: { type: 'mfi', params: {} },
+      regime: { lowPercentile: 80, blockLongs: [{ trend: 'DOWN' }] },
+      position: { tradeLegUsdc: 100, atrTpMultiplier: 1, atrTrailMultiplier: 2, breakEvenLockMultiplier: 0.25 },
+      risk: { maxDailyLossPct: 5, maxConsecutiveLosses: 3, maxDailyTrades: 10 },
+    });
+
+    expect(issues).toEqual([
+      { path: 'regime.blockLongs[0].trend', message: "must be one of BULLISH, BEARISH, NEUTRAL (got 'DOWN')" },
+      { path: 'regime.lowPercentile', message: 'must be below regime.highPercentile' },
+    ]);
+  });
+
+  it('rejects a zero continuous check interval', () => {
+    const issues = validateBotConfig({
+      botId: 'continuous',
+      timeframe: '4h',
+      paperMode: true,
+      liveTradingEnabled: false,
+      indicator: { type: 'mfi', params: {} },
+      position: { tradeLegUsdc: 100, atrTpMultiplier: 1, atrTrailMultiplier: 2, breakEvenLockMultiplier: 0.25 },
+      risk: { maxDailyLossPct: 5, maxConsecutiveLosses: 3, maxDailyTrades: 10 },
+      continuous: { enabled: true, executionOffsetMinutes: 1, checkIntervalMinutes: 0 },
+    });
+
+    expect(issues).toEqual([{ path: 'continuous.checkIntervalMinutes', message: 'must be above 0' }]);
+  });
+
+  it('validates position ladders', () => {
+    const config = (ladder: unknown[]) => ({
+      botId: 'ladder',
+      timeframe: '4h',
+      paperMode: true,
+      liveTradingEnabled: false,
+      indicator: { type: 'mfi', params: {} },
+      position: { tradeLegUsdc: 100, atrTpMultiplier: 1, atrTrailMultiplier: 2, breakEvenLockMultiplier: 0.25, ladder },
+      risk: { maxDailyLossPct: 5, maxConsecutiveLosses: 3, maxDailyTrades: 10 },
+    });
+
+    expect(validateBotConfig(config([{ size: 0.5, atrTarget: 1 }, { size: 0.5, stop: 'LOOSE' }]))).toEqual([
+      { path: 'position.ladder[1].stop', message: "must be one of NONE, BREAKEVEN, TRAILING (got 'LOOSE')" },
+    ]);
+    expect(validateBotConfig(config([{ size: 0.5, atrTarget: 1 }, { size: 0.4 }]))).toEqual([
+      { path: 'position.ladder', message: 'leg sizes must sum to 1 (got 0.9)' },
+    ]);
+    expect(validateBotConfig(config([{ size: 0.5, atrTarget: 1 }, { size: 0.5, atrTarget: 2, stopActivation: 'ALL_TP' }]))).toEqual([]);
+  });
+
+  it('validates initial stops', () => {
+    const config = (initialStop: unknown) => ({
+      botId: 'stop',
+      timeframe: '4h',
+      paperMode: true,
+      liveTradingEnabled: false,
+      indicator: { type: 'mfi', params: {} },
+      position: { tradeLegUsdc: 100, atrTpMultiplier: 1, atrTrailMultiplier: 2, breakEvenLockMultiplier: 0.25, initialStop },
+      risk: { maxDailyLossPct: 5, maxConsecutiveLosses: 3, maxDailyTrades: 10 },
+    });
+
+    expect(validateBotConfig(config({ type: 'FIXED', value: 2 }))).toEqual([
+      { path: 'position.initialStop.type', message: "must be one of ATR, PERCENT, SWING_LOW (got 'FIXED')" },
+    ]);
+    expect(validateBotConfig(config({ type: 'PERCENT', value: 100 }))).toEqual([
+      { path: 'position.initialStop.value', message: 'must be below 100 for PERCENT stops' },
+    ]);
+    expect(validateBotConfig(config({ type: 'SWING_LOW', value: 4.5 }))).toEqual([
+      { path: 'position.initialStop.value', message: 'must be a whole number of candles for SWING_LOW stops' },
+    ]);
+    expect(validateBotConfig(config({ type: 'ATR', value: 1.5 }))).toEqual([]);
+  });
+
+  it('validates intrabar exits', () => {
+    const config = (intrabar: unknown) => ({
+      botId: 'intrabar',
+      timeframe: '4h',
+      paperMode: true,
+      liveTradingEnabled: false,
+      indicator: { type: 'mfi', params: {} },
+      position: { tradeLegUsdc: 100, atrTpMultiplier: 1, atrTrailMultiplier: 2, breakEvenLockMultiplier: 0.25, intrabar },
+      risk: { maxDailyLossPct: 5, maxConsecutiveLosses: 3, maxDailyTrades: 10 },
+    });
+
+    expect(validateBotConfig(config({ policy: 'LOWER_TIMEFRAME' }))).toEqual([
+      { path: 'position.intrabar.timeframe', message: 'is required for LOWER_TIMEFRAME' },
+    ]);
+    expect(validateBotConfig(config({ policy: 'LOWER_TIMEFRAME', timeframe: '3h' }))[0].message).toMatch(/^must be one of/);
+    expect(validateBotConfig(config({ policy: 'LOWER_TIMEFRAME', timeframe: '6h' }))).toEqual([
+      { path: 'position.intrabar.timeframe', message: 'must be shorter than and divide timeframe 4h' },
+    ]);
+    expect(validateBotConfig(config({ policy: 'LOWER_TIMEFRAME', timeframe: '15m' }))).toEqual([]);
+    expect(validateBotConfig(config({}))).toEqual([]);
+  });
+
+  it('validates trailing stop methods', () => {
+    const config = (trailingStop: unknown, initialStop?: unknown) => ({
+      botId: 'trailing',
+      timeframe: '4h',
+      paperMode: true,
+      liveTradingEnabled: false,
+      indicator: { type: 'mfi', params: {} },
+      position: {
+        tradeLegUsdc: 100,
+        atrTpMultiplier: 1,
+        atrTrailMultiplier: 2,
+        breakEvenLockMultiplier: 0.25,
+        trailingStop,
+        initialStop,
+      },
+      risk: { maxDailyLossPct: 5, maxConsecutiveLosses: 3, maxDailyTrades: 10 },
+    });
+
+    expect(validateBotConfig(config({ type: 'PERCENT' }))).toEqual([
+      { path: 'position.trailingStop.percent', message: 'must be above 0 for PERCENT stops' },
+    ]);
+    expect(validateBotConfig(config({ type: 'R_MULTIPLE', steps: [{ profitR: 1, lockR: 1 }] }))).toEqual([
+      { path: 'position.trailingStop.steps[0].lockR', message: 'must be below profitR' },
+      { path: 'position.trailingStop', message: 'R_MULTIPLE stops need position.initialStop to size R' },
+    ]);
+    expect(validateBotConfig(config({ type: 'PARABOLIC_SAR', acceleration: 0.3 }))).toEqual([
+      { path: 'position.trailingStop.acceleration', message: 'must not exceed maxAcceleration' },
+    ]);
+    expect(
+      validateBotConfig(
+        config({ type: 'R_MULTIPLE', steps: [{ profitR: 2, lockR: 1 }] }, { type: 'ATR', value: 2 })
+      )
+    ).toEqual([]);
+    expect(validateBotConfig(config({ type: 'CHANDELIER', period: 22, multiplier: 3 }))).toEqual([]);
+  });
+
+  it('validates time exits', () => {
+    const config = (timeExits: unknown) => ({
+      botId: 'time',
+      timeframe: '4h',
+      paperMode: true,
+      liveTradingEnabled: false,
+      indicator: { type: 'mfi', params: {} },
+      position: { tradeLegUsdc: 100, atrTpMultiplier: 1, atrTrailMultiplier: 2, breakEvenLockMultiplier: 0.25, timeExits },
+      risk: { maxDailyLossPct: 5, maxConsecutiveLosses: 3, maxDailyTrades: 10 },
+    });
+
+    expect(validateBotConfig(config({ noNewHighCandles: 0 }))).toEqual([
+      { path: 'position.timeExits.noNewHighCandles', message: 'must be >= 1 (got 0)' },
+    ]);
+    expect(
+      validateBotConfig(
+        config({ blackouts: [{ start: 'FOMC', end: '2024-03-20T18:00Z' }, { start: '2024-03-20T18:00Z', end: '2024-03-20T17:00Z' }] })
+      )
+    ).toEqual([
+      { path: 'position.timeExits.blackouts[0].start', message: 'must be an ISO 8601 date' },
+      { path: 'position.timeExits.blackouts[1].end', message: 'must be after start' },
+    ]);
+    expect(
+      validateBotConfig(
+        config({
+          maxHoldingHours: { TP: 24, RUNNER: 96 },
+          noNewHighCandles: 12,
+          blackouts: [{ start: '2024-03-20T17:30Z', end: '2024-03-20T19:00Z', exitBeforeMinutes: 30 }],
+        })
+      )
+    ).toEqual([]);
+  });
+
+  it('flags missing environment variables without defaults', () => {
+    const file = writeConfig('bot.yml', YAML_CONFIG);
+    expect(() => loadBotConfigFile(file, { env: {} })).toThrow('stateFile: environment variable STATE_DIR is not set');
+  });
+
+  it('reads files as written, keeping ${VAR} placeholders', () => {
+    const file = writeConfig('bot.yml', YAML_CONFIG);
+    const raw = readBotConfigFile(file) as Record<string, unknown>;
+
+    expect(raw.stateFile).toBe('${STATE_DIR}/state-mfi-4h.json');
+    expect(raw).toHaveProperty('environments.production.paperMode', false);
+  });
+
+  it('validates objects directly', () => {
+    expect(validateBotConfig({})).toEqual(
+      expect.arrayContaining([{ path: 'botId', message: 'is required' }])
+    );
+  });
+});
+
+describe('resolveConfigFilePath', () => {
+  const base = path.join(os.tmpdir(), 'bots');
+
+  it('resolves relative paths inside the base directory', () => {
+    expect(resolveConfigFilePath(base, 'configs/mfi-4h.yaml')).toBe(path.join(base, 'configs', 'mfi-4h.yaml'));
+  });
+
+  it.each(['/etc/passwd', '../secrets.json', 'configs/../../secrets.json', '.'])('rejects %s', (configFile) => {
+    expect(() => resolveConfigFilePath(base, configFile)).toThrow('Config file must be a relative path inside');
+  });
+});
@@ -0,0 +1,52 @@
+import { ContinuousScheduler } from '../src/runner/ContinuousScheduler';
+import type { BotRunner } from '../src/runner/BotRunner';
+import { getCandleOpenTime, getNextCandleClose } from '../src/data/intervals';
+import type { BotConfig } from '../src/types';
+
+const config = {
+  botId: 'scheduler-bot',
+  timeframe: '4h',
+  continuous: { enabled: true, executionOffsetMinutes: 1, checkIntervalMinutes: 5 },
+} as BotConfig;
+
+describe('interval helpers', () => {
+  it('aligns candle boundaries to UTC', () => {
+    const t = Date.UTC(2024, 0, 1, 5, 30);
+
+    expect(getCandleOpenTime(t, '4h')).toBe(Date.UTC(2024, 0, 1, 4));
+    expect(getNextCandleClose(t, '4h')).toBe(Date.UTC(2024, 0, 1, 8));
+    expect(getNextCandleClose(t, '1d')).toBe(Date.UTC(2024, 0, 2));
+    // 2024-01-01 is a Monday
+    expect(getCandleOpenTime(Date.UTC(2024, 0, 3), '1w')).toBe(Date.UTC(2024, 0, 1));
+  });
+});
+
+describe('ContinuousScheduler', () => {
+  it('runs a catch-up cycle on start and stops gracefully', async () => {
+    const runner = {
+      runCycle: jest.fn().mockResolvedValue({ processed: true, candlesProcessed: 2 }),
+      hasNewCandle: jest.fn().mockResolvedValue(false),
+    } as unknown as BotRunner;
+    const onCycle = jest.fn();
+
+    const scheduler = new ContinuousScheduler(runner, config, { handleSignals: false, onCycle });
+    const done = scheduler.start();
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(scheduler.isRunning()).toBe(true);
+
+    await scheduler.stop();
+    await done;
+
+    expect(runner.runCycle).toHaveBeenCalledTimes(1);
+    expect(onCycle).toHaveBeenCalledTimes(1);
+    expect(scheduler.isRunning()).toBe(false);
+  });
+
+  it('refuses to start when continuous mode is disabled', async () => {
+    const disabled = { ...config, continuous: { ...config.continuous!, enabled: false } };
+    const scheduler = new ContinuousScheduler({} as BotRunner, disabled, { handleSignals: false });
+
+    await expect(scheduler.start()).rejects.toThrow('Continuous mode is disabled');
+  });
+});
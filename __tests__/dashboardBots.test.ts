@@ -0,0 +1,113 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { createDashboardApp, type DashboardApp } from '../src/dashboard/createDashboardApp';
+
+const JWT_SECRET = 'dashboard-test-secret';
+
+const BOT_CONFIG = `
+botId: mfi-4h
+timeframe: 4h
+paperMode: true
+liveTradingEnabled: false
+indicator: { type: mfi, params: { period: 14, buyLevel: 30, sellLevel: 70 } }
+position: { tradeLegUsdc: 100, atrTpMultiplier: 1, atrTrailMultiplier: 2.5, breakEvenLockMultiplier: 0.25 }
+risk: { maxDailyLossPct: 5, maxConsecutiveLosses: 3, maxDailyTrades: 10 }
+stateFile: \${DASHBOARD_TEST_SECRET}/state.json
+`;
+
+describe('dashboard bot config files', () => {
+  let dir: string;
+  let dashboard: DashboardApp;
+  let baseUrl: string;
+  const auth = { Authorization: `Bearer ${jwt.sign({ username: 'admin' }, JWT_SECRET)}` };
+
+  function writeBots(bots: object[]): void {
+    fs.writeFileSync(path.join(dir, 'bots.json'), JSON.stringify(bots));
+  }
+
+  function bot(id: string, configFile: string): object {
+    return { id, name: id, stateFile: path.join(dir, `state-${id}.json`), logFile: '', serviceName: `bot@${id}`, configFile };
+  }
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dashboard-'));
+    process.env.DASHBOARD_TEST_SECRET = 'hunter2';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    dashboard = createDashboardApp({
+      port: 0,
+      botsFile: path.join(dir, 'bots.json'),
+      stateDir: dir,
+      logsDir: dir,
+      csvDir: dir,
+      jwtSecret: JWT_SECRET,
+      adminUsername: 'admin',
+      adminPasswordHash: 'unused',
+      corsOrigins: [],
+    });
+    jest.spyOn(dashboard.systemctl, 'enable').mockResolvedValue(undefined as never);
+    jest.spyOn(dashboard.systemctl, 'start').mockResolvedValue(undefined as never);
+
+    await new Promise<void>((resolve) => dashboard.httpServer.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(dashboard.httpServer.address() as AddressInfo).port}/api/bots`;
+  });
+
+  afterEach(async () => {
+    dashboard.httpServer.closeAllConnections();
+    await dashboard.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+    delete process.env.DASHBOARD_TEST_SECRET;
+    jest.restoreAllMocks();
+  });
+
+  it('rejects config files outside the bots.json directory on create', async () => {
+    for (const configFile of ['/etc/passwd', '../outside.json', 'configs/../../outside.json']) {
+      const res = await fetch(baseUrl, {
+        method: 'POST',
+        headers: { ...auth, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ indicator: 'mfi', timeframe: '4h', configFile }),
+      });
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({
+        success: false,
+        error: 'configFile must be a relative path inside the bots.json directory',
+      });
+    }
+    expect(fs.existsSync(path.join(dir, 'bots.json'))).toBe(false);
+  });
+
+  it('returns config files without interpolating environment variables', async () => {
+    fs.writeFileSync(path.join(dir, 'mfi-4h.yaml'), BOT_CONFIG);
+    writeBots([bot('mfi-4h', 'mfi-4h.yaml')]);
+
+    const res = await fetch(`${baseUrl}/mfi-4h/config`, { headers: auth });
+    const body = (await res.json()) as { config: Record<string, unknown> };
+
+    expect(res.status).toBe(200);
+    expect(body.config.stateFile).toBe('${DASHBOARD_TEST_SECRET}/state.json');
+    expect(JSON.stringify(body)).not.toContain('hunter2');
+  });
+
+  it('refuses stored config paths outside the bots.json directory', async () => {
+    writeBots([bot('escape', '../outside.json')]);
+
+    const res = await fetch(`${baseUrl}/escape/config`, { headers: auth });
+
+    expect(res.status).toBe(422);
+    expect(await res.json()).toEqual({ success: false, error: 'Bot config file is not inside the bots.json directory' });
+  });
+
+  it('answers invalid config files with a generic error', async () => {
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{ "botId": "hunter2",');
+    writeBots([bot('broken', 'broken.json')]);
+
+    const res = await fetch(`${baseUrl}/broken/config`, { headers: auth });
+
+    expect(res.status).toBe(422);
+    expect(await res.json()).toEqual({ success: false, error: 'Bot config file is missing or invalid' });
+  });
+});
@@ -0,0 +1,87 @@
+import { detectDivergences, findPivots } from '../src/indicators/divergence';
+import { getIndicatorValues, listIndicators } from '../src/indicators/registry';
+import { createStrategy, hasStrategy } from '../src/strategy/registry';
+import { candlesFromCloses, HOUR } from './helpers/candles';
+
+/** Flat series at 100 with triangular swings ([index, size]; negative size = dip) */
+function swings(count: number, moves: Array<[number, number]>): number[] {
+  return Array.from({ length: count }, (_, i) =>
+    moves.reduce((value, [at, size]) => value + size * Math.max(0, 1 - Math.abs(i - at) / 8), 100)
+  );
+}
+
+const toCandles = (closes: number[]) => candlesFromCloses(closes, { volume: () => 100 });
+
+describe('findPivots', () => {
+  it('needs a strict left side and counts flat tops once', () => {
+    expect(findPivots([1, 3, 2, 5, 5, 1], 1, 1)).toEqual([
+      { index: 1, value: 3, kind: 'HIGH' },
+      { index: 2, value: 2, kind: 'LOW' },
+      { index: 3, value: 5, kind: 'HIGH' },
+    ]);
+    expect(findPivots([null, 3, 1], 1, 1)).toEqual([]);
+  });
+});
+
+describe('detectDivergences', () => {
+  const cases: Array<[string, Array<[number, number]>, Array<[number, number]>, string, string]> = [
+    ['lower low, indicator higher low', [[15, -10], [35, -15]], [[15, -15], [36, -10]], 'REGULAR', 'BULLISH'],
+    ['higher low, indicator lower low', [[15, -15], [35, -10]], [[15, -10], [36, -15]], 'HIDDEN', 'BULLISH'],
+    ['higher high, indicator lower high', [[15, 10], [35, 15]], [[15, 15], [36, 10]], 'REGULAR', 'BEARISH'],
+    ['lower high, indicator higher high', [[15, 15], [35, 10]], [[15, 10], [36, 15]], 'HIDDEN', 'BEARISH'],
+  ];
+
+  it.each(cases)('classifies %s', (_, price, indicator, type, direction) => {
+    const candles = toCandles(swings(50, price));
+    const [divergence, ...rest] = detectDivergences(candles, swings(50, indicator));
+
+    expect(rest).toEqual([]);
+    expect(divergence).toMatchObject({ type, direction, confirmedIndex: 41, timestamp: 41 * HOUR });
+    expect(divergence.start).toMatchObject({ index: 15, indicatorIndex: 15 });
+    expect(divergence.end).toMatchObject({ index: 35, indicatorIndex: 36 });
+  });
+
+  it('respects pivot distance and alignment limits', () => {
+    const candles = toCandles(swings(50, [[15, -10], [35, -15]]));
+    const indicator = swings(50, [[15, -15], [39, -10]]);
+
+    expect(detectDivergences(candles, indicator)).toEqual([]);
+    expect(detectDivergences(candles, indicator, { alignment: 4 })).toHaveLength(1);
+    expect(detectDivergences(candles, indicator, { alignment: 4, maxDistance: 15 })).toEqual([]);
+    expect(() => detectDivergences(candles, indicator.slice(1))).toThrow('49 values for 50 candles');
+  });
+});
+
+describe('DivergenceStrategy', () => {
+  // Swings with growing amplitude and a drifting bias, so oscillators lag price extremes
+  const candles = toCandles(Array.from({ length: 300 }, (_, i) => 100 + Math.sin(i / 6) * (5 + i / 20) + Math.sin(i / 37) * 8));
+
+  it('is registered for every registry indicator', () => {
+    for (const { id } of listIndicators()) {
+      expect(hasStrategy(`${id}-divergence`)).toBe(true);
+    }
+  });
+
+  it('triggers on the confirming candle and keeps the trend for trendWindow candles', () => {
+    const strategy = createStrategy({ type: 'macd-divergence', params: { trendWindow: 5 } });
+    const values = getIndicatorValues('macd', candles);
+    const divergence = detectDivergences(candles, values).find(
+      (d) => d.type === 'REGULAR' && d.confirmedIndex >= strategy.warmupCandles
+    );
+    expect(divergence).toBeDefined();
+
+    const { confirmedIndex, direction } = divergence!;
+    const expected = direction === 'BULLISH' ? 'LONG' : 'SHORT';
+    const signal = strategy.onCandle(candles.slice(0, confirmedIndex + 1));
+
+    expect(signal).toMatchObject({ type: expected, trend: expected, indicator: 'macd-divergence' });
+    expect(signal.indicatorValue).toBeCloseTo(values[confirmedIndex]!);
+    expect(strategy.onCandle(candles.slice(0, confirmedIndex + 2))).toMatchObject({ type: 'NONE', trend: expected });
+    expect(strategy.onCandle(candles.slice(0, confirmedIndex + 6)).trend).toBe('NONE');
+  });
+
+  it('rejects an output index the indicator does not have', () => {
+    const strategy = createStrategy({ type: 'mfi-divergence', params: { output: 1 } });
+    expect(() => strategy.onCandle(candles)).toThrow('mfi-divergence: output must be between 0 and 0');
+  });
+});
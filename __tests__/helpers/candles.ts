@@ -0,0 +1,60 @@
+import type { Candle } from '../../src/types';
+
+export const HOUR = 3600000;
+
+/**
+ * Shape of synthetic candles
+ *
+ * close = base + trend × i + wave(i); the open sits `open` below the close
+ * and high / low sit `range` above and below it.
+ */
+export interface CandleShape {
+  /** First timestamp (default 0) */
+  start?: number;
+  /** Milliseconds between candles (default 1h) */
+  interval?: number;
+  /** Close of the first candle before the wave (default 100) */
+  base?: number;
+  /** Close change per candle (default 0) */
+  trend?: number;
+  /** Added to each close (default: none) */
+  wave?: (i: number) => number;
+  /** Distance of the open below the close (default 0) */
+  open?: number | ((i: number) => number);
+  /** Half the high-low range (default 1) */
+  range?: number | ((i: number, close: number) => number);
+  /** Volume per candle (default 1000) */
+  volume?: (i: number) => number;
+}
+
+const at = (value: number | ((i: number, close: number) => number), i: number, close: number) =>
+  typeof value === 'number' ? value : value(i, close);
+
+/**
+ * Synthetic candles with a trend, a wave and a range shape
+ */
+export function makeCandles(count: number, shape: CandleShape = {}): Candle[] {
+  const { base = 100, trend = 0, wave = () => 0 } = shape;
+  return candlesFromCloses(
+    Array.from({ length: count }, (_, i) => base + trend * i + wave(i)),
+    shape
+  );
+}
+
+/**
+ * Candles around given closes
+ */
+export function candlesFromCloses(closes: number[], shape: CandleShape = {}): Candle[] {
+  const { start = 0, interval = HOUR, open = 0, range = 1, volume = () => 1000 } = shape;
+  return closes.map((close, i) => {
+    const half = at(range, i, close);
+    return {
+      timestamp: start + i * interval,
+      open: close - at(open, i, close),
+      high: close + half,
+      low: close - half,
+      close,
+      volume: volume(i),
+    };
+  });
+}
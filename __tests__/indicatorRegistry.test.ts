@@ -0,0 +1,81 @@
+import {
+  INDICATORS,
+  listIndicators,
+  getIndicatorWarmup,
+  resolveIndicatorParams,
+  validateIndicatorParams,
+} from '../src/indicators';
+import { createStrategy, getRegisteredStrategies } from '../src/strategy/registry';
+import { INDICATORS as DASHBOARD_INDICATORS } from '../src/dashboard/types';
+import { makeCandles, type CandleShape } from './helpers/candles';
+
+const SHAPE: CandleShape = {
+  wave: (i) => Math.sin(i / 5) * 10 + Math.cos(i / 17) * 3,
+  open: (i) => Math.sin(i / 2),
+  range: 1.5,
+  volume: (i) => 800 + (i % 9) * 60,
+};
+
+describe('indicator registry', () => {
+  const candles = makeCandles(250, SHAPE);
+
+  it('describes every built-in strategy with consistent metadata', () => {
+    for (const definition of listIndicators()) {
+      expect(INDICATORS[definition.id]).toBe(definition);
+      expect(getRegisteredStrategies()).toContain(definition.id);
+      expect(definition.timeframes.length).toBeGreaterThan(0);
+
+      for (const spec of definition.params) {
+        expect(spec.default).toBeGreaterThanOrEqual(spec.min);
+        expect(spec.default).toBeLessThanOrEqual(spec.max);
+        expect(spec.step).toBeGreaterThan(0);
+      }
+      expect(validateIndicatorParams(definition.id, resolveIndicatorParams(definition.id))).toEqual([]);
+    }
+  });
+
+  it('calculate, getSignal and warmup agree for every indicator', () => {
+    for (const definition of listIndicators()) {
+      const params = resolveIndicatorParams(definition.id);
+      const series = definition.calculate(candles, params);
+      const { result } = definition.getSignal(candles, params);
+      const warmup = getIndicatorWarmup(definition.id);
+
+      expect(result).toEqual(series[series.length - 1]);
+      for (const field of definition.outputs) {
+        expect(result).toHaveProperty(field);
+      }
+      expect(definition.getSignal(candles.slice(0, warmup), params).result).not.toBeNull();
+      expect(createStrategy({ type: definition.id, params: {} }).warmupCandles).toBe(Math.max(warmup, 15));
+    }
+  });
+
+  it('feeds the dashboard options', () => {
+    expect(DASHBOARD_INDICATORS.map((option) => option.id)).toEqual(Object.keys(INDICATORS));
+    expect(DASHBOARD_INDICATORS.find((option) => option.id === 'vwap')!.timeframes).toEqual(['1h', '4h']);
+    expect(DASHBOARD_INDICATORS.find((option) => option.id === 'mfi')!.params.map((p) => p.name)).toEqual([
+      'period',
+      'buyLevel',
+      'sellLevel',
+    ]);
+  });
+
+  it('validates params against their specs', () => {
+    expect(resolveIndicatorParams('macd', { fastPeriod: 8 })).toEqual({
+      fastPeriod: 8,
+      slowPeriod: 26,
+      signalPeriod: 9,
+      atrPeriod: 14,
+    });
+
+    expect(validateIndicatorParams('mfi', { period: 14.5, buyLevel: 120, atrPeriod: 10, lookback: 3 })).toEqual([
+      { param: 'period', message: 'must be a whole number' },
+      { param: 'buyLevel', message: 'must be between 0 and 100' },
+      { param: 'lookback', message: expect.stringContaining('unknown parameter for MFI') },
+    ]);
+    expect(validateIndicatorParams('macd', { fastPeriod: 30 })).toEqual([
+      { param: 'fastPeriod', message: 'must be below slowPeriod' },
+    ]);
+    expect(() => validateIndicatorParams('nope')).toThrow('Unknown indicator: nope');
+  });
+});
@@ -0,0 +1,23 @@
+import fs from 'fs';
+import path from 'path';
+import { listIndicators, loadReferenceCSV, verifyIndicator, formatVerificationReport } from '../src/indicators';
+
+const SNAPSHOTS = path.join(__dirname, 'fixtures', 'indicator-snapshots');
+
+describe('indicator regression snapshots', () => {
+  it('exist for every built-in indicator', () => {
+    const snapshots = fs.readdirSync(SNAPSHOTS).filter((file) => file.endsWith('.csv'));
+    expect(snapshots.map((file) => path.basename(file, '.csv')).sort()).toEqual(
+      listIndicators().map((definition) => definition.id).sort()
+    );
+  });
+
+  it.each(listIndicators().map((definition) => definition.id))('%s matches its snapshot', (indicator) => {
+    const result = verifyIndicator(loadReferenceCSV(path.join(SNAPSHOTS, `${indicator}.csv`)), { indicator });
+
+    if (!result.passed) {
+      throw new Error(formatVerificationReport(result));
+    }
+    expect(result.compared).toBeGreaterThan(100);
+  });
+});
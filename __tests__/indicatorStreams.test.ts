@@ -0,0 +1,108 @@
+import {
+  calculateMFISeries,
+  calculateATRSeries,
+  calculateTCF2Series,
+  calculateKPSSSeries,
+  calculateTDFISeries,
+  calculateDSSMOMSeries,
+  initIndicatorStream,
+  listIndicators,
+  restoreIndicatorStream,
+  type StreamableIndicator,
+} from '../src/indicators';
+import type { Candle } from '../src/types';
+import { makeCandles, type CandleShape } from './helpers/candles';
+
+const SHAPE: CandleShape = {
+  trend: 0.05,
+  wave: (i) => Math.sin(i / 5) * 10 + Math.cos(i / 13) * 4,
+  open: (i) => Math.sin(i / 3),
+  range: (i) => 1.5 + (i % 3) * 0.5,
+  volume: (i) => 400 + (i % 7) * 90,
+};
+
+/** Batch series keyed by timestamp, flattened to the stream's result shape */
+function batchByTimestamp(indicator: StreamableIndicator, candles: Candle[]): Map<number, object> {
+  const byTimestamp = new Map<number, object>();
+  const fromValues = (values: Array<number | null>) =>
+    values.forEach((value, i) => {
+      if (value !== null) byTimestamp.set(candles[i].timestamp, { value, timestamp: candles[i].timestamp });
+    });
+  const fromResults = (results: Array<{ timestamp: number }>) =>
+    results.forEach((result) => byTimestamp.set(result.timestamp, result));
+
+  switch (indicator) {
+    case 'mfi': fromValues(calculateMFISeries(candles)); break;
+    case 'atr': fromValues(calculateATRSeries(candles)); break;
+    case 'tcf2': fromResults(calculateTCF2Series(candles)); break;
+    case 'kpss': fromResults(calculateKPSSSeries(candles)); break;
+    case 'tdfi': fromResults(calculateTDFISeries(candles)); break;
+    case 'dssmom': fromResults(calculateDSSMOMSeries(candles)); break;
+  }
+  return byTimestamp;
+}
+
+const INDICATORS: StreamableIndicator[] = ['mfi', 'atr', 'tcf2', 'kpss', 'tdfi', 'dssmom'];
+
+describe('indicator streams', () => {
+  const candles = makeCandles(300, SHAPE);
+
+  it.each(INDICATORS)('%s stream matches the batch series', (indicator) => {
+    const batch = batchByTimestamp(indicator, candles);
+    const stream = initIndicatorStream(indicator);
+    let emitted = 0;
+
+    for (const candle of candles) {
+      const result = stream.update(candle);
+      const expected = batch.get(candle.timestamp);
+      if (result === null) {
+        expect(expected).toBeUndefined();
+        continue;
+      }
+      emitted++;
+      expect(expected).toBeDefined();
+      for (const [key, value] of Object.entries(expected as Record<string, number>)) {
+        expect((result as unknown as Record<string, number>)[key]).toBeCloseTo(value, 9);
+      }
+    }
+
+    expect(emitted).toBeGreaterThan(0);
+    expect(emitted).toBe(batch.size);
+  });
+
+  it.each(INDICATORS)('%s stream continues identically after a JSON round trip', (indicator) => {
+    const params: Record<string, number> = indicator === 'mfi' ? { period: 10 } : {};
+    const uninterrupted = initIndicatorStream(indicator, params);
+    const first = initIndicatorStream(indicator, params);
+
+    for (const candle of candles.slice(0, 150)) {
+      uninterrupted.update(candle);
+      first.update(candle);
+    }
+
+    const restored = restoreIndicatorStream(JSON.parse(JSON.stringify(first.serialize())));
+    for (const candle of candles.slice(150)) {
+      expect(restored.update(candle)).toEqual(uninterrupted.update(candle));
+    }
+  });
+
+  it('rejects snapshots from another indicator', () => {
+    const snapshot = initIndicatorStream('mfi').serialize();
+    expect(() => restoreIndicatorStream({ ...snapshot, indicator: 'nope' })).toThrow('No incremental implementation');
+  });
+
+  it('flags exactly the streamed registry indicators as streamable', () => {
+    const streamable = listIndicators().filter((definition) => definition.streamable).map((definition) => definition.id);
+    expect(streamable).toEqual(INDICATORS.filter((indicator) => indicator !== 'atr'));
+  });
+
+  it('rejects registry indicators without a stream', () => {
+    expect(() => initIndicatorStream('macd' as StreamableIndicator)).toThrow(
+      'macd has no streaming implementation; use getIndicatorValues() for its series'
+    );
+    const snapshot = initIndicatorStream('mfi').serialize();
+    expect(() => restoreIndicatorStream({ ...snapshot, indicator: 'bollinger' })).toThrow(
+      'bollinger has no streaming implementation'
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  parseReferenceCSV,
+  verifyIndicator,
+  formatVerificationReport,
+} from '../src/indicators';
+
+describe('verifyIndicator', () => {
+  const csv = [
+    'Time,Open,High,Low,Close,Volume,SMA',
+    '2024.01.01 00:00,10,11,9,10,100,',
+    '2024.01.01 04:00,10,13,9,12,100,11',
+    '2024.01.01 08:00,12,15,11,14,100,13',
+    '2024.01.01 12:00,14,15,12,13,100,2147483647',
+    '2024.01.01 16:00,13,17,12,16,100,14.6',
+  ].join('\n');
+
+  it('parses MT4-style exports', () => {
+    const dataset = parseReferenceCSV(csv, 'sma-mt4');
+
+    expect(dataset.candles[1]).toEqual({
+      timestamp: Date.UTC(2024, 0, 1, 4),
+      open: 10,
+      high: 13,
+      low: 9,
+      close: 12,
+      volume: 100,
+    });
+    expect(dataset.columns.SMA).toEqual([null, 11, 13, null, 14.6]);
+  });
+
+  it('reports the first divergence with surrounding rows', () => {
+    const result = verifyIndicator(parseReferenceCSV(csv, 'sma-mt4'), {
+      indicator: 'sma',
+      params: { period: 2 },
+      columns: { SMA: 'value' },
+      contextRows: 1,
+    });
+
+    expect(result).toMatchObject({ passed: false, compared: 3 });
+    expect(result.divergence).toMatchObject({ index: 4, column: 'SMA', field: 'value', expected: 14.6, actual: 14.5 });
+    expect(result.divergence!.context.map((row) => row.actual.SMA)).toEqual([13.5, 14.5]);
+    expect(formatVerificationReport(result)).toContain('diverges at row 4 (2024-01-01T16:00:00.000Z) on SMA');
+
+    expect(
+      verifyIndicator(parseReferenceCSV(csv), { indicator: 'sma', params: { period: 2 }, columns: { SMA: 'value' }, tolerance: 0.2 })
+        .passed
+    ).toBe(true);
+  });
+
+  it('flags reference values our series has no value for', () => {
+    const result = verifyIndicator(parseReferenceCSV(csv), { indicator: 'sma', params: { period: 3 }, columns: { SMA: 'value' } });
+
+    expect(result.divergence).toMatchObject({ index: 1, expected: 11, actual: null, difference: Infinity });
+  });
+});
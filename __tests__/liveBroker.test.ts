@@ -1,6 +1,7 @@
 import { Keypair } from '@solana/web3.js';
 import { LiveBroker } from '../src/execution/LiveBroker';
-import type { PositionLeg } from '../src/types';
+import type { LiveBrokerConfig } from '../src/core/Broker';
+import type { Candle, PositionLeg } from '../src/types';
 
 const mockCanClosePosition = jest.fn();
 const mockGetQuoteBtcToUsdc = jest.fn();
@@ -29,28 +30,39 @@ jest.mock('../src/solana/wallet', () => ({
   sendAndConfirmVersionedTransaction: (...args: any[]) => mockSendAndConfirm(...args),
 }));
 
+function createBroker(overrides: Partial<LiveBrokerConfig> = {}): LiveBroker {
+  return new LiveBroker({
+    rpcUrl: 'http://localhost',
+    walletSecretKey: 'test',
+    usdcMint: 'usdc',
+    cbBtcMint: 'cb',
+    wbtcMint: 'wbtc',
+    slippageBps: 50,
+    tradeLegUsdc: 100,
+    atrTpMultiplier: 1,
+    atrTrailMultiplier: 2.5,
+    minBtcBalance: 0,
+    minUsdcReserve: 0,
+    maxPriceImpactBps: 100,
+    ...overrides,
+  });
+}
+
+/** Swap mocks for a sale returning usdcOut for the leg */
+function mockSwap(usdcOut: number, success: boolean = true): void {
+  mockCanClosePosition.mockResolvedValue({ canClose: true });
+  mockGetQuoteBtcToUsdc.mockResolvedValue({ outAmount: String(usdcOut * 1e6), priceImpactPct: 0 });
+  mockValidateQuote.mockResolvedValue(true);
+  mockBuildSwapTransaction.mockResolvedValue({ mock: true });
+  mockSendAndConfirm.mockResolvedValue(success ? { success: true, signature: 'sig' } : { success: false, error: 'failed' });
+}
+
+const candle = (close: number): Candle => ({ timestamp: 2, open: close, high: close, low: close, close, volume: 0 });
+
 describe('LiveBroker closeLeg', () => {
   it('uses leg.btcMint when closing', async () => {
-    mockCanClosePosition.mockResolvedValue({ canClose: true });
-    mockGetQuoteBtcToUsdc.mockResolvedValue({ outAmount: '1000000', priceImpactPct: 0 });
-    mockValidateQuote.mockResolvedValue(true);
-    mockBuildSwapTransaction.mockResolvedValue({ mock: true });
-    mockSendAndConfirm.mockResolvedValue({ success: true, signature: 'sig' });
-
-    const broker = new LiveBroker({
-      rpcUrl: 'http://localhost',
-      walletSecretKey: 'test',
-      usdcMint: 'usdc',
-      cbBtcMint: 'cb',
-      wbtcMint: 'wbtc',
-      slippageBps: 50,
-      tradeLegUsdc: 100,
-      atrTpMultiplier: 1,
-      atrTrailMultiplier: 2.5,
-      minBtcBalance: 0,
-      minUsdcReserve: 0,
-      maxPriceImpactBps: 100,
-    });
+    mockSwap(1);
+    const broker = createBroker();
 
     const leg: PositionLeg = {
       id: 'leg1',
@@ -76,3 +88,103 @@ describe('LiveBroker closeLeg', () => {
     expect(mockGetQuoteBtcToUsdc).toHaveBeenCalledWith(1, 'wbtc');
   });
 });
+
+describe('LiveBroker exits', () => {
+  const tp: PositionLeg = {
+    id: 'tp',
+    positionId: 'pos-1',
+    type: 'TP',
+    entryPrice: 100,
+    quantity: 1,
+    entryTime: 1,
+    status: 'OPEN',
+    targetPrice: 102,
+  };
+  const runner: PositionLeg = { ...tp, id: 'runner', type: 'RUNNER', targetPrice: undefined };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('sells legs updatePositions closed and records the executed price', async () => {
+    mockSwap(102.8);
+
+    const [closed, open] = await createBroker().updateAndClosePositions([tp, runner], candle(103), 2);
+
+    expect(mockSendAndConfirm).toHaveBeenCalledTimes(1);
+    expect(mockGetQuoteBtcToUsdc).toHaveBeenCalledWith(1, 'cb');
+    expect(closed).toMatchObject({ status: 'CLOSED', closePrice: 102.8, closeReason: 'TP target hit' });
+    expect(open.status).toBe('OPEN');
+  });
+
+  it('keeps legs open when the exit swap fails', async () => {
+    mockSwap(102.8, false);
+
+    const [leg] = await createBroker().updateAndClosePositions([tp], candle(103), 2);
+
+    expect(mockSendAndConfirm).toHaveBeenCalledTimes(1);
+    expect(leg).toMatchObject({ status: 'OPEN', closePrice: undefined, closeReason: undefined });
+  });
+
+  it('arms runner stops at the configured break-even lock', async () => {
+    mockSwap(102.8);
+
+    const broker = createBroker({ breakEvenLockMultiplier: 0.5 });
+    const [, armed] = await broker.updateAndClosePositions([tp, runner], candle(103), 2);
+
+    expect(armed).toMatchObject({ status: 'OPEN', trailingStop: 101 });
+  });
+
+  it('sells legs at the protective stop', async () => {
+    mockSwap(96.4);
+
+    const protectedLegs = [tp, runner].map((leg) => ({ ...leg, stopLoss: 97 }));
+    const legs = await createBroker().updateAndClosePositions(protectedLegs, candle(96.5), 2);
+
+    expect(mockSendAndConfirm).toHaveBeenCalledTimes(2);
+    expect(legs.map((leg) => [leg.status, leg.closePrice, leg.closeReason])).toEqual([
+      ['CLOSED', 96.4, 'Stop-loss hit'],
+      ['CLOSED', 96.4, 'Stop-loss hit'],
+    ]);
+  });
+
+  it('sells runners at the configured trailing stop method', async () => {
+    mockSwap(106.5);
+    const armed: PositionLeg = { ...runner, trailingStop: 105, highestPrice: 110 };
+
+    const [leg] = await createBroker({ trailingStop: { type: 'PERCENT', percent: 3 } }).updateAndClosePositions(
+      [armed],
+      candle(106.5),
+      2
+    );
+
+    expect(mockSendAndConfirm).toHaveBeenCalledTimes(1);
+    expect(leg).toMatchObject({ status: 'CLOSED', trailingStop: 106.7, closePrice: 106.5 });
+  });
+
+  it('sells legs closed by time exits', async () => {
+    mockSwap(100.4);
+    const broker = createBroker({ timeExits: { maxHoldingHours: { RUNNER: 1 } } });
+
+    const legs = await broker.updateAndClosePositions([tp, runner], candle(100.5), 2, { time: 1 + 3600000 });
+
+    expect(mockSendAndConfirm).toHaveBeenCalledTimes(1);
+    expect(legs.map((leg) => [leg.status, leg.closePrice, leg.closeReason])).toEqual([
+      ['OPEN', undefined, undefined],
+      ['CLOSED', 100.4, 'Max holding period reached'],
+    ]);
+  });
+
+  it('sells runners on trim signals', async () => {
+    mockSwap(104);
+    const signal = { type: 'SHORT' as const, timestamp: 2, price: 104, mfi: 75, atr: 2 };
+
+    const legs = await createBroker().trimRunners([tp, runner], signal, candle(104));
+
+    expect(mockSendAndConfirm).toHaveBeenCalledTimes(1);
+    expect(legs.map((leg) => [leg.id, leg.status, leg.closePrice])).toEqual([
+      ['tp', 'OPEN', undefined],
+      ['runner', 'CLOSED', 104],
+    ]);
+  });
+});
@@ -33,3 +33,45 @@ describe('PaperBroker close pricing', () => {
     expect(last.price).toBe(105);
   });
 });
+
+describe('PaperBroker position updates', () => {
+  it('settles legs closed by updateAndClosePositions', async () => {
+    const broker = new PaperBroker({
+      initialUsdcBalance: 1000,
+      initialBtcBalance: 0,
+      slippageBps: 0,
+      tradeLegUsdc: 100,
+      atrTpMultiplier: 1,
+      atrTrailMultiplier: 2.5,
+      breakEvenLockMultiplier: 0.25,
+    });
+    const candle = { timestamp: 1, open: 100, high: 100, low: 100, close: 100, volume: 1 };
+
+    const legs = await broker.openPosition({ type: 'LONG', timestamp: 1, price: 100, mfi: 25, atr: 10 }, candle);
+    await broker.updateAndClosePositions(legs!, { ...candle, timestamp: 2, close: 115, high: 115 }, 10);
+
+    const account = broker.getAccount();
+    expect(account.usdcBalance).toBeCloseTo(800 + 110);
+    expect(account.btcBalance).toBeCloseTo(1);
+  });
+});
+
+describe('PaperBroker ladders', () => {
+  it('spends tradeLegUsdc per ladder leg and settles each rung', async () => {
+    const broker = new PaperBroker({
+      initialUsdcBalance: 1000,
+      initialBtcBalance: 0,
+      slippageBps: 0,
+      tradeLegUsdc: 100,
+      ladder: [{ size: 0.5, atrTarget: 1 }, { size: 0.25, atrTarget: 2 }, { size: 0.25 }],
+    });
+    const candle = { timestamp: 1, open: 100, high: 100, low: 100, close: 100, volume: 1 };
+
+    const legs = await broker.openPosition({ type: 'LONG', timestamp: 1, price: 100, mfi: 25, atr: 10 }, candle);
+    expect(broker.getAccount().usdcBalance).toBeCloseTo(700);
+
+    await broker.updateAndClosePositions(legs!, { ...candle, timestamp: 2, close: 115, high: 115 }, 10);
+    expect(broker.getAccount().usdcBalance).toBeCloseTo(700 + 1.5 * 110);
+    expect(broker.getTradeHistory().map((t) => t.action)).toEqual(['OPEN_POSITION', 'CLOSE_TP']);
+  });
+});
@@ -1,4 +1,31 @@
-import { createTwoLegPosition } from '../src/strategy/position';
+import {
+  applyInitialStop,
+  calculateInitialStop,
+  createLadderPosition,
+  createTwoLegPosition,
+  findBlackout,
+  getIntrabarPath,
+  getLegLabel,
+  parseLegLabel,
+  updatePositions,
+  updatePositionsIntrabar,
+  validateLadder,
+} from '../src/strategy/position';
+import type { Candle, LadderLegConfig, PositionLeg, Signal, TimeExitConfig } from '../src/types';
+
+const SIGNAL: Signal = { type: 'LONG', timestamp: 1700000000000, price: 100, mfi: 50, atr: 2 };
+
+/** Apply a sequence of prices, dropping closed legs between updates like the runner does */
+function replay(legs: PositionLeg[], prices: number[], atr: number = 2): PositionLeg[] {
+  const closed: PositionLeg[] = [];
+  let open = legs;
+  for (const price of prices) {
+    const updated = updatePositions(open, price, atr, 2.5, 0.25);
+    closed.push(...updated.filter((leg) => leg.status === 'CLOSED'));
+    open = updated.filter((leg) => leg.status === 'OPEN');
+  }
+  return [...closed, ...open];
+}
 
 describe('createTwoLegPosition', () => {
   it('assigns a shared positionId to both legs', () => {
@@ -12,4 +39,275 @@ describe('createTwoLegPosition', () => {
     expect(legs[1].positionId).toBeDefined();
     expect(legs[0].positionId).toBe(legs[1].positionId);
   });
+
+  it('takes the logger fourth, or fifth after the deprecated trail multiplier', () => {
+    const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+    createTwoLegPosition(SIGNAL, 100, 1, logger);
+    const legacy = createTwoLegPosition(SIGNAL, 100, 1, 2.5, logger);
+
+    expect(logger.info).toHaveBeenCalledTimes(2);
+    expect(legacy.map((leg) => leg.targetPrice)).toEqual(createTwoLegPosition(SIGNAL, 100, 1).map((leg) => leg.targetPrice));
+  });
+});
+
+describe('createLadderPosition', () => {
+  const ladder: LadderLegConfig[] = [
+    { size: 0.2, atrTarget: 3 },
+    { size: 0.3, atrTarget: 1 },
+    { size: 0.3, atrTarget: 2, stop: 'BREAKEVEN' },
+    { size: 0.2 },
+  ];
+
+  it('sizes legs by fraction and numbers TP rungs by target', () => {
+    const legs = createLadderPosition(SIGNAL, ladder, 400);
+
+    expect(legs.map(getLegLabel)).toEqual(['TP1', 'TP2', 'TP3', 'RUNNER']);
+    expect(legs.map((leg) => leg.targetPrice)).toEqual([102, 104, 106, undefined]);
+    expect(legs.map((leg) => leg.quantity)).toEqual([1.2, 1.2, 0.8, 0.8]);
+    expect(legs[1].stopMode).toBe('BREAKEVEN');
+    expect(new Set(legs.map((leg) => leg.positionId)).size).toBe(1);
+  });
+
+  it('rejects ladders that do not add up', () => {
+    expect(validateLadder([{ size: 0.5, atrTarget: 1 }, { size: 0.3 }, { size: 0.3 }])).toEqual([
+      { path: '', message: 'leg sizes must sum to 1 (got 1.1)' },
+      { path: '', message: 'can have at most one runner (a leg without atrTarget)' },
+    ]);
+    expect(validateLadder([{ size: 1, atrTarget: 0 }])).toEqual([{ path: '[0].atrTarget', message: 'must be above 0' }]);
+    expect(() => createLadderPosition(SIGNAL, [{ size: 1 }], 100)).toThrow(
+      'Invalid ladder: ladder needs at least one TP leg (a leg with atrTarget)'
+    );
+  });
+});
+
+describe('updatePositions with ladders', () => {
+  const ladder = (stopActivation: LadderLegConfig['stopActivation']): LadderLegConfig[] => [
+    { size: 0.25, atrTarget: 1 },
+    { size: 0.25, atrTarget: 2, stop: 'BREAKEVEN' },
+    { size: 0.25, atrTarget: 3 },
+    { size: 0.25, stopActivation },
+  ];
+
+  it('arms the runner after the first TP fill by default', () => {
+    const legs = replay(createLadderPosition(SIGNAL, ladder(undefined), 400), [102.5]);
+    const runner = legs.find((leg) => leg.type === 'RUNNER')!;
+
+    expect(legs.filter((leg) => leg.status === 'CLOSED').map(getLegLabel)).toEqual(['TP1']);
+    expect(runner.trailingStop).toBe(100.5);
+  });
+
+  it('arms the runner only after every TP leg fills with ALL_TP', () => {
+    const legs = replay(createLadderPosition(SIGNAL, ladder('ALL_TP'), 400), [102.5, 104.5]);
+    expect(legs.find((leg) => leg.type === 'RUNNER')!.trailingStop).toBeUndefined();
+
+    const filled = replay(legs.filter((leg) => leg.status === 'OPEN'), [106.5]);
+    expect(filled.find((leg) => leg.type === 'RUNNER')!.trailingStop).toBe(106.5 - 2 * 2.5);
+  });
+
+  it('closes a break-even TP leg at its stop without trailing it', () => {
+    const legs = replay(createLadderPosition(SIGNAL, ladder(undefined), 400), [102.5, 103.5, 100.4]);
+    const tp2 = legs.find((leg) => leg.level === 2)!;
+
+    expect(tp2).toMatchObject({ status: 'CLOSED', closePrice: 100.5, closeReason: 'Break-even stop hit' });
+    expect(legs.find((leg) => leg.type === 'RUNNER')).toMatchObject({ status: 'CLOSED', closeReason: 'Trailing stop hit' });
+  });
+
+  it('only arms stops of the position whose TP filled', () => {
+    const near = createTwoLegPosition(SIGNAL, 100, 1);
+    const far = createTwoLegPosition({ ...SIGNAL, timestamp: SIGNAL.timestamp + 1 }, 100, 5);
+    const updated = updatePositions([...near, ...far], 102.5, 2);
+
+    expect(updated[1].trailingStop).toBe(100.5);
+    expect(updated[3].trailingStop).toBeUndefined();
+  });
+});
+
+describe('initial stop-loss', () => {
+  const candles: Candle[] = [97, 95, 96, 98].map((low, i) => ({
+    timestamp: i,
+    open: low + 2,
+    high: low + 4,
+    low,
+    close: low + 3,
+    volume: 1,
+  }));
+
+  it('places the stop by ATR multiple, percent or recent swing low', () => {
+    expect(calculateInitialStop({ type: 'ATR', value: 1.5 }, 100, 2)).toBe(97);
+    expect(calculateInitialStop({ type: 'PERCENT', value: 4 }, 100, 2)).toBe(96);
+    expect(calculateInitialStop({ type: 'SWING_LOW', value: 3, bufferAtr: 0.5 }, 100, 2, candles)).toBe(94);
+    expect(calculateInitialStop({ type: 'SWING_LOW', value: 1 }, 100, 2, candles)).toBe(98);
+  });
+
+  it('returns no stop unless it sits between zero and the entry price', () => {
+    expect(calculateInitialStop({ type: 'ATR', value: 60 }, 100, 2)).toBeUndefined();
+    expect(calculateInitialStop({ type: 'SWING_LOW', value: 3 }, 90, 2, candles)).toBeUndefined();
+    expect(calculateInitialStop({ type: 'SWING_LOW', value: 3 }, 100, 2, [])).toBeUndefined();
+    expect(applyInitialStop(SIGNAL, undefined, candles)).toBe(SIGNAL);
+    expect(applyInitialStop(SIGNAL, { type: 'ATR', value: 2 }, candles).stopLoss).toBe(96);
+  });
+
+  it('protects every leg from entry', () => {
+    const legs = createLadderPosition({ ...SIGNAL, stopLoss: 97 }, [{ size: 0.5, atrTarget: 1 }, { size: 0.5 }], 200);
+    expect(legs.map((leg) => leg.stopLoss)).toEqual([97, 97]);
+
+    const stopped = replay(legs, [98, 96.5]);
+    expect(stopped.map((leg) => [leg.status, leg.closePrice, leg.closeReason])).toEqual([
+      ['CLOSED', 97, 'Stop-loss hit'],
+      ['CLOSED', 97, 'Stop-loss hit'],
+    ]);
+  });
+
+  it('hands the runner over to its own stop once armed', () => {
+    const legs = replay(createTwoLegPosition({ ...SIGNAL, stopLoss: 97 }, 200), [102.5, 96]);
+    const runner = legs.find((leg) => leg.type === 'RUNNER')!;
+
+    expect(runner).toMatchObject({ status: 'CLOSED', closePrice: 100.5, closeReason: 'Trailing stop hit' });
+  });
+
+  it('drops a stop at or above the entry price', () => {
+    const legs = createTwoLegPosition({ ...SIGNAL, stopLoss: 100 }, 200);
+    expect(legs.every((leg) => leg.stopLoss === undefined)).toBe(true);
+  });
+});
+
+describe('intrabar exits', () => {
+  const bar = (open: number, high: number, low: number, close: number): Candle => ({
+    timestamp: SIGNAL.timestamp,
+    open,
+    high,
+    low,
+    close,
+    volume: 1,
+  });
+  const exits = (legs: PositionLeg[]) => legs.map((leg) => [leg.status, leg.closePrice, leg.closeReason]);
+
+  it('orders the high and low by policy', () => {
+    const candle = bar(100, 103, 99, 101);
+
+    expect(getIntrabarPath(candle)).toEqual([100, 99, 103, 101]);
+    expect(getIntrabarPath(candle, 'OPTIMISTIC')).toEqual([100, 103, 99, 101]);
+    expect(getIntrabarPath(bar(102, 103, 99, 101), 'OPEN_PROXIMITY')).toEqual([102, 103, 99, 101]);
+    expect(getIntrabarPath(candle, 'LOWER_TIMEFRAME')).toEqual([100, 99, 103, 101]);
+  });
+
+  it('fills a target touched by a wick at the target price', () => {
+    const legs = createTwoLegPosition(SIGNAL, 200);
+    const candle = bar(100.5, 102.5, 100, 101);
+
+    expect(updatePositions(legs, candle.close, 2).every((leg) => leg.status === 'OPEN')).toBe(true);
+    expect(exits(updatePositionsIntrabar(legs, candle, 2))).toEqual([
+      ['CLOSED', 102, 'TP target hit'],
+      ['OPEN', undefined, undefined],
+    ]);
+  });
+
+  it('lets the policy decide when the target and the stop are both hit', () => {
+    const legs = createTwoLegPosition({ ...SIGNAL, stopLoss: 98 }, 200);
+    const candle = bar(100, 102.5, 97.5, 100);
+
+    expect(exits(updatePositionsIntrabar(legs, candle, 2))).toEqual([
+      ['CLOSED', 98, 'Stop-loss hit'],
+      ['CLOSED', 98, 'Stop-loss hit'],
+    ]);
+    expect(exits(updatePositionsIntrabar(legs, candle, 2, 2.5, 0.25, { policy: 'OPTIMISTIC' }))).toEqual([
+      ['CLOSED', 102, 'TP target hit'],
+      ['CLOSED', 100.5, 'Trailing stop hit'],
+    ]);
+  });
+
+  it('replays lower-timeframe candles in order', () => {
+    const legs = createTwoLegPosition({ ...SIGNAL, stopLoss: 98 }, 200);
+    const lowerCandles = [bar(100, 100.5, 99.5, 100.3), bar(100.3, 102.5, 100.2, 102), bar(102, 102, 97.5, 98)];
+    const updated = updatePositionsIntrabar(legs, bar(100, 102.5, 97.5, 98), 2, 2.5, 0.25, {
+      policy: 'LOWER_TIMEFRAME',
+      lowerCandles,
+    });
+
+    expect(exits(updated)).toEqual([
+      ['CLOSED', 102, 'TP target hit'],
+      ['CLOSED', 100.5, 'Trailing stop hit'],
+    ]);
+  });
+
+  it('fills at the open when the candle gaps through a level', () => {
+    const legs = createTwoLegPosition({ ...SIGNAL, stopLoss: 98 }, 200);
+
+    expect(exits(updatePositionsIntrabar(legs, bar(96, 97, 95, 96.5), 2))).toEqual([
+      ['CLOSED', 96, 'Stop-loss hit'],
+      ['CLOSED', 96, 'Stop-loss hit'],
+    ]);
+    expect(updatePositionsIntrabar(legs, bar(103, 104, 102.5, 103.5), 2)[0].closePrice).toBe(103);
+  });
+});
+
+describe('time exits', () => {
+  const HOUR = 3600000;
+  const exits = (legs: PositionLeg[]) => legs.map((leg) => [leg.type, leg.status, leg.closePrice, leg.closeReason]);
+  const update = (legs: PositionLeg[], price: number, timeExits: TimeExitConfig, hours: number) =>
+    updatePositions(legs, price, 2, 2.5, 0.25, undefined, { timeExits, time: SIGNAL.timestamp + hours * HOUR });
+
+  it('closes legs held longer than the max holding period of their type', () => {
+    const legs = createTwoLegPosition(SIGNAL, 200);
+    const timeExits = { maxHoldingHours: { TP: 4 } };
+
+    expect(exits(update(legs, 100.5, timeExits, 3.5)).map(([, status]) => status)).toEqual(['OPEN', 'OPEN']);
+    expect(exits(update(legs, 100.5, timeExits, 4))).toEqual([
+      ['TP', 'CLOSED', 100.5, 'Max holding period reached'],
+      ['RUNNER', 'OPEN', undefined, undefined],
+    ]);
+  });
+
+  it('stamps closes with the evaluation time', () => {
+    const legs = createTwoLegPosition(SIGNAL, 200);
+    const time = SIGNAL.timestamp + 4 * HOUR;
+
+    expect(update(legs, 102.5, {}, 4)[0]).toMatchObject({ status: 'CLOSED', closeTime: time });
+    expect(update(legs, 100.5, { maxHoldingHours: { RUNNER: 4 } }, 4)[1]).toMatchObject({
+      status: 'CLOSED',
+      closeTime: time,
+    });
+
+    const candle: Candle = { timestamp: time - HOUR, open: 101, high: 103, low: 100.5, close: 102, volume: 1 };
+    expect(updatePositionsIntrabar(legs, candle, 2, 2.5, 0.25, { time })[0].closeTime).toBe(time);
+  });
+
+  it('closes legs after N candles without a new high', () => {
+    const timeExits = { noNewHighCandles: 2 };
+    let legs = createTwoLegPosition(SIGNAL, 200);
+
+    legs = update(legs, 101, timeExits, 1);
+    expect(legs[0].candlesSinceHigh).toBe(0);
+    legs = update(legs, 100.8, timeExits, 2);
+    expect(legs[0]).toMatchObject({ status: 'OPEN', candlesSinceHigh: 1 });
+    expect(exits(update(legs, 100.6, timeExits, 3))).toEqual([
+      ['TP', 'CLOSED', 100.6, 'No new high'],
+      ['RUNNER', 'CLOSED', 100.6, 'No new high'],
+    ]);
+  });
+
+  it('exits ahead of blackout windows', () => {
+    const start = new Date(SIGNAL.timestamp + 2 * HOUR).toISOString();
+    const end = new Date(SIGNAL.timestamp + 3 * HOUR).toISOString();
+    const timeExits = { blackouts: [{ start, end, exitBeforeMinutes: 30 }] };
+    const legs = createTwoLegPosition(SIGNAL, 200);
+
+    expect(findBlackout(SIGNAL.timestamp + 1.4 * HOUR, timeExits.blackouts)).toBeUndefined();
+    expect(findBlackout(SIGNAL.timestamp + 3 * HOUR, timeExits.blackouts)).toBeUndefined();
+    expect(update(legs, 100.5, timeExits, 1.4).every((leg) => leg.status === 'OPEN')).toBe(true);
+    expect(exits(update(legs, 100.5, timeExits, 1.5)).map(([, , , reason]) => reason)).toEqual([
+      'Blackout window',
+      'Blackout window',
+    ]);
+  });
+});
+
+describe('leg labels', () => {
+  it('round-trips through CSV labels', () => {
+    expect(parseLegLabel('TP2')).toEqual({ type: 'TP', level: 2 });
+    expect(parseLegLabel('TP')).toEqual({ type: 'TP' });
+    expect(parseLegLabel('RUNNER')).toEqual({ type: 'RUNNER' });
+    expect(getLegLabel({ type: 'TP' })).toBe('TP');
+  });
 });
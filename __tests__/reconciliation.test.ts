@@ -0,0 +1,49 @@
+import { reconcileHoldings, type MintHoldings } from '../src/execution/reconciliation';
+import type { PositionLeg } from '../src/types';
+
+function leg(id: string, quantity: number, entryTime: number): PositionLeg {
+  return { id, type: 'TP', entryPrice: 100, quantity, entryTime, status: 'OPEN' };
+}
+
+function holding(walletBalance: number, legs: PositionLeg[]): MintHoldings {
+  return { asset: 'BTC', mint: 'cbbtc', walletBalance, legs, price: 110 };
+}
+
+describe('reconcileHoldings', () => {
+  it('treats drift within tolerance as matched', () => {
+    const result = reconcileHoldings([holding(0.995, [leg('a', 1, 1)])], { onOrphan: 'HALT', onPhantom: 'HALT' });
+
+    expect(result.items[0]).toMatchObject({ kind: 'MATCHED', action: 'NONE' });
+    expect(result.halted).toBe(false);
+  });
+
+  it('adopts orphan holdings above the reserved balance as a RUNNER leg', () => {
+    const result = reconcileHoldings(
+      [{ ...holding(0.8, [leg('a', 0.5, 1)]), reservedBalance: 0.1 }],
+      { onOrphan: 'ADOPT', onPhantom: 'HALT' },
+      5000
+    );
+
+    const item = result.items[0];
+    expect(item.kind).toBe('ORPHAN');
+    expect(item.drift).toBeCloseTo(0.2);
+    expect(item.adoptedLeg).toMatchObject({ type: 'RUNNER', entryPrice: 110, entryTime: 5000, asset: 'BTC', btcMint: 'cbbtc' });
+    expect(item.adoptedLeg!.quantity).toBeCloseTo(0.2);
+  });
+
+  it('closes phantom legs newest first until the wallet covers the rest', () => {
+    const legs = [leg('old', 0.5, 1), leg('mid', 0.5, 2), leg('new', 0.5, 3)];
+    const result = reconcileHoldings([holding(0.5, legs)], { onOrphan: 'HALT', onPhantom: 'CLOSE' }, 5000);
+
+    expect(result.items[0].closedLegs!.map((l) => l.id)).toEqual(['new', 'mid']);
+    expect(result.items[0].closedLegs![0]).toMatchObject({ status: 'CLOSED', closePrice: 110, closeReason: 'Reconciled: not found in wallet' });
+    expect(legs.every((l) => l.status === 'OPEN')).toBe(true);
+  });
+
+  it('halts when the policy says so', () => {
+    const result = reconcileHoldings([holding(0, [leg('a', 1, 1)])], { onOrphan: 'ADOPT', onPhantom: 'HALT' });
+
+    expect(result.halted).toBe(true);
+    expect(result.reason).toContain('BTC PHANTOM -1.00000000');
+  });
+});
@@ -0,0 +1,86 @@
+import { calculateADXSeries } from '../src/indicators/adx';
+import { RegimeClassifier } from '../src/strategy/regime';
+import { JournalEmitter } from '../src/journal/JournalEmitter';
+import type { Candle } from '../src/types';
+import { HOUR, makeCandles } from './helpers/candles';
+
+/** Closes move by step per candle with a small wobble; range is rangePct of the close */
+function trending(count: number, step: number, rangePct: (i: number) => number = () => 1): Candle[] {
+  return makeCandles(count, {
+    base: 1000,
+    trend: step,
+    wave: (i) => Math.sin(i) * 2,
+    open: step,
+    range: (i, close) => (close * rangePct(i)) / 200,
+    volume: () => 100,
+  });
+}
+
+describe('calculateADXSeries', () => {
+  it('starts after 2 × period - 1 candles and follows the dominant direction', () => {
+    const rising = calculateADXSeries(trending(60, 5), 14);
+    const falling = calculateADXSeries(trending(60, -5), 14);
+
+    expect(rising).toHaveLength(60 - 27);
+    expect(rising[0].timestamp).toBe(27 * HOUR);
+    expect(rising[rising.length - 1].plusDI).toBeGreaterThan(rising[rising.length - 1].minusDI);
+    expect(falling[falling.length - 1].minusDI).toBeGreaterThan(falling[falling.length - 1].plusDI);
+    expect(rising[rising.length - 1].adx).toBeGreaterThan(50);
+  });
+});
+
+describe('RegimeClassifier', () => {
+  const classifier = new RegimeClassifier({ maPeriod: 20, volatilityWindow: 50 });
+
+  it('classifies trend from ADX, DI and MA slope', () => {
+    expect(classifier.classify(trending(120, 5)).trend).toBe('BULLISH');
+    expect(classifier.classify(trending(120, -5)).trend).toBe('BEARISH');
+    expect(classifier.classify(trending(120, 0)).trend).toBe('NEUTRAL');
+  });
+
+  it('ranks ATR percent within the volatility window', () => {
+    const calmThenWild = trending(120, 0, (i) => (i < 100 ? 1 : 4));
+    const wildThenCalm = trending(120, 0, (i) => (i < 100 ? 4 : 0.5));
+
+    expect(classifier.classify(calmThenWild).volatility).toBe('HIGH');
+    expect(classifier.classify(calmThenWild).atrPercentile).toBeGreaterThanOrEqual(90);
+    expect(classifier.classify(wildThenCalm).volatility).toBe('LOW');
+  });
+
+  it('stays NEUTRAL / NORMAL until warmed up', () => {
+    const candles = trending(classifier.warmupCandles - 1, 5);
+    const regime = classifier.classify(candles);
+
+    expect(classifier.warmupCandles).toBe(14 + 50);
+    expect(regime).toMatchObject({ volatility: 'NORMAL' });
+    expect(regime.atrPercentile).toBeUndefined();
+    expect(classifier.classify([])).toEqual({ trend: 'NEUTRAL', volatility: 'NORMAL' });
+  });
+
+  it('blocks LONG entries in configured regimes', () => {
+    const gated = new RegimeClassifier({ blockLongs: [{ trend: 'BEARISH', volatility: 'HIGH' }, { volatility: 'LOW' }] });
+
+    expect(gated.checkEntry({ trend: 'BEARISH', volatility: 'NORMAL' }).allowed).toBe(true);
+    expect(gated.checkEntry({ trend: 'BEARISH', volatility: 'HIGH' })).toEqual({
+      allowed: false,
+      reason: 'LONG entries blocked in BEARISH trend, HIGH volatility regime',
+      rule: { trend: 'BEARISH', volatility: 'HIGH' },
+    });
+    expect(gated.checkEntry({ trend: 'BULLISH', volatility: 'LOW' }).rule).toEqual({ volatility: 'LOW' });
+  });
+
+  it('fills journal MarketContext trend and volatility', () => {
+    const market = JournalEmitter.createMarketContext({
+      price: 100,
+      indicator: 10,
+      indicatorName: 'MFI',
+      atr: 10,
+      candleTime: 0,
+      buyLevel: 30,
+      sellLevel: 70,
+      regime: { trend: 'BULLISH', volatility: 'LOW' },
+    });
+
+    expect(market).toMatchObject({ trend: 'BULLISH', volatility: 'LOW', atrPercent: 10 });
+  });
+});
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StateManager } from '../src/core/StateManager';
+import { BOT_STATE_VERSION, botStateMigrations } from '../src/runner/stateMigrations';
+
+interface TestState {
+  count: number;
+  items: Array<{ id: string; qty: number }>;
+}
+
+const DEFAULT_STATE: TestState = { count: 0, items: [] };
+
+describe('StateManager versioning', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'state-'));
+    file = path.join(dir, 'state.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const migrations = [
+    { from: 1, migrate: (s: any) => ({ ...s, items: s.entries ?? [], entries: undefined }) },
+    {
+      from: 2,
+      migrate: (s: any) => ({ ...s, items: s.items.map((i: any) => ({ id: i.id, qty: i.quantity })) }),
+    },
+  ];
+
+  it('writes the current version and migrates older files step by step with a backup', async () => {
+    const legacy = { count: 3, entries: [{ id: 'a', quantity: 2 }] };
+    fs.writeFileSync(file, JSON.stringify(legacy));
+
+    const manager = new StateManager<TestState>(file, DEFAULT_STATE, undefined, { migrations });
+    const state = await manager.load();
+
+    expect(manager.getVersion()).toBe(3);
+    expect(state.items).toEqual([{ id: 'a', qty: 2 }]);
+    expect(JSON.parse(fs.readFileSync(`${file}.v1.bak`, 'utf-8'))).toEqual(legacy);
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8')).version).toBe(3);
+
+    // Reloading the migrated file doesn't migrate again
+    fs.rmSync(`${file}.v1.bak`);
+    await new StateManager<TestState>(file, DEFAULT_STATE, undefined, { migrations }).load();
+    expect(fs.existsSync(`${file}.v1.bak`)).toBe(false);
+  });
+
+  it('refuses to load a file from a newer version', async () => {
+    fs.writeFileSync(file, JSON.stringify({ version: 9, count: 1, items: [] }));
+    const manager = new StateManager<TestState>(file, DEFAULT_STATE, undefined, { migrations });
+
+    await expect(manager.load()).rejects.toThrow('has version 9');
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8')).version).toBe(9);
+  });
+
+  it('fails when a migration step is missing', async () => {
+    fs.writeFileSync(file, JSON.stringify({ count: 1 }));
+    const manager = new StateManager<TestState>(file, DEFAULT_STATE, undefined, { version: 2 });
+
+    await expect(manager.load()).rejects.toThrow('No state migration from version 1 to 2');
+  });
+
+  it('upgrades single-asset bot state to assetPositions', async () => {
+    fs.writeFileSync(file, JSON.stringify({
+      lastProcessedCandleTime: 100,
+      lastTradeTime: 50,
+      lastDayReset: '2024-01-01',
+      totalTradesToday: 1,
+      openLegs: [{ id: 'leg-1', type: 'TP', entryPrice: 100, quantity: 1, entryTime: 50 }],
+    }));
+
+    const manager = new StateManager<any>(file, { assetPositions: [] }, undefined, {
+      version: BOT_STATE_VERSION,
+      migrations: botStateMigrations,
+    });
+    const state = await manager.load();
+
+    expect(state.openLegs).toBeUndefined();
+    expect(state.assetPositions).toEqual([
+      {
+        asset: 'BTC',
+        openLegs: [{ id: 'leg-1', type: 'TP', entryPrice: 100, quantity: 1, entryTime: 50, status: 'OPEN' }],
+        lastSignalTime: 0,
+        lastTradeTime: 50,
+      },
+    ]);
+  });
+});
+
+describe('StateManager durability', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'state-'));
+    file = path.join(dir, 'state.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps a rotating set of snapshots and restores one', async () => {
+    const manager = new StateManager<TestState>(file, DEFAULT_STATE, undefined, { maxSnapshots: 3 });
+
+    for (let count = 1; count <= 5; count++) {
+      await manager.update({ count });
+    }
+
+    const snapshots = manager.listSnapshots();
+    expect(snapshots).toHaveLength(3);
+    expect(JSON.parse(fs.readFileSync(snapshots[0].path, 'utf-8')).count).toBe(5);
+
+    const restored = await manager.restore(snapshots[2].id);
+    expect(restored.count).toBe(3);
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8')).count).toBe(3);
+    await expect(manager.restore('123')).rejects.toThrow('State snapshot not found');
+  });
+
+  it('waits for a live lock and breaks a stale one', async () => {
+    const manager = new StateManager<TestState>(file, DEFAULT_STATE, undefined, { lockTimeoutMs: 100 });
+
+    fs.writeFileSync(`${file}.lock`, JSON.stringify({ pid: process.pid, token: 'other', acquiredAt: Date.now() }));
+    await expect(manager.save()).rejects.toThrow('Timed out waiting for state lock');
+
+    fs.writeFileSync(`${file}.lock`, JSON.stringify({ pid: process.pid, token: 'other', acquiredAt: Date.now() - 60000 }));
+    await manager.set('count', 7);
+
+    expect(fs.existsSync(`${file}.lock`)).toBe(false);
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8')).count).toBe(7);
+  });
+});
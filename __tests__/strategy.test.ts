@@ -0,0 +1,166 @@
+import { createStrategy, getRegisteredStrategies, registerStrategy } from '../src/strategy/registry';
+import { IndicatorStrategy, type IndicatorReading } from '../src/strategy/Strategy';
+import { CompositeStrategy } from '../src/strategy/composite';
+import { generateIndicatorSignal } from '../src/strategy/indicatorSignal';
+import { MultiTimeframeConfirmation } from '../src/strategy/multiTimeframe';
+import { getCompletedCandles } from '../src/data/intervals';
+import { calculateMFISeries, detectMFICross } from '../src/indicators/mfi';
+import type { Candle, SignalType } from '../src/types';
+import { makeCandles, type CandleShape } from './helpers/candles';
+
+const SHAPE: CandleShape = { wave: (i) => Math.sin(i / 4) * 12, volume: (i) => 500 + (i % 5) * 100 };
+
+class AlwaysLongStrategy extends IndicatorStrategy {
+  readonly trimsOnShort = false;
+
+  constructor(params: Record<string, number>) {
+    super('always-long', params);
+  }
+
+  protected indicatorWarmup(): number {
+    return this.params.warmup ?? 1;
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading {
+    return { type: 'LONG', value: candles.length };
+  }
+}
+
+describe('strategy registry', () => {
+  it('registers all built-in indicators', () => {
+    expect(getRegisteredStrategies()).toEqual(expect.arrayContaining(['mfi', 'tcf2', 'kpss', 'tdfi', 'dssmom', 'sma', 'ema', 'wma', 'hma', 'macd', 'supertrend', 'bollinger', 'keltner', 'donchian', 'obv', 'vwap', 'cmf', 'volumezscore']));
+  });
+
+  it('built-in strategies return NONE while warming up and a signal afterwards', () => {
+    const candles = makeCandles(200, SHAPE);
+    for (const type of ['mfi', 'tcf2', 'kpss', 'tdfi', 'dssmom', 'sma', 'ema', 'wma', 'hma', 'macd', 'supertrend', 'bollinger', 'keltner', 'donchian', 'obv', 'vwap', 'cmf', 'volumezscore']) {
+      const strategy = createStrategy({ type, params: {} });
+      const warm = strategy.onCandle(candles);
+
+      expect(strategy.onCandle(candles.slice(0, 3)).type).toBe('NONE');
+      expect(warm.indicator).toBe(type);
+      expect(warm.indicatorValue).toEqual(expect.any(Number));
+      expect(warm.atr).toBeGreaterThan(0);
+    }
+  });
+
+  it('MFI strategy matches the raw cross detection', () => {
+    const candles = makeCandles(120, SHAPE);
+    const strategy = createStrategy({ type: 'mfi', params: { period: 14, buyLevel: 40, sellLevel: 60 } });
+
+    for (let i = 30; i < candles.length; i++) {
+      const window = candles.slice(0, i + 1);
+      const series = calculateMFISeries(window, 14);
+      const expected = detectMFICross(series[i - 1]!, series[i]!, 40, 60);
+      expect(strategy.onCandle(window).type).toBe(expected);
+    }
+  });
+
+  it('generateIndicatorSignal matches the configured strategy', () => {
+    const candles = makeCandles(120, SHAPE);
+    const indicator = { type: 'tdfi', params: { trendPeriod: 13 } };
+
+    expect(generateIndicatorSignal(candles, indicator)).toEqual(createStrategy(indicator).onCandle(candles));
+    expect(() => generateIndicatorSignal([], indicator)).toThrow('Cannot generate a signal without candles');
+  });
+
+  it('supports custom strategies', () => {
+    registerStrategy('always-long', (params) => new AlwaysLongStrategy(params));
+    const strategy = createStrategy({ type: 'always-long', params: { warmup: 20 } });
+
+    expect(strategy.trimsOnShort).toBe(false);
+    expect(strategy.warmupCandles).toBe(20);
+    expect(strategy.onCandle(makeCandles(25, SHAPE)).type).toBe('LONG');
+    expect(() => registerStrategy('always-long', (params) => new AlwaysLongStrategy(params))).toThrow();
+    expect(() => createStrategy({ type: 'unknown', params: {} })).toThrow('Unknown strategy type');
+  });
+});
+
+// Emits a fixed signal/trend: params.signal and params.trend are 1 (LONG), -1 (SHORT) or 0 (NONE)
+class FixedStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number>) {
+    super('fixed', params);
+  }
+
+  protected indicatorWarmup(): number {
+    return 1;
+  }
+
+  protected evaluate(): IndicatorReading {
+    const toType = (code = 0): SignalType => (code > 0 ? 'LONG' : code < 0 ? 'SHORT' : 'NONE');
+    return { type: toType(this.params.signal), value: this.params.signal ?? 0, trend: toType(this.params.trend) };
+  }
+}
+
+describe('CompositeStrategy', () => {
+  registerStrategy('fixed', (params) => new FixedStrategy(params));
+  const candles = makeCandles(30, SHAPE);
+  const fixed = (signal: number, trend = 0, role?: 'TRIGGER' | 'FILTER') => ({
+    type: 'fixed',
+    params: { signal, trend },
+    role,
+  });
+
+  it('combines triggers with AND, OR and N-of-M voting', () => {
+    const and = new CompositeStrategy({ mode: 'AND', indicators: [fixed(1), fixed(0)] });
+    const or = new CompositeStrategy({ mode: 'OR', indicators: [fixed(1), fixed(0)] });
+    const vote = new CompositeStrategy({ mode: 'VOTE', minVotes: 2, indicators: [fixed(1), fixed(1), fixed(-1)] });
+    const conflict = new CompositeStrategy({ mode: 'OR', indicators: [fixed(1), fixed(-1)] });
+
+    expect(and.onCandle(candles).type).toBe('NONE');
+    expect(or.onCandle(candles).type).toBe('LONG');
+    expect(vote.onCandle(candles).type).toBe('LONG');
+    expect(conflict.onCandle(candles).type).toBe('NONE');
+  });
+
+  it('filters gate entries but never trims, and record every component', () => {
+    const blocked = new CompositeStrategy({ mode: 'OR', indicators: [fixed(0, -1, 'FILTER'), fixed(1)] });
+    const allowed = new CompositeStrategy({ mode: 'OR', indicators: [fixed(0, 1, 'FILTER'), fixed(1)] });
+    const trim = new CompositeStrategy({ mode: 'OR', indicators: [fixed(0, 1, 'FILTER'), fixed(-1)] });
+
+    const blockedSignal = blocked.onCandle(candles);
+    expect(blockedSignal.type).toBe('NONE');
+    expect(blockedSignal.metadata?.blockedByFilter).toBe(true);
+    expect(blockedSignal.metadata?.components).toHaveLength(2);
+    expect(blockedSignal.metadata?.components?.[0]).toMatchObject({ role: 'FILTER', trend: 'SHORT' });
+
+    expect(allowed.onCandle(candles).type).toBe('LONG');
+    expect(trim.onCandle(candles).type).toBe('SHORT');
+  });
+
+  it('rejects invalid configurations', () => {
+    expect(() => new CompositeStrategy({ mode: 'AND', indicators: [fixed(0, 1, 'FILTER')] })).toThrow('TRIGGER');
+    expect(() => new CompositeStrategy({ mode: 'VOTE', minVotes: 3, indicators: [fixed(1), fixed(1)] })).toThrow('minVotes');
+  });
+});
+
+describe('MultiTimeframeConfirmation', () => {
+  const HOUR = 3600000;
+  const daily = Array.from({ length: 5 }, (_, i) => ({
+    timestamp: i * 24 * HOUR,
+    open: 100,
+    high: 101,
+    low: 99,
+    close: 100,
+    volume: 1,
+  }));
+
+  it('only exposes higher-timeframe candles closed before the base candle closes', () => {
+    // 1h candle opening 23:00 on day 2 closes exactly when day 2's daily candle closes
+    expect(getCompletedCandles(daily, '1d', 2 * 24 * HOUR + 23 * HOUR)).toHaveLength(2);
+    expect(getCompletedCandles(daily, '1d', 3 * 24 * HOUR)).toHaveLength(3);
+  });
+
+  it('rejects with a reason naming the failing timeframe', () => {
+    const bearish = new MultiTimeframeConfirmation([{ interval: '1d', indicator: { type: 'fixed', params: { trend: -1, atrPeriod: 1 } } }]);
+    const bullish = new MultiTimeframeConfirmation([{ interval: '1d', indicator: { type: 'fixed', params: { trend: 1, atrPeriod: 1 } } }]);
+    const asOf = 5 * 24 * HOUR;
+
+    const rejected = bearish.confirm({ '1d': daily }, asOf);
+    expect(rejected.confirmed).toBe(false);
+    expect(rejected.reason).toContain('1d FIXED trend SHORT');
+
+    expect(bullish.confirm({ '1d': daily }, asOf).confirmed).toBe(true);
+    expect(bullish.confirm({}, asOf).confirmed).toBe(false);
+  });
+});
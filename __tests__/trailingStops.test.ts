@@ -0,0 +1,82 @@
+import { createTrailingStop } from '../src/strategy/trailingStops';
+import { createTwoLegPosition, updatePositions } from '../src/strategy/position';
+import { calculateATRSeries } from '../src/indicators/atr';
+import { calculateSuperTrendSeries } from '../src/indicators/supertrend';
+import type { Candle, PositionLeg } from '../src/types';
+import { HOUR, makeCandles } from './helpers/candles';
+
+const trending = (count: number, step: number) =>
+  makeCandles(count, { trend: step, wave: (i) => Math.sin(i) * 2, open: step, volume: () => 100 });
+
+const leg: PositionLeg = {
+  id: 'RUNNER_1',
+  type: 'RUNNER',
+  entryPrice: 100,
+  quantity: 1,
+  entryTime: 0,
+  stopLoss: 96,
+  status: 'OPEN',
+};
+
+describe('createTrailingStop', () => {
+  const context = { candles: trending(60, 1), atr: 2, trailMultiplier: 2.5 };
+
+  it('trails the highest price by ATR multiple or percent', () => {
+    expect(createTrailingStop(undefined, context)(leg, 110)).toBe(105);
+    expect(createTrailingStop({ type: 'PERCENT', percent: 2 }, context)(leg, 110)).toBeCloseTo(107.8);
+  });
+
+  it('locks R-multiples of the initial risk as profit grows', () => {
+    const level = createTrailingStop(
+      { type: 'R_MULTIPLE', steps: [{ profitR: 1, lockR: 0 }, { profitR: 2, lockR: 1 }] },
+      context
+    );
+
+    expect(level(leg, 103)).toBe(-Infinity);
+    expect(level(leg, 104)).toBe(100);
+    expect(level(leg, 108.5)).toBe(104);
+    expect(level({ ...leg, stopLoss: undefined }, 120)).toBe(-Infinity);
+  });
+
+  it('follows the Chandelier exit and the SuperTrend line', () => {
+    const atr = calculateATRSeries(context.candles, 22).pop()!;
+    const highestHigh = Math.max(...context.candles.slice(-22).map((c) => c.high));
+    const superTrend = calculateSuperTrendSeries(context.candles, 10, 3).pop()!;
+
+    expect(createTrailingStop({ type: 'CHANDELIER' }, context)(leg, 0)).toBeCloseTo(highestHigh - 3 * atr);
+    expect(superTrend.trend).toBe('LONG');
+    expect(createTrailingStop({ type: 'SUPERTREND' }, context)(leg, 0)).toBe(superTrend.value);
+    expect(createTrailingStop({ type: 'SUPERTREND' }, { ...context, candles: trending(60, -1) })(leg, 0)).toBe(
+      -Infinity
+    );
+  });
+
+  it('runs a Parabolic SAR from the entry candle', () => {
+    const bar = (i: number, low: number, high: number): Candle => ({
+      timestamp: i * HOUR,
+      open: low,
+      high,
+      low,
+      close: high,
+      volume: 1,
+    });
+    const candles = [bar(0, 90, 120), bar(1, 99, 101), bar(2, 101, 103), bar(3, 102, 104), bar(4, 103, 105)];
+    const level = createTrailingStop({ type: 'PARABOLIC_SAR' }, { ...context, candles });
+
+    // SAR starts at the entry candle's low, capped by the two previous lows until it clears them
+    expect(level({ ...leg, entryTime: HOUR }, 0)).toBeCloseTo(99.3);
+    expect(level({ ...leg, entryTime: 4 * HOUR }, 0)).toBe(-Infinity);
+  });
+
+  it('moves armed runner stops through updatePositions, never down', () => {
+    const [tp, runner] = createTwoLegPosition({ type: 'LONG', timestamp: 0, price: 100, mfi: 50, atr: 2 }, 100);
+    const percent = createTrailingStop({ type: 'PERCENT', percent: 5 }, context);
+
+    const armed = updatePositions([tp, runner], 102.5, 2, 2.5, 0.25, undefined, { trailingStop: percent })[1];
+    expect(armed.trailingStop).toBe(100.5);
+
+    const raised = updatePositions([armed], 110, 2, 2.5, 0.25, undefined, { trailingStop: percent })[0];
+    expect(raised.trailingStop).toBeCloseTo(104.5);
+    expect(updatePositions([raised], 108, 2, 2.5, 0.25, undefined, { trailingStop: percent })[0].trailingStop).toBeCloseTo(104.5);
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  calculateSMA,
+  calculateEMA,
+  calculateWMA,
+  calculateHMA,
+  calculateMACDSeries,
+  calculateMACDWithSignal,
+  calculateSuperTrendSeries,
+  calculateSuperTrendWithSignal,
+} from '../src/indicators';
+import { createStrategy } from '../src/strategy/registry';
+import { candlesFromCloses } from './helpers/candles';
+
+describe('moving averages', () => {
+  it('computes SMA, EMA and WMA', () => {
+    const values = [1, 2, 3, 4, 5];
+
+    expect(calculateSMA(values, 3)).toEqual([null, null, 2, 3, 4]);
+    // Seeded with SMA(1, 2, 3) = 2, alpha = 0.5
+    expect(calculateEMA(values, 3)).toEqual([null, null, 2, 3, 4]);
+    expect(calculateEMA([2, 4, 6, 10], 3)).toEqual([null, null, 4, 7]);
+    expect(calculateWMA(values, 3)[2]).toBeCloseTo(14 / 6, 12);
+  });
+
+  it('HMA has no lag on a linear series', () => {
+    const values = Array.from({ length: 20 }, (_, i) => 100 + i * 2);
+    const hma = calculateHMA(values, 4);
+
+    // First value at period + √period - 2
+    expect(hma.slice(0, 4).every((v) => v === null)).toBe(true);
+    for (let i = 4; i < values.length; i++) {
+      expect(hma[i]).toBeCloseTo(values[i], 9);
+    }
+  });
+});
+
+describe('MACD', () => {
+  it('is zero on flat prices and aligns the histogram with the lines', () => {
+    const flat = calculateMACDSeries(candlesFromCloses(new Array(60).fill(100)));
+    // slowPeriod + signalPeriod - 1 candles before the first value
+    expect(flat).toHaveLength(60 - 34 + 1);
+    expect(flat.every((r) => r.macd === 0 && r.signal === 0 && r.histogram === 0)).toBe(true);
+
+    const trending = calculateMACDSeries(candlesFromCloses(Array.from({ length: 60 }, (_, i) => 100 + i)));
+    const last = trending[trending.length - 1];
+    expect(last.macd).toBeGreaterThan(0);
+    expect(last.histogram).toBeCloseTo(last.macd - last.signal, 12);
+  });
+
+  it('signals SHORT when the MACD line crosses below its signal line', () => {
+    const closes = Array.from({ length: 60 }, (_, i) => 100 + (i * i) / 20);
+    let result = calculateMACDWithSignal(candlesFromCloses(closes));
+    expect(result.trend).toBe('LONG');
+
+    for (let i = 0; i < 20 && result.signal !== 'SHORT'; i++) {
+      closes.push(closes[closes.length - 1] - 3);
+      result = calculateMACDWithSignal(candlesFromCloses(closes));
+    }
+    expect(result.signal).toBe('SHORT');
+  });
+});
+
+describe('SuperTrend', () => {
+  it('trails below price in an uptrend and flips on a reversal', () => {
+    const up = Array.from({ length: 30 }, (_, i) => 100 + i * 2);
+    const series = calculateSuperTrendSeries(candlesFromCloses(up), 10, 3);
+    const last = series[series.length - 1];
+
+    expect(series).toHaveLength(30 - 10);
+    expect(last.trend).toBe('LONG');
+    expect(last.value).toBe(last.lower);
+    expect(last.value).toBeLessThan(up[up.length - 1]);
+
+    const closes = [...up];
+    let result = calculateSuperTrendWithSignal(candlesFromCloses(closes), 10, 3);
+    for (let i = 0; i < 20 && result.signal !== 'SHORT'; i++) {
+      closes.push(closes[closes.length - 1] - 4);
+      result = calculateSuperTrendWithSignal(candlesFromCloses(closes), 10, 3);
+    }
+    expect(result.signal).toBe('SHORT');
+    expect(result.result!.value).toBe(result.result!.upper);
+  });
+});
+
+describe('trend strategies', () => {
+  it('produce a reading as soon as warmupCandles are available', () => {
+    const candles = candlesFromCloses(Array.from({ length: 100 }, (_, i) => 100 + Math.sin(i / 6) * 10));
+
+    for (const type of ['sma', 'ema', 'wma', 'hma', 'macd', 'supertrend']) {
+      const strategy = createStrategy({ type, params: { atrPeriod: 5 } });
+      const window = candles.slice(0, strategy.warmupCandles);
+
+      expect(strategy.onCandle(window).indicatorValue).toEqual(expect.any(Number));
+      expect(strategy.onCandle(window.slice(0, -1)).indicatorValue).toBeUndefined();
+    }
+  });
+});
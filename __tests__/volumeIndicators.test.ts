@@ -0,0 +1,126 @@
+import {
+  calculateOBV,
+  calculateOBVSeries,
+  calculateVWAPSeries,
+  calculateVWAPWithSignal,
+  calculateCMFSeries,
+  getCMFSignal,
+  calculateVolumeZScoreSeries,
+  getVolumeSpikeSignal,
+} from '../src/indicators';
+import { IndicatorStrategy, type IndicatorReading } from '../src/strategy/Strategy';
+import { CompositeStrategy } from '../src/strategy/composite';
+import { createStrategy, registerStrategy } from '../src/strategy/registry';
+import type { Candle } from '../src/types';
+import { HOUR, makeCandles as shapedCandles } from './helpers/candles';
+
+function candle(i: number, close: number, volume: number, open: number = close): Candle {
+  return { timestamp: i * HOUR, open, high: Math.max(open, close) + 1, low: Math.min(open, close) - 1, close, volume };
+}
+
+/** Baseline volumes alternate 900/1100 so the z-score has a spread */
+const makeCandles = (count: number) =>
+  shapedCandles(count, { wave: (i) => Math.sin(i / 3), volume: (i) => (i % 2 ? 1100 : 900) });
+
+class LongOnLastStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number>) {
+    super('long-on-last', params);
+  }
+
+  protected indicatorWarmup(): number {
+    return 1;
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading {
+    return { type: 'LONG', value: candles.length };
+  }
+}
+
+registerStrategy('long-on-last', (params) => new LongOnLastStrategy(params));
+
+describe('OBV', () => {
+  it('adds volume on up closes and subtracts it on down closes', () => {
+    const candles = [candle(0, 10, 100), candle(1, 11, 200), candle(2, 11, 300), candle(3, 9, 50)];
+
+    expect(calculateOBV(candles)).toEqual([0, 200, 200, 150]);
+    expect(calculateOBVSeries(candles, 2).map((r) => r.value)).toEqual([200, 200, 150]);
+  });
+});
+
+describe('VWAP', () => {
+  it('anchors at 00:00 UTC and supports a rolling window', () => {
+    // 22:00 and 23:00 on day 0, then 00:00 on day 1
+    const candles = [candle(22, 10, 100), candle(23, 20, 300), candle(24, 40, 100)];
+
+    const anchored = calculateVWAPSeries(candles);
+    expect(anchored.map((r) => r.value)).toEqual([10, 17.5, 40]);
+
+    const cumulative = calculateVWAPSeries(candles, 0, 'NONE');
+    expect(cumulative[2].value).toBe((10 * 100 + 20 * 300 + 40 * 100) / 500);
+
+    const rolling = calculateVWAPSeries(candles, 2);
+    expect(rolling.map((r) => r.value)).toEqual([17.5, 25]);
+  });
+
+  it('signals when the close crosses VWAP', () => {
+    const candles = [candle(0, 100, 1000), candle(1, 98, 1000), candle(2, 104, 1000)];
+    expect(calculateVWAPWithSignal(candles)).toMatchObject({ signal: 'LONG', trend: 'LONG' });
+  });
+});
+
+describe('CMF', () => {
+  it('is +1 when every candle closes at its high and -1 at its low', () => {
+    const atHigh = Array.from({ length: 5 }, (_, i) => ({ ...candle(i, 100, 500), high: 100, low: 95 }));
+    const atLow = Array.from({ length: 5 }, (_, i) => ({ ...candle(i, 100, 500), high: 105, low: 100 }));
+
+    expect(calculateCMFSeries(atHigh, 5)[0].value).toBe(1);
+    expect(calculateCMFSeries(atLow, 5)[0].value).toBe(-1);
+  });
+
+  it('signals on trigger level crosses', () => {
+    const at = (value: number) => ({ value, timestamp: 0 });
+    expect(getCMFSignal(at(0.01), at(0.06))).toEqual({ signal: 'LONG', trend: 'LONG' });
+    expect(getCMFSignal(at(-0.01), at(-0.06))).toEqual({ signal: 'SHORT', trend: 'SHORT' });
+  });
+});
+
+describe('volume z-score', () => {
+  it('measures volume against the previous period candles', () => {
+    const candles = [...makeCandles(20), candle(20, 101, 1300, 100)];
+    const [result] = calculateVolumeZScoreSeries(candles, 20);
+
+    // Baseline mean 1000, deviation 100
+    expect(result).toMatchObject({ value: 3, volume: 1300, mean: 1000, direction: 1 });
+    expect(getVolumeSpikeSignal(result)).toEqual({ signal: 'LONG', trend: 'LONG' });
+    expect(getVolumeSpikeSignal({ ...result, direction: -1 }).signal).toBe('SHORT');
+    expect(getVolumeSpikeSignal(result, 4).trend).toBe('NONE');
+  });
+
+  it('works as a FILTER on entries', () => {
+    const composite = new CompositeStrategy({
+      mode: 'OR',
+      indicators: [
+        { type: 'long-on-last', params: {} },
+        { type: 'volumezscore', params: { threshold: 2 }, role: 'FILTER' },
+      ],
+    });
+    const quiet = [...makeCandles(30), candle(30, 101, 1000, 100)];
+    const spike = [...makeCandles(30), candle(30, 101, 1500, 100)];
+
+    expect(composite.onCandle(quiet).type).toBe('NONE');
+    expect(composite.onCandle(spike).type).toBe('LONG');
+  });
+});
+
+describe('volume strategies', () => {
+  it('produce a reading as soon as warmupCandles are available', () => {
+    const candles = makeCandles(60);
+
+    for (const type of ['obv', 'vwap', 'cmf', 'volumezscore']) {
+      const strategy = createStrategy({ type, params: { atrPeriod: 5 } });
+      const window = candles.slice(0, strategy.warmupCandles);
+
+      expect(strategy.onCandle(window).indicatorValue).toEqual(expect.any(Number));
+    }
+  });
+});
@@ -0,0 +1,249 @@
+import type { Candle, Logger, PositionLeg } from '../types';
+import { PaperBroker } from '../execution/PaperBroker';
+import { createBotStrategy } from '../strategy/composite';
+import { MultiTimeframeConfirmation } from '../strategy/multiTimeframe';
+import { RegimeClassifier } from '../strategy/regime';
+import { intervalToMs } from '../data/intervals';
+import { applyInitialStop, findBlackout, getOpenLegs } from '../strategy/position';
+import { calculateMetrics } from './metrics';
+import type { BacktestConfig, BacktestResult, BacktestTrade, EquityPoint } from './types';
+
+/**
+ * Backtest Engine
+ *
+ * Replays historical candles through the same pipeline the BotRunner uses live:
+ * Strategy.onCandle → PaperBroker.updateAndClosePositions → trimRunners on SHORT →
+ * openPosition on LONG. Position logic comes from createLadderPosition and
+ * updatePositions via PaperBroker, so backtest and live behaviour cannot diverge.
+ *
+ * Each step only sees candles up to and including the candle being processed
+ * (no lookahead), limited to the same window size the live bot fetches.
+ * With position.intrabar, exits are checked against each candle's high/low
+ * (replaying the lower-timeframe candles inside it for LOWER_TIMEFRAME).
+ * Time exits and blackout windows are judged at each candle's close time.
+ */
+
+const DEFAULT_INITIAL_USDC = 10000;
+const DEFAULT_SLIPPAGE_BPS = 50;
+const DEFAULT_WINDOW_SIZE = 400;
+
+/**
+ * Run a backtest over historical candles
+ *
+ * @param candles - Completed candles in chronological order
+ * @param config - Indicator, position and simulation settings
+ * @param logger - Optional logger instance (very verbose - broker logs every fill)
+ * @returns Trades, equity curve and metrics
+ */
+export async function runBacktest(
+  candles: Candle[],
+  config: BacktestConfig,
+  logger?: Logger
+): Promise<BacktestResult> {
+  if (candles.length === 0) {
+    throw new Error('Cannot backtest without candles');
+  }
+
+  const windowSize = config.windowSize ?? DEFAULT_WINDOW_SIZE;
+  const maxOpenPositions = config.maxOpenPositions ?? 1;
+  const minTimeBetweenTradesMs = config.minTimeBetweenTradesMs ?? 0;
+  const warmupCandles = config.warmupCandles ?? 0;
+  const strategy = createBotStrategy(config);
+  const confirmation = createConfirmation(config, windowSize);
+  const regime = config.regime ? new RegimeClassifier(config.regime) : null;
+  const timeframeMs = config.timeframe ? intervalToMs(config.timeframe) : inferInterval(candles);
+  const lowerCandles = getLowerTimeframeCandles(config);
+  let lowerIndex = 0;
+
+  if (warmupCandles >= candles.length) {
+    throw new Error(`warmupCandles (${warmupCandles}) must be less than candle count (${candles.length})`);
+  }
+
+  const broker = new PaperBroker(
+    {
+      initialUsdcBalance: config.initialUsdcBalance ?? DEFAULT_INITIAL_USDC,
+      initialBtcBalance: 0,
+      slippageBps: config.slippageBps ?? DEFAULT_SLIPPAGE_BPS,
+      tradeLegUsdc: config.position.tradeLegUsdc,
+      atrTpMultiplier: config.position.atrTpMultiplier,
+      atrTrailMultiplier: config.position.atrTrailMultiplier,
+      breakEvenLockMultiplier: config.position.breakEvenLockMultiplier,
+      ladder: config.position.ladder,
+      intrabar: config.position.intrabar,
+      trailingStop: config.position.trailingStop,
+      timeExits: config.position.timeExits,
+    },
+    logger
+  );
+
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+  let openLegs: PositionLeg[] = [];
+  let lastTradeTime = 0;
+  let positionsOpened = 0;
+  let exposedCandles = 0;
+  let rejectedByConfirmation = 0;
+  let rejectedByRegime = 0;
+  let rejectedByBlackout = 0;
+
+  for (let i = warmupCandles; i < candles.length; i++) {
+    const candle = candles[i];
+    const window = candles.slice(Math.max(0, i + 1 - windowSize), i + 1);
+    const signal = strategy.onCandle(window);
+    const candleEnd = candle.timestamp + timeframeMs;
+
+    // Lower-timeframe candles inside this candle (candles are chronological, so a cursor suffices)
+    const inside: Candle[] = [];
+    while (lowerIndex < lowerCandles.length && lowerCandles[lowerIndex].timestamp < candleEnd) {
+      if (lowerCandles[lowerIndex].timestamp >= candle.timestamp) inside.push(lowerCandles[lowerIndex]);
+      lowerIndex++;
+    }
+
+    // 1. Manage open positions
+    let legs = await closeAndRecord(broker, openLegs, candle, candleEnd, trades, () =>
+      broker.updateAndClosePositions(openLegs, candle, signal.atr, {
+        candles: window,
+        lowerCandles: inside,
+        time: candleEnd,
+      })
+    );
+
+    // 2. Trim runners on SHORT
+    if (signal.type === 'SHORT' && strategy.trimsOnShort) {
+      const beforeTrim = legs;
+      legs = await closeAndRecord(broker, beforeTrim, candle, candleEnd, trades, () =>
+        broker.trimRunners(beforeTrim, signal, candle)
+      );
+    }
+
+    openLegs = getOpenLegs(legs);
+
+    // 3. Open new position on LONG
+    if (
+      signal.type === 'LONG' &&
+      strategy.entersOnLong &&
+      countPositions(openLegs) < maxOpenPositions &&
+      candle.timestamp - lastTradeTime >= minTimeBetweenTradesMs
+    ) {
+      const confirmed =
+        !confirmation ||
+        confirmation.confirm(config.higherTimeframeCandles ?? {}, candleEnd).confirmed;
+
+      if (!confirmed) {
+        rejectedByConfirmation++;
+      } else if (regime && !regime.checkEntry(regime.classify(window)).allowed) {
+        rejectedByRegime++;
+      } else if (findBlackout(candleEnd, config.position.timeExits?.blackouts)) {
+        rejectedByBlackout++;
+      } else {
+        const opened = await broker.openPosition(applyInitialStop(signal, config.position.initialStop, window), candle);
+        if (opened && opened.length > 0) {
+          openLegs = [...openLegs, ...opened];
+          lastTradeTime = candle.timestamp;
+          positionsOpened++;
+        }
+      }
+    }
+
+    if (openLegs.length > 0) {
+      exposedCandles++;
+    }
+
+    equityCurve.push({
+      timestamp: candle.timestamp,
+      equity: await broker.getPortfolioValue(candle.close),
+    });
+  }
+
+  return {
+    trades,
+    equityCurve,
+    metrics: calculateMetrics(equityCurve, trades, exposedCandles, positionsOpened),
+    openLegs,
+    rejectedByConfirmation,
+    rejectedByRegime,
+    rejectedByBlackout,
+  };
+}
+
+function getLowerTimeframeCandles(config: BacktestConfig): Candle[] {
+  if (config.position.intrabar?.policy !== 'LOWER_TIMEFRAME') {
+    return [];
+  }
+  if (!config.timeframe || !config.lowerTimeframeCandles) {
+    throw new Error('Backtest LOWER_TIMEFRAME exits require timeframe and lowerTimeframeCandles');
+  }
+  return config.lowerTimeframeCandles;
+}
+
+function createConfirmation(config: BacktestConfig, windowSize: number): MultiTimeframeConfirmation | null {
+  if (!config.confirmations || config.confirmations.length === 0) {
+    return null;
+  }
+  if (!config.timeframe || !config.higherTimeframeCandles) {
+    throw new Error('Backtest confirmations require timeframe and higherTimeframeCandles');
+  }
+  return new MultiTimeframeConfirmation(config.confirmations, windowSize);
+}
+
+/**
+ * Run a broker step and record every leg it closed as a trade.
+ * Fill prices are read from the broker's trade history so slippage is included.
+ *
+ * @param closeTime - End of the candle; closes are stamped with it, as BotRunner does
+ */
+async function closeAndRecord(
+  broker: PaperBroker,
+  before: PositionLeg[],
+  candle: Candle,
+  closeTime: number,
+  trades: BacktestTrade[],
+  step: () => Promise<PositionLeg[]>
+): Promise<PositionLeg[]> {
+  const historyBefore = broker.getTradeHistory().length;
+  const after = await step();
+  const fills = broker.getTradeHistory().slice(historyBefore);
+
+  let fillIndex = 0;
+  for (let i = 0; i < after.length; i++) {
+    const leg = after[i];
+    if (before[i]?.status !== 'OPEN' || leg.status !== 'CLOSED') {
+      continue;
+    }
+
+    const exitPrice = fills[fillIndex++]?.price ?? leg.closePrice ?? candle.close;
+    trades.push({
+      positionId: leg.positionId,
+      legId: leg.id,
+      legType: leg.type,
+      level: leg.level,
+      entryTime: leg.entryTime,
+      entryPrice: leg.entryPrice,
+      exitTime: closeTime,
+      exitPrice,
+      quantity: leg.quantity,
+      pnlUsdc: (exitPrice - leg.entryPrice) * leg.quantity,
+      pnlPercent: ((exitPrice - leg.entryPrice) / leg.entryPrice) * 100,
+      closeReason: leg.closeReason ?? 'Unknown',
+    });
+  }
+
+  // Trims stamp the signal (candle open) time; use the candle close for every close
+  return after.map((leg, i) =>
+    before[i]?.status === 'OPEN' && leg.status === 'CLOSED' ? { ...leg, closeTime } : leg
+  );
+}
+
+/**
+ * Candle interval from the spacing of the first two candles (0 for a single candle)
+ */
+function inferInterval(candles: Candle[]): number {
+  return candles.length > 1 ? candles[1].timestamp - candles[0].timestamp : 0;
+}
+
+/**
+ * Count open positions (legs sharing a positionId count once)
+ */
+function countPositions(legs: PositionLeg[]): number {
+  return new Set(legs.map((leg) => leg.positionId ?? `${leg.entryTime}`)).size;
+}
@@ -0,0 +1,45 @@
+/**
+ * Backtest Module
+ *
+ * Exports the historical backtest engine, performance metrics and optimizer.
+ */
+
+export { runBacktest } from './backtest';
+
+export {
+  calculateMetrics,
+  calculateMaxDrawdown,
+  calculateCAGR,
+  calculateSharpeRatio,
+} from './metrics';
+
+export {
+  optimizeParameters,
+  walkForwardOptimize,
+  applyParameters,
+  expandRange,
+  indicatorParameterSpace,
+  scoreMetrics,
+} from './optimizer';
+
+export type {
+  BacktestConfig,
+  BacktestTrade,
+  EquityPoint,
+  BacktestMetrics,
+  BacktestResult,
+  ParameterRange,
+  OptimizablePositionParam,
+  ParameterSpace,
+  ParameterSet,
+  ObjectiveName,
+  OptimizationObjective,
+  OptimizerConfig,
+  OptimizationRun,
+  ParameterHeatmap,
+  ParameterSensitivity,
+  OptimizationResult,
+  WalkForwardConfig,
+  WalkForwardWindow,
+  WalkForwardResult,
+} from './types';
@@ -0,0 +1,118 @@
+import type { BacktestMetrics, BacktestTrade, EquityPoint } from './types';
+
+/**
+ * Backtest Metrics
+ *
+ * Performance statistics computed from an equity curve and trade list.
+ */
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Calculate maximum peak-to-trough drawdown
+ *
+ * @returns Max drawdown as a positive percentage
+ */
+export function calculateMaxDrawdown(equityCurve: EquityPoint[]): number {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equity);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak);
+    }
+  }
+
+  return maxDrawdown * 100;
+}
+
+/**
+ * Calculate compound annual growth rate
+ *
+ * @returns CAGR as a percentage (0 for curves shorter than one step)
+ */
+export function calculateCAGR(equityCurve: EquityPoint[]): number {
+  if (equityCurve.length < 2) return 0;
+
+  const first = equityCurve[0];
+  const last = equityCurve[equityCurve.length - 1];
+  const years = (last.timestamp - first.timestamp) / YEAR_MS;
+
+  if (years <= 0 || first.equity <= 0 || last.equity <= 0) return 0;
+
+  return (Math.pow(last.equity / first.equity, 1 / years) - 1) * 100;
+}
+
+/**
+ * Calculate annualized Sharpe ratio from per-candle returns
+ *
+ * Periods per year are derived from the median spacing of the curve,
+ * so the same function works for any timeframe.
+ */
+export function calculateSharpeRatio(equityCurve: EquityPoint[]): number {
+  if (equityCurve.length < 3) return 0;
+
+  const returns: number[] = [];
+  const spacings: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const prev = equityCurve[i - 1];
+    const curr = equityCurve[i];
+    returns.push(prev.equity > 0 ? curr.equity / prev.equity - 1 : 0);
+    spacings.push(curr.timestamp - prev.timestamp);
+  }
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const stdDev = Math.sqrt(variance);
+  if (stdDev === 0) return 0;
+
+  spacings.sort((a, b) => a - b);
+  const medianSpacing = spacings[Math.floor(spacings.length / 2)];
+  const periodsPerYear = medianSpacing > 0 ? YEAR_MS / medianSpacing : 0;
+
+  return (mean / stdDev) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * Calculate the full metrics report
+ *
+ * @param equityCurve - Portfolio value after each candle
+ * @param trades - Closed legs
+ * @param exposedCandles - Candles with at least one open leg
+ * @param positionsOpened - Number of positions entered
+ */
+export function calculateMetrics(
+  equityCurve: EquityPoint[],
+  trades: BacktestTrade[],
+  exposedCandles: number,
+  positionsOpened: number
+): BacktestMetrics {
+  const initialEquity = equityCurve[0]?.equity ?? 0;
+  const finalEquity = equityCurve[equityCurve.length - 1]?.equity ?? initialEquity;
+
+  const wins = trades.filter((t) => t.pnlUsdc > 0);
+  const grossProfit = wins.reduce((sum, t) => sum + t.pnlUsdc, 0);
+  const grossLoss = trades.filter((t) => t.pnlUsdc < 0).reduce((sum, t) => sum - t.pnlUsdc, 0);
+
+  let profitFactor = 0;
+  if (grossLoss > 0) {
+    profitFactor = grossProfit / grossLoss;
+  } else if (grossProfit > 0) {
+    profitFactor = Infinity;
+  }
+
+  return {
+    initialEquity,
+    finalEquity,
+    totalReturnPct: initialEquity > 0 ? ((finalEquity - initialEquity) / initialEquity) * 100 : 0,
+    cagrPct: calculateCAGR(equityCurve),
+    maxDrawdownPct: calculateMaxDrawdown(equityCurve),
+    sharpeRatio: calculateSharpeRatio(equityCurve),
+    winRatePct: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+    profitFactor,
+    exposurePct: equityCurve.length > 0 ? (exposedCandles / equityCurve.length) * 100 : 0,
+    totalTrades: trades.length,
+    positionsOpened,
+  };
+}
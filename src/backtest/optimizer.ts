@@ -0,0 +1,413 @@
+import type { Candle, Logger } from '../types';
+import { runBacktest } from './backtest';
+import {
+  getIndicatorDefinition,
+  getIndicatorParamSpecs,
+  isBuiltInIndicator,
+  validateIndicatorParams,
+} from '../indicators/registry';
+import type {
+  BacktestConfig,
+  BacktestMetrics,
+  OptimizablePositionParam,
+  OptimizationObjective,
+  OptimizationResult,
+  OptimizationRun,
+  OptimizerConfig,
+  ParameterHeatmap,
+  ParameterRange,
+  ParameterSensitivity,
+  ParameterSet,
+  WalkForwardConfig,
+  WalkForwardResult,
+  WalkForwardWindow,
+} from './types';
+
+/**
+ * Parameter Optimizer
+ *
+ * Grid or random search over IndicatorConfig params and PositionConfig
+ * multipliers, plus walk-forward validation. Every evaluation is a full
+ * runBacktest(), so optimized parameters behave the same way live.
+ *
+ * For built-in indicators the search space is checked against the indicator
+ * registry: unknown params and values outside a param's min/max are rejected,
+ * and combinations breaking cross-param rules (e.g. MACD fast >= slow) are
+ * skipped.
+ */
+
+const DEFAULT_SAMPLES = 100;
+const DEFAULT_MAX_RUNS = 5000;
+/** Profit factor score of runs without losing trades (their profit factor is Infinity) */
+const MAX_PROFIT_FACTOR_SCORE = 100;
+
+/**
+ * Expand a range into its discrete values
+ */
+export function expandRange(range: ParameterRange): number[] {
+  if ('values' in range) {
+    if (range.values.length === 0) {
+      throw new Error('Parameter range has no values');
+    }
+    return [...range.values];
+  }
+
+  if (range.step <= 0) {
+    throw new Error('Parameter range step must be greater than 0');
+  }
+  if (range.max < range.min) {
+    throw new Error(`Parameter range max (${range.max}) is below min (${range.min})`);
+  }
+
+  const values: number[] = [];
+  const count = Math.floor((range.max - range.min) / range.step + 1e-9);
+  for (let i = 0; i <= count; i++) {
+    // Round away float drift (0.1 + 0.2 etc.) so values group cleanly in heatmaps
+    values.push(Number((range.min + i * range.step).toFixed(10)));
+  }
+  return values;
+}
+
+/**
+ * Search ranges for a built-in indicator's params, from the registry's min/max/step
+ *
+ * @param type - Built-in indicator type
+ * @param names - Params to include (default: all of the indicator's own params)
+ */
+export function indicatorParameterSpace(type: string, names?: string[]): Record<string, ParameterRange> {
+  const specs = getIndicatorParamSpecs(type);
+  const space: Record<string, ParameterRange> = {};
+
+  for (const name of names ?? getIndicatorDefinition(type).params.map((s) => s.name)) {
+    const spec = specs.find((s) => s.name === name);
+    if (!spec) {
+      throw new Error(`Unknown parameter '${name}' for indicator ${type}`);
+    }
+    space[name] = { min: spec.min, max: spec.max, step: spec.step };
+  }
+
+  return space;
+}
+
+/**
+ * Score a run's metrics (higher is better)
+ *
+ * Profit factors are capped at 100, so runs without losing trades still rank
+ * (tied) above the rest instead of scoring Infinity.
+ */
+export function scoreMetrics(metrics: BacktestMetrics, objective: OptimizationObjective): number {
+  if (typeof objective === 'function') {
+    return objective(metrics);
+  }
+
+  switch (objective) {
+    case 'totalReturn':
+      return metrics.totalReturnPct;
+    case 'cagr':
+      return metrics.cagrPct;
+    case 'sharpe':
+      return metrics.sharpeRatio;
+    case 'profitFactor':
+      return Math.min(metrics.profitFactor, MAX_PROFIT_FACTOR_SCORE);
+    case 'winRate':
+      return metrics.winRatePct;
+    case 'maxDrawdown':
+      return -metrics.maxDrawdownPct;
+    default:
+      throw new Error(`Unknown objective: ${objective}`);
+  }
+}
+
+/**
+ * Run grid or random search over a parameter space
+ *
+ * @param candles - Historical candles
+ * @param config - Base backtest config, search space and objective
+ * @param logger - Optional logger for progress (not passed to backtests)
+ * @returns Runs ranked best first, with stability heatmaps
+ */
+export async function optimizeParameters(
+  candles: Candle[],
+  config: OptimizerConfig,
+  logger?: Logger
+): Promise<OptimizationResult> {
+  const dimensions = getDimensions(config);
+  const random = (config.method ?? 'grid') === 'random';
+  const maxRuns = config.maxRuns ?? DEFAULT_MAX_RUNS;
+
+  // Check the grid size before enumerating, so a huge grid fails without filling memory
+  const size = random ? Math.min(config.samples ?? DEFAULT_SAMPLES, gridSize(dimensions)) : gridSize(dimensions);
+  if (size > maxRuns) {
+    throw new Error(`Search space has ${size} parameter sets, exceeding maxRuns (${maxRuns})`);
+  }
+
+  const paramSets = (
+    random ? sampleRandom(dimensions, config.samples ?? DEFAULT_SAMPLES, config.seed ?? 1) : enumerateGrid(dimensions)
+  ).filter((params) => isValidCombination(config.base, params));
+
+  const objective = config.objective ?? 'sharpe';
+  const minTrades = config.minTrades ?? 1;
+  const runs: OptimizationRun[] = [];
+
+  logger?.info(`Optimizing ${paramSets.length} parameter sets (${config.method ?? 'grid'})`);
+
+  for (const params of paramSets) {
+    const result = await runBacktest(candles, applyParameters(config.base, params));
+    const score =
+      result.metrics.totalTrades < minTrades ? -Infinity : scoreMetrics(result.metrics, objective);
+    runs.push({ params, metrics: result.metrics, score });
+  }
+
+  runs.sort((a, b) => b.score - a.score);
+
+  const names = dimensions.map((d) => d.name);
+  return {
+    runs,
+    // Custom objectives may still score Infinity or NaN; skip those for best
+    best: runs.find((run) => Number.isFinite(run.score)) ?? null,
+    heatmaps: buildHeatmaps(runs, names),
+    sensitivity: names.map((name) => buildSensitivity(runs, name)),
+  };
+}
+
+/**
+ * Walk-forward optimization
+ *
+ * Optimizes on each in-sample window, then evaluates the winning parameters
+ * on the following out-of-sample window. Out-of-sample backtests receive the
+ * preceding candles as warmup history but only trade inside the window.
+ *
+ * @param candles - Historical candles
+ * @param config - Optimizer config plus window sizes
+ * @param logger - Optional logger for progress
+ */
+export async function walkForwardOptimize(
+  candles: Candle[],
+  config: WalkForwardConfig,
+  logger?: Logger
+): Promise<WalkForwardResult> {
+  const { inSampleSize, outOfSampleSize } = config;
+  const stepSize = config.stepSize ?? outOfSampleSize;
+  const objective = config.objective ?? 'sharpe';
+  const historySize = config.base.windowSize ?? 400;
+
+  if (inSampleSize <= 0 || outOfSampleSize <= 0 || stepSize <= 0) {
+    throw new Error('Walk-forward window sizes must be greater than 0');
+  }
+  if (inSampleSize + outOfSampleSize > candles.length) {
+    throw new Error(
+      `Not enough candles (${candles.length}) for one walk-forward window (${inSampleSize + outOfSampleSize})`
+    );
+  }
+
+  const windows: WalkForwardWindow[] = [];
+
+  for (
+    let oosStart = inSampleSize;
+    oosStart + outOfSampleSize <= candles.length;
+    oosStart += stepSize
+  ) {
+    const isStart = config.anchored ? 0 : oosStart - inSampleSize;
+    const oosEnd = oosStart + outOfSampleSize;
+    const inSample = candles.slice(isStart, oosStart);
+
+    logger?.info(`Walk-forward window ${windows.length + 1}: in-sample ${inSample.length}, out-of-sample ${outOfSampleSize}`);
+
+    const optimization = await optimizeParameters(inSample, config);
+    if (!optimization.best) {
+      logger?.warn(`Walk-forward window ${windows.length + 1}: no parameter set met minTrades, skipping`);
+      continue;
+    }
+
+    const historyStart = Math.max(0, oosStart - historySize);
+    const oosResult = await runBacktest(
+      candles.slice(historyStart, oosEnd),
+      { ...applyParameters(config.base, optimization.best.params), warmupCandles: oosStart - historyStart }
+    );
+
+    windows.push({
+      inSample: { start: candles[isStart].timestamp, end: candles[oosStart - 1].timestamp },
+      outOfSample: { start: candles[oosStart].timestamp, end: candles[oosEnd - 1].timestamp },
+      bestParams: optimization.best.params,
+      inSampleScore: optimization.best.score,
+      outOfSampleScore: scoreMetrics(oosResult.metrics, objective),
+      outOfSampleMetrics: oosResult.metrics,
+    });
+  }
+
+  const meanInSampleScore = mean(windows.map((w) => w.inSampleScore));
+  const meanOutOfSampleScore = mean(windows.map((w) => w.outOfSampleScore));
+
+  return {
+    windows,
+    efficiency: meanInSampleScore !== 0 ? meanOutOfSampleScore / meanInSampleScore : 0,
+    meanInSampleScore,
+    meanOutOfSampleScore,
+  };
+}
+
+/**
+ * Apply a flat parameter set on top of a base backtest config
+ */
+export function applyParameters(base: BacktestConfig, params: ParameterSet): BacktestConfig {
+  const indicatorParams = { ...base.indicator.params };
+  const position = { ...base.position };
+
+  for (const [key, value] of Object.entries(params)) {
+    const [group, name] = key.split('.');
+    if (group === 'indicator') {
+      indicatorParams[name] = value;
+    } else if (group === 'position') {
+      position[name as OptimizablePositionParam] = value;
+    } else {
+      throw new Error(`Unknown parameter key: ${key}`);
+    }
+  }
+
+  return {
+    ...base,
+    indicator: { ...base.indicator, params: indicatorParams },
+    position,
+  };
+}
+
+// ============================================================================
+// Internals
+// ============================================================================
+
+interface Dimension {
+  name: string;
+  values: number[];
+}
+
+function getDimensions(config: OptimizerConfig): Dimension[] {
+  const dimensions: Dimension[] = [];
+  const type = config.base.indicator.type;
+
+  for (const [name, range] of Object.entries(config.space.indicator ?? {})) {
+    const values = expandRange(range);
+    if (isBuiltInIndicator(type)) {
+      const spec = getIndicatorParamSpecs(type).find((s) => s.name === name);
+      if (!spec) {
+        throw new Error(`Unknown parameter '${name}' for indicator ${type}`);
+      }
+      const outside = values.find((v) => v < spec.min || v > spec.max);
+      if (outside !== undefined) {
+        throw new Error(`indicator.${name} value ${outside} is outside ${spec.min}..${spec.max}`);
+      }
+    }
+    dimensions.push({ name: `indicator.${name}`, values });
+  }
+  for (const [name, range] of Object.entries(config.space.position ?? {})) {
+    if (range) {
+      dimensions.push({ name: `position.${name}`, values: expandRange(range) });
+    }
+  }
+
+  if (dimensions.length === 0) {
+    throw new Error('Parameter space is empty');
+  }
+  return dimensions;
+}
+
+/**
+ * Drop parameter sets a built-in indicator rejects (e.g. MACD fast >= slow)
+ */
+function isValidCombination(base: BacktestConfig, params: ParameterSet): boolean {
+  const { type } = base.indicator;
+  if (!isBuiltInIndicator(type)) {
+    return true;
+  }
+  return validateIndicatorParams(type, applyParameters(base, params).indicator.params).length === 0;
+}
+
+function gridSize(dimensions: Dimension[]): number {
+  return dimensions.reduce((size, dim) => size * dim.values.length, 1);
+}
+
+function enumerateGrid(dimensions: Dimension[]): ParameterSet[] {
+  let sets: ParameterSet[] = [{}];
+  for (const dim of dimensions) {
+    sets = sets.flatMap((set) => dim.values.map((value) => ({ ...set, [dim.name]: value })));
+  }
+  return sets;
+}
+
+/**
+ * Sample distinct grid points with a seeded PRNG (mulberry32)
+ */
+function sampleRandom(dimensions: Dimension[], samples: number, seed: number): ParameterSet[] {
+  const target = Math.min(samples, gridSize(dimensions));
+  const seen = new Set<string>();
+  const sets: ParameterSet[] = [];
+
+  let state = seed >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  while (sets.length < target) {
+    const set: ParameterSet = {};
+    for (const dim of dimensions) {
+      set[dim.name] = dim.values[Math.floor(random() * dim.values.length)];
+    }
+    const key = dimensions.map((d) => set[d.name]).join('|');
+    if (!seen.has(key)) {
+      seen.add(key);
+      sets.push(set);
+    }
+  }
+
+  return sets;
+}
+
+function buildHeatmaps(runs: OptimizationRun[], names: string[]): ParameterHeatmap[] {
+  const heatmaps: ParameterHeatmap[] = [];
+
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      const xParam = names[i];
+      const yParam = names[j];
+      const xValues = uniqueSorted(runs.map((r) => r.params[xParam]));
+      const yValues = uniqueSorted(runs.map((r) => r.params[yParam]));
+
+      const scores = yValues.map((y) =>
+        xValues.map((x) =>
+          meanOrNull(
+            runs.filter((r) => r.params[xParam] === x && r.params[yParam] === y).map((r) => r.score)
+          )
+        )
+      );
+
+      heatmaps.push({ xParam, yParam, xValues, yValues, scores });
+    }
+  }
+
+  return heatmaps;
+}
+
+function buildSensitivity(runs: OptimizationRun[], param: string): ParameterSensitivity {
+  const values = uniqueSorted(runs.map((r) => r.params[param]));
+  return {
+    param,
+    values,
+    meanScores: values.map((v) => meanOrNull(runs.filter((r) => r.params[param] === v).map((r) => r.score))),
+  };
+}
+
+function uniqueSorted(values: number[]): number[] {
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+function meanOrNull(scores: number[]): number | null {
+  const finite = scores.filter(Number.isFinite);
+  return finite.length > 0 ? mean(finite) : null;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
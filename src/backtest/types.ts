@@ -0,0 +1,236 @@
+/**
+ * Backtest Type Definitions
+ */
+
+import type {
+  Candle,
+  CombinatorConfig,
+  IndicatorConfig,
+  LegType,
+  PositionConfig,
+  PositionLeg,
+  TimeframeConfirmationConfig,
+  RegimeConfig,
+} from '../types';
+import type { BinanceInterval } from '../data/BinanceFetcher';
+import type { CandlesByInterval } from '../strategy/multiTimeframe';
+
+/**
+ * Backtest configuration
+ */
+export interface BacktestConfig {
+  indicator: IndicatorConfig;
+  /** Combine several indicators instead of using `indicator` alone */
+  combinator?: CombinatorConfig;
+  position: PositionConfig;
+  /** Starting USDC balance (default: 10000) */
+  initialUsdcBalance?: number;
+  /** Simulated slippage in basis points (default: 50) */
+  slippageBps?: number;
+  /** Candles passed to the indicator per step, matching the live fetch size (default: 400) */
+  windowSize?: number;
+  /** Max concurrently open positions (default: 1, same as live maxPositionsPerAsset) */
+  maxOpenPositions?: number;
+  /** Minimum time between entries in ms (default: 0) */
+  minTimeBetweenTradesMs?: number;
+  /** Leading candles used only as indicator history, never traded (default: 0) */
+  warmupCandles?: number;
+  /** Higher-timeframe trend checks for LONG entries (requires timeframe + higherTimeframeCandles) */
+  confirmations?: TimeframeConfirmationConfig[];
+  /** Interval of the backtest candles, used to align higher timeframes and stamp exits at candle close (default: spacing of the first two candles) */
+  timeframe?: BinanceInterval;
+  /** Full history per confirmation interval; aligned per candle without lookahead */
+  higherTimeframeCandles?: CandlesByInterval;
+  /** Regime gating for LONG entries (same rules as BotConfig.regime) */
+  regime?: RegimeConfig;
+  /** Candles at position.intrabar.timeframe, for LOWER_TIMEFRAME exits (requires timeframe) */
+  lowerTimeframeCandles?: Candle[];
+}
+
+/**
+ * A closed position leg
+ */
+export interface BacktestTrade {
+  positionId?: string;
+  legId: string;
+  legType: LegType;
+  level?: number;          // TP rung in ladders with several TP legs
+  entryTime: number;
+  entryPrice: number;
+  exitTime: number;
+  exitPrice: number;
+  quantity: number;
+  pnlUsdc: number;
+  pnlPercent: number;
+  closeReason: string;
+}
+
+/**
+ * Portfolio value after a candle was processed
+ */
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+}
+
+/**
+ * Performance metrics for a backtest
+ */
+export interface BacktestMetrics {
+  initialEquity: number;
+  finalEquity: number;
+  totalReturnPct: number;
+  /** Compound annual growth rate */
+  cagrPct: number;
+  maxDrawdownPct: number;
+  /** Annualized Sharpe ratio of per-candle returns (risk-free rate = 0) */
+  sharpeRatio: number;
+  winRatePct: number;
+  /** Gross profit / gross loss (Infinity when there are no losing trades) */
+  profitFactor: number;
+  /** Percentage of candles with at least one open leg */
+  exposurePct: number;
+  totalTrades: number;
+  positionsOpened: number;
+}
+
+/**
+ * Full backtest output
+ */
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  metrics: BacktestMetrics;
+  /** Legs still open at the end of the data (marked to market in equity) */
+  openLegs: PositionLeg[];
+  /** LONG signals rejected by higher-timeframe confirmations */
+  rejectedByConfirmation: number;
+  /** LONG signals rejected by regime gating */
+  rejectedByRegime: number;
+  /** LONG signals rejected inside position.timeExits blackout windows */
+  rejectedByBlackout: number;
+}
+
+// ============================================================================
+// Optimization
+// ============================================================================
+
+/**
+ * Values to try for one parameter: an explicit list or an inclusive stepped range
+ */
+export type ParameterRange = { values: number[] } | { min: number; max: number; step: number };
+
+/**
+ * PositionConfig fields that can be optimized
+ */
+export type OptimizablePositionParam = 'atrTpMultiplier' | 'atrTrailMultiplier' | 'breakEvenLockMultiplier';
+
+/**
+ * Parameters to search. Indicator keys map to IndicatorConfig.params.
+ */
+export interface ParameterSpace {
+  indicator?: Record<string, ParameterRange>;
+  position?: Partial<Record<OptimizablePositionParam, ParameterRange>>;
+}
+
+/**
+ * Flat parameter set, keyed 'indicator.<name>' or 'position.<name>'
+ */
+export type ParameterSet = Record<string, number>;
+
+export type ObjectiveName =
+  | 'totalReturn'
+  | 'cagr'
+  | 'sharpe'
+  | 'profitFactor'
+  | 'winRate'
+  | 'maxDrawdown';
+
+/**
+ * Score to maximize: a named metric or a custom function
+ * ('maxDrawdown' is negated so smaller drawdowns rank higher)
+ */
+export type OptimizationObjective = ObjectiveName | ((metrics: BacktestMetrics) => number);
+
+export interface OptimizerConfig {
+  /** Backtest settings the searched parameters are applied on top of */
+  base: BacktestConfig;
+  space: ParameterSpace;
+  /** Search method (default: 'grid') */
+  method?: 'grid' | 'random';
+  /** Parameter sets to evaluate for random search (default: 100) */
+  samples?: number;
+  /** Seed for reproducible random search (default: 1) */
+  seed?: number;
+  /** Objective to rank by (default: 'sharpe') */
+  objective?: OptimizationObjective;
+  /** Runs with fewer closed trades score -Infinity (default: 1) */
+  minTrades?: number;
+  /** Safety limit on evaluated parameter sets (default: 5000) */
+  maxRuns?: number;
+}
+
+export interface OptimizationRun {
+  params: ParameterSet;
+  metrics: BacktestMetrics;
+  score: number;
+}
+
+/**
+ * Mean objective score for each combination of two parameters' values.
+ * Smooth plateaus indicate robust parameters; isolated peaks suggest overfitting.
+ */
+export interface ParameterHeatmap {
+  xParam: string;
+  yParam: string;
+  xValues: number[];
+  yValues: number[];
+  /** scores[y][x], null where no finite score exists */
+  scores: (number | null)[][];
+}
+
+/**
+ * Objective spread across the values of a single parameter
+ */
+export interface ParameterSensitivity {
+  param: string;
+  values: number[];
+  meanScores: (number | null)[];
+}
+
+export interface OptimizationResult {
+  /** All runs, best first */
+  runs: OptimizationRun[];
+  /** Highest finite-scored run (null if no run met minTrades) */
+  best: OptimizationRun | null;
+  heatmaps: ParameterHeatmap[];
+  sensitivity: ParameterSensitivity[];
+}
+
+export interface WalkForwardConfig extends OptimizerConfig {
+  /** Candles in each in-sample (optimization) window */
+  inSampleSize: number;
+  /** Candles in each out-of-sample (validation) window */
+  outOfSampleSize: number;
+  /** Candles to advance between windows (default: outOfSampleSize) */
+  stepSize?: number;
+  /** Keep the in-sample start fixed at the first candle (default: false = rolling) */
+  anchored?: boolean;
+}
+
+export interface WalkForwardWindow {
+  inSample: { start: number; end: number };
+  outOfSample: { start: number; end: number };
+  bestParams: ParameterSet;
+  inSampleScore: number;
+  outOfSampleScore: number;
+  outOfSampleMetrics: BacktestMetrics;
+}
+
+export interface WalkForwardResult {
+  windows: WalkForwardWindow[];
+  /** Mean out-of-sample score / mean in-sample score (near 1 = robust, near 0 = overfit) */
+  efficiency: number;
+  meanInSampleScore: number;
+  meanOutOfSampleScore: number;
+}
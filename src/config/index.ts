@@ -0,0 +1,21 @@
+/**
+ * Config Module
+ *
+ * Exports declarative bot config loading and schema validation.
+ */
+
+export {
+  loadBotConfigFile,
+  readBotConfigFile,
+  resolveBotConfig,
+  resolveConfigFilePath,
+  validateBotConfig,
+  type LoadBotConfigOptions,
+} from './loader';
+
+export {
+  botConfigSchema,
+  validateSchema,
+  type SchemaNode,
+  type ConfigValidationIssue,
+} from './schema';
@@ -0,0 +1,382 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import type { BotConfig, LadderLegConfig } from '../types';
+import type { BinanceInterval } from '../data/BinanceFetcher';
+import { intervalToMs } from '../data/intervals';
+import { hasStrategy } from '../strategy/registry';
+import { validateLadder } from '../strategy/position';
+import { getIndicatorDefinition, isBuiltInIndicator, validateIndicatorParams } from '../indicators/registry';
+import { botConfigSchema, isPlainObject, validateSchema, type ConfigValidationIssue } from './schema';
+
+/**
+ * Bot Config Loader
+ *
+ * Loads a BotConfig from a JSON or YAML file:
+ * 1. Parse the file (.json, .yaml, .yml)
+ * 2. Merge the overlay for the selected environment from its `environments` section
+ * 3. Interpolate ${VAR} / ${VAR:-default} from the environment
+ * 4. Validate against the BotConfig schema, reporting every issue at once
+ *
+ * Example (YAML):
+ *
+ *   botId: mfi-4h
+ *   timeframe: 4h
+ *   paperMode: true
+ *   liveTradingEnabled: false
+ *   indicator: { type: mfi, params: { period: 14, buyLevel: 30, sellLevel: 70 } }
+ *   position: { tradeLegUsdc: ${TRADE_LEG_USDC:-100}, atrTpMultiplier: 1, ... }
+ *   risk: { maxDailyLossPct: 5, maxConsecutiveLosses: 3, maxDailyTrades: 10 }
+ *   environments:
+ *     production:
+ *       paperMode: false
+ *       liveTradingEnabled: true
+ */
+
+export interface LoadBotConfigOptions {
+  /** Overlay to apply from `environments` (default: process.env.BOT_ENV) */
+  environment?: string;
+  /** Variables for ${VAR} interpolation (default: process.env) */
+  env?: Record<string, string | undefined>;
+}
+
+const ENV_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+const FULL_ENV_PATTERN = /^\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}$/;
+
+/**
+ * Load and validate a bot config file
+ *
+ * @param filePath - Path to a .json, .yaml or .yml file
+ * @param options - Environment overlay and interpolation variables
+ * @throws Error listing every validation issue with its field path
+ */
+export function loadBotConfigFile(filePath: string, options: LoadBotConfigOptions = {}): BotConfig {
+  const raw = parseConfigFile(filePath);
+  return resolveBotConfig(raw, options, filePath);
+}
+
+/**
+ * Parse a config file as written: no overlay, interpolation or validation
+ *
+ * @param filePath - Path to a .json, .yaml or .yml file
+ */
+export function readBotConfigFile(filePath: string): unknown {
+  return parseConfigFile(filePath);
+}
+
+/**
+ * Resolve a config file path that must stay inside a base directory
+ *
+ * @param baseDir - Directory relative paths are resolved against (e.g. the bots.json directory)
+ * @param configFile - Relative path to the config file
+ * @throws If the path is absolute, contains '..' or resolves outside baseDir
+ */
+export function resolveConfigFilePath(baseDir: string, configFile: string): string {
+  if (path.isAbsolute(configFile) || configFile.split(/[\\/]/).includes('..')) {
+    throw new Error(`Config file must be a relative path inside ${baseDir}: ${configFile}`);
+  }
+
+  const root = path.resolve(baseDir);
+  const resolved = path.resolve(root, configFile);
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new Error(`Config file must be a relative path inside ${baseDir}: ${configFile}`);
+  }
+  return resolved;
+}
+
+/**
+ * Resolve and validate an already-parsed config object
+ *
+ * @param raw - Parsed config (may contain `environments` and ${VAR} placeholders)
+ * @param options - Environment overlay and interpolation variables
+ * @param source - Name used in error messages
+ */
+export function resolveBotConfig(
+  raw: unknown,
+  options: LoadBotConfigOptions = {},
+  source = 'bot config'
+): BotConfig {
+  if (!isPlainObject(raw)) {
+    throw new Error(`Invalid ${source}: expected an object at the top level`);
+  }
+
+  const environment = options.environment ?? process.env.BOT_ENV;
+  const { environments, ...base } = raw;
+  const issues: ConfigValidationIssue[] = [];
+
+  let merged: unknown = base;
+  if (environment) {
+    const overlays = isPlainObject(environments) ? environments : {};
+    if (overlays[environment] === undefined) {
+      issues.push({ path: 'environments', message: `has no overlay for environment '${environment}'` });
+    } else {
+      merged = deepMerge(base, overlays[environment]);
+    }
+  }
+
+  const interpolated = interpolate(merged, options.env ?? process.env, '', issues);
+  issues.push(...validateBotConfig(interpolated));
+
+  if (issues.length > 0) {
+    throw new Error(
+      `Invalid ${source} (${issues.length} issue${issues.length === 1 ? '' : 's'}):\n` +
+        issues.map((issue) => `  - ${issue.path || '(root)'}: ${issue.message}`).join('\n')
+    );
+  }
+
+  return interpolated as BotConfig;
+}
+
+/**
+ * Validate a config object against the BotConfig schema
+ *
+ * Beyond field types, checks that indicator types have registered strategies,
+ * that built-in indicator params and timeframes match the indicator registry,
+ * that combinator vote counts are achievable, that regime percentiles are ordered,
+ * that the continuous-mode check interval is positive,
+ * that a position ladder adds up (see validateLadder), that the initial stop
+ * value fits its type, that LOWER_TIMEFRAME intrabar exits have a
+ * timeframe dividing the bot's, that a trailing stop method has its settings
+ * and that blackout windows are valid date ranges.
+ *
+ * @returns Every issue found (empty when valid)
+ */
+export function validateBotConfig(config: unknown): ConfigValidationIssue[] {
+  const issues = validateSchema(config, botConfigSchema);
+  if (!isPlainObject(config)) {
+    return issues;
+  }
+
+  const checkType = (indicator: unknown, fieldPath: string, timeframe?: unknown) => {
+    if (!isPlainObject(indicator) || typeof indicator.type !== 'string') {
+      return;
+    }
+    if (isBuiltInIndicator(indicator.type) && typeof timeframe === 'string') {
+      const definition = getIndicatorDefinition(indicator.type);
+      if (!definition.timeframes.includes(timeframe)) {
+        issues.push({
+          path: `${fieldPath}.type`,
+          message: `${definition.name} does not support timeframe ${timeframe} (supported: ${definition.timeframes.join(', ')})`,
+        });
+      }
+    }
+    if (!hasStrategy(indicator.type)) {
+      issues.push({ path: `${fieldPath}.type`, message: `unknown indicator '${indicator.type}'` });
+    } else if (isBuiltInIndicator(indicator.type) && isPlainObject(indicator.params)) {
+      // Non-numbers are already reported by the schema
+      const numeric = Object.fromEntries(
+        Object.entries(indicator.params).filter(([, value]) => typeof value === 'number')
+      );
+      for (const issue of validateIndicatorParams(indicator.type, numeric)) {
+        issues.push({ path: `${fieldPath}.params.${issue.param}`, message: issue.message });
+      }
+    }
+  };
+
+  checkType(config.indicator, 'indicator', config.timeframe);
+
+  const combinator = config.combinator;
+  if (isPlainObject(combinator) && Array.isArray(combinator.indicators)) {
+    combinator.indicators.forEach((indicator, i) =>
+      checkType(indicator, `combinator.indicators[${i}]`, config.timeframe)
+    );
+
+    const triggers = combinator.indicators.filter((i) => isPlainObject(i) && i.role !== 'FILTER').length;
+    if (typeof combinator.minVotes === 'number' && combinator.minVotes > triggers) {
+      issues.push({
+        path: 'combinator.minVotes',
+        message: `must not exceed the number of TRIGGER indicators (${triggers})`,
+      });
+    }
+  }
+
+  if (Array.isArray(config.confirmations)) {
+    config.confirmations.forEach((c, i) => {
+      if (isPlainObject(c)) checkType(c.indicator, `confirmations[${i}].indicator`);
+    });
+  }
+
+  const regime = config.regime;
+  if (isPlainObject(regime) && (regime.lowPercentile ?? 25) >= (regime.highPercentile ?? 75)) {
+    issues.push({ path: 'regime.lowPercentile', message: 'must be below regime.highPercentile' });
+  }
+
+  const continuous = config.continuous;
+  if (isPlainObject(continuous) && continuous.checkIntervalMinutes === 0) {
+    // Negative values are already reported by the schema; ContinuousScheduler needs a positive interval
+    issues.push({ path: 'continuous.checkIntervalMinutes', message: 'must be above 0' });
+  }
+
+  const stop = isPlainObject(config.position) ? config.position.initialStop : undefined;
+  if (isPlainObject(stop) && typeof stop.value === 'number') {
+    // Negative values are already reported by the schema
+    if (stop.value === 0) {
+      issues.push({ path: 'position.initialStop.value', message: 'must be above 0' });
+    } else if (stop.type === 'PERCENT' && stop.value >= 100) {
+      issues.push({ path: 'position.initialStop.value', message: 'must be below 100 for PERCENT stops' });
+    } else if (stop.type === 'SWING_LOW' && !Number.isInteger(stop.value)) {
+      issues.push({ path: 'position.initialStop.value', message: 'must be a whole number of candles for SWING_LOW stops' });
+    }
+  }
+
+  const intrabar = isPlainObject(config.position) ? config.position.intrabar : undefined;
+  if (isPlainObject(intrabar) && !issues.some((i) => i.path.startsWith('position.intrabar'))) {
+    const lower = intrabar.timeframe as BinanceInterval | undefined;
+    if (intrabar.policy === 'LOWER_TIMEFRAME' && lower === undefined) {
+      issues.push({ path: 'position.intrabar.timeframe', message: 'is required for LOWER_TIMEFRAME' });
+    } else if (lower !== undefined && !issues.some((i) => i.path === 'timeframe')) {
+      const candleMs = intervalToMs(config.timeframe as BinanceInterval);
+      const lowerMs = lower === '1M' ? Infinity : intervalToMs(lower);
+      if (!(lowerMs < candleMs && candleMs % lowerMs === 0)) {
+        issues.push({
+          path: 'position.intrabar.timeframe',
+          message: `must be shorter than and divide timeframe ${config.timeframe}`,
+        });
+      }
+    }
+  }
+
+  const trailing = isPlainObject(config.position) ? config.position.trailingStop : undefined;
+  if (isPlainObject(trailing) && !issues.some((i) => i.path.startsWith('position.trailingStop'))) {
+    if (trailing.type === 'PERCENT' && !(typeof trailing.percent === 'number' && trailing.percent > 0)) {
+      issues.push({ path: 'position.trailingStop.percent', message: 'must be above 0 for PERCENT stops' });
+    }
+    if (trailing.type === 'R_MULTIPLE') {
+      if (!Array.isArray(trailing.steps)) {
+        issues.push({ path: 'position.trailingStop.steps', message: 'is required for R_MULTIPLE stops' });
+      } else {
+        (trailing.steps as Array<{ profitR: number; lockR: number }>).forEach((step, i) => {
+          if (!(step.lockR < step.profitR)) {
+            issues.push({ path: `position.trailingStop.steps[${i}].lockR`, message: 'must be below profitR' });
+          }
+        });
+      }
+      if (!isPlainObject(config.position) || config.position.initialStop === undefined) {
+        issues.push({ path: 'position.trailingStop', message: 'R_MULTIPLE stops need position.initialStop to size R' });
+      }
+    }
+    const acceleration = (trailing.acceleration ?? 0.02) as number;
+    if (trailing.type === 'PARABOLIC_SAR' && acceleration > ((trailing.maxAcceleration ?? 0.2) as number)) {
+      issues.push({ path: 'position.trailingStop.acceleration', message: 'must not exceed maxAcceleration' });
+    }
+  }
+
+  const timeExits = isPlainObject(config.position) ? config.position.timeExits : undefined;
+  if (isPlainObject(timeExits) && !issues.some((i) => i.path.startsWith('position.timeExits'))) {
+    ((timeExits.blackouts ?? []) as Array<{ start: string; end: string }>).forEach((window, i) => {
+      const start = Date.parse(window.start);
+      const end = Date.parse(window.end);
+      if (Number.isNaN(start)) {
+        issues.push({ path: `position.timeExits.blackouts[${i}].start`, message: 'must be an ISO 8601 date' });
+      }
+      if (Number.isNaN(end)) {
+        issues.push({ path: `position.timeExits.blackouts[${i}].end`, message: 'must be an ISO 8601 date' });
+      } else if (end <= start) {
+        issues.push({ path: `position.timeExits.blackouts[${i}].end`, message: 'must be after start' });
+      }
+    });
+  }
+
+  const ladder = isPlainObject(config.position) ? config.position.ladder : undefined;
+  if (Array.isArray(ladder) && ladder.length > 0 && !issues.some((i) => i.path.startsWith('position.ladder'))) {
+    for (const issue of validateLadder(ladder as LadderLegConfig[])) {
+      issues.push({ path: `position.ladder${issue.path}`, message: issue.message });
+    }
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// Internals
+// ============================================================================
+
+function parseConfigFile(filePath: string): unknown {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch (error: any) {
+    throw new Error(`Failed to read config file ${filePath}: ${error.message}`);
+  }
+
+  const ext = path.extname(filePath).toLowerCase();
+  try {
+    if (ext === '.json') {
+      return JSON.parse(content);
+    }
+    if (ext === '.yaml' || ext === '.yml') {
+      return yaml.safeLoad(content);
+    }
+  } catch (error: any) {
+    throw new Error(`Failed to parse config file ${filePath}: ${error.message}`);
+  }
+
+  throw new Error(`Unsupported config file extension '${ext}' (use .json, .yaml or .yml)`);
+}
+
+/**
+ * Merge an overlay into a base config: objects merge recursively,
+ * everything else (including arrays) is replaced
+ */
+function deepMerge(base: unknown, overlay: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(overlay)) {
+    return overlay;
+  }
+
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overlay)) {
+    result[key] = key in base ? deepMerge(base[key], value) : value;
+  }
+  return result;
+}
+
+/**
+ * Replace ${VAR} placeholders in all strings.
+ * A string that is exactly one placeholder is converted to a number or
+ * boolean when the value looks like one, so numeric fields can come from env.
+ */
+function interpolate(
+  value: unknown,
+  env: Record<string, string | undefined>,
+  fieldPath: string,
+  issues: ConfigValidationIssue[]
+): unknown {
+  if (typeof value === 'string') {
+    const lookup = (name: string, fallback: string | undefined): string => {
+      const resolved = env[name] ?? fallback;
+      if (resolved === undefined) {
+        issues.push({ path: fieldPath, message: `environment variable ${name} is not set` });
+        return '';
+      }
+      return resolved;
+    };
+
+    const full = value.match(FULL_ENV_PATTERN);
+    if (full) {
+      return coerce(lookup(full[1], full[2]));
+    }
+    return value.replace(ENV_PATTERN, (_match, name: string, fallback?: string) => lookup(name, fallback));
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, i) => interpolate(item, env, `${fieldPath}[${i}]`, issues));
+  }
+
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = interpolate(item, env, fieldPath ? `${fieldPath}.${key}` : key, issues);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+function coerce(value: string): unknown {
+  const trimmed = value.trim();
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (trimmed !== '' && !isNaN(Number(trimmed))) return Number(trimmed);
+  return value;
+}
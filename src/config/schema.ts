@@ -0,0 +1,343 @@
+/**
+ * Config Schema
+ *
+ * Minimal declarative schema used to validate bot config files. Validation
+ * collects every problem with its field path (e.g. `risk.maxDailyLossPct`,
+ * `assets[1].symbol`) instead of stopping at the first one.
+ */
+
+import { INDICATOR_TIMEFRAMES } from '../indicators/registry';
+
+export type SchemaNode =
+  | { type: 'string'; enum?: readonly string[]; minLength?: number }
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'array'; items: SchemaNode; minItems?: number }
+  | { type: 'record'; values: SchemaNode }
+  | { type: 'object'; properties: Record<string, SchemaNode>; required?: readonly string[] };
+
+export interface ConfigValidationIssue {
+  /** Field path, e.g. 'assets[0].tradeLegUsdc' ('' for the root) */
+  path: string;
+  message: string;
+}
+
+const INTERVALS = ['1m', '3m', '5m', '15m', '30m', '1h', '2h', '4h', '6h', '8h', '12h', '1d', '3d', '1w', '1M'] as const;
+
+const indicatorSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', minLength: 1 },
+    params: { type: 'record', values: { type: 'number' } },
+  },
+  required: ['type', 'params'],
+};
+
+const positionSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    tradeLegUsdc: { type: 'number', min: 0 },
+    atrTpMultiplier: { type: 'number', min: 0 },
+    atrTrailMultiplier: { type: 'number', min: 0 },
+    breakEvenLockMultiplier: { type: 'number' },
+    ladder: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          size: { type: 'number', min: 0, max: 1 },
+          atrTarget: { type: 'number', min: 0 },
+          stop: { type: 'string', enum: ['NONE', 'BREAKEVEN', 'TRAILING'] },
+          stopActivation: { type: 'string', enum: ['FIRST_TP', 'ALL_TP'] },
+        },
+        required: ['size'],
+      },
+    },
+    initialStop: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['ATR', 'PERCENT', 'SWING_LOW'] },
+        value: { type: 'number', min: 0 },
+        bufferAtr: { type: 'number', min: 0 },
+      },
+      required: ['type', 'value'],
+    },
+    intrabar: {
+      type: 'object',
+      properties: {
+        policy: { type: 'string', enum: ['PESSIMISTIC', 'OPTIMISTIC', 'OPEN_PROXIMITY', 'LOWER_TIMEFRAME'] },
+        timeframe: { type: 'string', enum: INTERVALS },
+      },
+    },
+    trailingStop: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['ATR', 'CHANDELIER', 'PARABOLIC_SAR', 'PERCENT', 'R_MULTIPLE', 'SUPERTREND'] },
+        period: { type: 'number', min: 1, integer: true },
+        multiplier: { type: 'number', min: 0 },
+        percent: { type: 'number', min: 0, max: 100 },
+        acceleration: { type: 'number', min: 0 },
+        maxAcceleration: { type: 'number', min: 0 },
+        steps: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: {
+              profitR: { type: 'number', min: 0 },
+              lockR: { type: 'number' },
+            },
+            required: ['profitR', 'lockR'],
+          },
+        },
+      },
+      required: ['type'],
+    },
+    timeExits: {
+      type: 'object',
+      properties: {
+        maxHoldingHours: {
+          type: 'object',
+          properties: {
+            TP: { type: 'number', min: 0 },
+            RUNNER: { type: 'number', min: 0 },
+          },
+        },
+        noNewHighCandles: { type: 'number', min: 1, integer: true },
+        blackouts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              start: { type: 'string', minLength: 1 },
+              end: { type: 'string', minLength: 1 },
+              exitBeforeMinutes: { type: 'number', min: 0 },
+            },
+            required: ['start', 'end'],
+          },
+        },
+      },
+    },
+  },
+  required: ['tradeLegUsdc', 'atrTpMultiplier', 'atrTrailMultiplier', 'breakEvenLockMultiplier'],
+};
+
+const riskSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    maxDailyLossPct: { type: 'number', min: 0, max: 100 },
+    maxConsecutiveLosses: { type: 'number', min: 0, integer: true },
+    maxDailyTrades: { type: 'number', min: 0, integer: true },
+    maxPositionsPerAsset: { type: 'number', min: 1, integer: true },
+    maxTotalPositions: { type: 'number', min: 1, integer: true },
+    minTimeBetweenTradesMs: { type: 'number', min: 0 },
+  },
+  required: ['maxDailyLossPct', 'maxConsecutiveLosses', 'maxDailyTrades'],
+};
+
+const assetSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    symbol: { type: 'string', minLength: 1 },
+    name: { type: 'string' },
+    binanceSymbol: { type: 'string', minLength: 1 },
+    solanaMint: { type: 'string' },
+    tradeLegUsdc: { type: 'number', min: 0 },
+    enabled: { type: 'boolean' },
+  },
+  required: ['symbol', 'name', 'binanceSymbol', 'tradeLegUsdc', 'enabled'],
+};
+
+const continuousSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    enabled: { type: 'boolean' },
+    executionOffsetMinutes: { type: 'number', min: 0 },
+    checkIntervalMinutes: { type: 'number', min: 0 },
+  },
+  required: ['enabled', 'executionOffsetMinutes', 'checkIntervalMinutes'],
+};
+
+const combinatorSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    mode: { type: 'string', enum: ['AND', 'OR', 'VOTE'] },
+    indicators: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', minLength: 1 },
+          params: { type: 'record', values: { type: 'number' } },
+          role: { type: 'string', enum: ['TRIGGER', 'FILTER'] },
+        },
+        required: ['type', 'params'],
+      },
+    },
+    minVotes: { type: 'number', min: 1, integer: true },
+    confirmationWindow: { type: 'number', min: 1, integer: true },
+  },
+  required: ['mode', 'indicators'],
+};
+
+const confirmationSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    interval: { type: 'string', enum: INTERVALS },
+    indicator: indicatorSchema,
+    allowNeutral: { type: 'boolean' },
+  },
+  required: ['interval', 'indicator'],
+};
+
+const TRENDS = ['BULLISH', 'BEARISH', 'NEUTRAL'] as const;
+const VOLATILITY_LEVELS = ['LOW', 'NORMAL', 'HIGH'] as const;
+
+const regimeSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    adxPeriod: { type: 'number', min: 2, integer: true },
+    adxThreshold: { type: 'number', min: 0, max: 100 },
+    maType: { type: 'string', enum: ['SMA', 'EMA', 'WMA', 'HMA'] },
+    maPeriod: { type: 'number', min: 2, integer: true },
+    slopeLookback: { type: 'number', min: 1, integer: true },
+    atrPeriod: { type: 'number', min: 2, integer: true },
+    volatilityWindow: { type: 'number', min: 2, integer: true },
+    lowPercentile: { type: 'number', min: 0, max: 100 },
+    highPercentile: { type: 'number', min: 0, max: 100 },
+    blockLongs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          trend: { type: 'string', enum: TRENDS },
+          volatility: { type: 'string', enum: VOLATILITY_LEVELS },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Schema for BotConfig
+ */
+export const botConfigSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    botId: { type: 'string', minLength: 1 },
+    timeframe: { type: 'string', enum: INDICATOR_TIMEFRAMES },
+    paperMode: { type: 'boolean' },
+    liveTradingEnabled: { type: 'boolean' },
+    indicator: indicatorSchema,
+    combinator: combinatorSchema,
+    confirmations: { type: 'array', items: confirmationSchema },
+    regime: regimeSchema,
+    position: positionSchema,
+    risk: riskSchema,
+    assets: { type: 'array', items: assetSchema },
+    continuous: continuousSchema,
+    stateFile: { type: 'string' },
+    logFile: { type: 'string' },
+    errorLogFile: { type: 'string' },
+    csvDir: { type: 'string' },
+  },
+  required: ['botId', 'timeframe', 'paperMode', 'liveTradingEnabled', 'indicator', 'position', 'risk'],
+};
+
+/**
+ * Validate a value against a schema
+ *
+ * Unknown object keys are reported too, so typos like `maxDailyLoss`
+ * don't silently fall back to defaults.
+ *
+ * @returns Every issue found (empty when valid)
+ */
+export function validateSchema(value: unknown, schema: SchemaNode, path = ''): ConfigValidationIssue[] {
+  const issues: ConfigValidationIssue[] = [];
+  const fail = (message: string) => issues.push({ path, message });
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        fail(`expected string, got ${describe(value)}`);
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        fail(`must be one of ${schema.enum.join(', ')} (got '${value}')`);
+      } else if (schema.minLength !== undefined && value.length < schema.minLength) {
+        fail('must not be empty');
+      }
+      break;
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        fail(`expected number, got ${describe(value)}`);
+      } else {
+        if (schema.integer && !Number.isInteger(value)) fail(`must be an integer (got ${value})`);
+        if (schema.min !== undefined && value < schema.min) fail(`must be >= ${schema.min} (got ${value})`);
+        if (schema.max !== undefined && value > schema.max) fail(`must be <= ${schema.max} (got ${value})`);
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') fail(`expected boolean, got ${describe(value)}`);
+      break;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        fail(`expected array, got ${describe(value)}`);
+      } else {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+          fail(`must have at least ${schema.minItems} item(s)`);
+        }
+        value.forEach((item, i) => issues.push(...validateSchema(item, schema.items, `${path}[${i}]`)));
+      }
+      break;
+
+    case 'record':
+      if (!isPlainObject(value)) {
+        fail(`expected object, got ${describe(value)}`);
+      } else {
+        for (const [key, item] of Object.entries(value)) {
+          issues.push(...validateSchema(item, schema.values, joinPath(path, key)));
+        }
+      }
+      break;
+
+    case 'object':
+      if (!isPlainObject(value)) {
+        fail(`expected object, got ${describe(value)}`);
+        break;
+      }
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined) {
+          issues.push({ path: joinPath(path, key), message: 'is required' });
+        }
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const child = schema.properties[key];
+        if (!child) {
+          issues.push({ path: joinPath(path, key), message: 'is not a recognized field' });
+        } else if (item !== undefined) {
+          issues.push(...validateSchema(item, child, joinPath(path, key)));
+        }
+      }
+      break;
+  }
+
+  return issues;
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -1,4 +1,25 @@
-import type { Signal, PositionLeg, Candle, SwapResult } from '../types';
+import type {
+  Signal,
+  PositionLeg,
+  Candle,
+  SwapResult,
+  IntrabarConfig,
+  LadderLegConfig,
+  TrailingStopConfig,
+  TimeExitConfig,
+} from '../types';
+
+/**
+ * Market data for position updates beyond the current candle
+ */
+export interface PositionUpdateContext {
+  /** Candles up to and including the current one (candle-based trailing stops) */
+  candles?: Candle[];
+  /** Lower-timeframe candles inside the current candle (intrabar LOWER_TIMEFRAME exits) */
+  lowerCandles?: Candle[];
+  /** Time the update happens at, e.g. the candle close (time exits; default: candle open time) */
+  time?: number;
+}
 
 /**
  * Broker Interface
@@ -32,12 +53,14 @@ export interface Broker {
    * @param legs - Array of position legs to update
    * @param candle - Current candle for price reference
    * @param currentATR - Current ATR value
+   * @param context - Candle history and lower-timeframe candles, when available
    * @returns Updated array of legs
    */
   updateAndClosePositions(
     legs: PositionLeg[],
     candle: Candle,
-    currentATR: number
+    currentATR: number,
+    context?: PositionUpdateContext
   ): Promise<PositionLeg[]>;
 
   /**
@@ -107,6 +130,10 @@ export interface PaperBrokerConfig {
   atrTpMultiplier?: number;
   atrTrailMultiplier?: number;
   breakEvenLockMultiplier?: number;
+  ladder?: LadderLegConfig[];   // default: TP leg at atrTpMultiplier + runner
+  intrabar?: IntrabarConfig;    // default: exits checked against the candle close
+  trailingStop?: TrailingStopConfig; // default: ATR trail
+  timeExits?: TimeExitConfig;   // default: no time-based exits
 }
 
 /**
@@ -123,6 +150,10 @@ export interface LiveBrokerConfig {
   tradeLegUsdc: number;
   atrTpMultiplier: number;
   atrTrailMultiplier: number;
+  breakEvenLockMultiplier?: number; // default: 0.25
+  ladder?: LadderLegConfig[];   // default: TP leg at atrTpMultiplier + runner
+  trailingStop?: TrailingStopConfig; // default: ATR trail
+  timeExits?: TimeExitConfig;   // default: no time-based exits
   minBtcBalance: number;
   minUsdcReserve: number;
 }
@@ -1,12 +1,69 @@
 import fs from 'fs';
+import path from 'path';
 import type { Logger } from '../types';
 
+/**
+ * A single state schema upgrade (version `from` → `from + 1`)
+ */
+export interface StateMigration {
+  /** Version this migration upgrades from */
+  from: number;
+  description?: string;
+  /** Return the upgraded state (may mutate and return the input) */
+  migrate: (state: Record<string, any>) => Record<string, any>;
+}
+
+export interface StateManagerOptions {
+  /** Current state schema version (default: last migration's target, or 1) */
+  version?: number;
+  /** Migrations applied in order on load, e.g. v1 → v2 → v3 */
+  migrations?: StateMigration[];
+  /** Timestamped snapshots kept after each save, oldest removed first (default: 0 = off) */
+  maxSnapshots?: number;
+  /** Snapshot directory (default: `<file>.snapshots` next to the state file) */
+  snapshotDir?: string;
+  /** Lock age after which a lock is considered stale and broken (default: 30000) */
+  lockStaleMs?: number;
+  /** Max time to wait for another writer's lock (default: 5000) */
+  lockTimeoutMs?: number;
+}
+
+/**
+ * A saved copy of the state that restore() can roll back to
+ */
+export interface StateSnapshot {
+  id: string;
+  timestamp: number;
+  path: string;
+}
+
+interface LockInfo {
+  pid: number;
+  token: string;
+  acquiredAt: number;
+}
+
+const DEFAULT_LOCK_STALE_MS = 30000;
+const DEFAULT_LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 50;
+
 /**
  * Generic State Manager
  *
  * Handles loading, saving, and updating state files for bots.
  * Provides atomic writes and error recovery.
  *
+ * State files carry a `version` field. Files written by an older release
+ * are migrated on load (the original file is kept as `<file>.v<N>.bak`);
+ * files without a version are treated as version 1. A file from a newer
+ * release is refused rather than loaded with fields this release doesn't know.
+ *
+ * Writes are crash-safe: the temp file and its directory are fsynced around
+ * the rename, and an exclusive `<file>.lock` keeps two processes from writing
+ * at once. Locks left by a dead process (or older than lockStaleMs) are broken.
+ * With maxSnapshots set, every save also keeps a timestamped snapshot that
+ * restore() can roll back to.
+ *
  * @template T - State type (must extend object)
  */
 export class StateManager<T extends object> {
@@ -14,6 +71,14 @@ export class StateManager<T extends object> {
   private state: T;
   private logger?: Logger;
   private defaultState: T;
+  private version: number;
+  private migrations: Map<number, StateMigration>;
+  private lockPath: string;
+  private lockStaleMs: number;
+  private lockTimeoutMs: number;
+  private snapshotDir: string;
+  private maxSnapshots: number;
+  private lastSnapshotTime = 0;
 
   /**
    * Create a new StateManager instance
@@ -21,19 +86,45 @@ export class StateManager<T extends object> {
    * @param filePath - Path to the state file
    * @param defaultState - Default state if file doesn't exist
    * @param logger - Optional logger instance
+   * @param options - Schema version, migrations, snapshots and locking
    */
-  constructor(filePath: string, defaultState: T, logger?: Logger) {
+  constructor(filePath: string, defaultState: T, logger?: Logger, options: StateManagerOptions = {}) {
     this.filePath = filePath;
     this.defaultState = defaultState;
     this.logger = logger;
     this.state = { ...defaultState };
+
+    this.migrations = new Map();
+    for (const migration of options.migrations ?? []) {
+      if (this.migrations.has(migration.from)) {
+        throw new Error(`Duplicate state migration from version ${migration.from}`);
+      }
+      this.migrations.set(migration.from, migration);
+    }
+
+    const latest = this.migrations.size > 0 ? Math.max(...this.migrations.keys()) + 1 : 1;
+    this.version = options.version ?? latest;
+    if (this.version < latest) {
+      throw new Error(`State version ${this.version} is older than the latest migration target (${latest})`);
+    }
+
+    this.lockPath = `${filePath}.lock`;
+    this.lockStaleMs = options.lockStaleMs ?? DEFAULT_LOCK_STALE_MS;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+    this.snapshotDir = options.snapshotDir ?? `${filePath}.snapshots`;
+    this.maxSnapshots = options.maxSnapshots ?? 0;
   }
 
   /**
    * Load state from file
    * Returns default state if file doesn't exist or is invalid
+   *
+   * @throws Error if the file was written by a newer version or a migration fails
    */
   async load(): Promise<T> {
+    let content: string;
+    let parsed: Record<string, any>;
+
     try {
       if (!fs.existsSync(this.filePath)) {
         this.logger?.info(`State file not found, using defaults: ${this.filePath}`);
@@ -42,35 +133,52 @@ export class StateManager<T extends object> {
         return this.state;
       }
 
-      const content = fs.readFileSync(this.filePath, 'utf-8');
-      const parsed = JSON.parse(content);
-
-      // Merge with defaults to handle missing fields in saved state
-      this.state = { ...this.defaultState, ...parsed };
-
-      this.logger?.info(`State loaded from: ${this.filePath}`);
-      return this.state;
+      content = fs.readFileSync(this.filePath, 'utf-8');
+      parsed = JSON.parse(content);
     } catch (error: any) {
       this.logger?.error(`Failed to load state: ${error.message}`);
       this.state = { ...this.defaultState };
       return this.state;
     }
+
+    const fileVersion = this.checkVersion(parsed, this.filePath);
+    if (fileVersion < this.version) {
+      const backupPath = `${this.filePath}.v${fileVersion}.bak`;
+      fs.writeFileSync(backupPath, content, 'utf-8');
+      this.logger?.info(`State backup created before migration: ${backupPath}`);
+
+      parsed = this.migrate(parsed, fileVersion);
+    }
+
+    // Merge with defaults to handle missing fields in saved state
+    this.state = { ...this.defaultState, ...parsed, version: this.version };
+
+    if (fileVersion < this.version) {
+      await this.save();
+    }
+
+    this.logger?.info(`State loaded from: ${this.filePath}`);
+    return this.state;
   }
 
   /**
    * Save current state to file
-   * Uses atomic write (write to temp, then rename)
+   * Uses a durable atomic write (fsync temp, rename, fsync directory)
+   * while holding the state file lock
    */
   async save(): Promise<void> {
     try {
-      const tempPath = `${this.filePath}.tmp`;
-      const content = JSON.stringify(this.state, null, 2);
+      const content = JSON.stringify({ ...this.state, version: this.version }, null, 2);
+      const token = await this.acquireLock();
 
-      // Write to temp file first
-      fs.writeFileSync(tempPath, content, 'utf-8');
-
-      // Rename to actual file (atomic on most systems)
-      fs.renameSync(tempPath, this.filePath);
+      try {
+        writeFileDurable(this.filePath, content);
+        if (this.maxSnapshots > 0) {
+          this.writeSnapshot(content);
+        }
+      } finally {
+        this.releaseLock(token);
+      }
 
       this.logger?.debug?.(`State saved to: ${this.filePath}`);
     } catch (error: any) {
@@ -79,6 +187,50 @@ export class StateManager<T extends object> {
     }
   }
 
+  /**
+   * List snapshots, newest first
+   */
+  listSnapshots(): StateSnapshot[] {
+    if (!fs.existsSync(this.snapshotDir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(this.snapshotDir)
+      .filter((name) => /^\d+\.json$/.test(name))
+      .map((name) => {
+        const id = name.slice(0, -'.json'.length);
+        return { id, timestamp: Number(id), path: path.join(this.snapshotDir, name) };
+      })
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Roll the state back to a snapshot
+   * The restored state is saved (and snapshotted) as the current state.
+   *
+   * @param snapshotId - ID from listSnapshots()
+   * @throws Error if the snapshot doesn't exist or is from a newer version
+   */
+  async restore(snapshotId: string): Promise<T> {
+    const snapshot = this.listSnapshots().find((s) => s.id === snapshotId);
+    if (!snapshot) {
+      throw new Error(`State snapshot not found: ${snapshotId}`);
+    }
+
+    let parsed: Record<string, any> = JSON.parse(fs.readFileSync(snapshot.path, 'utf-8'));
+    const snapshotVersion = this.checkVersion(parsed, snapshot.path);
+    if (snapshotVersion < this.version) {
+      parsed = this.migrate(parsed, snapshotVersion);
+    }
+
+    this.state = { ...this.defaultState, ...parsed, version: this.version };
+    await this.save();
+
+    this.logger?.info(`State restored from snapshot ${snapshotId}`);
+    return this.state;
+  }
+
   /**
    * Get current state
    */
@@ -144,14 +296,180 @@ export class StateManager<T extends object> {
     return this.filePath;
   }
 
+  /**
+   * Get the state schema version written by save()
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
   /**
    * Create a backup of current state
    */
   async backup(suffix: string = 'backup'): Promise<string> {
     const backupPath = `${this.filePath}.${suffix}`;
-    const content = JSON.stringify(this.state, null, 2);
+    const content = JSON.stringify({ ...this.state, version: this.version }, null, 2);
     fs.writeFileSync(backupPath, content, 'utf-8');
     this.logger?.info(`State backup created: ${backupPath}`);
     return backupPath;
   }
+
+  /**
+   * Read a state document's version, refusing versions newer than ours
+   */
+  private checkVersion(parsed: Record<string, any>, source: string): number {
+    const fileVersion = typeof parsed.version === 'number' ? parsed.version : 1;
+    if (fileVersion > this.version) {
+      throw new Error(
+        `State file ${source} has version ${fileVersion}, but this release supports up to ` +
+          `version ${this.version}. Refusing to load - upgrade the bot or restore an older state file.`
+      );
+    }
+    return fileVersion;
+  }
+
+  /**
+   * Acquire the exclusive lock file, breaking it if its owner is gone
+   *
+   * @returns Token proving ownership (checked on release)
+   */
+  private async acquireLock(): Promise<string> {
+    const token = `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    for (;;) {
+      try {
+        const fd = fs.openSync(this.lockPath, 'wx');
+        try {
+          const info: LockInfo = { pid: process.pid, token, acquiredAt: Date.now() };
+          fs.writeFileSync(fd, JSON.stringify(info));
+          fs.fsyncSync(fd);
+        } finally {
+          fs.closeSync(fd);
+        }
+        return token;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const holder = this.readLock();
+      if (!holder || this.isStale(holder)) {
+        this.logger?.warn(
+          `Breaking stale state lock ${this.lockPath}${holder ? ` (pid ${holder.pid}, acquired ${new Date(holder.acquiredAt).toISOString()})` : ''}`
+        );
+        fs.rmSync(this.lockPath, { force: true });
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for state lock ${this.lockPath} held by pid ${holder.pid}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  private releaseLock(token: string): void {
+    // Only remove our own lock - it may have been broken and re-taken
+    if (this.readLock()?.token === token) {
+      fs.rmSync(this.lockPath, { force: true });
+    }
+  }
+
+  private readLock(): LockInfo | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.lockPath, 'utf-8'));
+    } catch {
+      // Missing, or a writer crashed between create and write
+      return null;
+    }
+  }
+
+  private isStale(lock: LockInfo): boolean {
+    if (Date.now() - lock.acquiredAt > this.lockStaleMs) {
+      return true;
+    }
+    if (lock.pid === process.pid) {
+      return false;
+    }
+    try {
+      process.kill(lock.pid, 0);
+      return false;
+    } catch (error: any) {
+      // EPERM: the process exists but belongs to another user
+      return error.code === 'ESRCH';
+    }
+  }
+
+  /**
+   * Write a snapshot and remove the oldest beyond maxSnapshots
+   */
+  private writeSnapshot(content: string): void {
+    fs.mkdirSync(this.snapshotDir, { recursive: true });
+
+    // Keep IDs unique and increasing even for several saves in one millisecond
+    const timestamp = Math.max(Date.now(), this.lastSnapshotTime + 1);
+    this.lastSnapshotTime = timestamp;
+    writeFileDurable(path.join(this.snapshotDir, `${timestamp}.json`), content);
+
+    for (const old of this.listSnapshots().slice(this.maxSnapshots)) {
+      fs.rmSync(old.path, { force: true });
+    }
+  }
+
+  /**
+   * Run migrations from a file version up to the current version
+   */
+  private migrate(state: Record<string, any>, fromVersion: number): Record<string, any> {
+    let migrated = state;
+
+    for (let version = fromVersion; version < this.version; version++) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new Error(`No state migration from version ${version} to ${version + 1}`);
+      }
+
+      try {
+        migrated = migration.migrate(migrated);
+      } catch (error: any) {
+        throw new Error(`State migration v${version} → v${version + 1} failed: ${error.message}`);
+      }
+
+      this.logger?.info(
+        `State migrated v${version} → v${version + 1}${migration.description ? `: ${migration.description}` : ''}`
+      );
+    }
+
+    return migrated;
+  }
+}
+
+/**
+ * Write a file so it survives a crash or power loss: fsync the temp file,
+ * rename it over the target, then fsync the directory entry
+ */
+function writeFileDurable(filePath: string, content: string): void {
+  const tempPath = `${filePath}.tmp`;
+
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeFileSync(fd, content, 'utf-8');
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  // Rename to actual file (atomic on most systems)
+  fs.renameSync(tempPath, filePath);
+
+  let dirFd: number | undefined;
+  try {
+    dirFd = fs.openSync(path.dirname(filePath), 'r');
+    fs.fsyncSync(dirFd);
+  } catch {
+    // Directory fsync isn't supported on every platform (e.g. Windows)
+  } finally {
+    if (dirFd !== undefined) fs.closeSync(dirFd);
+  }
 }
@@ -13,7 +13,12 @@ export {
 } from './createLogger';
 
 // State Management
-export { StateManager } from './StateManager';
+export {
+  StateManager,
+  type StateMigration,
+  type StateManagerOptions,
+  type StateSnapshot,
+} from './StateManager';
 
 // Broker Interface & Types
 export {
@@ -22,4 +27,5 @@ export {
   type PaperTradeExecution,
   type PaperBrokerConfig,
   type LiveBrokerConfig,
+  type PositionUpdateContext,
 } from './Broker';
@@ -40,6 +40,8 @@ import type {
 import {
   EventStore
 } from '../journal/index.js';
+import { loadBotConfigFile, readBotConfigFile, resolveConfigFilePath } from '../config/index.js';
+import { getLegLabel } from '../strategy/position.js';
 
 import {
   createVerifyToken,
@@ -259,10 +261,38 @@ export function createDashboardApp(config: DashboardConfig): DashboardApp {
         serviceName: bot.serviceName,
         indicator: bot.indicator,
         timeframe: bot.timeframe,
+        configFile: bot.configFile,
       })),
     });
   }));
 
+  botsRouter.get('/:botId/config', verifyToken, asyncHandler(async (req: Request, res: Response) => {
+    const bot = getBotConfig(req.params.botId as string);
+    if (!bot) {
+      return res.status(404).json({ success: false, error: 'Bot not found' });
+    }
+    if (!bot.configFile) {
+      return res.status(404).json({ success: false, error: 'Bot has no config file' });
+    }
+
+    let configPath: string;
+    try {
+      configPath = resolveConfigFilePath(path.dirname(config.botsFile), bot.configFile);
+    } catch {
+      return res.status(422).json({ success: false, error: 'Bot config file is not inside the bots.json directory' });
+    }
+
+    // Validate with the real environment, but return the file as written so
+    // ${VAR} placeholders (secrets) are never sent to the client
+    try {
+      loadBotConfigFile(configPath);
+      res.json({ success: true, configFile: bot.configFile, config: readBotConfigFile(configPath) });
+    } catch (error) {
+      console.error(`Failed to load config file for bot ${bot.id}:`, error);
+      res.status(422).json({ success: false, error: 'Bot config file is missing or invalid' });
+    }
+  }));
+
   botsRouter.get('/options', asyncHandler(async (_req: Request, res: Response) => {
     res.json({
       indicators: INDICATORS,
@@ -271,12 +301,20 @@ export function createDashboardApp(config: DashboardConfig): DashboardApp {
   }));
 
   botsRouter.post('/', verifyToken, asyncHandler(async (req: Request, res: Response) => {
-    const { indicator, timeframe, name, botId } = req.body;
+    const { indicator, timeframe, name, botId, configFile } = req.body;
 
     if (!indicator || !timeframe) {
       return res.status(400).json({ success: false, error: 'indicator and timeframe are required' });
     }
 
+    if (configFile) {
+      try {
+        resolveConfigFilePath(path.dirname(config.botsFile), String(configFile));
+      } catch {
+        return res.status(400).json({ success: false, error: 'configFile must be a relative path inside the bots.json directory' });
+      }
+    }
+
     const normalizedIndicator = indicator.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
     const normalizedTimeframe = timeframe.trim().toLowerCase() === 'd1' ? '1d' : timeframe.trim().toLowerCase();
 
@@ -285,7 +323,7 @@ export function createDashboardApp(config: DashboardConfig): DashboardApp {
       return res.status(400).json({ success: false, error: 'Unsupported indicator' });
     }
 
-    if (!TIMEFRAMES.includes(normalizedTimeframe)) {
+    if (!indicatorConfig.timeframes.includes(normalizedTimeframe)) {
       return res.status(400).json({ success: false, error: 'Unsupported timeframe' });
     }
 
@@ -309,6 +347,7 @@ export function createDashboardApp(config: DashboardConfig): DashboardApp {
       csvDir: finalBotId,
       indicator: normalizedIndicator,
       timeframe: normalizedTimeframe,
+      ...(configFile ? { configFile: String(configFile) } : {}),
     };
 
     bots.push(newBot);
@@ -469,6 +508,8 @@ export function createDashboardApp(config: DashboardConfig): DashboardApp {
           unrealizedPnL,
           unrealizedPnLPercent,
           target: leg.targetPrice || leg.highestPrice,
+          label: getLegLabel(leg),
+          stop: leg.trailingStop,
         };
       });
     } else if ('assetPositions' in state) {
@@ -494,6 +535,8 @@ export function createDashboardApp(config: DashboardConfig): DashboardApp {
             unrealizedPnL,
             unrealizedPnLPercent,
             target: leg.targetPrice || leg.highestPrice,
+            label: getLegLabel(leg),
+            stop: leg.trailingStop,
           };
         });
       });
@@ -749,7 +792,7 @@ export function createDashboardApp(config: DashboardConfig): DashboardApp {
         quantity: p.quantity,
         pnlUsdc: p.pnlUsdc,
         pnlPercent: p.pnlPercent,
-        legType: p.type,
+        legType: getLegLabel(p),
         exitReason: p.closeReason,
         holdingPeriod: undefined,
         mode: 'PAPER' as const,
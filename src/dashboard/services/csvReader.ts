@@ -3,6 +3,7 @@ import { readFileSync, readdirSync, existsSync } from 'fs';
 import { parse } from 'csv-parse/sync';
 import { join } from 'path';
 import type { TradeEntry, PositionLeg, EquityPoint, BotConfig } from '../types';
+import { parseLegLabel } from '../../strategy/position.js';
 
 /**
  * CSV Reader Service
@@ -196,7 +197,7 @@ export class CSVReader {
     if (row.LegType || row.ExitPrice) {
       return {
         id: row.LegID,
-        type: (row.LegType || row.Type) as 'TP' | 'RUNNER',
+        ...parseLegLabel(row.LegType || row.Type),
         entryPrice: parseFloat(row.EntryPrice),
         quantity: parseFloat(row.Quantity),
         entryTime: row.EntryDate ? new Date(row.EntryDate).getTime() : new Date(row.EntryTime).getTime(),
@@ -216,7 +217,7 @@ export class CSVReader {
     // Handle original positions format
     return {
       id: row.LegID,
-      type: row.Type as 'TP' | 'RUNNER',
+      ...parseLegLabel(row.Type),
       entryPrice: parseFloat(row.EntryPrice),
       quantity: parseFloat(row.Quantity),
       entryTime: new Date(row.EntryTime).getTime(),
@@ -365,7 +365,7 @@ export class JournalDbService {
     quantity: number;
     pnlUsdc?: number;
     pnlPercent?: number;
-    legType: 'TP' | 'RUNNER';
+    legType: string;
     exitReason?: string;
     holdingPeriod?: string;
     mode: 'PAPER' | 'LIVE';
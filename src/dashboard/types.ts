@@ -2,6 +2,9 @@
  * Dashboard API Types
  */
 
+import { listIndicators, INDICATOR_TIMEFRAMES } from '../indicators/registry.js';
+import type { IndicatorParamSpec } from '../indicators/registry.js';
+
 // ===== Bot Configuration =====
 
 export interface BotConfig {
@@ -13,6 +16,7 @@ export interface BotConfig {
   csvDir: string;
   indicator?: string;
   timeframe?: string;
+  configFile?: string;  // JSON/YAML BotConfig file, relative to bots.json
 }
 
 // ===== Bot State Types =====
@@ -20,6 +24,7 @@ export interface BotConfig {
 export interface PositionLeg {
   id: string;
   type: 'TP' | 'RUNNER';
+  level?: number;          // TP rung in ladders with several TP legs
   entryPrice: number;
   quantity: number;
   entryTime: number;
@@ -207,7 +212,7 @@ export interface JournalEntry {
   quantity: number;
   pnlUsdc?: number;
   pnlPercent?: number;
-  legType: 'TP' | 'RUNNER';
+  legType: string;         // TP, TP1..TPn (ladder rungs) or RUNNER
   exitReason?: string;
   holdingPeriod?: string;
   mode: 'PAPER' | 'LIVE';
@@ -234,15 +239,20 @@ export interface ServiceStatus {
 export interface IndicatorOption {
   id: string;
   label: string;
+  description: string;
   timeframes: string[];
+  params: IndicatorParamSpec[];
 }
 
-export const INDICATORS: IndicatorOption[] = [
-  { id: 'mfi', label: 'MFI', timeframes: ['1h', '4h', '1d'] },
-  { id: 'tcf2', label: 'TCF2', timeframes: ['1h', '4h', '1d'] },
-  { id: 'kpss', label: 'KPSS', timeframes: ['1h', '4h', '1d'] },
-  { id: 'tdfi', label: 'TDFI', timeframes: ['1h', '4h', '1d'] },
-  { id: 'dssmom', label: 'DSS-MOM', timeframes: ['1h', '4h', '1d'] },
-];
-
-export const TIMEFRAMES = ['1h', '4h', '1d'];
+/**
+ * Indicators bots can be created with, derived from the indicator registry
+ */
+export const INDICATORS: IndicatorOption[] = listIndicators().map((definition) => ({
+  id: definition.id,
+  label: definition.name,
+  description: definition.description,
+  timeframes: definition.timeframes,
+  params: definition.params,
+}));
+
+export const TIMEFRAMES = INDICATOR_TIMEFRAMES;
@@ -1,7 +1,7 @@
 /**
  * Data Module
  *
- * Exports data fetching utilities.
+ * Exports data fetching utilities and candle transforms.
  */
 
 export {
@@ -14,3 +14,7 @@ export {
   type BinanceFetcherConfig,
   type BinanceInterval,
 } from './BinanceFetcher';
+
+export { intervalToMs, getCandleOpenTime, getNextCandleClose, getCompletedCandles } from './intervals';
+
+export { resampleCandles, toHeikinAshi, toRenko, type ResampleOptions, type RenkoOptions } from './transforms';
@@ -0,0 +1,92 @@
+import type { Candle } from '../types';
+import type { BinanceInterval } from './BinanceFetcher';
+
+/**
+ * Candle Interval Helpers
+ *
+ * Converts Binance intervals to durations and computes candle boundaries.
+ * All times are UTC milliseconds, matching Binance kline open times.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const INTERVAL_MS: Record<Exclude<BinanceInterval, '1M'>, number> = {
+  '1m': MINUTE_MS,
+  '3m': 3 * MINUTE_MS,
+  '5m': 5 * MINUTE_MS,
+  '15m': 15 * MINUTE_MS,
+  '30m': 30 * MINUTE_MS,
+  '1h': HOUR_MS,
+  '2h': 2 * HOUR_MS,
+  '4h': 4 * HOUR_MS,
+  '6h': 6 * HOUR_MS,
+  '8h': 8 * HOUR_MS,
+  '12h': 12 * HOUR_MS,
+  '1d': DAY_MS,
+  '3d': 3 * DAY_MS,
+  '1w': 7 * DAY_MS,
+};
+
+// Unix epoch is a Thursday; Binance weekly candles open Monday 00:00 UTC
+const WEEK_OFFSET_MS = 4 * DAY_MS;
+
+/**
+ * Get the duration of a fixed-length interval in milliseconds
+ *
+ * @throws For '1M', which has no fixed length
+ */
+export function intervalToMs(interval: BinanceInterval): number {
+  if (interval === '1M') {
+    throw new Error('Monthly interval has no fixed duration');
+  }
+  return INTERVAL_MS[interval];
+}
+
+/**
+ * Get the open time of the candle containing a timestamp
+ */
+export function getCandleOpenTime(timestamp: number, interval: BinanceInterval): number {
+  if (interval === '1M') {
+    const d = new Date(timestamp);
+    return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1);
+  }
+
+  const ms = INTERVAL_MS[interval];
+  const offset = interval === '1w' ? WEEK_OFFSET_MS : 0;
+  return Math.floor((timestamp - offset) / ms) * ms + offset;
+}
+
+/**
+ * Get the close time of the candle containing a timestamp
+ * (equal to the open time of the next candle)
+ */
+export function getNextCandleClose(timestamp: number, interval: BinanceInterval): number {
+  const open = getCandleOpenTime(timestamp, interval);
+
+  if (interval === '1M') {
+    const d = new Date(open);
+    return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+  }
+
+  return open + INTERVAL_MS[interval];
+}
+
+/**
+ * Get the candles that had fully closed at a point in time
+ *
+ * Used to align higher-timeframe candles with a base candle without
+ * lookahead: a 1d candle is only visible to a 1h candle closing after it.
+ *
+ * @param candles - Candles in chronological order (open-time timestamps)
+ * @param interval - Interval of those candles
+ * @param asOf - Point in time, e.g. the close time of the base candle
+ */
+export function getCompletedCandles(candles: Candle[], interval: BinanceInterval, asOf: number): Candle[] {
+  let end = candles.length;
+  while (end > 0 && getNextCandleClose(candles[end - 1].timestamp, interval) > asOf) {
+    end--;
+  }
+  return end === candles.length ? candles : candles.slice(0, end);
+}
@@ -0,0 +1,200 @@
+import type { Candle } from '../types';
+import type { BinanceInterval } from './BinanceFetcher';
+import { getCandleOpenTime, getNextCandleClose, intervalToMs } from './intervals';
+import { calculateATR } from '../indicators/atr';
+
+/**
+ * Candle Transforms
+ *
+ * Derives other candle series from a fetched one: coarser intervals
+ * (e.g. 4h and 1d from 1h), Heikin-Ashi candles and Renko bricks.
+ * Every transform returns plain Candle[] in chronological order, so any
+ * indicator or strategy runs on the result unchanged.
+ */
+
+export interface ResampleOptions {
+  /** Interval of the input candles (default: smallest gap between candles) */
+  from?: BinanceInterval;
+  /**
+   * What to do with buckets missing source candles: the first bucket when
+   * the input starts mid-bucket, the last while it is still forming, and
+   * any bucket spanning a gap in the data (default 'drop')
+   */
+  partial?: 'drop' | 'keep';
+}
+
+export interface RenkoOptions {
+  /** Fixed brick size in price units (default: ATR over the first atrPeriod + 1 candles) */
+  brickSize?: number;
+  /** ATR period for the default brick size (default 14) */
+  atrPeriod?: number;
+}
+
+/**
+ * Resample candles to a coarser interval
+ *
+ * Buckets open at the interval's boundaries (UTC, Monday for weeks, the 1st
+ * for months, as on Binance). Each bucket takes the first open, highest
+ * high, lowest low, last close and summed volume of its candles.
+ *
+ * @param candles - Candles in chronological order (open-time timestamps)
+ * @param to - Target interval
+ * @throws If the target interval isn't a whole multiple of the source interval
+ */
+export function resampleCandles(candles: Candle[], to: BinanceInterval, options: ResampleOptions = {}): Candle[] {
+  if (candles.length === 0) {
+    return [];
+  }
+
+  const sourceMs = options.from ? intervalToMs(options.from) : smallestGap(candles);
+  const bucketMs = to === '1M' ? 24 * 60 * 60 * 1000 : intervalToMs(to);
+  if (bucketMs < sourceMs || bucketMs % sourceMs !== 0) {
+    throw new Error(`Cannot resample ${options.from ?? `${sourceMs}ms`} candles to ${to}`);
+  }
+
+  const results: Candle[] = [];
+  let bucket: Candle | null = null;
+  let count = 0;
+
+  const flush = () => {
+    if (!bucket) return;
+    const expected = (getNextCandleClose(bucket.timestamp, to) - bucket.timestamp) / sourceMs;
+    if (count === expected || options.partial === 'keep') {
+      results.push(bucket);
+    }
+  };
+
+  for (const candle of candles) {
+    const open = getCandleOpenTime(candle.timestamp, to);
+
+    if (bucket && bucket.timestamp === open) {
+      bucket.high = Math.max(bucket.high, candle.high);
+      bucket.low = Math.min(bucket.low, candle.low);
+      bucket.close = candle.close;
+      bucket.volume += candle.volume;
+      count++;
+    } else {
+      flush();
+      bucket = { timestamp: open, open: candle.open, high: candle.high, low: candle.low, close: candle.close, volume: candle.volume };
+      count = 1;
+    }
+  }
+  flush();
+
+  return results;
+}
+
+/**
+ * Smallest gap between consecutive candles, taken as their interval
+ */
+function smallestGap(candles: Candle[]): number {
+  let gap = Infinity;
+  for (let i = 1; i < candles.length; i++) {
+    const diff = candles[i].timestamp - candles[i - 1].timestamp;
+    if (diff > 0 && diff < gap) gap = diff;
+  }
+
+  if (gap === Infinity) {
+    throw new Error('Cannot infer the candle interval from fewer than 2 candles; pass options.from');
+  }
+  return gap;
+}
+
+/**
+ * Convert candles to Heikin-Ashi candles
+ *
+ * - Close: (open + high + low + close) / 4
+ * - Open: midpoint of the previous Heikin-Ashi candle's body
+ *   ((open + close) / 2 of the first real candle to start)
+ * - High / Low: real extreme, widened to include the Heikin-Ashi body
+ *
+ * Timestamps and volumes are unchanged.
+ */
+export function toHeikinAshi(candles: Candle[]): Candle[] {
+  const results: Candle[] = [];
+
+  for (const candle of candles) {
+    const previous = results[results.length - 1];
+    const close = (candle.open + candle.high + candle.low + candle.close) / 4;
+    const open = previous ? (previous.open + previous.close) / 2 : (candle.open + candle.close) / 2;
+
+    results.push({
+      timestamp: candle.timestamp,
+      open,
+      high: Math.max(candle.high, open, close),
+      low: Math.min(candle.low, open, close),
+      close,
+      volume: candle.volume,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Convert candles to fixed-size Renko bricks (built from closes)
+ *
+ * The brick size is fixed for the whole series: the ATR over the first
+ * atrPeriod + 1 candles unless given, so no later data decides it. Bricks
+ * start from the close of the candle that ATR is measured on.
+ *
+ * - A brick forms each time the close moves a full brick past the last one
+ * - Reversals need two bricks (one to cover the last brick's body)
+ * - Bricks have no wicks: high/low are the brick's open/close
+ * - Volume since the previous brick is split evenly across the bricks a
+ *   candle completes
+ * - Bricks take the completing candle's timestamp, plus 1 ms per extra
+ *   brick from the same candle so timestamps stay strictly increasing
+ *
+ * @throws If there aren't atrPeriod + 1 candles for the default brick size
+ */
+export function toRenko(candles: Candle[], options: RenkoOptions = {}): Candle[] {
+  const atrPeriod = options.atrPeriod ?? 14;
+  const start = options.brickSize === undefined ? atrPeriod : 0;
+  const size = options.brickSize ?? calculateATR(candles.slice(0, atrPeriod + 1), atrPeriod);
+
+  if (!(size > 0)) {
+    throw new Error(`Renko brick size must be positive, got ${size}`);
+  }
+  if (candles.length === 0) {
+    return [];
+  }
+
+  const bricks: Candle[] = [];
+  let top = candles[start].close;
+  let bottom = top;
+  let volume = 0;
+
+  for (let i = start + 1; i < candles.length; i++) {
+    const { close, timestamp } = candles[i];
+    const formed: Array<[number, number]> = [];
+    volume += candles[i].volume;
+
+    while (close >= top + size) {
+      formed.push([top, top + size]);
+      bottom = top;
+      top += size;
+    }
+    while (close <= bottom - size) {
+      formed.push([bottom, bottom - size]);
+      top = bottom;
+      bottom -= size;
+    }
+
+    formed.forEach(([open, brickClose], k) => {
+      bricks.push({
+        timestamp: timestamp + k,
+        open,
+        high: Math.max(open, brickClose),
+        low: Math.min(open, brickClose),
+        close: brickClose,
+        volume: volume / formed.length,
+      });
+    });
+    if (formed.length > 0) {
+      volume = 0;
+    }
+  }
+
+  return bricks;
+}
@@ -1,12 +1,19 @@
 import type { PublicKey, Keypair } from '@solana/web3.js';
 import { Connection } from '@solana/web3.js';
 import type { Signal, PositionLeg, Candle, SwapResult, Logger } from '../types';
-import type { Broker, LiveBrokerConfig } from '../core/Broker';
+import type { Broker, LiveBrokerConfig, PositionUpdateContext } from '../core/Broker';
 import { JupiterClient } from '../solana/jupiter';
 import { loadWallet, sendAndConfirmVersionedTransaction } from '../solana/wallet';
 import type { BalanceConfig } from '../solana/balances';
-import { canTrade, canClosePosition } from '../solana/balances';
-import { createTwoLegPosition, updatePositions, closeRunnersOnTrimSignal } from '../strategy/position';
+import { canTrade, canClosePosition, getAllBalances } from '../solana/balances';
+import {
+  createLadderPosition,
+  createTwoLegLadder,
+  getPositionCostUsdc,
+  updatePositions,
+  closeRunnersOnTrimSignal,
+} from '../strategy/position';
+import { createTrailingStop } from '../strategy/trailingStops';
 
 /**
  * Live Trading Broker
@@ -68,7 +75,7 @@ export class LiveBroker implements Broker {
   }
 
   /**
-   * Open a two-leg position with real BTC purchase
+   * Open a laddered position (two legs by default) with real BTC purchase
    */
   async openPosition(signal: Signal, candle: Candle): Promise<PositionLeg[] | null> {
     if (signal.type !== 'LONG') {
@@ -76,6 +83,8 @@ export class LiveBroker implements Broker {
       return null;
     }
 
+    const ladder = this.config.ladder ?? createTwoLegLadder(this.config.atrTpMultiplier);
+
     try {
       this.logger?.info('🔄 Opening live position...', {
         signal: signal.type,
@@ -92,7 +101,8 @@ export class LiveBroker implements Broker {
         this.config.wbtcMint,
         this.config.tradeLegUsdc,
         this.getBalanceConfig(),
-        this.logger
+        this.logger,
+        ladder.length
       );
 
       if (!tradeCheck.canTrade) {
@@ -106,7 +116,7 @@ export class LiveBroker implements Broker {
       });
 
       // 2. Get quote from Jupiter (tries cbBTC first, falls back to WBTC)
-      const totalUsdc = this.config.tradeLegUsdc * 2; // Two legs
+      const totalUsdc = getPositionCostUsdc(this.config.tradeLegUsdc, ladder);
       const quoteResult = await this.jupiterClient.getQuoteUsdcToBtc(totalUsdc);
 
       if (!quoteResult) {
@@ -175,20 +185,13 @@ export class LiveBroker implements Broker {
       const avgPrice = totalUsdc / btcBought;
 
       // 7. Create position legs
-      const createdLegs = createTwoLegPosition(
-        { ...signal, price: avgPrice },
-        this.config.tradeLegUsdc,
-        this.config.atrTpMultiplier,
-        this.config.atrTrailMultiplier,
-        this.logger
-      );
+      const createdLegs = createLadderPosition({ ...signal, price: avgPrice }, ladder, totalUsdc, this.logger);
       const legs = createdLegs.map((leg) => ({ ...leg, btcMint }));
 
       this.logger?.info('✓ Position opened', {
         btcBought: btcBought.toFixed(8),
         avgPrice: avgPrice.toFixed(2),
-        tpTarget: legs[0].targetPrice?.toFixed(2),
-        trailingStop: legs[1].trailingStop?.toFixed(2),
+        tpTargets: legs.filter((leg) => leg.type === 'TP').map((leg) => leg.targetPrice?.toFixed(2)),
       });
 
       return legs;
@@ -211,6 +214,15 @@ export class LiveBroker implements Broker {
       return;
     }
 
+    return this.executeClose(leg, reason);
+  }
+
+  /**
+   * Sell a leg's BTC for USDC.
+   * Used directly for legs that updatePositions/closeRunnersOnTrimSignal
+   * have already marked CLOSED, which closeLeg() would reject.
+   */
+  private async executeClose(leg: PositionLeg, reason: string): Promise<SwapResult | void> {
     try {
       this.logger?.info('🔄 Closing position leg...', {
         legId: leg.id,
@@ -337,30 +349,59 @@ export class LiveBroker implements Broker {
   async updateAndClosePositions(
     legs: PositionLeg[],
     candle: Candle,
-    currentATR: number
+    currentATR: number,
+    context: PositionUpdateContext = {}
   ): Promise<PositionLeg[]> {
-    // Update positions (calculates stops, checks targets)
+    const trailingStop = createTrailingStop(this.config.trailingStop, {
+      candles: context.candles ?? [candle],
+      atr: currentATR,
+      trailMultiplier: this.config.atrTrailMultiplier,
+    });
+
+    // Update positions (calculates stops, checks targets, time exits)
     const updatedLegs = updatePositions(
       legs,
       candle.close,
       currentATR,
       this.config.atrTrailMultiplier,
-      0.25, // breakEvenLockMultiplier
-      this.logger
+      this.config.breakEvenLockMultiplier ?? 0.25,
+      this.logger,
+      { trailingStop, timeExits: this.config.timeExits, time: context.time ?? candle.timestamp }
     );
 
-    // Close any legs that were marked CLOSED
-    for (let i = 0; i < updatedLegs.length; i++) {
-      const leg = updatedLegs[i];
-      const wasOpen = legs[i].status === 'OPEN';
-      const nowClosed = leg.status === 'CLOSED';
+    // Sell any legs that were marked CLOSED
+    return this.settleClosedLegs(legs, updatedLegs, (leg) => leg.closeReason || 'Unknown');
+  }
+
+  /**
+   * Execute the swaps for legs newly marked CLOSED.
+   * A leg only stays CLOSED (at the executed price) when its swap succeeds;
+   * otherwise it is reopened so the exit is retried on the next update.
+   */
+  private async settleClosedLegs(
+    before: PositionLeg[],
+    after: PositionLeg[],
+    getReason: (leg: PositionLeg) => string
+  ): Promise<PositionLeg[]> {
+    const settled: PositionLeg[] = [];
+
+    for (let i = 0; i < after.length; i++) {
+      const leg = after[i];
+      if (before[i].status !== 'OPEN' || leg.status !== 'CLOSED') {
+        settled.push(leg);
+        continue;
+      }
 
-      if (wasOpen && nowClosed) {
-        await this.closeLeg(leg, candle, leg.closeReason || 'Unknown');
+      const result = await this.executeClose(leg, getReason(leg));
+      if (result?.success) {
+        settled.push({ ...leg, closePrice: result.executionPrice });
+      } else {
+        this.logger?.error('Exit not executed - leg stays open:', { legId: leg.id, reason: leg.closeReason });
+        settled.push({ ...leg, status: 'OPEN', closePrice: undefined, closeTime: undefined, closeReason: undefined });
       }
     }
 
-    return updatedLegs;
+    return settled;
   }
 
   /**
@@ -377,23 +418,36 @@ export class LiveBroker implements Broker {
     const trimmedLegs = closeRunnersOnTrimSignal(legs, signal, this.logger);
 
     // Execute the closes
-    for (let i = 0; i < trimmedLegs.length; i++) {
-      const leg = trimmedLegs[i];
-      const wasOpen = legs[i].status === 'OPEN';
-      const nowClosed = leg.status === 'CLOSED';
+    const settledLegs = await this.settleClosedLegs(legs, trimmedLegs, () => 'Trim signal (MFI < 70)');
 
-      if (wasOpen && nowClosed && leg.type === 'RUNNER') {
-        await this.closeLeg(leg, candle, 'Trim signal (MFI < 70)');
-      }
-    }
-
-    const afterTrim = trimmedLegs.filter((l) => l.type === 'RUNNER' && l.status === 'OPEN').length;
+    const afterTrim = settledLegs.filter((l) => l.type === 'RUNNER' && l.status === 'OPEN').length;
 
     if (beforeTrim > afterTrim) {
       this.logger?.info(`Trimmed ${beforeTrim - afterTrim} runner legs`);
     }
 
-    return trimmedLegs;
+    return settledLegs;
+  }
+
+  /**
+   * Get wallet balances of the asset mints this broker trades (not USDC)
+   * Used to reconcile on-chain holdings with persisted legs.
+   */
+  async getAssetBalances(): Promise<Array<{ mint: string; balance: number }>> {
+    const balances = await getAllBalances(
+      this.connection,
+      this.wallet.publicKey,
+      this.config.usdcMint,
+      this.config.cbBtcMint,
+      this.config.wbtcMint,
+      this.logger
+    );
+
+    const result = [{ mint: this.config.wbtcMint, balance: balances.wbtc }];
+    if (this.config.cbBtcMint) {
+      result.unshift({ mint: this.config.cbBtcMint, balance: balances.cbBtc });
+    }
+    return result;
   }
 
   /**
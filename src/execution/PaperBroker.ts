@@ -1,12 +1,29 @@
 import type { Signal, PositionLeg, Candle, Logger } from '../types';
-import type { Broker, PaperAccount, PaperBrokerConfig, PaperTradeExecution } from '../core/Broker';
-import { createTwoLegPosition, updatePositions, closeRunnersOnTrimSignal } from '../strategy/position';
+import type {
+  Broker,
+  PaperAccount,
+  PaperBrokerConfig,
+  PaperTradeExecution,
+  PositionUpdateContext,
+} from '../core/Broker';
+import {
+  createLadderPosition,
+  createTwoLegLadder,
+  getLegLabel,
+  getPositionCostUsdc,
+  updatePositions,
+  updatePositionsIntrabar,
+  closeRunnersOnTrimSignal,
+} from '../strategy/position';
+import { createTrailingStop } from '../strategy/trailingStops';
 
 /**
  * Paper Trading Broker
  *
  * Simulates trade execution without using real money.
  * Fills are simulated at candle close prices with configurable slippage.
+ * With intrabar exits, targets and stops fill at their own level when the
+ * candle's high/low reaches them.
  *
  * This allows testing the strategy on historical data or live data
  * before risking real capital.
@@ -93,7 +110,7 @@ export class PaperBroker implements Broker {
   }
 
   /**
-   * Simulate opening a two-leg position
+   * Simulate opening a laddered position (two legs by default)
    */
   async openPosition(signal: Signal, candle: Candle): Promise<PositionLeg[] | null> {
     if (signal.type !== 'LONG') {
@@ -101,7 +118,8 @@ export class PaperBroker implements Broker {
       return null;
     }
 
-    const totalCost = this.config.tradeLegUsdc * 2; // Two legs
+    const ladder = this.config.ladder ?? createTwoLegLadder(this.config.atrTpMultiplier ?? 1.0);
+    const totalCost = getPositionCostUsdc(this.config.tradeLegUsdc, ladder);
 
     // Check if we have enough USDC
     if (this.account.usdcBalance < totalCost) {
@@ -116,13 +134,7 @@ export class PaperBroker implements Broker {
     const fillPrice = this.applySlippage(candle.close, true);
 
     // Create positions
-    const legs = createTwoLegPosition(
-      { ...signal, price: fillPrice },
-      this.config.tradeLegUsdc,
-      this.config.atrTpMultiplier ?? 1.0,
-      this.config.atrTrailMultiplier ?? 2.5,
-      this.logger
-    );
+    const legs = createLadderPosition({ ...signal, price: fillPrice }, ladder, totalCost, this.logger);
 
     // Calculate total BTC bought
     const totalBtc = legs.reduce((sum, leg) => sum + leg.quantity, 0);
@@ -165,6 +177,15 @@ export class PaperBroker implements Broker {
       return;
     }
 
+    this.executeClose(leg, candle, reason);
+  }
+
+  /**
+   * Settle a leg closure against the paper account.
+   * Used directly for legs that updatePositions/closeRunnersOnTrimSignal
+   * have already marked CLOSED, which closeLeg() would reject.
+   */
+  private executeClose(leg: PositionLeg, candle: Candle, reason: string): void {
     const baseClosePrice = leg.closePrice ?? candle.close;
     // Apply slippage (selling BTC)
     const fillPrice = this.applySlippage(baseClosePrice, false);
@@ -198,7 +219,7 @@ export class PaperBroker implements Broker {
     };
     this.tradeHistory.push(execution);
 
-    this.logger?.info(`Paper ${leg.type} leg closed:`, {
+    this.logger?.info(`Paper ${getLegLabel(leg)} leg closed:`, {
       reason,
       entry: leg.entryPrice.toFixed(2),
       exit: fillPrice.toFixed(2),
@@ -217,17 +238,33 @@ export class PaperBroker implements Broker {
   async updateAndClosePositions(
     legs: PositionLeg[],
     candle: Candle,
-    currentATR: number
+    currentATR: number,
+    context: PositionUpdateContext = {}
   ): Promise<PositionLeg[]> {
-    // Update positions (calculates stops, checks targets)
-    const updatedLegs = updatePositions(
-      legs,
-      candle.close,
-      currentATR,
-      this.config.atrTrailMultiplier ?? 2.5,
-      this.config.breakEvenLockMultiplier ?? 0.25,
-      this.logger
-    );
+    const trailMultiplier = this.config.atrTrailMultiplier ?? 2.5;
+    const breakEvenLockMultiplier = this.config.breakEvenLockMultiplier ?? 0.25;
+    const options = {
+      trailingStop: createTrailingStop(this.config.trailingStop, {
+        candles: context.candles ?? [candle],
+        atr: currentATR,
+        trailMultiplier,
+      }),
+      timeExits: this.config.timeExits,
+      time: context.time ?? candle.timestamp,
+    };
+
+    // Update positions (calculates stops, checks targets, time exits)
+    const updatedLegs = this.config.intrabar
+      ? updatePositionsIntrabar(
+          legs,
+          candle,
+          currentATR,
+          trailMultiplier,
+          breakEvenLockMultiplier,
+          { ...options, policy: this.config.intrabar.policy, lowerCandles: context.lowerCandles },
+          this.logger
+        )
+      : updatePositions(legs, candle.close, currentATR, trailMultiplier, breakEvenLockMultiplier, this.logger, options);
 
     // Close any legs that were marked CLOSED
     for (let i = 0; i < updatedLegs.length; i++) {
@@ -236,7 +273,7 @@ export class PaperBroker implements Broker {
       const nowClosed = leg.status === 'CLOSED';
 
       if (wasOpen && nowClosed) {
-        await this.closeLeg(leg, candle, leg.closeReason || 'Unknown');
+        this.executeClose(leg, candle, leg.closeReason || 'Unknown');
       }
     }
 
@@ -263,7 +300,7 @@ export class PaperBroker implements Broker {
       const nowClosed = leg.status === 'CLOSED';
 
       if (wasOpen && nowClosed && leg.type === 'RUNNER') {
-        await this.closeLeg(leg, candle, 'Trim signal (MFI < 70)');
+        this.executeClose(leg, candle, 'Trim signal (MFI < 70)');
       }
     }
 
@@ -11,3 +11,14 @@ export {
   type CircuitBreakerConfig,
   type CircuitBreakerState,
 } from './CircuitBreaker';
+export {
+  reconcileHoldings,
+  type DriftKind,
+  type OrphanPolicy,
+  type PhantomPolicy,
+  type ReconciliationAction,
+  type ReconciliationPolicy,
+  type MintHoldings,
+  type ReconciliationItem,
+  type ReconciliationResult,
+} from './reconciliation';
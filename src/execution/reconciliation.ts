@@ -0,0 +1,179 @@
+import type { PositionLeg } from '../types';
+
+/**
+ * Holdings Reconciliation
+ *
+ * Compares on-chain token balances with the open legs persisted in state.
+ * Drift happens when the process dies between a confirmed swap and the
+ * state save (ORPHAN: wallet holds tokens no leg accounts for), or when
+ * tokens were sold outside the bot (PHANTOM: legs without tokens behind them).
+ */
+
+export type DriftKind = 'MATCHED' | 'ORPHAN' | 'PHANTOM';
+
+/** ADOPT: record orphan tokens as a recovered RUNNER leg */
+export type OrphanPolicy = 'ADOPT' | 'HALT' | 'IGNORE';
+
+/** CLOSE: mark unbacked legs CLOSED (newest first) */
+export type PhantomPolicy = 'CLOSE' | 'HALT' | 'IGNORE';
+
+export type ReconciliationAction = 'NONE' | 'ADOPT' | 'CLOSE' | 'HALT' | 'IGNORE';
+
+export interface ReconciliationPolicy {
+  onOrphan: OrphanPolicy;
+  onPhantom: PhantomPolicy;
+  /** Drift tolerated as a fraction of the expected balance, for fees and rounding (default: 0.01) */
+  tolerance?: number;
+}
+
+/**
+ * Wallet balance of one mint and the open legs held in it
+ */
+export interface MintHoldings {
+  asset: string;
+  mint: string;
+  walletBalance: number;
+  /** Balance that isn't the bot's (e.g. a minimum kept in the wallet) */
+  reservedBalance?: number;
+  legs: PositionLeg[];
+  /** Current price, used as entry price for adopted legs and close price for phantom legs */
+  price: number;
+}
+
+export interface ReconciliationItem {
+  asset: string;
+  mint: string;
+  walletBalance: number;
+  legQuantity: number;
+  /** walletBalance - reservedBalance - legQuantity */
+  drift: number;
+  kind: DriftKind;
+  action: ReconciliationAction;
+  /** Leg created for adopted orphan tokens */
+  adoptedLeg?: PositionLeg;
+  /** Legs marked CLOSED as phantom */
+  closedLegs?: PositionLeg[];
+}
+
+export interface ReconciliationResult {
+  items: ReconciliationItem[];
+  halted: boolean;
+  /** Why reconciliation halted (when halted) */
+  reason?: string;
+}
+
+const DEFAULT_TOLERANCE = 0.01;
+
+/**
+ * Classify drift per mint and decide what to do about it
+ *
+ * Pure: legs are never mutated. Apply adoptedLeg/closedLegs to state yourself.
+ *
+ * @param holdings - Wallet balance and open legs per mint
+ * @param policy - What to do with orphan holdings and phantom legs
+ * @param now - Timestamp for adopted/closed legs (default: Date.now())
+ */
+export function reconcileHoldings(
+  holdings: MintHoldings[],
+  policy: ReconciliationPolicy,
+  now: number = Date.now()
+): ReconciliationResult {
+  const tolerance = policy.tolerance ?? DEFAULT_TOLERANCE;
+  const items: ReconciliationItem[] = [];
+
+  for (const holding of holdings) {
+    const openLegs = holding.legs.filter((leg) => leg.status === 'OPEN');
+    const legQuantity = openLegs.reduce((sum, leg) => sum + leg.quantity, 0);
+    const available = Math.max(0, holding.walletBalance - (holding.reservedBalance ?? 0));
+    const drift = available - legQuantity;
+    const threshold = Math.max(available, legQuantity) * tolerance;
+
+    const item: ReconciliationItem = {
+      asset: holding.asset,
+      mint: holding.mint,
+      walletBalance: holding.walletBalance,
+      legQuantity,
+      drift,
+      kind: 'MATCHED',
+      action: 'NONE',
+    };
+
+    if (drift > threshold) {
+      item.kind = 'ORPHAN';
+      item.action = policy.onOrphan;
+      if (policy.onOrphan === 'ADOPT') {
+        item.adoptedLeg = createRecoveredLeg(holding, drift, now);
+      }
+    } else if (-drift > threshold) {
+      item.kind = 'PHANTOM';
+      item.action = policy.onPhantom;
+      if (policy.onPhantom === 'CLOSE') {
+        item.closedLegs = closeUnbackedLegs(openLegs, available, holding.price, now, tolerance);
+      }
+    }
+
+    items.push(item);
+  }
+
+  const halts = items.filter((item) => item.action === 'HALT');
+  return {
+    items,
+    halted: halts.length > 0,
+    reason:
+      halts.length > 0
+        ? `Holdings drift: ${halts
+            .map((h) => `${h.asset} ${h.kind} ${h.drift > 0 ? '+' : ''}${h.drift.toFixed(8)}`)
+            .join(', ')}`
+        : undefined,
+  };
+}
+
+/**
+ * Orphan tokens become a RUNNER leg: there is no known TP target, and the
+ * trailing stop / trim logic will exit them like any runner
+ */
+function createRecoveredLeg(holding: MintHoldings, quantity: number, now: number): PositionLeg {
+  const suffix = Math.random().toString(36).slice(2, 11);
+  return {
+    id: `RUNNER_${now}_${suffix}`,
+    positionId: `RECOVERED_${now}_${suffix}`,
+    type: 'RUNNER',
+    entryPrice: holding.price,
+    quantity,
+    entryTime: now,
+    highestPrice: holding.price,
+    status: 'OPEN',
+    asset: holding.asset,
+    btcMint: holding.mint,
+  };
+}
+
+/**
+ * Close legs newest first until the remaining quantity is backed by the wallet
+ */
+function closeUnbackedLegs(
+  openLegs: PositionLeg[],
+  available: number,
+  price: number,
+  now: number,
+  tolerance: number
+): PositionLeg[] {
+  const closed: PositionLeg[] = [];
+  let remaining = openLegs.reduce((sum, leg) => sum + leg.quantity, 0);
+
+  for (const leg of [...openLegs].sort((a, b) => b.entryTime - a.entryTime)) {
+    if (remaining - available <= remaining * tolerance) {
+      break;
+    }
+    closed.push({
+      ...leg,
+      status: 'CLOSED',
+      closePrice: price,
+      closeTime: now,
+      closeReason: 'Reconciled: not found in wallet',
+    });
+    remaining -= leg.quantity;
+  }
+
+  return closed;
+}
@@ -28,11 +28,15 @@ export {
 
 export type {
   LoggerConfig,
+  StateMigration,
+  StateManagerOptions,
+  StateSnapshot,
   Broker,
   PaperAccount,
   PaperTradeExecution as CorePaperTradeExecution,
   PaperBrokerConfig,
   LiveBrokerConfig,
+  PositionUpdateContext,
 } from './core';
 
 // ============================================================================
@@ -46,6 +50,7 @@ export {
   calculateMFIWithMetadata,
   calculateMFISeries,
   detectMFICross,
+  calculateMFIWithSignal,
 
   // ATR
   calculateTrueRange,
@@ -56,6 +61,9 @@ export {
   updateTrailingStop,
   isValidATR,
 
+  // ADX
+  calculateADXSeries,
+
   // TCF2
   initTCF2State,
   calculateTCF2Series,
@@ -77,11 +85,110 @@ export {
   getDSSMOMSignal,
   calculateDSSMOMWithSignal,
 
+  // Moving averages
+  calculateSMA,
+  calculateEMA,
+  calculateWMA,
+  calculateHMA,
+  calculateMovingAverage,
+  calculateSMASeries,
+  calculateEMASeries,
+  calculateWMASeries,
+  calculateHMASeries,
+  getMovingAverageSignal,
+  calculateMovingAverageWithSignal,
+
+  // MACD
+  calculateMACDSeries,
+  getMACDSignal,
+  calculateMACDWithSignal,
+
+  // SuperTrend
+  calculateSuperTrendSeries,
+  getSuperTrendSignal,
+  calculateSuperTrendWithSignal,
+
+  // Channels
+  detectChannelSignal,
+  calculateBollingerSeries,
+  getBollingerSignal,
+  calculateBollingerWithSignal,
+  calculateKeltnerSeries,
+  getKeltnerSignal,
+  calculateKeltnerWithSignal,
+  calculateDonchianSeries,
+  getDonchianSignal,
+  calculateDonchianWithSignal,
+
+  // Volume
+  calculateOBV,
+  calculateOBVSeries,
+  getOBVSignal,
+  calculateOBVWithSignal,
+  calculateVWAPSeries,
+  getVWAPSignal,
+  calculateVWAPWithSignal,
+  calculateCMFSeries,
+  getCMFSignal,
+  calculateCMFWithSignal,
+  calculateVolumeZScoreSeries,
+  getVolumeSpikeSignal,
+  calculateVolumeZScoreWithSignal,
+
   // Registry
   INDICATORS,
+  INDICATOR_TIMEFRAMES,
+  COMMON_INDICATOR_PARAMS,
+  isBuiltInIndicator,
+  getIndicatorDefinition,
+  listIndicators,
+  getIndicatorParamSpecs,
+  resolveIndicatorParams,
+  getIndicatorWarmup,
+  getIndicatorValues,
+  validateIndicatorParams,
+
+  // Divergence
+  findPivots,
+  detectDivergences,
+
+  // Reference verification
+  parseReferenceCSV,
+  loadReferenceCSV,
+  formatReferenceCSV,
+  verifyIndicator,
+  formatVerificationReport,
+
+  // Streaming
+  MFIStream,
+  ATRStream,
+  TCF2Stream,
+  KPSSStream,
+  TDFIStream,
+  DSSMOMStream,
+  initIndicatorStream,
+  restoreIndicatorStream,
 } from './indicators';
 
-export type { TCF2State, IndicatorName } from './indicators';
+export type {
+  TCF2State,
+  IndicatorName,
+  IndicatorDefinition,
+  IndicatorParamSpec,
+  IndicatorParamIssue,
+  IndicatorCategory,
+  IndicatorSignalReading,
+  DivergenceOptions,
+  ReferenceDataset,
+  IndicatorVerificationOptions,
+  IndicatorVerificationResult,
+  IndicatorDivergence,
+  VerificationRow,
+  IndicatorStream,
+  SerializedIndicatorStream,
+  StreamableIndicator,
+  ChannelBands,
+} from './indicators';
 
 // ============================================================================
 // Strategy
@@ -92,10 +199,53 @@ export {
   detectMFICrossSignal,
   generateSignal,
   isValidSignal,
+  generateIndicatorSignal,
+
+  // Strategies
+  IndicatorStrategy,
+  MFIStrategy,
+  TCF2Strategy,
+  KPSSStrategy,
+  TDFIStrategy,
+  DSSMOMStrategy,
+  MovingAverageStrategy,
+  MACDStrategy,
+  SuperTrendStrategy,
+  BollingerStrategy,
+  KeltnerStrategy,
+  DonchianStrategy,
+  OBVStrategy,
+  VWAPStrategy,
+  CMFStrategy,
+  VolumeZScoreStrategy,
+  DivergenceStrategy,
+  registerStrategy,
+  createStrategy,
+  hasStrategy,
+  getRegisteredStrategies,
+  CompositeStrategy,
+  createBotStrategy,
+  MultiTimeframeConfirmation,
+  RegimeClassifier,
 
   // Position management
   createTwoLegPosition,
+  createLadderPosition,
+  createTwoLegLadder,
+  getPositionCostUsdc,
+  validateLadder,
+  calculateInitialStop,
+  applyInitialStop,
+  getLegLabel,
+  getLegStopMode,
+  parseLegLabel,
   updatePositions,
+  updatePositionsIntrabar,
+  getIntrabarPath,
+  createTrailingStop,
+  TIME_EXIT_REASONS,
+  findBlackout,
+  getTimeExitRule,
   getOpenLegs,
   getClosedLegs,
   closeRunnersOnTrimSignal,
@@ -104,6 +254,21 @@ export {
   getPositionSummary,
 } from './strategy';
 
+export type {
+  Strategy,
+  IndicatorReading,
+  StrategyFactory,
+  ConfirmationResult,
+  TimeframeCheck,
+  CandlesByInterval,
+  MarketRegime,
+  RegimeCheck,
+  IntrabarOptions,
+  PositionUpdateOptions,
+  TrailingStopContext,
+  TrailingStopLevel,
+} from './strategy';
+
 // ============================================================================
 // Utils
 // ============================================================================
@@ -168,11 +333,20 @@ export {
   PaperBroker,
   LiveBroker,
   CircuitBreaker,
+  reconcileHoldings,
 } from './execution';
 
 export type {
   CircuitBreakerConfig,
   CircuitBreakerState,
+  DriftKind,
+  OrphanPolicy,
+  PhantomPolicy,
+  ReconciliationAction,
+  ReconciliationPolicy,
+  MintHoldings,
+  ReconciliationItem,
+  ReconciliationResult,
 } from './execution';
 
 // ============================================================================
@@ -186,11 +360,20 @@ export {
   createBTCDailyFetcher,
   createBTC4HFetcher,
   createBTC1HFetcher,
+  intervalToMs,
+  getCandleOpenTime,
+  getNextCandleClose,
+  getCompletedCandles,
+  resampleCandles,
+  toHeikinAshi,
+  toRenko,
 } from './data';
 
 export type {
   BinanceFetcherConfig,
   BinanceInterval,
+  ResampleOptions,
+  RenkoOptions,
 } from './data';
 
 // ============================================================================
@@ -245,11 +428,93 @@ export type {
   TpHitPayload,
   TrailingStopUpdatedPayload,
   TrailingStopHitPayload,
+  StopLossHitPayload,
+  TimeExitPayload,
   RunnerTrimmedPayload,
   TradeFailedPayload,
   ErrorPayload,
+  ReconciliationPayload,
 } from './journal';
 
+// ============================================================================
+// Config Files
+// ============================================================================
+
+export {
+  loadBotConfigFile,
+  readBotConfigFile,
+  resolveBotConfig,
+  resolveConfigFilePath,
+  validateBotConfig,
+  botConfigSchema,
+  validateSchema,
+} from './config';
+
+export type {
+  LoadBotConfigOptions,
+  SchemaNode,
+  ConfigValidationIssue,
+} from './config';
+
+// ============================================================================
+// Bot Runner
+// ============================================================================
+
+export {
+  BotRunner,
+  ContinuousScheduler,
+  BOT_STATE_VERSION,
+  botStateMigrations,
+} from './runner';
+
+export type {
+  BotRunnerOptions,
+  ReconciliationOptions,
+  BotRunnerState,
+  CycleResult,
+  ContinuousSchedulerOptions,
+} from './runner';
+
+// ============================================================================
+// Backtesting
+// ============================================================================
+
+export {
+  runBacktest,
+  calculateMetrics,
+  calculateMaxDrawdown,
+  calculateCAGR,
+  calculateSharpeRatio,
+  optimizeParameters,
+  walkForwardOptimize,
+  applyParameters,
+  expandRange,
+  indicatorParameterSpace,
+  scoreMetrics,
+} from './backtest';
+
+export type {
+  BacktestConfig,
+  BacktestTrade,
+  EquityPoint,
+  BacktestMetrics,
+  BacktestResult,
+  ParameterRange,
+  OptimizablePositionParam,
+  ParameterSpace,
+  ParameterSet,
+  ObjectiveName,
+  OptimizationObjective,
+  OptimizerConfig,
+  OptimizationRun,
+  ParameterHeatmap,
+  ParameterSensitivity,
+  OptimizationResult,
+  WalkForwardConfig,
+  WalkForwardWindow,
+  WalkForwardResult,
+} from './backtest';
+
 // ============================================================================
 // Dashboard (optional - import from 'trading-bot-platform/dashboard')
 // ============================================================================
@@ -0,0 +1,75 @@
+/**
+ * Average Directional Index (ADX)
+ *
+ * Wilder's trend strength measure, with the directional indicators it is
+ * built from:
+ * 1. +DM = high - previous high, -DM = previous low - low (only the larger
+ *    one counts, and only when positive)
+ * 2. +DI / -DI = 100 × Wilder-smoothed DM / Wilder-smoothed true range
+ * 3. DX = 100 × |+DI - -DI| / (+DI + -DI)
+ * 4. ADX = Wilder-smoothed DX (seeded with the average of the first period DX values)
+ *
+ * Interpretation:
+ * - ADX above ~25: trending market, direction from +DI vs -DI
+ * - ADX below ~20: ranging market
+ *
+ * Parameters:
+ * - period: Smoothing period (default 14)
+ */
+
+import type { ADXResult, Candle } from '../types';
+import { calculateTrueRange } from './atr';
+
+/**
+ * Calculate ADX series
+ *
+ * @param candles - Array of candles in chronological order
+ * @param period - Smoothing period (default 14)
+ * @returns Array of ADXResult, starting with candle index 2 × period - 1
+ */
+export function calculateADXSeries(candles: Candle[], period: number = 14): ADXResult[] {
+  const results: ADXResult[] = [];
+  let trSum = 0;
+  let plusSum = 0;
+  let minusSum = 0;
+  let dxSum = 0;
+  let adx = 0;
+
+  for (let i = 1; i < candles.length; i++) {
+    const upMove = candles[i].high - candles[i - 1].high;
+    const downMove = candles[i - 1].low - candles[i].low;
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+    const tr = calculateTrueRange(candles[i], candles[i - 1]);
+
+    // Wilder smoothing of sums: the first period values are summed
+    if (i <= period) {
+      trSum += tr;
+      plusSum += plusDM;
+      minusSum += minusDM;
+    } else {
+      trSum = trSum - trSum / period + tr;
+      plusSum = plusSum - plusSum / period + plusDM;
+      minusSum = minusSum - minusSum / period + minusDM;
+    }
+
+    if (i < period) continue;
+
+    const plusDI = trSum > 0 ? (100 * plusSum) / trSum : 0;
+    const minusDI = trSum > 0 ? (100 * minusSum) / trSum : 0;
+    const diSum = plusDI + minusDI;
+    const dx = diSum > 0 ? (100 * Math.abs(plusDI - minusDI)) / diSum : 0;
+
+    // DX starts at index period; ADX needs period of them
+    const dxCount = i - period + 1;
+    if (dxCount < period) {
+      dxSum += dx;
+      continue;
+    }
+    adx = dxCount === period ? (dxSum + dx) / period : (adx * (period - 1) + dx) / period;
+
+    results.push({ adx, plusDI, minusDI, timestamp: candles[i].timestamp });
+  }
+
+  return results;
+}
@@ -1,4 +1,10 @@
 import type { Candle, ATRResult } from '../types';
+import {
+  assertStreamIndicator,
+  cloneStreamState,
+  type IndicatorStream,
+  type SerializedIndicatorStream,
+} from './stream';
 
 /**
  * Average True Range (ATR) Calculation
@@ -196,3 +202,62 @@ export function isValidATR(atr: number, price: number): boolean {
 
   return true;
 }
+
+interface ATRStreamState {
+  previousClose: number | null;
+  /** True ranges of the last period candles */
+  trueRanges: number[];
+}
+
+/**
+ * Incremental ATR
+ * Matches calculateATRSeries: the first value is for the (period + 1)th candle.
+ *
+ * Params: period (14)
+ */
+export class ATRStream implements IndicatorStream<ATRResult> {
+  readonly indicator = 'atr';
+  private params: Record<string, number>;
+  private period: number;
+  private state: ATRStreamState = { previousClose: null, trueRanges: [] };
+
+  constructor(params: Record<string, number> = {}) {
+    this.params = { ...params };
+    this.period = params.period ?? 14;
+  }
+
+  static restore(snapshot: SerializedIndicatorStream): ATRStream {
+    assertStreamIndicator(snapshot, 'atr');
+    const stream = new ATRStream(snapshot.params);
+    stream.state = cloneStreamState(snapshot.state as ATRStreamState);
+    return stream;
+  }
+
+  update(candle: Candle): ATRResult | null {
+    const { previousClose, trueRanges } = this.state;
+    this.state.previousClose = candle.close;
+
+    if (previousClose === null) {
+      return null;
+    }
+
+    const highLow = candle.high - candle.low;
+    trueRanges.push(
+      Math.max(highLow, Math.abs(candle.high - previousClose), Math.abs(candle.low - previousClose))
+    );
+    if (trueRanges.length > this.period) {
+      trueRanges.shift();
+    }
+
+    if (trueRanges.length < this.period) {
+      return null;
+    }
+
+    const sum = trueRanges.reduce((acc, tr) => acc + tr, 0);
+    return { value: sum / this.period, timestamp: candle.timestamp };
+  }
+
+  serialize(): SerializedIndicatorStream<ATRStreamState> {
+    return { indicator: this.indicator, params: { ...this.params }, state: cloneStreamState(this.state) };
+  }
+}
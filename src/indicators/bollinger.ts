@@ -0,0 +1,113 @@
+/**
+ * Bollinger Bands
+ *
+ * - Middle: SMA(close, period)
+ * - Upper/Lower: middle ± multiplier × standard deviation of close (population)
+ * - %B: (close - lower) / (upper - lower), 0 at the lower band and 1 at the upper
+ * - Bandwidth: (upper - lower) / middle, low values mark a squeeze
+ *
+ * Parameters:
+ * - period: SMA / deviation period (default 20)
+ * - multiplier: Band width in standard deviations (default 2)
+ *
+ * Signal Logic (default REENTRY, for mean reversion):
+ * - LONG: close comes back above the lower band
+ * - SHORT: close comes back below the upper band
+ */
+
+import type { Candle, BollingerResult, ChannelSignalMode } from '../types';
+import { detectChannelSignal } from './channels';
+
+/**
+ * Calculate Bollinger Bands for a series of candles
+ *
+ * @param candles - Array of candles in chronological order
+ * @param period - SMA / deviation period (default 20)
+ * @param multiplier - Band width in standard deviations (default 2)
+ * @returns Array of BollingerResult, starting with the period-th candle
+ */
+export function calculateBollingerSeries(
+  candles: Candle[],
+  period: number = 20,
+  multiplier: number = 2
+): BollingerResult[] {
+  const results: BollingerResult[] = [];
+
+  for (let i = period - 1; i < candles.length; i++) {
+    let sum = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      sum += candles[j].close;
+    }
+    const middle = sum / period;
+
+    let squares = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      squares += (candles[j].close - middle) ** 2;
+    }
+    const deviation = Math.sqrt(squares / period);
+
+    const upper = middle + multiplier * deviation;
+    const lower = middle - multiplier * deviation;
+    const width = upper - lower;
+
+    results.push({
+      middle,
+      upper,
+      lower,
+      percentB: width > 0 ? (candles[i].close - lower) / width : 0.5,
+      bandwidth: middle !== 0 ? width / middle : 0,
+      timestamp: candles[i].timestamp,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Get Bollinger signal from the close crossing the bands
+ *
+ * @param previousClose - Close of the previous candle
+ * @param previous - Previous Bollinger result
+ * @param currentClose - Close of the current candle
+ * @param current - Current Bollinger result
+ * @param mode - REENTRY (default) or BREAKOUT
+ * @returns Signal type and trend
+ */
+export function getBollingerSignal(
+  previousClose: number,
+  previous: BollingerResult,
+  currentClose: number,
+  current: BollingerResult,
+  mode: ChannelSignalMode = 'REENTRY'
+): { signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  return detectChannelSignal(previousClose, previous, currentClose, current, mode);
+}
+
+/**
+ * Calculate Bollinger Bands for the most recent candle and return signal
+ * Convenience function for bot usage
+ */
+export function calculateBollingerWithSignal(
+  candles: Candle[],
+  period: number = 20,
+  multiplier: number = 2,
+  mode: ChannelSignalMode = 'REENTRY'
+): { result: BollingerResult | null; signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  const series = calculateBollingerSeries(candles, period, multiplier);
+
+  if (series.length < 2) {
+    return { result: null, signal: 'NONE', trend: 'NONE' };
+  }
+
+  const previous = series[series.length - 2];
+  const current = series[series.length - 1];
+  const { signal, trend } = getBollingerSignal(
+    candles[candles.length - 2].close,
+    previous,
+    candles[candles.length - 1].close,
+    current,
+    mode
+  );
+
+  return { result: current, signal, trend };
+}
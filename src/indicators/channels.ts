@@ -0,0 +1,64 @@
+/**
+ * Channel Signal Detection
+ *
+ * Shared by Bollinger, Keltner and Donchian channels.
+ *
+ * Modes:
+ * - BREAKOUT: LONG when the close crosses above the upper band,
+ *   SHORT when it crosses below the lower band
+ * - REENTRY (mean reversion): LONG when the close comes back above the lower
+ *   band, SHORT when it comes back below the upper band
+ *
+ * Trend: close above/below the middle line
+ */
+
+import type { ChannelSignalMode } from '../types';
+
+export interface ChannelBands {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+/**
+ * Get signal from the close crossing a channel's bands
+ *
+ * @param previousClose - Close of the previous candle
+ * @param previous - Bands on the previous candle
+ * @param currentClose - Close of the current candle
+ * @param current - Bands on the current candle
+ * @param mode - BREAKOUT or REENTRY
+ * @returns Signal type and trend
+ */
+export function detectChannelSignal(
+  previousClose: number,
+  previous: ChannelBands,
+  currentClose: number,
+  current: ChannelBands,
+  mode: ChannelSignalMode
+): { signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  let signal: 'LONG' | 'SHORT' | 'NONE' = 'NONE';
+  let trend: 'LONG' | 'SHORT' | 'NONE' = 'NONE';
+
+  if (mode === 'BREAKOUT') {
+    if (previousClose <= previous.upper && currentClose > current.upper) {
+      signal = 'LONG';
+    } else if (previousClose >= previous.lower && currentClose < current.lower) {
+      signal = 'SHORT';
+    }
+  } else {
+    if (previousClose < previous.lower && currentClose >= current.lower) {
+      signal = 'LONG';
+    } else if (previousClose > previous.upper && currentClose <= current.upper) {
+      signal = 'SHORT';
+    }
+  }
+
+  if (currentClose > current.middle) {
+    trend = 'LONG';
+  } else if (currentClose < current.middle) {
+    trend = 'SHORT';
+  }
+
+  return { signal, trend };
+}
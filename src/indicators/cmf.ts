@@ -0,0 +1,111 @@
+/**
+ * Chaikin Money Flow (CMF)
+ *
+ * Money Flow Multiplier = ((close - low) - (high - close)) / (high - low)
+ * Money Flow Volume = multiplier × volume
+ * CMF = Σ(Money Flow Volume, period) / Σ(volume, period)
+ *
+ * Ranges from -1 to 1: positive when candles close in the upper half of their
+ * range on volume (accumulation), negative on distribution.
+ *
+ * Parameters:
+ * - period: Summation period (default 20)
+ * - buyLevel: LONG trigger level (default 0.05)
+ * - sellLevel: SHORT trigger level (default -0.05)
+ *
+ * Signal Logic:
+ * - LONG: CMF crosses above buyLevel
+ * - SHORT: CMF crosses below sellLevel
+ * - Trend: CMF above/below zero
+ */
+
+import type { Candle, CMFResult } from '../types';
+
+/**
+ * Calculate CMF for a series of candles
+ *
+ * @param candles - Array of candles in chronological order
+ * @param period - Summation period (default 20)
+ * @returns Array of CMFResult, starting with the period-th candle
+ */
+export function calculateCMFSeries(candles: Candle[], period: number = 20): CMFResult[] {
+  const results: CMFResult[] = [];
+  const flowVolumes = candles.map((c) => {
+    const range = c.high - c.low;
+    // Doji with no range: no buying or selling pressure
+    const multiplier = range > 0 ? (c.close - c.low - (c.high - c.close)) / range : 0;
+    return multiplier * c.volume;
+  });
+
+  for (let i = period - 1; i < candles.length; i++) {
+    let flow = 0;
+    let volume = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      flow += flowVolumes[j];
+      volume += candles[j].volume;
+    }
+
+    results.push({
+      value: volume > 0 ? flow / volume : 0,
+      timestamp: candles[i].timestamp,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Get CMF signal based on trigger level crossover
+ *
+ * @param previous - Previous CMF result
+ * @param current - Current CMF result
+ * @param buyLevel - LONG trigger level (default 0.05)
+ * @param sellLevel - SHORT trigger level (default -0.05)
+ * @returns Signal type and trend
+ */
+export function getCMFSignal(
+  previous: CMFResult,
+  current: CMFResult,
+  buyLevel: number = 0.05,
+  sellLevel: number = -0.05
+): { signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  let signal: 'LONG' | 'SHORT' | 'NONE' = 'NONE';
+  let trend: 'LONG' | 'SHORT' | 'NONE' = 'NONE';
+
+  if (previous.value < buyLevel && current.value >= buyLevel) {
+    signal = 'LONG';
+  } else if (previous.value > sellLevel && current.value <= sellLevel) {
+    signal = 'SHORT';
+  }
+
+  if (current.value > 0) {
+    trend = 'LONG';
+  } else if (current.value < 0) {
+    trend = 'SHORT';
+  }
+
+  return { signal, trend };
+}
+
+/**
+ * Calculate CMF for the most recent candle and return signal
+ * Convenience function for bot usage
+ */
+export function calculateCMFWithSignal(
+  candles: Candle[],
+  period: number = 20,
+  buyLevel: number = 0.05,
+  sellLevel: number = -0.05
+): { result: CMFResult | null; signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  const series = calculateCMFSeries(candles, period);
+
+  if (series.length < 2) {
+    return { result: null, signal: 'NONE', trend: 'NONE' };
+  }
+
+  const previous = series[series.length - 2];
+  const current = series[series.length - 1];
+  const { signal, trend } = getCMFSignal(previous, current, buyLevel, sellLevel);
+
+  return { result: current, signal, trend };
+}
@@ -0,0 +1,147 @@
+/**
+ * Price / Indicator Divergence
+ *
+ * Compares consecutive swing pivots on price with the matching pivots on an
+ * indicator series (any registry output, see getIndicatorValues):
+ *
+ * | Type    | Direction | Price        | Indicator    |
+ * |---------|-----------|--------------|--------------|
+ * | REGULAR | BULLISH   | lower low    | higher low   |
+ * | HIDDEN  | BULLISH   | higher low   | lower low    |
+ * | REGULAR | BEARISH   | higher high  | lower high   |
+ * | HIDDEN  | BEARISH   | lower high   | higher high  |
+ *
+ * Price pivots use candle lows (bullish) and highs (bearish). A pivot is
+ * only known pivotRight candles after it forms, so each divergence carries
+ * the candle index it is confirmed on; nothing is reported before then.
+ *
+ * Parameters:
+ * - pivotLeft / pivotRight: Candles on each side a pivot must exceed (default 5 / 5)
+ * - minDistance / maxDistance: Candles between the two price pivots (default 5 / 60)
+ * - alignment: Max candles between a price pivot and its indicator pivot (default 3)
+ */
+
+import type { Candle, Divergence, DivergenceDirection, DivergenceType, Pivot } from '../types';
+
+export interface DivergenceOptions {
+  pivotLeft?: number;
+  pivotRight?: number;
+  minDistance?: number;
+  maxDistance?: number;
+  alignment?: number;
+}
+
+/**
+ * Find swing pivots in a series
+ *
+ * A HIGH is above every value in the left window and at or above every value
+ * in the right window (so a flat top counts once, at its first candle); LOW is
+ * the mirror image. Windows containing nulls produce no pivot.
+ *
+ * @returns Pivots in index order
+ */
+export function findPivots(values: Array<number | null>, left: number = 5, right: number = 5): Pivot[] {
+  const pivots: Pivot[] = [];
+
+  for (let i = left; i < values.length - right; i++) {
+    const value = values[i];
+    if (value === null) continue;
+
+    let isHigh = true;
+    let isLow = true;
+    for (let j = i - left; j <= i + right && (isHigh || isLow); j++) {
+      if (j === i) continue;
+      const other = values[j];
+      if (other === null) {
+        isHigh = isLow = false;
+      } else if (j < i) {
+        isHigh &&= value > other;
+        isLow &&= value < other;
+      } else {
+        isHigh &&= value >= other;
+        isLow &&= value <= other;
+      }
+    }
+
+    if (isHigh) pivots.push({ index: i, value, kind: 'HIGH' });
+    if (isLow) pivots.push({ index: i, value, kind: 'LOW' });
+  }
+
+  return pivots;
+}
+
+/**
+ * Detect divergences between price and an indicator series
+ *
+ * @param candles - Candles in chronological order
+ * @param indicator - Indicator values aligned to candles (null while warming up)
+ * @returns Divergences in order of confirmation
+ */
+export function detectDivergences(
+  candles: Candle[],
+  indicator: Array<number | null>,
+  options: DivergenceOptions = {}
+): Divergence[] {
+  if (indicator.length !== candles.length) {
+    throw new Error(`Indicator series has ${indicator.length} values for ${candles.length} candles`);
+  }
+
+  const left = options.pivotLeft ?? 5;
+  const right = options.pivotRight ?? 5;
+  const minDistance = options.minDistance ?? 5;
+  const maxDistance = options.maxDistance ?? 60;
+  const alignment = options.alignment ?? 3;
+  const indicatorPivots = findPivots(indicator, left, right);
+  const divergences: Divergence[] = [];
+
+  const scan = (kind: Pivot['kind'], direction: DivergenceDirection) => {
+    const prices = findPivots(candles.map((c) => (kind === 'LOW' ? c.low : c.high)), left, right).filter(
+      (p) => p.kind === kind
+    );
+    const matches = indicatorPivots.filter((p) => p.kind === kind);
+    const nearest = (index: number): Pivot | undefined =>
+      matches
+        .filter((p) => Math.abs(p.index - index) <= alignment)
+        .sort((a, b) => Math.abs(a.index - index) - Math.abs(b.index - index))[0];
+
+    for (let k = 1; k < prices.length; k++) {
+      const first = prices[k - 1];
+      const second = prices[k];
+      const distance = second.index - first.index;
+      if (distance < minDistance || distance > maxDistance) continue;
+
+      const from = nearest(first.index);
+      const to = nearest(second.index);
+      if (!from || !to || from.index >= to.index) continue;
+
+      // Bullish: lower price low is REGULAR; bearish: higher price high is REGULAR
+      const priceExtends = kind === 'LOW' ? second.value < first.value : second.value > first.value;
+      const indicatorExtends = kind === 'LOW' ? to.value < from.value : to.value > from.value;
+      const priceRetreats = kind === 'LOW' ? second.value > first.value : second.value < first.value;
+      const indicatorRetreats = kind === 'LOW' ? to.value > from.value : to.value < from.value;
+
+      let type: DivergenceType | null = null;
+      if (priceExtends && indicatorRetreats) {
+        type = 'REGULAR';
+      } else if (priceRetreats && indicatorExtends) {
+        type = 'HIDDEN';
+      }
+      if (!type) continue;
+
+      const confirmedIndex = Math.max(second.index, to.index) + right;
+      divergences.push({
+        type,
+        direction,
+        start: { index: first.index, timestamp: candles[first.index].timestamp, price: first.value, indicatorIndex: from.index, indicator: from.value },
+        end: { index: second.index, timestamp: candles[second.index].timestamp, price: second.value, indicatorIndex: to.index, indicator: to.value },
+        confirmedIndex,
+        timestamp: candles[confirmedIndex].timestamp,
+      });
+    }
+  };
+
+  scan('LOW', 'BULLISH');
+  scan('HIGH', 'BEARISH');
+
+  return divergences.sort((a, b) => a.confirmedIndex - b.confirmedIndex);
+}
@@ -0,0 +1,97 @@
+/**
+ * Donchian Channels
+ *
+ * - Upper: highest high of the previous period candles
+ * - Lower: lowest low of the previous period candles
+ * - Middle: (upper + lower) / 2
+ *
+ * The current candle is excluded from its own channel, so a close above the
+ * upper band is a new period-high breakout (turtle-style entries).
+ *
+ * Parameters:
+ * - period: Lookback period (default 20)
+ *
+ * Signal Logic (default BREAKOUT):
+ * - LONG: close breaks above the upper band
+ * - SHORT: close breaks below the lower band
+ */
+
+import type { Candle, DonchianResult, ChannelSignalMode } from '../types';
+import { detectChannelSignal } from './channels';
+
+/**
+ * Calculate Donchian Channels for a series of candles
+ *
+ * @param candles - Array of candles in chronological order
+ * @param period - Lookback period (default 20)
+ * @returns Array of DonchianResult, starting with candle index period
+ */
+export function calculateDonchianSeries(candles: Candle[], period: number = 20): DonchianResult[] {
+  const results: DonchianResult[] = [];
+
+  for (let i = period; i < candles.length; i++) {
+    let upper = -Infinity;
+    let lower = Infinity;
+    for (let j = i - period; j < i; j++) {
+      upper = Math.max(upper, candles[j].high);
+      lower = Math.min(lower, candles[j].low);
+    }
+
+    results.push({
+      upper,
+      middle: (upper + lower) / 2,
+      lower,
+      timestamp: candles[i].timestamp,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Get Donchian signal from the close crossing the channel
+ *
+ * @param previousClose - Close of the previous candle
+ * @param previous - Previous Donchian result
+ * @param currentClose - Close of the current candle
+ * @param current - Current Donchian result
+ * @param mode - BREAKOUT (default) or REENTRY
+ * @returns Signal type and trend
+ */
+export function getDonchianSignal(
+  previousClose: number,
+  previous: DonchianResult,
+  currentClose: number,
+  current: DonchianResult,
+  mode: ChannelSignalMode = 'BREAKOUT'
+): { signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  return detectChannelSignal(previousClose, previous, currentClose, current, mode);
+}
+
+/**
+ * Calculate Donchian Channels for the most recent candle and return signal
+ * Convenience function for bot usage
+ */
+export function calculateDonchianWithSignal(
+  candles: Candle[],
+  period: number = 20,
+  mode: ChannelSignalMode = 'BREAKOUT'
+): { result: DonchianResult | null; signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  const series = calculateDonchianSeries(candles, period);
+
+  if (series.length < 2) {
+    return { result: null, signal: 'NONE', trend: 'NONE' };
+  }
+
+  const previous = series[series.length - 2];
+  const current = series[series.length - 1];
+  const { signal, trend } = getDonchianSignal(
+    candles[candles.length - 2].close,
+    previous,
+    candles[candles.length - 1].close,
+    current,
+    mode
+  );
+
+  return { result: current, signal, trend };
+}
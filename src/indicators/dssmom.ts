@@ -24,6 +24,12 @@
  */
 
 import type { Candle, DSSMOMResult } from '../types';
+import {
+  assertStreamIndicator,
+  cloneStreamState,
+  type IndicatorStream,
+  type SerializedIndicatorStream,
+} from './stream';
 
 /**
  * EMA calculation helper
@@ -246,3 +252,140 @@ export function calculateDSSMOMWithSignal(
 
   return { result: current, signal, trend };
 }
+
+interface DSSMOMStreamState {
+  /** Last momPeriod + 1 candles' close, high and low */
+  closes: number[];
+  highs: number[];
+  lows: number[];
+  /** Histories, most recent first (as in calculateDSSMOMSeries) */
+  momHighHistory: number[];
+  momLowHistory: number[];
+  ss1History: number[];
+  dssHistory: number[];
+}
+
+/**
+ * Incremental DSS-MOM
+ * Matches calculateDSSMOMSeries value for value.
+ *
+ * Params: stochasticLength (32), smoothMA (15), signalMA (3), momPeriod (14)
+ */
+export class DSSMOMStream implements IndicatorStream<DSSMOMResult> {
+  readonly indicator = 'dssmom';
+  private params: Record<string, number>;
+  private stochasticLength: number;
+  private smoothMA: number;
+  private signalMA: number;
+  private momPeriod: number;
+  private state: DSSMOMStreamState = {
+    closes: [],
+    highs: [],
+    lows: [],
+    momHighHistory: [],
+    momLowHistory: [],
+    ss1History: [],
+    dssHistory: [],
+  };
+
+  constructor(params: Record<string, number> = {}) {
+    this.params = { ...params };
+    this.stochasticLength = params.stochasticLength ?? 32;
+    this.smoothMA = params.smoothMA ?? 15;
+    this.signalMA = params.signalMA ?? 3;
+    this.momPeriod = params.momPeriod ?? 14;
+  }
+
+  static restore(snapshot: SerializedIndicatorStream): DSSMOMStream {
+    assertStreamIndicator(snapshot, 'dssmom');
+    const stream = new DSSMOMStream(snapshot.params);
+    stream.state = cloneStreamState(snapshot.state as DSSMOMStreamState);
+    return stream;
+  }
+
+  update(candle: Candle): DSSMOMResult | null {
+    const st = this.state;
+
+    st.closes.push(candle.close);
+    st.highs.push(candle.high);
+    st.lows.push(candle.low);
+    if (st.closes.length > this.momPeriod + 1) {
+      st.closes.shift();
+      st.highs.shift();
+      st.lows.shift();
+    }
+
+    // Need momPeriod bars for momentum calculation
+    if (st.closes.length < this.momPeriod + 1) {
+      return null;
+    }
+
+    const momClose = candle.close - st.closes[0];
+    const momHigh = candle.high - st.highs[0];
+    const momLow = candle.low - st.lows[0];
+
+    st.momHighHistory.unshift(momHigh);
+    st.momLowHistory.unshift(momLow);
+    if (st.momHighHistory.length > this.stochasticLength) {
+      st.momHighHistory.pop();
+      st.momLowHistory.pop();
+    }
+    if (st.momHighHistory.length < 2) {
+      return null;
+    }
+
+    let momMin = momLow;
+    let momMax = momHigh;
+    for (let k = 0; k < st.momHighHistory.length; k++) {
+      momMin = Math.min(momMin, st.momLowHistory[k]);
+      momMax = Math.max(momMax, st.momHighHistory[k]);
+    }
+
+    const st1 = momMax !== momMin ? 100 * (momClose - momMin) / (momMax - momMin) : 0;
+    const ss1 = st.ss1History.length === 0 ? st1 : calculateEMA(st1, this.smoothMA, st.ss1History[0]);
+
+    st.ss1History.unshift(ss1);
+    if (st.ss1History.length > this.stochasticLength) {
+      st.ss1History.pop();
+    }
+    if (st.ss1History.length < 2) {
+      return null;
+    }
+
+    let ss1Min = ss1;
+    let ss1Max = ss1;
+    for (let k = 0; k < st.ss1History.length; k++) {
+      ss1Min = Math.min(ss1Min, st.ss1History[k]);
+      ss1Max = Math.max(ss1Max, st.ss1History[k]);
+    }
+
+    const stoch2 = ss1Max !== ss1Min ? 100 * (ss1 - ss1Min) / (ss1Max - ss1Min) : 0;
+
+    let dss = st.dssHistory.length === 0 ? stoch2 : calculateEMA(stoch2, this.smoothMA, st.dssHistory[0]);
+    dss = Math.max(0, Math.min(100, dss));
+
+    st.dssHistory.unshift(dss);
+    if (st.dssHistory.length > this.signalMA + 5) {
+      st.dssHistory.pop();
+    }
+    if (st.dssHistory.length < 2) {
+      return null;
+    }
+
+    let signal: number;
+    if (st.dssHistory.length < this.signalMA) {
+      signal = st.dssHistory.reduce((a, b) => a + b, 0) / st.dssHistory.length;
+    } else {
+      signal = st.dssHistory[st.dssHistory.length - 1];
+      for (let k = st.dssHistory.length - 2; k >= 0; k--) {
+        signal = calculateEMA(st.dssHistory[k], this.signalMA, signal);
+      }
+    }
+
+    return { dss, signal, timestamp: candle.timestamp };
+  }
+
+  serialize(): SerializedIndicatorStream<DSSMOMStreamState> {
+    return { indicator: this.indicator, params: { ...this.params }, state: cloneStreamState(this.state) };
+  }
+}
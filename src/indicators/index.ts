@@ -11,6 +11,8 @@ import {
   calculateMFIWithMetadata,
   calculateMFISeries,
   detectMFICross,
+  calculateMFIWithSignal,
+  MFIStream,
 } from './mfi.js';
 
 import {
@@ -21,6 +23,7 @@ import {
   calculateATRLevels,
   updateTrailingStop,
   isValidATR,
+  ATRStream,
 } from './atr.js';
 
 import type {
@@ -29,27 +32,107 @@ import {
   initTCF2State,
   calculateTCF2Series,
   getTCF2Signal,
-  calculateTCF2WithSignal
+  calculateTCF2WithSignal,
+  TCF2Stream,
 } from './tcf2.js';
 
 import {
   calculateKPSSSeries,
   getKPSSSignal,
   calculateKPSSWithSignal,
+  KPSSStream,
 } from './kpss.js';
 
 import {
   calculateTDFISeries,
   getTDFISignal,
   calculateTDFIWithSignal,
+  TDFIStream,
 } from './tdfi.js';
 
 import {
   calculateDSSMOMSeries,
   getDSSMOMSignal,
   calculateDSSMOMWithSignal,
+  DSSMOMStream,
 } from './dssmom.js';
 
+import {
+  calculateSMA,
+  calculateEMA,
+  calculateWMA,
+  calculateHMA,
+  calculateMovingAverage,
+  calculateSMASeries,
+  calculateEMASeries,
+  calculateWMASeries,
+  calculateHMASeries,
+  getMovingAverageSignal,
+  calculateMovingAverageWithSignal,
+} from './movingAverages.js';
+
+import {
+  calculateMACDSeries,
+  getMACDSignal,
+  calculateMACDWithSignal,
+} from './macd.js';
+
+import {
+  calculateSuperTrendSeries,
+  getSuperTrendSignal,
+  calculateSuperTrendWithSignal,
+} from './supertrend.js';
+
+import { detectChannelSignal } from './channels.js';
+import type { ChannelBands } from './channels.js';
+
+import {
+  calculateBollingerSeries,
+  getBollingerSignal,
+  calculateBollingerWithSignal,
+} from './bollinger.js';
+
+import {
+  calculateKeltnerSeries,
+  getKeltnerSignal,
+  calculateKeltnerWithSignal,
+} from './keltner.js';
+
+import {
+  calculateDonchianSeries,
+  getDonchianSignal,
+  calculateDonchianWithSignal,
+} from './donchian.js';
+
+import {
+  calculateOBV,
+  calculateOBVSeries,
+  getOBVSignal,
+  calculateOBVWithSignal,
+} from './obv.js';
+
+import {
+  calculateVWAPSeries,
+  getVWAPSignal,
+  calculateVWAPWithSignal,
+} from './vwap.js';
+
+import {
+  calculateCMFSeries,
+  getCMFSignal,
+  calculateCMFWithSignal,
+} from './cmf.js';
+
+import {
+  calculateVolumeZScoreSeries,
+  getVolumeSpikeSignal,
+  calculateVolumeZScoreWithSignal,
+} from './volumeZScore.js';
+
+import { isBuiltInIndicator } from './registry.js';
+import type { IndicatorStream, SerializedIndicatorStream } from './stream.js';
+import type { IndicatorResult } from '../types';
+
 // Re-export MFI
 export {
   typicalPrice,
@@ -57,6 +140,8 @@ export {
   calculateMFIWithMetadata,
   calculateMFISeries,
   detectMFICross,
+  calculateMFIWithSignal,
+  MFIStream,
 };
 
 // Re-export ATR
@@ -68,14 +153,19 @@ export {
   calculateATRLevels,
   updateTrailingStop,
   isValidATR,
+  ATRStream,
 };
 
+// Re-export ADX
+export { calculateADXSeries } from './adx.js';
+
 // Re-export TCF2
 export {
   initTCF2State,
   calculateTCF2Series,
   getTCF2Signal,
   calculateTCF2WithSignal,
+  TCF2Stream,
 };
 export type { TCF2State };
 
@@ -84,6 +174,7 @@ export {
   calculateKPSSSeries,
   getKPSSSignal,
   calculateKPSSWithSignal,
+  KPSSStream,
 };
 
 // Re-export TDFI
@@ -91,6 +182,7 @@ export {
   calculateTDFISeries,
   getTDFISignal,
   calculateTDFIWithSignal,
+  TDFIStream,
 };
 
 // Re-export DSS-MOM
@@ -98,45 +190,164 @@ export {
   calculateDSSMOMSeries,
   getDSSMOMSignal,
   calculateDSSMOMWithSignal,
+  DSSMOMStream,
+};
+
+// Re-export moving averages
+export {
+  calculateSMA,
+  calculateEMA,
+  calculateWMA,
+  calculateHMA,
+  calculateMovingAverage,
+  calculateSMASeries,
+  calculateEMASeries,
+  calculateWMASeries,
+  calculateHMASeries,
+  getMovingAverageSignal,
+  calculateMovingAverageWithSignal,
+};
+
+// Re-export MACD
+export {
+  calculateMACDSeries,
+  getMACDSignal,
+  calculateMACDWithSignal,
+};
+
+// Re-export SuperTrend
+export {
+  calculateSuperTrendSeries,
+  getSuperTrendSignal,
+  calculateSuperTrendWithSignal,
+};
+
+// Re-export channels
+export {
+  detectChannelSignal,
+  calculateBollingerSeries,
+  getBollingerSignal,
+  calculateBollingerWithSignal,
+  calculateKeltnerSeries,
+  getKeltnerSignal,
+  calculateKeltnerWithSignal,
+  calculateDonchianSeries,
+  getDonchianSignal,
+  calculateDonchianWithSignal,
+};
+export type { ChannelBands };
+
+// Re-export volume indicators
+export {
+  calculateOBV,
+  calculateOBVSeries,
+  getOBVSignal,
+  calculateOBVWithSignal,
+  calculateVWAPSeries,
+  getVWAPSignal,
+  calculateVWAPWithSignal,
+  calculateCMFSeries,
+  getCMFSignal,
+  calculateCMFWithSignal,
+  calculateVolumeZScoreSeries,
+  getVolumeSpikeSignal,
+  calculateVolumeZScoreWithSignal,
 };
 
+// Re-export indicator registry
+export {
+  INDICATORS,
+  INDICATOR_TIMEFRAMES,
+  COMMON_INDICATOR_PARAMS,
+  isBuiltInIndicator,
+  getIndicatorDefinition,
+  listIndicators,
+  getIndicatorParamSpecs,
+  resolveIndicatorParams,
+  getIndicatorWarmup,
+  getIndicatorValues,
+  validateIndicatorParams,
+} from './registry.js';
+export type {
+  IndicatorName,
+  IndicatorDefinition,
+  IndicatorParamSpec,
+  IndicatorParamIssue,
+  IndicatorCategory,
+  IndicatorSignalReading,
+} from './registry.js';
+
+// Re-export divergence detection
+export { findPivots, detectDivergences } from './divergence.js';
+export type { DivergenceOptions } from './divergence.js';
+
+// Re-export reference verification
+export {
+  parseReferenceCSV,
+  loadReferenceCSV,
+  formatReferenceCSV,
+  verifyIndicator,
+  formatVerificationReport,
+} from './verification.js';
+export type {
+  ReferenceDataset,
+  IndicatorVerificationOptions,
+  IndicatorVerificationResult,
+  IndicatorDivergence,
+  VerificationRow,
+} from './verification.js';
+
+// Re-export streaming API
+export type { IndicatorStream, SerializedIndicatorStream };
+
 /**
- * Indicator Registry
+ * Stream Registry
  *
- * Maps indicator names to their calculation functions.
- * Useful for dynamic indicator selection.
+ * Maps indicator keys to their incremental implementations.
  */
-export const INDICATORS = {
-  mfi: {
-    name: 'MFI',
-    description: 'Money Flow Index - momentum indicator using price and volume',
-    calculate: calculateMFISeries,
-    detectSignal: detectMFICross,
-  },
-  tcf2: {
-    name: 'TCF2',
-    description: 'Trend Continuation Factor 2 - measures trend strength',
-    calculate: calculateTCF2Series,
-    getSignal: getTCF2Signal,
-  },
-  kpss: {
-    name: 'KPSS',
-    description: 'Kase Permission Stochastic Smoothed',
-    calculate: calculateKPSSSeries,
-    getSignal: getKPSSSignal,
-  },
-  tdfi: {
-    name: 'TDFI',
-    description: 'Trend Direction & Force Index',
-    calculate: calculateTDFISeries,
-    getSignal: getTDFISignal,
-  },
-  dssmom: {
-    name: 'DSS-MOM',
-    description: 'DSS Averages of Momentum',
-    calculate: calculateDSSMOMSeries,
-    getSignal: getDSSMOMSignal,
-  },
+const INDICATOR_STREAMS = {
+  mfi: MFIStream,
+  atr: ATRStream,
+  tcf2: TCF2Stream,
+  kpss: KPSSStream,
+  tdfi: TDFIStream,
+  dssmom: DSSMOMStream,
 } as const;
 
-export type IndicatorName = keyof typeof INDICATORS;
+export type StreamableIndicator = keyof typeof INDICATOR_STREAMS;
+
+/**
+ * Look up a stream class
+ *
+ * @throws If the indicator has no incremental implementation
+ */
+function getStreamClass(indicator: string): (typeof INDICATOR_STREAMS)[StreamableIndicator] {
+  if (Object.prototype.hasOwnProperty.call(INDICATOR_STREAMS, indicator)) {
+    return INDICATOR_STREAMS[indicator as StreamableIndicator];
+  }
+  if (isBuiltInIndicator(indicator)) {
+    throw new Error(`${indicator} has no streaming implementation; use getIndicatorValues() for its series`);
+  }
+  throw new Error(`No incremental implementation for indicator: ${indicator}`);
+}
+
+/**
+ * Create an incremental indicator
+ *
+ * @param indicator - Indicator key ('mfi', 'atr', 'tcf2', 'kpss', 'tdfi', 'dssmom');
+ *   registry indicators without `streamable` are rejected
+ * @param params - Same params as the indicator's strategy (defaults apply)
+ */
+export function initIndicatorStream(
+  indicator: StreamableIndicator,
+  params: Record<string, number> = {}
+): IndicatorStream<IndicatorResult> {
+  return new (getStreamClass(indicator))(params);
+}
+
+/**
+ * Recreate an incremental indicator from serialize() output
+ */
+export function restoreIndicatorStream(snapshot: SerializedIndicatorStream): IndicatorStream<IndicatorResult> {
+  return getStreamClass(snapshot.indicator).restore(snapshot);
+}
@@ -0,0 +1,107 @@
+/**
+ * Keltner Channels
+ *
+ * - Middle: EMA(close, period)
+ * - Upper/Lower: middle ± multiplier × ATR(atrPeriod), ATR from calculateATRSeries
+ *
+ * Parameters:
+ * - period: EMA period (default 20)
+ * - atrPeriod: ATR period (default 10)
+ * - multiplier: Band width in ATRs (default 2)
+ *
+ * Signal Logic (default BREAKOUT):
+ * - LONG: close crosses above the upper band
+ * - SHORT: close crosses below the lower band
+ */
+
+import type { Candle, KeltnerResult, ChannelSignalMode } from '../types';
+import { calculateATRSeries } from './atr';
+import { calculateEMA } from './movingAverages';
+import { detectChannelSignal } from './channels';
+
+/**
+ * Calculate Keltner Channels for a series of candles
+ *
+ * @param candles - Array of candles in chronological order
+ * @param period - EMA period (default 20)
+ * @param atrPeriod - ATR period (default 10)
+ * @param multiplier - Band width in ATRs (default 2)
+ * @returns Array of KeltnerResult, starting once both EMA and ATR are available
+ */
+export function calculateKeltnerSeries(
+  candles: Candle[],
+  period: number = 20,
+  atrPeriod: number = 10,
+  multiplier: number = 2
+): KeltnerResult[] {
+  const ema = calculateEMA(candles.map((c) => c.close), period);
+  const atr = calculateATRSeries(candles, atrPeriod);
+  const results: KeltnerResult[] = [];
+
+  for (let i = 0; i < candles.length; i++) {
+    const middle = ema[i];
+    const range = atr[i];
+    if (middle === null || range === null) {
+      continue;
+    }
+
+    results.push({
+      middle,
+      upper: middle + multiplier * range,
+      lower: middle - multiplier * range,
+      timestamp: candles[i].timestamp,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Get Keltner signal from the close crossing the channel
+ *
+ * @param previousClose - Close of the previous candle
+ * @param previous - Previous Keltner result
+ * @param currentClose - Close of the current candle
+ * @param current - Current Keltner result
+ * @param mode - BREAKOUT (default) or REENTRY
+ * @returns Signal type and trend
+ */
+export function getKeltnerSignal(
+  previousClose: number,
+  previous: KeltnerResult,
+  currentClose: number,
+  current: KeltnerResult,
+  mode: ChannelSignalMode = 'BREAKOUT'
+): { signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  return detectChannelSignal(previousClose, previous, currentClose, current, mode);
+}
+
+/**
+ * Calculate Keltner Channels for the most recent candle and return signal
+ * Convenience function for bot usage
+ */
+export function calculateKeltnerWithSignal(
+  candles: Candle[],
+  period: number = 20,
+  atrPeriod: number = 10,
+  multiplier: number = 2,
+  mode: ChannelSignalMode = 'BREAKOUT'
+): { result: KeltnerResult | null; signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  const series = calculateKeltnerSeries(candles, period, atrPeriod, multiplier);
+
+  if (series.length < 2) {
+    return { result: null, signal: 'NONE', trend: 'NONE' };
+  }
+
+  const previous = series[series.length - 2];
+  const current = series[series.length - 1];
+  const { signal, trend } = getKeltnerSignal(
+    candles[candles.length - 2].close,
+    previous,
+    candles[candles.length - 1].close,
+    current,
+    mode
+  );
+
+  return { result: current, signal, trend };
+}
@@ -24,6 +24,12 @@
  */
 
 import type { Candle, KPSSResult } from '../types';
+import {
+  assertStreamIndicator,
+  cloneStreamState,
+  type IndicatorStream,
+  type SerializedIndicatorStream,
+} from './stream';
 
 /**
  * Simple Moving Average helper
@@ -216,3 +222,109 @@ export function calculateKPSSWithSignal(
 
   return { result: current, signal, trend };
 }
+
+interface KPSSStreamState {
+  /** Highs and lows of the last lookback (pstLength × pstX) candles */
+  highs: number[];
+  lows: number[];
+  /** Tail of the TripleDF / TripleDS buffers (enough for the pstX lag and SMA) */
+  tripleDF: number[];
+  tripleDS: number[];
+  smoothState0: number[];
+  smoothState1: number[];
+  /** Candles consumed so far */
+  bars: number;
+}
+
+/**
+ * Incremental KPSS
+ * Matches calculateKPSSSeries: the first value is for candle index pstLength × pstX.
+ *
+ * Params: pstLength (8), pstX (4), pstSmooth (3), smoothPeriod (11)
+ */
+export class KPSSStream implements IndicatorStream<KPSSResult> {
+  readonly indicator = 'kpss';
+  private params: Record<string, number>;
+  private pstX: number;
+  private smoothPeriod: number;
+  private lookBackPeriod: number;
+  private alpha: number;
+  private state: KPSSStreamState = {
+    highs: [],
+    lows: [],
+    tripleDF: [],
+    tripleDS: [],
+    smoothState0: [0, 0, 0, 0, 0],
+    smoothState1: [0, 0, 0, 0, 0],
+    bars: 0,
+  };
+
+  constructor(params: Record<string, number> = {}) {
+    this.params = { ...params };
+    this.pstX = params.pstX ?? 4;
+    this.smoothPeriod = params.smoothPeriod ?? 11;
+    this.lookBackPeriod = (params.pstLength ?? 8) * this.pstX;
+    this.alpha = 2 / (1 + (params.pstSmooth ?? 3));
+  }
+
+  static restore(snapshot: SerializedIndicatorStream): KPSSStream {
+    assertStreamIndicator(snapshot, 'kpss');
+    const stream = new KPSSStream(snapshot.params);
+    stream.state = cloneStreamState(snapshot.state as KPSSStreamState);
+    return stream;
+  }
+
+  update(candle: Candle): KPSSResult | null {
+    const st = this.state;
+    const i = st.bars++;
+
+    st.highs.push(candle.high);
+    st.lows.push(candle.low);
+    if (st.highs.length > Math.max(this.lookBackPeriod, 1)) {
+      st.highs.shift();
+      st.lows.shift();
+    }
+
+    const min = Math.min(...st.lows);
+    const max = Math.max(...st.highs);
+    const range = max - min;
+    const k = range > 0 ? 100 * (candle.close - min) / range : 0;
+
+    const keep = Math.max(this.pstX, 3);
+    const push = (buffer: number[], value: number) => {
+      buffer.push(value);
+      if (buffer.length > keep) buffer.shift();
+    };
+
+    if (i < this.pstX) {
+      push(st.tripleDF, k);
+      push(st.tripleDS, k);
+      return null;
+    }
+
+    const prevDF = st.tripleDF[st.tripleDF.length - this.pstX] || k;
+    const df = prevDF + this.alpha * (k - prevDF);
+    push(st.tripleDF, df);
+
+    const prevDS = st.tripleDS[st.tripleDS.length - this.pstX] || k;
+    const ds = (prevDS * 2 + df) / 3;
+    push(st.tripleDS, ds);
+
+    const signal = iSmooth(sma(st.tripleDS, 3), this.smoothPeriod, st.smoothState0);
+    const stochastic = iSmooth(sma(st.tripleDF, 3), this.smoothPeriod, st.smoothState1);
+
+    if (i < this.lookBackPeriod) {
+      return null;
+    }
+
+    return {
+      value: Math.max(0, Math.min(100, stochastic)),
+      signal: Math.max(0, Math.min(100, signal)),
+      timestamp: candle.timestamp,
+    };
+  }
+
+  serialize(): SerializedIndicatorStream<KPSSStreamState> {
+    return { indicator: this.indicator, params: { ...this.params }, state: cloneStreamState(this.state) };
+  }
+}
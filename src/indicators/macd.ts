@@ -0,0 +1,121 @@
+/**
+ * MACD (Moving Average Convergence Divergence)
+ *
+ * - MACD line: EMA(close, fastPeriod) - EMA(close, slowPeriod)
+ * - Signal line: EMA(MACD line, signalPeriod)
+ * - Histogram: MACD line - signal line
+ *
+ * Parameters:
+ * - fastPeriod: Fast EMA period (default 12)
+ * - slowPeriod: Slow EMA period (default 26)
+ * - signalPeriod: Signal EMA period (default 9)
+ *
+ * Signal Logic:
+ * - LONG: MACD line crosses above the signal line
+ * - SHORT: MACD line crosses below the signal line
+ * - Trend: histogram above/below zero
+ */
+
+import type { Candle, MACDResult } from '../types';
+import { calculateEMA } from './movingAverages';
+
+/**
+ * Calculate MACD for a series of candles
+ *
+ * @param candles - Array of candles in chronological order
+ * @param fastPeriod - Fast EMA period (default 12)
+ * @param slowPeriod - Slow EMA period (default 26)
+ * @param signalPeriod - Signal EMA period (default 9)
+ * @returns Array of MACDResult, starting once the signal line is defined
+ */
+export function calculateMACDSeries(
+  candles: Candle[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): MACDResult[] {
+  const closes = candles.map((c) => c.close);
+  const fast = calculateEMA(closes, fastPeriod);
+  const slow = calculateEMA(closes, slowPeriod);
+
+  // MACD line is defined from the first candle where both EMAs are
+  const start = Math.max(fastPeriod, slowPeriod) - 1;
+  if (candles.length <= start) {
+    return [];
+  }
+
+  const macdLine: number[] = [];
+  for (let i = start; i < candles.length; i++) {
+    macdLine.push((fast[i] as number) - (slow[i] as number));
+  }
+
+  const signalLine = calculateEMA(macdLine, signalPeriod);
+  const results: MACDResult[] = [];
+
+  for (let j = 0; j < macdLine.length; j++) {
+    const signal = signalLine[j];
+    if (signal === null) {
+      continue;
+    }
+    results.push({
+      macd: macdLine[j],
+      signal,
+      histogram: macdLine[j] - signal,
+      timestamp: candles[start + j].timestamp,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Get MACD signal based on MACD/signal line crossover
+ *
+ * @param previous - Previous MACD result
+ * @param current - Current MACD result
+ * @returns Signal type and trend
+ */
+export function getMACDSignal(
+  previous: MACDResult,
+  current: MACDResult
+): { signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  let signal: 'LONG' | 'SHORT' | 'NONE' = 'NONE';
+  let trend: 'LONG' | 'SHORT' | 'NONE' = 'NONE';
+
+  if (previous.histogram <= 0 && current.histogram > 0) {
+    signal = 'LONG';
+  } else if (previous.histogram >= 0 && current.histogram < 0) {
+    signal = 'SHORT';
+  }
+
+  if (current.histogram > 0) {
+    trend = 'LONG';
+  } else if (current.histogram < 0) {
+    trend = 'SHORT';
+  }
+
+  return { signal, trend };
+}
+
+/**
+ * Calculate MACD for the most recent candle and return signal
+ * Convenience function for bot usage
+ */
+export function calculateMACDWithSignal(
+  candles: Candle[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): { result: MACDResult | null; signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  const series = calculateMACDSeries(candles, fastPeriod, slowPeriod, signalPeriod);
+
+  if (series.length < 2) {
+    return { result: null, signal: 'NONE', trend: 'NONE' };
+  }
+
+  const previous = series[series.length - 2];
+  const current = series[series.length - 1];
+  const { signal, trend } = getMACDSignal(previous, current);
+
+  return { result: current, signal, trend };
+}
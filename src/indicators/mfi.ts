@@ -1,4 +1,10 @@
 import type { Candle, MFIResult } from '../types';
+import {
+  assertStreamIndicator,
+  cloneStreamState,
+  type IndicatorStream,
+  type SerializedIndicatorStream,
+} from './stream';
 
 /**
  * Money Flow Index (MFI) calculation
@@ -153,3 +159,92 @@ export function detectMFICross(
 
   return 'NONE';
 }
+
+/**
+ * Calculate MFI for the most recent candle and return signal
+ * Convenience function for bot usage (trend: above/below 50)
+ */
+export function calculateMFIWithSignal(
+  candles: Candle[],
+  period: number = 14,
+  buyLevel: number = 30,
+  sellLevel: number = 70
+): { result: MFIResult | null; signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  const series = calculateMFISeries(candles, period);
+  const current = series[series.length - 1];
+  const previous = series[series.length - 2];
+
+  if (current === null || current === undefined || previous === null || previous === undefined) {
+    return { result: null, signal: 'NONE', trend: 'NONE' };
+  }
+
+  return {
+    result: { value: current, timestamp: candles[candles.length - 1].timestamp },
+    signal: detectMFICross(previous, current, buyLevel, sellLevel),
+    trend: current > 50 ? 'LONG' : current < 50 ? 'SHORT' : 'NONE',
+  };
+}
+
+interface MFIStreamState {
+  /** Typical prices and volumes of the last period + 1 candles */
+  typicalPrices: number[];
+  volumes: number[];
+}
+
+/**
+ * Incremental MFI
+ * Matches calculateMFISeries: the first value is for the (period + 1)th candle.
+ *
+ * Params: period (14)
+ */
+export class MFIStream implements IndicatorStream<MFIResult> {
+  readonly indicator = 'mfi';
+  private params: Record<string, number>;
+  private period: number;
+  private state: MFIStreamState = { typicalPrices: [], volumes: [] };
+
+  constructor(params: Record<string, number> = {}) {
+    this.params = { ...params };
+    this.period = params.period ?? 14;
+  }
+
+  static restore(snapshot: SerializedIndicatorStream): MFIStream {
+    assertStreamIndicator(snapshot, 'mfi');
+    const stream = new MFIStream(snapshot.params);
+    stream.state = cloneStreamState(snapshot.state as MFIStreamState);
+    return stream;
+  }
+
+  update(candle: Candle): MFIResult | null {
+    const { typicalPrices, volumes } = this.state;
+    typicalPrices.push(typicalPrice(candle));
+    volumes.push(candle.volume);
+    if (typicalPrices.length > this.period + 1) {
+      typicalPrices.shift();
+      volumes.shift();
+    }
+
+    if (typicalPrices.length < this.period + 1) {
+      return null;
+    }
+
+    // Same summation order as calculateMFI, so values match exactly
+    let positiveFlow = 0;
+    let negativeFlow = 0;
+    for (let i = 1; i <= this.period; i++) {
+      const rawMoneyFlow = volumes[i] * typicalPrices[i];
+      if (typicalPrices[i] > typicalPrices[i - 1]) {
+        positiveFlow += rawMoneyFlow;
+      } else if (typicalPrices[i] < typicalPrices[i - 1]) {
+        negativeFlow += rawMoneyFlow;
+      }
+    }
+
+    const value = negativeFlow === 0 ? 100 : 100 - 100 / (1 + positiveFlow / negativeFlow);
+    return { value, timestamp: candle.timestamp };
+  }
+
+  serialize(): SerializedIndicatorStream<MFIStreamState> {
+    return { indicator: this.indicator, params: { ...this.params }, state: cloneStreamState(this.state) };
+  }
+}
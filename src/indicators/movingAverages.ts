@@ -0,0 +1,236 @@
+/**
+ * Moving Averages (SMA, EMA, WMA, HMA)
+ *
+ * Basic trend filters, also used as building blocks by MACD.
+ *
+ * - SMA: arithmetic mean of the last N values
+ * - EMA: exponential average (alpha = 2 / (N + 1)), seeded with the SMA of the first N values
+ * - WMA: linearly weighted average (newest value has weight N)
+ * - HMA: Hull MA = WMA(2 × WMA(N/2) - WMA(N), √N), a low-lag average
+ *
+ * Signal Logic (price vs. average):
+ * - LONG: close crosses above the average
+ * - SHORT: close crosses below the average
+ * - Trend: close above/below the average
+ */
+
+import type { Candle, MovingAverageResult, MovingAverageType } from '../types';
+
+/**
+ * Simple moving average of a value series
+ *
+ * @returns Array aligned with values (null until period values are available)
+ */
+export function calculateSMA(values: number[], period: number): Array<number | null> {
+  const result: Array<number | null> = new Array(values.length).fill(null);
+  let sum = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) {
+      sum -= values[i - period];
+    }
+    if (i >= period - 1) {
+      result[i] = sum / period;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Exponential moving average of a value series, seeded with the SMA of the first period values
+ *
+ * @returns Array aligned with values (null until period values are available)
+ */
+export function calculateEMA(values: number[], period: number): Array<number | null> {
+  const result: Array<number | null> = new Array(values.length).fill(null);
+  if (values.length < period) {
+    return result;
+  }
+
+  const alpha = 2 / (period + 1);
+  let ema = values.slice(0, period).reduce((acc, v) => acc + v, 0) / period;
+  result[period - 1] = ema;
+
+  for (let i = period; i < values.length; i++) {
+    ema = ema + alpha * (values[i] - ema);
+    result[i] = ema;
+  }
+
+  return result;
+}
+
+/**
+ * Linearly weighted moving average of a value series
+ *
+ * @returns Array aligned with values (null until period values are available)
+ */
+export function calculateWMA(values: number[], period: number): Array<number | null> {
+  const result: Array<number | null> = new Array(values.length).fill(null);
+  const weightSum = (period * (period + 1)) / 2;
+
+  for (let i = period - 1; i < values.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < period; j++) {
+      sum += values[i - j] * (period - j);
+    }
+    result[i] = sum / weightSum;
+  }
+
+  return result;
+}
+
+/**
+ * Hull moving average of a value series
+ *
+ * @returns Array aligned with values (null for the first period + √period - 2 values)
+ */
+export function calculateHMA(values: number[], period: number): Array<number | null> {
+  const halfPeriod = Math.max(1, Math.floor(period / 2));
+  const sqrtPeriod = Math.max(1, Math.floor(Math.sqrt(period)));
+  const half = calculateWMA(values, halfPeriod);
+  const full = calculateWMA(values, period);
+
+  // Raw Hull series, defined once the full-period WMA is
+  const start = period - 1;
+  const raw: number[] = [];
+  for (let i = start; i < values.length; i++) {
+    raw.push(2 * (half[i] as number) - (full[i] as number));
+  }
+
+  const smoothed = calculateWMA(raw, sqrtPeriod);
+  const result: Array<number | null> = new Array(values.length).fill(null);
+  smoothed.forEach((value, i) => {
+    result[start + i] = value;
+  });
+
+  return result;
+}
+
+/**
+ * Moving average of a value series by type
+ */
+export function calculateMovingAverage(
+  values: number[],
+  period: number,
+  type: MovingAverageType = 'EMA'
+): Array<number | null> {
+  switch (type) {
+    case 'SMA':
+      return calculateSMA(values, period);
+    case 'EMA':
+      return calculateEMA(values, period);
+    case 'WMA':
+      return calculateWMA(values, period);
+    case 'HMA':
+      return calculateHMA(values, period);
+    default:
+      throw new Error(`Unknown moving average type: ${type}`);
+  }
+}
+
+/**
+ * Calculate SMA of closes for all candles
+ *
+ * @param candles - Array of candles in chronological order
+ * @param period - Average period (default 20)
+ * @returns Array of values (null before sufficient data)
+ */
+export function calculateSMASeries(candles: Candle[], period: number = 20): Array<number | null> {
+  return calculateSMA(candles.map((c) => c.close), period);
+}
+
+/**
+ * Calculate EMA of closes for all candles
+ *
+ * @param candles - Array of candles in chronological order
+ * @param period - Average period (default 20)
+ * @returns Array of values (null before sufficient data)
+ */
+export function calculateEMASeries(candles: Candle[], period: number = 20): Array<number | null> {
+  return calculateEMA(candles.map((c) => c.close), period);
+}
+
+/**
+ * Calculate WMA of closes for all candles
+ *
+ * @param candles - Array of candles in chronological order
+ * @param period - Average period (default 20)
+ * @returns Array of values (null before sufficient data)
+ */
+export function calculateWMASeries(candles: Candle[], period: number = 20): Array<number | null> {
+  return calculateWMA(candles.map((c) => c.close), period);
+}
+
+/**
+ * Calculate HMA of closes for all candles
+ *
+ * @param candles - Array of candles in chronological order
+ * @param period - Average period (default 20)
+ * @returns Array of values (null before sufficient data)
+ */
+export function calculateHMASeries(candles: Candle[], period: number = 20): Array<number | null> {
+  return calculateHMA(candles.map((c) => c.close), period);
+}
+
+/**
+ * Get signal from close crossing a moving average
+ *
+ * @param previousClose - Close of the previous candle
+ * @param previousAverage - Average on the previous candle
+ * @param currentClose - Close of the current candle
+ * @param currentAverage - Average on the current candle
+ * @returns Signal type and trend
+ */
+export function getMovingAverageSignal(
+  previousClose: number,
+  previousAverage: number,
+  currentClose: number,
+  currentAverage: number
+): { signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  let signal: 'LONG' | 'SHORT' | 'NONE' = 'NONE';
+  let trend: 'LONG' | 'SHORT' | 'NONE' = 'NONE';
+
+  if (previousClose <= previousAverage && currentClose > currentAverage) {
+    signal = 'LONG';
+  } else if (previousClose >= previousAverage && currentClose < currentAverage) {
+    signal = 'SHORT';
+  }
+
+  if (currentClose > currentAverage) {
+    trend = 'LONG';
+  } else if (currentClose < currentAverage) {
+    trend = 'SHORT';
+  }
+
+  return { signal, trend };
+}
+
+/**
+ * Calculate a moving average for the most recent candle and return signal
+ * Convenience function for bot usage
+ */
+export function calculateMovingAverageWithSignal(
+  candles: Candle[],
+  type: MovingAverageType = 'EMA',
+  period: number = 20
+): { result: MovingAverageResult | null; signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  const series = calculateMovingAverage(candles.map((c) => c.close), period, type);
+  const current = series[series.length - 1];
+  const previous = series[series.length - 2];
+
+  if (current === null || current === undefined || previous === null || previous === undefined) {
+    return { result: null, signal: 'NONE', trend: 'NONE' };
+  }
+
+  const last = candles[candles.length - 1];
+  const { signal, trend } = getMovingAverageSignal(
+    candles[candles.length - 2].close,
+    previous,
+    last.close,
+    current
+  );
+
+  return { result: { value: current, type, timestamp: last.timestamp }, signal, trend };
+}
@@ -0,0 +1,114 @@
+/**
+ * On-Balance Volume (OBV)
+ *
+ * Running total of volume, added on up closes and subtracted on down closes.
+ * A rising OBV means volume is flowing into the asset.
+ *
+ * Parameters:
+ * - signalPeriod: EMA period of the OBV signal line (default 20)
+ *
+ * Signal Logic:
+ * - LONG: OBV crosses above its signal line
+ * - SHORT: OBV crosses below its signal line
+ * - Trend: OBV above/below its signal line (volume confirmation filter)
+ */
+
+import type { Candle, OBVResult } from '../types';
+import { calculateEMA } from './movingAverages';
+
+/**
+ * Calculate raw OBV for all candles (starts at 0 on the first candle)
+ *
+ * @param candles - Array of candles in chronological order
+ * @returns Array of OBV values aligned with candles
+ */
+export function calculateOBV(candles: Candle[]): number[] {
+  const result: number[] = [];
+  let obv = 0;
+
+  for (let i = 0; i < candles.length; i++) {
+    if (i > 0) {
+      if (candles[i].close > candles[i - 1].close) {
+        obv += candles[i].volume;
+      } else if (candles[i].close < candles[i - 1].close) {
+        obv -= candles[i].volume;
+      }
+    }
+    result.push(obv);
+  }
+
+  return result;
+}
+
+/**
+ * Calculate OBV with its signal line for a series of candles
+ *
+ * @param candles - Array of candles in chronological order
+ * @param signalPeriod - EMA period of the signal line (default 20)
+ * @returns Array of OBVResult, starting once the signal line is defined
+ */
+export function calculateOBVSeries(candles: Candle[], signalPeriod: number = 20): OBVResult[] {
+  const obv = calculateOBV(candles);
+  const signal = calculateEMA(obv, signalPeriod);
+  const results: OBVResult[] = [];
+
+  for (let i = 0; i < candles.length; i++) {
+    const line = signal[i];
+    if (line === null) {
+      continue;
+    }
+    results.push({ value: obv[i], signal: line, timestamp: candles[i].timestamp });
+  }
+
+  return results;
+}
+
+/**
+ * Get OBV signal based on OBV/signal line crossover
+ *
+ * @param previous - Previous OBV result
+ * @param current - Current OBV result
+ * @returns Signal type and trend
+ */
+export function getOBVSignal(
+  previous: OBVResult,
+  current: OBVResult
+): { signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  let signal: 'LONG' | 'SHORT' | 'NONE' = 'NONE';
+  let trend: 'LONG' | 'SHORT' | 'NONE' = 'NONE';
+
+  if (previous.value <= previous.signal && current.value > current.signal) {
+    signal = 'LONG';
+  } else if (previous.value >= previous.signal && current.value < current.signal) {
+    signal = 'SHORT';
+  }
+
+  if (current.value > current.signal) {
+    trend = 'LONG';
+  } else if (current.value < current.signal) {
+    trend = 'SHORT';
+  }
+
+  return { signal, trend };
+}
+
+/**
+ * Calculate OBV for the most recent candle and return signal
+ * Convenience function for bot usage
+ */
+export function calculateOBVWithSignal(
+  candles: Candle[],
+  signalPeriod: number = 20
+): { result: OBVResult | null; signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  const series = calculateOBVSeries(candles, signalPeriod);
+
+  if (series.length < 2) {
+    return { result: null, signal: 'NONE', trend: 'NONE' };
+  }
+
+  const previous = series[series.length - 2];
+  const current = series[series.length - 1];
+  const { signal, trend } = getOBVSignal(previous, current);
+
+  return { result: current, signal, trend };
+}
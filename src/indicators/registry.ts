@@ -0,0 +1,525 @@
+/**
+ * Indicator Registry
+ *
+ * Single description of every built-in indicator: parameters with defaults
+ * and bounds, warm-up length, output fields and supported timeframes, plus
+ * uniform calculate/getSignal entry points.
+ *
+ * Config validation, the dashboard options, strategy warm-ups and the
+ * optimizer all read from here, so adding an indicator means adding one
+ * entry below (and a strategy in strategy/strategies.ts).
+ */
+
+import type {
+  Candle,
+  ChannelSignalMode,
+  IndicatorResult,
+  IndicatorType,
+  MFIResult,
+  TCF2Result,
+  KPSSResult,
+  TDFIResult,
+  DSSMOMResult,
+  MovingAverageResult,
+  MovingAverageType,
+  MACDResult,
+  SuperTrendResult,
+  BollingerResult,
+  KeltnerResult,
+  DonchianResult,
+  OBVResult,
+  VWAPResult,
+  CMFResult,
+  VolumeZScoreResult,
+} from '../types';
+import { calculateMFISeries, calculateMFIWithSignal } from './mfi';
+import { calculateTCF2Series, calculateTCF2WithSignal } from './tcf2';
+import { calculateKPSSSeries, calculateKPSSWithSignal } from './kpss';
+import { calculateTDFISeries, calculateTDFIWithSignal } from './tdfi';
+import { calculateDSSMOMSeries, calculateDSSMOMWithSignal } from './dssmom';
+import { calculateMovingAverage, calculateMovingAverageWithSignal } from './movingAverages';
+import { calculateMACDSeries, calculateMACDWithSignal } from './macd';
+import { calculateSuperTrendSeries, calculateSuperTrendWithSignal } from './supertrend';
+import { calculateBollingerSeries, calculateBollingerWithSignal } from './bollinger';
+import { calculateKeltnerSeries, calculateKeltnerWithSignal } from './keltner';
+import { calculateDonchianSeries, calculateDonchianWithSignal } from './donchian';
+import { calculateOBVSeries, calculateOBVWithSignal } from './obv';
+import { calculateVWAPSeries, calculateVWAPWithSignal } from './vwap';
+import { calculateCMFSeries, calculateCMFWithSignal } from './cmf';
+import { calculateVolumeZScoreSeries, calculateVolumeZScoreWithSignal } from './volumeZScore';
+
+export interface IndicatorParamSpec {
+  name: string;
+  description: string;
+  default: number;
+  min: number;
+  max: number;
+  /** Search / UI step; integer steps also require whole-number values */
+  step: number;
+}
+
+export type IndicatorCategory = 'momentum' | 'trend' | 'volatility' | 'volume';
+
+export interface IndicatorParamIssue {
+  param: string;
+  message: string;
+}
+
+export interface IndicatorSignalReading<TResult = IndicatorResult> {
+  result: TResult | null;
+  signal: 'LONG' | 'SHORT' | 'NONE';
+  trend: 'LONG' | 'SHORT' | 'NONE';
+}
+
+export interface IndicatorDefinition<TResult = IndicatorResult> {
+  id: IndicatorType;
+  name: string;
+  description: string;
+  category: IndicatorCategory;
+  params: IndicatorParamSpec[];
+  /** Result fields besides timestamp */
+  outputs: string[];
+  timeframes: string[];
+  /** Has an incremental stream (initIndicatorStream); others only calculate in batch */
+  streamable?: boolean;
+  /** Candles needed for a signal on the last candle (params have defaults applied) */
+  warmup(params: Record<string, number>): number;
+  /** Full series (params have defaults applied) */
+  calculate(candles: Candle[], params: Record<string, number>): TResult[];
+  /** Reading and signal for the last candle (params have defaults applied) */
+  getSignal(candles: Candle[], params: Record<string, number>): IndicatorSignalReading<TResult>;
+  /** Checks between params (e.g. fast period below slow period) */
+  validate?(params: Record<string, number>): IndicatorParamIssue[];
+}
+
+export const INDICATOR_TIMEFRAMES = ['1h', '4h', '1d'];
+
+/**
+ * Params every strategy accepts on top of its indicator's own
+ */
+export const COMMON_INDICATOR_PARAMS: IndicatorParamSpec[] = [
+  { name: 'atrPeriod', description: 'ATR period for take-profit and trailing distances', default: 14, min: 2, max: 100, step: 1 },
+];
+
+const period = (defaultValue: number, max: number = 200, description: string = 'Lookback period'): IndicatorParamSpec => ({
+  name: 'period',
+  description,
+  default: defaultValue,
+  min: 2,
+  max,
+  step: 1,
+});
+
+const breakout = (defaultValue: number): IndicatorParamSpec => ({
+  name: 'breakout',
+  description: '1 = signal breakouts, 0 = signal re-entries (mean reversion)',
+  default: defaultValue,
+  min: 0,
+  max: 1,
+  step: 1,
+});
+
+const ordered = (
+  params: Record<string, number>,
+  lower: string,
+  upper: string
+): IndicatorParamIssue[] =>
+  params[lower] < params[upper] ? [] : [{ param: lower, message: `must be below ${upper}` }];
+
+const mode = (params: Record<string, number>): ChannelSignalMode => (params.breakout ? 'BREAKOUT' : 'REENTRY');
+
+function movingAverage(
+  type: MovingAverageType,
+  description: string
+): IndicatorDefinition<MovingAverageResult> {
+  return {
+    id: type.toLowerCase() as IndicatorType,
+    name: type,
+    description,
+    category: 'trend',
+    params: [period(20, 400, 'Average period')],
+    outputs: ['value'],
+    timeframes: INDICATOR_TIMEFRAMES,
+    // HMA smooths over another √period values
+    warmup: (p) => p.period + (type === 'HMA' ? Math.floor(Math.sqrt(p.period)) - 1 : 0) + 1,
+    calculate: (candles, p) => {
+      const series = calculateMovingAverage(candles.map((c) => c.close), p.period, type);
+      const results: MovingAverageResult[] = [];
+      series.forEach((value, i) => {
+        if (value !== null) results.push({ value, type, timestamp: candles[i].timestamp });
+      });
+      return results;
+    },
+    getSignal: (candles, p) => calculateMovingAverageWithSignal(candles, type, p.period),
+  };
+}
+
+export const INDICATORS = {
+  mfi: {
+    id: 'mfi',
+    name: 'MFI',
+    description: 'Money Flow Index - momentum indicator using price and volume',
+    category: 'momentum',
+    params: [
+      period(14, 100),
+      { name: 'buyLevel', description: 'LONG on cross up through this level', default: 30, min: 0, max: 100, step: 1 },
+      { name: 'sellLevel', description: 'SHORT on cross down through this level', default: 70, min: 0, max: 100, step: 1 },
+    ],
+    outputs: ['value'],
+    timeframes: INDICATOR_TIMEFRAMES,
+    streamable: true,
+    // period + 1 candles per MFI value, two values for a cross
+    warmup: (p) => p.period + 2,
+    calculate: (candles, p) => {
+      const results: MFIResult[] = [];
+      calculateMFISeries(candles, p.period).forEach((value, i) => {
+        if (value !== null) results.push({ value, timestamp: candles[i].timestamp });
+      });
+      return results;
+    },
+    getSignal: (candles, p) => calculateMFIWithSignal(candles, p.period, p.buyLevel, p.sellLevel),
+    validate: (p) => ordered(p, 'buyLevel', 'sellLevel'),
+  } satisfies IndicatorDefinition<MFIResult>,
+  tcf2: {
+    id: 'tcf2',
+    name: 'TCF2',
+    description: 'Trend Continuation Factor 2 - measures trend strength',
+    category: 'trend',
+    params: [
+      { name: 'n', description: 'Change summation period', default: 14, min: 2, max: 100, step: 1 },
+      { name: 't3Period', description: 'T3 smoothing period', default: 5, min: 1, max: 50, step: 1 },
+      { name: 'b', description: 'T3 volume factor', default: 0.618, min: 0, max: 1, step: 0.01 },
+    ],
+    outputs: ['line1', 'line2'],
+    timeframes: INDICATOR_TIMEFRAMES,
+    streamable: true,
+    warmup: (p) => p.n + 2,
+    calculate: (candles, p) => calculateTCF2Series(candles, p.n, p.t3Period, p.b),
+    getSignal: (candles, p) => calculateTCF2WithSignal(candles, p.n, p.t3Period, p.b),
+  } satisfies IndicatorDefinition<TCF2Result>,
+  kpss: {
+    id: 'kpss',
+    name: 'KPSS',
+    description: 'Kase Permission Stochastic Smoothed',
+    category: 'momentum',
+    params: [
+      { name: 'pstLength', description: 'Stochastic length', default: 8, min: 2, max: 50, step: 1 },
+      { name: 'pstX', description: 'Length multiplier', default: 4, min: 1, max: 10, step: 1 },
+      { name: 'pstSmooth', description: 'Stochastic smoothing', default: 3, min: 1, max: 20, step: 1 },
+      { name: 'smoothPeriod', description: 'Final smoothing period', default: 11, min: 1, max: 50, step: 1 },
+    ],
+    outputs: ['value', 'signal'],
+    timeframes: INDICATOR_TIMEFRAMES,
+    streamable: true,
+    warmup: (p) => p.pstLength * p.pstX + 11,
+    calculate: (candles, p) => calculateKPSSSeries(candles, p.pstLength, p.pstX, p.pstSmooth, p.smoothPeriod),
+    getSignal: (candles, p) =>
+      calculateKPSSWithSignal(candles, p.pstLength, p.pstX, p.pstSmooth, p.smoothPeriod),
+  } satisfies IndicatorDefinition<KPSSResult>,
+  tdfi: {
+    id: 'tdfi',
+    name: 'TDFI',
+    description: 'Trend Direction & Force Index',
+    category: 'trend',
+    params: [
+      { name: 'trendPeriod', description: 'EMA period', default: 20, min: 2, max: 100, step: 1 },
+      { name: 'triggerUp', description: 'LONG trigger level', default: 0.05, min: 0, max: 1, step: 0.01 },
+      { name: 'triggerDown', description: 'SHORT trigger level', default: -0.05, min: -1, max: 0, step: 0.01 },
+      { name: 'smoothLength', description: 'Final smoothing length', default: 5, min: 1, max: 50, step: 1 },
+    ],
+    outputs: ['value'],
+    timeframes: INDICATOR_TIMEFRAMES,
+    streamable: true,
+    warmup: (p) => p.trendPeriod * 3 + 11,
+    calculate: (candles, p) =>
+      calculateTDFISeries(candles, p.trendPeriod, p.triggerUp, p.triggerDown, p.smoothLength),
+    getSignal: (candles, p) =>
+      calculateTDFIWithSignal(candles, p.trendPeriod, p.triggerUp, p.triggerDown, p.smoothLength),
+    validate: (p) => ordered(p, 'triggerDown', 'triggerUp'),
+  } satisfies IndicatorDefinition<TDFIResult>,
+  dssmom: {
+    id: 'dssmom',
+    name: 'DSS-MOM',
+    description: 'DSS Averages of Momentum',
+    category: 'momentum',
+    params: [
+      { name: 'stochasticLength', description: 'Stochastic lookback', default: 32, min: 2, max: 200, step: 1 },
+      { name: 'smoothMA', description: 'Smoothing period', default: 15, min: 1, max: 100, step: 1 },
+      { name: 'signalMA', description: 'Signal line period', default: 3, min: 1, max: 50, step: 1 },
+      { name: 'momPeriod', description: 'Momentum period', default: 14, min: 1, max: 100, step: 1 },
+    ],
+    outputs: ['dss', 'signal'],
+    timeframes: INDICATOR_TIMEFRAMES,
+    streamable: true,
+    warmup: (p) => Math.max(p.momPeriod, p.stochasticLength) + p.smoothMA * 2 + 11,
+    calculate: (candles, p) =>
+      calculateDSSMOMSeries(candles, p.stochasticLength, p.smoothMA, p.signalMA, p.momPeriod),
+    getSignal: (candles, p) =>
+      calculateDSSMOMWithSignal(candles, p.stochasticLength, p.smoothMA, p.signalMA, p.momPeriod),
+  } satisfies IndicatorDefinition<DSSMOMResult>,
+  sma: movingAverage('SMA', 'Simple Moving Average - trend filter'),
+  ema: movingAverage('EMA', 'Exponential Moving Average - trend filter'),
+  wma: movingAverage('WMA', 'Weighted Moving Average - trend filter'),
+  hma: movingAverage('HMA', 'Hull Moving Average - low-lag trend filter'),
+  macd: {
+    id: 'macd',
+    name: 'MACD',
+    description: 'Moving Average Convergence Divergence',
+    category: 'trend',
+    params: [
+      { name: 'fastPeriod', description: 'Fast EMA period', default: 12, min: 2, max: 100, step: 1 },
+      { name: 'slowPeriod', description: 'Slow EMA period', default: 26, min: 2, max: 200, step: 1 },
+      { name: 'signalPeriod', description: 'Signal EMA period', default: 9, min: 1, max: 50, step: 1 },
+    ],
+    outputs: ['macd', 'signal', 'histogram'],
+    timeframes: INDICATOR_TIMEFRAMES,
+    warmup: (p) => Math.max(p.fastPeriod, p.slowPeriod) + p.signalPeriod,
+    calculate: (candles, p) => calculateMACDSeries(candles, p.fastPeriod, p.slowPeriod, p.signalPeriod),
+    getSignal: (candles, p) => calculateMACDWithSignal(candles, p.fastPeriod, p.slowPeriod, p.signalPeriod),
+    validate: (p) => ordered(p, 'fastPeriod', 'slowPeriod'),
+  } satisfies IndicatorDefinition<MACDResult>,
+  supertrend: {
+    id: 'supertrend',
+    name: 'SuperTrend',
+    description: 'ATR trailing bands that flip with the trend',
+    category: 'trend',
+    params: [
+      period(10, 100, 'ATR period'),
+      { name: 'multiplier', description: 'Band width in ATRs', default: 3, min: 0.5, max: 10, step: 0.1 },
+    ],
+    outputs: ['value', 'trend', 'upper', 'lower'],
+    timeframes: INDICATOR_TIMEFRAMES,
+    warmup: (p) => p.period + 2,
+    calculate: (candles, p) => calculateSuperTrendSeries(candles, p.period, p.multiplier),
+    getSignal: (candles, p) => calculateSuperTrendWithSignal(candles, p.period, p.multiplier),
+  } satisfies IndicatorDefinition<SuperTrendResult>,
+  bollinger: {
+    id: 'bollinger',
+    name: 'Bollinger',
+    description: 'Bollinger Bands - standard deviation bands around an SMA',
+    category: 'volatility',
+    params: [
+      period(20),
+      { name: 'multiplier', description: 'Band width in standard deviations', default: 2, min: 0.5, max: 5, step: 0.1 },
+      breakout(0),
+    ],
+    outputs: ['middle', 'upper', 'lower', 'percentB', 'bandwidth'],
+    timeframes: INDICATOR_TIMEFRAMES,
+    warmup: (p) => p.period + 1,
+    calculate: (candles, p) => calculateBollingerSeries(candles, p.period, p.multiplier),
+    getSignal: (candles, p) => calculateBollingerWithSignal(candles, p.period, p.multiplier, mode(p)),
+  } satisfies IndicatorDefinition<BollingerResult>,
+  keltner: {
+    id: 'keltner',
+    name: 'Keltner',
+    description: 'Keltner Channels - ATR bands around an EMA',
+    category: 'volatility',
+    params: [
+      period(20, 200, 'EMA period'),
+      // Not atrPeriod: that common param sets the position ATR (targets and stops)
+      { name: 'channelAtrPeriod', description: 'ATR period of the band width', default: 10, min: 2, max: 100, step: 1 },
+      { name: 'multiplier', description: 'Band width in ATRs', default: 2, min: 0.5, max: 5, step: 0.1 },
+      breakout(1),
+    ],
+    outputs: ['middle', 'upper', 'lower'],
+    timeframes: INDICATOR_TIMEFRAMES,
+    warmup: (p) => Math.max(p.period, p.channelAtrPeriod + 1) + 1,
+    calculate: (candles, p) => calculateKeltnerSeries(candles, p.period, p.channelAtrPeriod, p.multiplier),
+    getSignal: (candles, p) =>
+      calculateKeltnerWithSignal(candles, p.period, p.channelAtrPeriod, p.multiplier, mode(p)),
+  } satisfies IndicatorDefinition<KeltnerResult>,
+  donchian: {
+    id: 'donchian',
+    name: 'Donchian',
+    description: 'Donchian Channels - highest high / lowest low breakouts',
+    category: 'volatility',
+    params: [period(20), breakout(1)],
+    outputs: ['upper', 'middle', 'lower'],
+    timeframes: INDICATOR_TIMEFRAMES,
+    warmup: (p) => p.period + 2,
+    calculate: (candles, p) => calculateDonchianSeries(candles, p.period),
+    getSignal: (candles, p) => calculateDonchianWithSignal(candles, p.period, mode(p)),
+  } satisfies IndicatorDefinition<DonchianResult>,
+  obv: {
+    id: 'obv',
+    name: 'OBV',
+    description: 'On-Balance Volume - cumulative volume flow',
+    category: 'volume',
+    params: [
+      { name: 'signalPeriod', description: 'Signal line EMA period', default: 20, min: 2, max: 200, step: 1 },
+    ],
+    outputs: ['value', 'signal'],
+    timeframes: INDICATOR_TIMEFRAMES,
+    warmup: (p) => p.signalPeriod + 1,
+    calculate: (candles, p) => calculateOBVSeries(candles, p.signalPeriod),
+    getSignal: (candles, p) => calculateOBVWithSignal(candles, p.signalPeriod),
+  } satisfies IndicatorDefinition<OBVResult>,
+  vwap: {
+    id: 'vwap',
+    name: 'VWAP',
+    description: 'Volume Weighted Average Price - anchored or rolling',
+    category: 'volume',
+    params: [
+      {
+        name: 'period',
+        description: '0 = VWAP anchored at 00:00 UTC, otherwise a rolling window',
+        default: 0,
+        min: 0,
+        max: 500,
+        step: 1,
+      },
+    ],
+    outputs: ['value'],
+    // A daily-anchored VWAP on daily candles is just each candle's typical price
+    timeframes: ['1h', '4h'],
+    warmup: (p) => Math.max(p.period, 1) + 1,
+    calculate: (candles, p) => calculateVWAPSeries(candles, p.period, 'DAY'),
+    getSignal: (candles, p) => calculateVWAPWithSignal(candles, p.period, 'DAY'),
+  } satisfies IndicatorDefinition<VWAPResult>,
+  cmf: {
+    id: 'cmf',
+    name: 'CMF',
+    description: 'Chaikin Money Flow - accumulation/distribution pressure',
+    category: 'volume',
+    params: [
+      period(20),
+      { name: 'buyLevel', description: 'LONG trigger level', default: 0.05, min: -1, max: 1, step: 0.01 },
+      { name: 'sellLevel', description: 'SHORT trigger level', default: -0.05, min: -1, max: 1, step: 0.01 },
+    ],
+    outputs: ['value'],
+    timeframes: INDICATOR_TIMEFRAMES,
+    warmup: (p) => p.period + 1,
+    calculate: (candles, p) => calculateCMFSeries(candles, p.period),
+    getSignal: (candles, p) => calculateCMFWithSignal(candles, p.period, p.buyLevel, p.sellLevel),
+    validate: (p) => ordered(p, 'sellLevel', 'buyLevel'),
+  } satisfies IndicatorDefinition<CMFResult>,
+  volumezscore: {
+    id: 'volumezscore',
+    name: 'Volume Z-Score',
+    description: 'Volume spike detector - volume against its recent baseline',
+    category: 'volume',
+    params: [
+      period(20, 200, 'Baseline period'),
+      { name: 'threshold', description: 'z-score that counts as a spike', default: 2, min: 0, max: 10, step: 0.1 },
+    ],
+    outputs: ['value', 'volume', 'mean', 'direction'],
+    timeframes: INDICATOR_TIMEFRAMES,
+    warmup: (p) => p.period + 1,
+    calculate: (candles, p) => calculateVolumeZScoreSeries(candles, p.period),
+    getSignal: (candles, p) => calculateVolumeZScoreWithSignal(candles, p.period, p.threshold),
+  } satisfies IndicatorDefinition<VolumeZScoreResult>,
+} satisfies Record<IndicatorType, IndicatorDefinition<any>>;
+
+export type IndicatorName = keyof typeof INDICATORS;
+
+/**
+ * Check whether a type is a built-in indicator
+ */
+export function isBuiltInIndicator(type: string): type is IndicatorName {
+  return Object.prototype.hasOwnProperty.call(INDICATORS, type);
+}
+
+/**
+ * Get a built-in indicator's definition
+ *
+ * @throws If the type isn't a built-in indicator
+ */
+export function getIndicatorDefinition(type: string): IndicatorDefinition<IndicatorResult> {
+  if (!isBuiltInIndicator(type)) {
+    throw new Error(`Unknown indicator: ${type}`);
+  }
+  return INDICATORS[type];
+}
+
+/**
+ * All built-in indicator definitions, in registry order
+ */
+export function listIndicators(): IndicatorDefinition<IndicatorResult>[] {
+  return Object.values(INDICATORS);
+}
+
+/**
+ * Param specs an indicator accepts, including the common ones (atrPeriod)
+ */
+export function getIndicatorParamSpecs(type: string): IndicatorParamSpec[] {
+  const own = getIndicatorDefinition(type).params;
+  return [...own, ...COMMON_INDICATOR_PARAMS.filter((c) => !own.some((p) => p.name === c.name))];
+}
+
+/**
+ * Fill in defaults for params that weren't given
+ */
+export function resolveIndicatorParams(
+  type: string,
+  params: Record<string, number> = {}
+): Record<string, number> {
+  const defaults = Object.fromEntries(getIndicatorParamSpecs(type).map((spec) => [spec.name, spec.default]));
+  return { ...defaults, ...params };
+}
+
+/**
+ * Candles a built-in indicator needs for a signal on the last candle
+ */
+export function getIndicatorWarmup(type: string, params: Record<string, number> = {}): number {
+  return getIndicatorDefinition(type).warmup(resolveIndicatorParams(type, params));
+}
+
+/**
+ * One output of a built-in indicator, aligned to the input candles
+ *
+ * @param output - Output field (default: the indicator's first output)
+ * @returns One value per candle; null before the indicator has a value or where the output isn't numeric
+ */
+export function getIndicatorValues(
+  type: string,
+  candles: Candle[],
+  params: Record<string, number> = {},
+  output?: string
+): Array<number | null> {
+  const definition = getIndicatorDefinition(type);
+  const field = output ?? definition.outputs[0];
+  if (!definition.outputs.includes(field)) {
+    throw new Error(`Unknown output '${field}' for ${definition.name} (outputs: ${definition.outputs.join(', ')})`);
+  }
+
+  const byTimestamp = new Map<number, number>();
+  for (const result of definition.calculate(candles, resolveIndicatorParams(type, params))) {
+    const value = (result as unknown as Record<string, unknown>)[field];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      byTimestamp.set(result.timestamp, value);
+    }
+  }
+
+  return candles.map((candle) => byTimestamp.get(candle.timestamp) ?? null);
+}
+
+/**
+ * Check params against the indicator's specs: known names, numbers within
+ * min/max, whole numbers for integer steps, and cross-param rules
+ *
+ * @returns Every issue found (empty when valid)
+ */
+export function validateIndicatorParams(type: string, params: Record<string, unknown> = {}): IndicatorParamIssue[] {
+  const definition = getIndicatorDefinition(type);
+  const specs = getIndicatorParamSpecs(type);
+  const issues: IndicatorParamIssue[] = [];
+
+  for (const [name, value] of Object.entries(params)) {
+    const spec = specs.find((s) => s.name === name);
+    if (!spec) {
+      issues.push({ param: name, message: `unknown parameter for ${definition.name} (expected one of: ${specs.map((s) => s.name).join(', ')})` });
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push({ param: name, message: 'must be a number' });
+    } else if (value < spec.min || value > spec.max) {
+      issues.push({ param: name, message: `must be between ${spec.min} and ${spec.max}` });
+    } else if (Number.isInteger(spec.step) && !Number.isInteger(value)) {
+      issues.push({ param: name, message: 'must be a whole number' });
+    }
+  }
+
+  if (issues.length === 0 && definition.validate) {
+    issues.push(...definition.validate(resolveIndicatorParams(type, params as Record<string, number>)));
+  }
+
+  return issues;
+}
@@ -0,0 +1,48 @@
+import type { Candle } from '../types';
+
+/**
+ * Incremental (Streaming) Indicators
+ *
+ * MFI, ATR, TCF2, KPSS, TDFI and DSS-MOM have stream classes that consume
+ * one candle at a time and keep only the state they need, so a series over
+ * n candles costs O(n) instead of recomputing every window. Outputs match
+ * the batch calculate*Series functions for the same candles. The other
+ * registry indicators are batch-only (their definitions lack `streamable`).
+ *
+ * State is plain JSON: serialize() it alongside bot state and restore()
+ * it on the next run to continue where the last cycle stopped.
+ */
+
+export interface IndicatorStream<TResult> {
+  /** Indicator key ('mfi', 'atr', 'tcf2', ...) */
+  readonly indicator: string;
+  /**
+   * Add the next candle (chronological order)
+   * @returns Result for this candle, or null while warming up
+   */
+  update(candle: Candle): TResult | null;
+  /** JSON-serializable snapshot for restore() */
+  serialize(): SerializedIndicatorStream;
+}
+
+export interface SerializedIndicatorStream<TState = unknown> {
+  indicator: string;
+  params: Record<string, number>;
+  state: TState;
+}
+
+/**
+ * Deep copy a stream state (states are plain JSON)
+ */
+export function cloneStreamState<T>(state: T): T {
+  return JSON.parse(JSON.stringify(state));
+}
+
+/**
+ * Check a snapshot belongs to the expected indicator
+ */
+export function assertStreamIndicator(snapshot: SerializedIndicatorStream, indicator: string): void {
+  if (snapshot.indicator !== indicator) {
+    throw new Error(`Cannot restore ${indicator} stream from ${snapshot.indicator} state`);
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * SuperTrend
+ *
+ * ATR bands around the candle midpoint (hl2) that only tighten while the
+ * trend holds:
+ * - Upper band: hl2 + multiplier × ATR (only moves down in a downtrend)
+ * - Lower band: hl2 - multiplier × ATR (only moves up in an uptrend)
+ *
+ * The trend flips to LONG when the close breaks above the upper band and to
+ * SHORT when it breaks below the lower band. The SuperTrend line is the lower
+ * band in an uptrend and the upper band in a downtrend, so it doubles as a
+ * trailing stop. ATR comes from calculateATRSeries.
+ *
+ * Parameters:
+ * - period: ATR period (default 10)
+ * - multiplier: Band width in ATRs (default 3)
+ *
+ * Signal Logic:
+ * - LONG: trend flips up
+ * - SHORT: trend flips down
+ */
+
+import type { Candle, SuperTrendResult } from '../types';
+import { calculateATRSeries } from './atr';
+
+/**
+ * Calculate SuperTrend for a series of candles
+ *
+ * @param candles - Array of candles in chronological order
+ * @param period - ATR period (default 10)
+ * @param multiplier - Band width in ATRs (default 3)
+ * @returns Array of SuperTrendResult, starting with the first ATR value
+ */
+export function calculateSuperTrendSeries(
+  candles: Candle[],
+  period: number = 10,
+  multiplier: number = 3
+): SuperTrendResult[] {
+  const atrSeries = calculateATRSeries(candles, period);
+  const results: SuperTrendResult[] = [];
+
+  let upper = 0;
+  let lower = 0;
+  let trend: 'LONG' | 'SHORT' = 'SHORT';
+
+  for (let i = 0; i < candles.length; i++) {
+    const atr = atrSeries[i];
+    if (atr === null) {
+      continue;
+    }
+
+    const candle = candles[i];
+    const hl2 = (candle.high + candle.low) / 2;
+    const basicUpper = hl2 + multiplier * atr;
+    const basicLower = hl2 - multiplier * atr;
+
+    if (results.length === 0) {
+      // First value: no previous bands to carry over
+      upper = basicUpper;
+      lower = basicLower;
+      trend = candle.close > basicUpper ? 'LONG' : 'SHORT';
+    } else {
+      const previousClose = candles[i - 1].close;
+      upper = basicUpper < upper || previousClose > upper ? basicUpper : upper;
+      lower = basicLower > lower || previousClose < lower ? basicLower : lower;
+
+      if (trend === 'SHORT' && candle.close > upper) {
+        trend = 'LONG';
+      } else if (trend === 'LONG' && candle.close < lower) {
+        trend = 'SHORT';
+      }
+    }
+
+    results.push({
+      value: trend === 'LONG' ? lower : upper,
+      trend,
+      upper,
+      lower,
+      timestamp: candle.timestamp,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Get SuperTrend signal from a trend flip
+ *
+ * @param previous - Previous SuperTrend result
+ * @param current - Current SuperTrend result
+ * @returns Signal type and trend
+ */
+export function getSuperTrendSignal(
+  previous: SuperTrendResult,
+  current: SuperTrendResult
+): { signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  let signal: 'LONG' | 'SHORT' | 'NONE' = 'NONE';
+
+  if (previous.trend !== current.trend) {
+    signal = current.trend;
+  }
+
+  return { signal, trend: current.trend };
+}
+
+/**
+ * Calculate SuperTrend for the most recent candle and return signal
+ * Convenience function for bot usage
+ */
+export function calculateSuperTrendWithSignal(
+  candles: Candle[],
+  period: number = 10,
+  multiplier: number = 3
+): { result: SuperTrendResult | null; signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  const series = calculateSuperTrendSeries(candles, period, multiplier);
+
+  if (series.length < 2) {
+    return { result: null, signal: 'NONE', trend: 'NONE' };
+  }
+
+  const previous = series[series.length - 2];
+  const current = series[series.length - 1];
+  const { signal, trend } = getSuperTrendSignal(previous, current);
+
+  return { result: current, signal, trend };
+}
@@ -23,6 +23,12 @@
  */
 
 import type { Candle, TCF2Result } from '../types';
+import {
+  assertStreamIndicator,
+  cloneStreamState,
+  type IndicatorStream,
+  type SerializedIndicatorStream,
+} from './stream';
 
 export interface TCF2State {
   // T3 smoothing state for line1
@@ -222,3 +228,121 @@ export function calculateTCF2WithSignal(
 
   return { result: current, signal, trend };
 }
+
+interface TCF2StreamState extends TCF2State {
+  previousClose: number | null;
+  /** Candles consumed so far */
+  bars: number;
+}
+
+/**
+ * Incremental TCF2 built on TCF2State
+ * The change arrays keep only the last n + 1 entries.
+ * Matches calculateTCF2Series: the first value is for the (n + 1)th candle.
+ *
+ * Params: n (14), t3Period (5), b (0.618)
+ */
+export class TCF2Stream implements IndicatorStream<TCF2Result> {
+  readonly indicator = 'tcf2';
+  private params: Record<string, number>;
+  private n: number;
+  private coefficients: { c1: number; c2: number; c3: number; c4: number; w1: number; w2: number };
+  private state: TCF2StreamState = { ...initTCF2State(), previousClose: null, bars: 0 };
+
+  constructor(params: Record<string, number> = {}) {
+    this.params = { ...params };
+    this.n = params.n ?? 14;
+
+    const b = params.b ?? 0.618;
+    const b2 = b * b;
+    const b3 = b2 * b;
+    const n1 = 1 + 0.5 * (Math.max(params.t3Period ?? 5, 1) - 1);
+    const w1 = 2 / (n1 + 1);
+    this.coefficients = {
+      c1: -b3,
+      c2: 3 * (b2 + b3),
+      c3: -3 * (2 * b2 + b + b3),
+      c4: 1 + 3 * b + b3 + 3 * b2,
+      w1,
+      w2: 1 - w1,
+    };
+  }
+
+  static restore(snapshot: SerializedIndicatorStream): TCF2Stream {
+    assertStreamIndicator(snapshot, 'tcf2');
+    const stream = new TCF2Stream(snapshot.params);
+    stream.state = cloneStreamState(snapshot.state as TCF2StreamState);
+    return stream;
+  }
+
+  update(candle: Candle): TCF2Result | null {
+    const st = this.state;
+    const { changeP, changeN, cfP, cfN } = st;
+
+    if (st.previousClose === null) {
+      changeP.push(0);
+      changeN.push(0);
+      cfP.push(0);
+      cfN.push(0);
+    } else if (candle.close > st.previousClose) {
+      changeP.push(candle.close - st.previousClose);
+      cfP.push(changeP[changeP.length - 1] + cfP[cfP.length - 1]);
+      changeN.push(0);
+      cfN.push(0);
+    } else {
+      changeP.push(0);
+      cfP.push(0);
+      changeN.push(st.previousClose - candle.close);
+      cfN.push(changeN[changeN.length - 1] + cfN[cfN.length - 1]);
+    }
+
+    if (changeP.length > this.n + 1) {
+      changeP.shift();
+      changeN.shift();
+      cfP.shift();
+      cfN.shift();
+    }
+
+    st.previousClose = candle.close;
+    st.bars++;
+    if (st.bars < this.n + 1) {
+      return null;
+    }
+
+    let chP = 0, chN = 0, cffP = 0, cffN = 0;
+    for (let j = 0; j < changeP.length; j++) {
+      chP += changeP[j];
+      chN += changeN[j];
+      cffP += cfP[j];
+      cffN += cfN[j];
+    }
+
+    const { c1, c2, c3, c4, w1, w2 } = this.coefficients;
+
+    // T3 smoothing for line1 (positive momentum)
+    st.e1 = w1 * (chP - cffN) + w2 * st.e1;
+    st.e2 = w1 * st.e1 + w2 * st.e2;
+    st.e3 = w1 * st.e2 + w2 * st.e3;
+    st.e4 = w1 * st.e3 + w2 * st.e4;
+    st.e5 = w1 * st.e4 + w2 * st.e5;
+    st.e6 = w1 * st.e5 + w2 * st.e6;
+
+    // T3 smoothing for line2 (negative momentum)
+    st.e12 = w1 * (chN - cffP) + w2 * st.e12;
+    st.e22 = w1 * st.e12 + w2 * st.e22;
+    st.e32 = w1 * st.e22 + w2 * st.e32;
+    st.e42 = w1 * st.e32 + w2 * st.e42;
+    st.e52 = w1 * st.e42 + w2 * st.e52;
+    st.e62 = w1 * st.e52 + w2 * st.e62;
+
+    return {
+      line1: c1 * st.e6 + c2 * st.e5 + c3 * st.e4 + c4 * st.e3,
+      line2: c1 * st.e62 + c2 * st.e52 + c3 * st.e42 + c4 * st.e32,
+      timestamp: candle.timestamp,
+    };
+  }
+
+  serialize(): SerializedIndicatorStream<TCF2StreamState> {
+    return { indicator: this.indicator, params: { ...this.params }, state: cloneStreamState(this.state) };
+  }
+}
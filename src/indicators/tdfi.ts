@@ -25,6 +25,12 @@
  */
 
 import type { Candle, TDFIResult } from '../types';
+import {
+  assertStreamIndicator,
+  cloneStreamState,
+  type IndicatorStream,
+  type SerializedIndicatorStream,
+} from './stream';
 
 /**
  * Custom iSmooth function from MT4 indicator
@@ -222,3 +228,91 @@ export function calculateTDFIWithSignal(
 
   return { result: current, signal, trend };
 }
+
+interface TDFIStreamState {
+  mma: number | null;
+  smma: number | null;
+  /** Raw TDF values of the last trendPeriod × 3 candles */
+  tdf: number[];
+  smoothState: number[];
+  /** Candles consumed so far */
+  bars: number;
+}
+
+/**
+ * Incremental TDFI
+ * Matches calculateTDFISeries: the first value is for candle index trendPeriod × 3.
+ *
+ * Params: trendPeriod (20), smoothLength (5)
+ * (triggerUp / triggerDown only affect getTDFISignal)
+ */
+export class TDFIStream implements IndicatorStream<TDFIResult> {
+  readonly indicator = 'tdfi';
+  private params: Record<string, number>;
+  private lookback: number;
+  private smoothLength: number;
+  private alpha: number;
+  private state: TDFIStreamState = { mma: null, smma: null, tdf: [], smoothState: [0, 0, 0, 0, 0], bars: 0 };
+
+  constructor(params: Record<string, number> = {}) {
+    this.params = { ...params };
+    const trendPeriod = params.trendPeriod ?? 20;
+    this.lookback = trendPeriod * 3;
+    this.smoothLength = params.smoothLength ?? 5;
+    this.alpha = 2.0 / (trendPeriod + 1.0);
+  }
+
+  static restore(snapshot: SerializedIndicatorStream): TDFIStream {
+    assertStreamIndicator(snapshot, 'tdfi');
+    const stream = new TDFIStream(snapshot.params);
+    stream.state = cloneStreamState(snapshot.state as TDFIStreamState);
+    return stream;
+  }
+
+  update(candle: Candle): TDFIResult | null {
+    const st = this.state;
+    const i = st.bars++;
+    const price = candle.close;
+
+    if (st.mma === null || st.smma === null) {
+      st.mma = price;
+      st.smma = price;
+      st.tdf.push(0);
+    } else {
+      const currentMMA = st.mma + this.alpha * (price - st.mma);
+      const currentSMMA = st.smma + this.alpha * (currentMMA - st.smma);
+
+      const impetMMA = currentMMA - st.mma;
+      const impetSMMA = currentSMMA - st.smma;
+
+      const epsilon = 0.00001;
+      const divMA = Math.abs(currentMMA - currentSMMA) / epsilon;
+      const averImpet = (impetMMA + impetSMMA) / (2 * epsilon);
+
+      st.tdf.push(divMA * Math.pow(averImpet, 3));
+      st.mma = currentMMA;
+      st.smma = currentSMMA;
+    }
+
+    if (st.tdf.length > Math.max(this.lookback, 1)) {
+      st.tdf.shift();
+    }
+
+    if (i < this.lookback) {
+      return null;
+    }
+
+    const absValue = absHighest(st.tdf, st.tdf.length, st.tdf.length - 1);
+    const normalizedTDF = absValue > 0 ? st.tdf[st.tdf.length - 1] / absValue : 0;
+    const smoothedTDF = iSmooth(normalizedTDF, this.smoothLength, 0, st.smoothState);
+
+    return {
+      value: Math.max(-1, Math.min(1, smoothedTDF)),
+      timestamp: candle.timestamp,
+    };
+  }
+
+  serialize(): SerializedIndicatorStream<TDFIStreamState> {
+    return { indicator: this.indicator, params: { ...this.params }, state: cloneStreamState(this.state) };
+  }
+}
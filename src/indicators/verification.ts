@@ -0,0 +1,341 @@
+/**
+ * Indicator Verification
+ *
+ * Compares our series against reference exports (e.g. from the MT4
+ * originals KPSS, TCF2, TDFI and DSS-MOM were ported from).
+ *
+ * Reference CSV layout: a header row with timestamp, open, high, low, close,
+ * volume (any case; time or date also name the timestamp column), then
+ * one column per expected value. Timestamps may be epoch
+ * milliseconds, epoch seconds or MT4-style dates ("2024.01.31 04:00", UTC).
+ * Empty cells, NaN and MT4's EMPTY_VALUE mean "no value" and aren't
+ * compared, which covers each side's warm-up.
+ *
+ * Rows are matched to results by timestamp, so series that start later
+ * than the candles (most of ours) line up without index arithmetic.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'csv-parse/sync';
+import type { Candle, IndicatorResult } from '../types';
+import { getIndicatorDefinition, resolveIndicatorParams } from './registry';
+
+/** MT4 fills indicator buffers with this where there is no value */
+const MT4_EMPTY_VALUE = 2147483647;
+
+const CANDLE_COLUMNS = ['timestamp', 'open', 'high', 'low', 'close', 'volume'];
+const TIMESTAMP_ALIASES = ['time', 'date'];
+
+export interface ReferenceDataset {
+  name: string;
+  candles: Candle[];
+  /** Expected values per column, aligned with candles (null = no value) */
+  columns: Record<string, Array<number | null>>;
+}
+
+export interface IndicatorVerificationOptions {
+  indicator: string;
+  /** Indicator params (defaults apply) */
+  params?: Record<string, number>;
+  /**
+   * Reference column → result field (default: each of the indicator's
+   * outputs by name, except ones named like a candle column)
+   */
+  columns?: Record<string, string>;
+  /** Allowed absolute difference (default 1e-6) */
+  tolerance?: number;
+  /** Allowed difference relative to the expected value (default 1e-9) */
+  relativeTolerance?: number;
+  /** Leading reference rows to ignore, e.g. while MT4 buffers settle (default 0) */
+  skip?: number;
+  /** Rows shown either side of the first divergence (default 3) */
+  contextRows?: number;
+}
+
+export interface VerificationRow {
+  index: number;
+  timestamp: number;
+  expected: Record<string, number | null>;
+  actual: Record<string, number | null>;
+}
+
+export interface IndicatorDivergence {
+  /** Reference row index */
+  index: number;
+  timestamp: number;
+  column: string;
+  field: string;
+  expected: number;
+  /** null when our series has no value for this candle */
+  actual: number | null;
+  difference: number;
+  context: VerificationRow[];
+}
+
+export interface IndicatorVerificationResult {
+  dataset: string;
+  indicator: string;
+  params: Record<string, number>;
+  /** Values compared before stopping */
+  compared: number;
+  maxDifference: number;
+  passed: boolean;
+  /** First value outside tolerance */
+  divergence: IndicatorDivergence | null;
+}
+
+/**
+ * Parse a reference timestamp cell
+ */
+function parseTimestamp(cell: string, row: number): number {
+  const trimmed = cell.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const value = Number(trimmed);
+    // Ten digits or fewer is epoch seconds
+    return value < 1e11 ? value * 1000 : value;
+  }
+
+  const mt4 = /^(\d{4})\.(\d{2})\.(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(trimmed);
+  const parsed = mt4
+    ? Date.UTC(Number(mt4[1]), Number(mt4[2]) - 1, Number(mt4[3]), Number(mt4[4] ?? 0), Number(mt4[5] ?? 0), Number(mt4[6] ?? 0))
+    : Date.parse(trimmed);
+
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Reference row ${row}: invalid timestamp '${cell}'`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse an expected value cell (null when the reference has no value)
+ */
+function parseValue(cell: string | undefined): number | null {
+  if (cell === undefined || cell.trim() === '') return null;
+  const value = Number(cell);
+  return Number.isFinite(value) && Math.abs(value) !== MT4_EMPTY_VALUE ? value : null;
+}
+
+/**
+ * Parse reference CSV content
+ *
+ * @param content - CSV text with a header row
+ * @param name - Dataset name used in reports
+ * @throws If a candle column is missing or a candle cell isn't a number
+ */
+export function parseReferenceCSV(content: string, name: string = 'reference'): ReferenceDataset {
+  const records: Array<Record<string, string>> = parse(content, {
+    columns: (header: string[]) => header.map((column) => column.trim()),
+    skip_empty_lines: true,
+    trim: true,
+  });
+
+  const header = records.length > 0 ? Object.keys(records[0]) : [];
+  const lookup = new Map(header.map((column) => [column.toLowerCase(), column]));
+  const timestampAlias = TIMESTAMP_ALIASES.find((alias) => lookup.has(alias));
+  if (!lookup.has('timestamp') && timestampAlias) {
+    lookup.set('timestamp', lookup.get(timestampAlias)!);
+  }
+  for (const column of CANDLE_COLUMNS) {
+    if (!lookup.has(column)) {
+      throw new Error(`Reference ${name} is missing the '${column}' column`);
+    }
+  }
+
+  const candleColumns = CANDLE_COLUMNS.map((column) => lookup.get(column));
+  const valueColumns = header.filter((column) => !candleColumns.includes(column));
+  const columns: Record<string, Array<number | null>> = Object.fromEntries(valueColumns.map((c) => [c, []]));
+
+  const candles = records.map((record, i) => {
+    const row = i + 2; // 1-based, after the header
+    const field = (column: string): number => {
+      const value = Number(record[lookup.get(column)!]);
+      if (!Number.isFinite(value)) {
+        throw new Error(`Reference row ${row}: ${column} must be a number`);
+      }
+      return value;
+    };
+
+    for (const column of valueColumns) {
+      columns[column].push(parseValue(record[column]));
+    }
+
+    return {
+      timestamp: parseTimestamp(record[lookup.get('timestamp')!], row),
+      open: field('open'),
+      high: field('high'),
+      low: field('low'),
+      close: field('close'),
+      volume: field('volume'),
+    };
+  });
+
+  return { name, candles, columns };
+}
+
+/**
+ * Load a reference CSV file (dataset name is the file name without extension)
+ */
+export function loadReferenceCSV(filePath: string): ReferenceDataset {
+  return parseReferenceCSV(fs.readFileSync(filePath, 'utf-8'), path.basename(filePath, path.extname(filePath)));
+}
+
+/**
+ * Format a dataset as reference CSV (numbers to 12 significant digits)
+ *
+ * Used to (re)generate regression snapshots from our own series. Snapshots
+ * only catch changes; they are no substitute for exports from the original.
+ */
+export function formatReferenceCSV(dataset: ReferenceDataset): string {
+  const valueColumns = Object.keys(dataset.columns);
+  const clash = valueColumns.find((column) => CANDLE_COLUMNS.includes(column.toLowerCase()));
+  if (clash) {
+    throw new Error(`Reference column '${clash}' clashes with a candle column`);
+  }
+  const cell = (value: number | null) => (value === null ? '' : String(Number(value.toPrecision(12))));
+
+  const lines = [[...CANDLE_COLUMNS, ...valueColumns].join(',')];
+  dataset.candles.forEach((candle, i) => {
+    lines.push(
+      [
+        candle.timestamp,
+        candle.open,
+        candle.high,
+        candle.low,
+        candle.close,
+        candle.volume,
+        ...valueColumns.map((column) => cell(dataset.columns[column][i])),
+      ].join(',')
+    );
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Numeric view of a result field (trend labels become 1 / -1 / 0)
+ */
+function numericField(result: IndicatorResult | undefined, field: string): number | null {
+  const value = result ? (result as unknown as Record<string, unknown>)[field] : undefined;
+  if (typeof value === 'number') return value;
+  if (value === 'LONG') return 1;
+  if (value === 'SHORT') return -1;
+  if (value === 'NONE') return 0;
+  return null;
+}
+
+/**
+ * Compare an indicator's series with a reference dataset
+ *
+ * Stops at the first value outside tolerance, and reports it with the
+ * surrounding rows so the point where the port drifts is easy to see.
+ *
+ * @throws If a mapped reference column or result field doesn't exist
+ */
+export function verifyIndicator(
+  dataset: ReferenceDataset,
+  options: IndicatorVerificationOptions
+): IndicatorVerificationResult {
+  const definition = getIndicatorDefinition(options.indicator);
+  const params = resolveIndicatorParams(options.indicator, options.params);
+  const columns =
+    options.columns ??
+    Object.fromEntries(definition.outputs.filter((f) => !CANDLE_COLUMNS.includes(f)).map((f) => [f, f]));
+  const tolerance = options.tolerance ?? 1e-6;
+  const relativeTolerance = options.relativeTolerance ?? 1e-9;
+  const contextRows = options.contextRows ?? 3;
+
+  for (const [column, field] of Object.entries(columns)) {
+    if (!dataset.columns[column]) {
+      throw new Error(`Reference ${dataset.name} has no '${column}' column`);
+    }
+    if (!definition.outputs.includes(field)) {
+      throw new Error(`${definition.name} has no '${field}' output (outputs: ${definition.outputs.join(', ')})`);
+    }
+  }
+
+  const byTimestamp = new Map(definition.calculate(dataset.candles, params).map((r) => [r.timestamp, r]));
+
+  const row = (index: number): VerificationRow => {
+    const timestamp = dataset.candles[index].timestamp;
+    const result = byTimestamp.get(timestamp);
+    const expected: Record<string, number | null> = {};
+    const actual: Record<string, number | null> = {};
+    for (const [column, field] of Object.entries(columns)) {
+      expected[column] = dataset.columns[column][index];
+      actual[column] = numericField(result, field);
+    }
+    return { index, timestamp, expected, actual };
+  };
+
+  let compared = 0;
+  let maxDifference = 0;
+
+  for (let i = options.skip ?? 0; i < dataset.candles.length; i++) {
+    const { timestamp, expected, actual } = row(i);
+
+    for (const [column, field] of Object.entries(columns)) {
+      const want = expected[column];
+      if (want === null) continue;
+
+      const got = actual[column];
+      const difference = got === null ? Infinity : Math.abs(got - want);
+      compared++;
+
+      if (difference > tolerance + relativeTolerance * Math.abs(want)) {
+        const context: VerificationRow[] = [];
+        for (let j = Math.max(0, i - contextRows); j <= Math.min(dataset.candles.length - 1, i + contextRows); j++) {
+          context.push(row(j));
+        }
+
+        return {
+          dataset: dataset.name,
+          indicator: options.indicator,
+          params,
+          compared,
+          maxDifference: difference,
+          passed: false,
+          divergence: { index: i, timestamp, column, field, expected: want, actual: got, difference, context },
+        };
+      }
+
+      maxDifference = Math.max(maxDifference, difference);
+    }
+  }
+
+  return { dataset: dataset.name, indicator: options.indicator, params, compared, maxDifference, passed: true, divergence: null };
+}
+
+/**
+ * Human-readable summary of a verification, with the context table on failure
+ */
+export function formatVerificationReport(result: IndicatorVerificationResult): string {
+  const params = Object.entries(result.params).map(([name, value]) => `${name}=${value}`).join(', ');
+  const title = `${result.indicator} vs ${result.dataset} (${params})`;
+
+  if (!result.divergence) {
+    return `${title}: ${result.compared} values match (max difference ${result.maxDifference.toExponential(2)})`;
+  }
+
+  const { divergence } = result;
+  const columns = Object.keys(divergence.context[0].expected);
+  const show = (value: number | null) => (value === null ? '-' : String(Number(value.toPrecision(10))));
+
+  const lines = [
+    `${title}: diverges at row ${divergence.index} (${new Date(divergence.timestamp).toISOString()}) ` +
+      `on ${divergence.column}: expected ${divergence.expected}, got ${divergence.actual ?? 'no value'} ` +
+      `(difference ${divergence.difference}) after ${result.compared - 1} matching values`,
+    ['', 'row', ...columns.flatMap((c) => [`${c} expected`, `${c} actual`])].join('\t'),
+  ];
+  for (const row of divergence.context) {
+    lines.push(
+      [
+        row.index === divergence.index ? '>' : '',
+        row.index,
+        ...columns.flatMap((c) => [show(row.expected[c]), show(row.actual[c])]),
+      ].join('\t')
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,101 @@
+/**
+ * Volume Z-Score (volume spike detector)
+ *
+ * z = (volume - mean) / standard deviation, with mean and deviation taken
+ * over the previous period candles. The current candle is left out of its
+ * own baseline so a spike doesn't dampen itself.
+ *
+ * Parameters:
+ * - period: Baseline period (default 20)
+ * - threshold: z-score that counts as a spike (default 2)
+ *
+ * Signal Logic (spike direction follows the candle body):
+ * - LONG: spike on a candle that closes above its open
+ * - SHORT: spike on a candle that closes below its open
+ * - Trend: same as the signal, NONE without a spike, so a FILTER member only
+ *   passes entries on candles with unusual buying volume
+ */
+
+import type { Candle, VolumeZScoreResult } from '../types';
+
+/**
+ * Calculate volume z-scores for a series of candles
+ *
+ * @param candles - Array of candles in chronological order
+ * @param period - Baseline period (default 20)
+ * @returns Array of VolumeZScoreResult, starting with candle index period
+ */
+export function calculateVolumeZScoreSeries(candles: Candle[], period: number = 20): VolumeZScoreResult[] {
+  const results: VolumeZScoreResult[] = [];
+
+  for (let i = period; i < candles.length; i++) {
+    let sum = 0;
+    for (let j = i - period; j < i; j++) {
+      sum += candles[j].volume;
+    }
+    const mean = sum / period;
+
+    let squares = 0;
+    for (let j = i - period; j < i; j++) {
+      squares += (candles[j].volume - mean) ** 2;
+    }
+    const deviation = Math.sqrt(squares / period);
+    const volume = candles[i].volume;
+
+    results.push({
+      // Flat baseline has no spread to measure against
+      value: deviation > 0 ? (volume - mean) / deviation : 0,
+      volume,
+      mean,
+      direction: Math.sign(candles[i].close - candles[i].open),
+      timestamp: candles[i].timestamp,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Get volume spike signal for a candle
+ *
+ * @param current - Volume z-score of the candle
+ * @param threshold - z-score that counts as a spike (default 2)
+ * @returns Signal type and trend
+ */
+export function getVolumeSpikeSignal(
+  current: VolumeZScoreResult,
+  threshold: number = 2
+): { signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  let signal: 'LONG' | 'SHORT' | 'NONE' = 'NONE';
+
+  if (current.value >= threshold) {
+    if (current.direction > 0) {
+      signal = 'LONG';
+    } else if (current.direction < 0) {
+      signal = 'SHORT';
+    }
+  }
+
+  return { signal, trend: signal };
+}
+
+/**
+ * Calculate volume z-score for the most recent candle and return signal
+ * Convenience function for bot usage
+ */
+export function calculateVolumeZScoreWithSignal(
+  candles: Candle[],
+  period: number = 20,
+  threshold: number = 2
+): { result: VolumeZScoreResult | null; signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  const series = calculateVolumeZScoreSeries(candles, period);
+
+  if (series.length === 0) {
+    return { result: null, signal: 'NONE', trend: 'NONE' };
+  }
+
+  const current = series[series.length - 1];
+  const { signal, trend } = getVolumeSpikeSignal(current, threshold);
+
+  return { result: current, signal, trend };
+}
@@ -0,0 +1,136 @@
+/**
+ * VWAP (Volume Weighted Average Price)
+ *
+ * VWAP = Σ(typical price × volume) / Σ(volume)
+ *
+ * Two flavours:
+ * - Rolling: over the last period candles (period > 0)
+ * - Anchored: cumulative since the anchor (period = 0). DAY and WEEK reset at
+ *   00:00 UTC (weeks start Monday); NONE accumulates from the first candle.
+ *
+ * Signal Logic:
+ * - LONG: close crosses above VWAP
+ * - SHORT: close crosses below VWAP
+ * - Trend: close above/below VWAP
+ */
+
+import type { Candle, VWAPAnchor, VWAPResult } from '../types';
+import { typicalPrice } from './mfi';
+import { getMovingAverageSignal } from './movingAverages';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 1970-01-01 was a Thursday; shift so weeks start on Monday
+const WEEK_OFFSET_MS = 3 * DAY_MS;
+
+/**
+ * Anchor period a timestamp belongs to (candles with the same key share a VWAP)
+ */
+function anchorKey(timestamp: number, anchor: VWAPAnchor): number {
+  switch (anchor) {
+    case 'DAY':
+      return Math.floor(timestamp / DAY_MS);
+    case 'WEEK':
+      return Math.floor((timestamp + WEEK_OFFSET_MS) / (7 * DAY_MS));
+    case 'NONE':
+      return 0;
+    default:
+      throw new Error(`Unknown VWAP anchor: ${anchor}`);
+  }
+}
+
+/**
+ * Calculate VWAP for a series of candles
+ *
+ * @param candles - Array of candles in chronological order
+ * @param period - Rolling window in candles, or 0 for anchored VWAP (default 0)
+ * @param anchor - Reset point for anchored VWAP (default 'DAY')
+ * @returns Array of VWAPResult (rolling: starting with the period-th candle)
+ */
+export function calculateVWAPSeries(
+  candles: Candle[],
+  period: number = 0,
+  anchor: VWAPAnchor = 'DAY'
+): VWAPResult[] {
+  const results: VWAPResult[] = [];
+  const weighted = candles.map((c) => typicalPrice(c) * c.volume);
+
+  let priceVolume = 0;
+  let volume = 0;
+  let currentKey: number | null = null;
+
+  for (let i = 0; i < candles.length; i++) {
+    if (period > 0) {
+      priceVolume += weighted[i];
+      volume += candles[i].volume;
+      if (i >= period) {
+        priceVolume -= weighted[i - period];
+        volume -= candles[i - period].volume;
+      }
+      if (i < period - 1) {
+        continue;
+      }
+    } else {
+      const key = anchorKey(candles[i].timestamp, anchor);
+      if (key !== currentKey) {
+        currentKey = key;
+        priceVolume = 0;
+        volume = 0;
+      }
+      priceVolume += weighted[i];
+      volume += candles[i].volume;
+    }
+
+    results.push({
+      // No volume yet: fall back to the typical price
+      value: volume > 0 ? priceVolume / volume : typicalPrice(candles[i]),
+      timestamp: candles[i].timestamp,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Get VWAP signal from close crossing VWAP
+ *
+ * @param previousClose - Close of the previous candle
+ * @param previous - Previous VWAP result
+ * @param currentClose - Close of the current candle
+ * @param current - Current VWAP result
+ * @returns Signal type and trend
+ */
+export function getVWAPSignal(
+  previousClose: number,
+  previous: VWAPResult,
+  currentClose: number,
+  current: VWAPResult
+): { signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  return getMovingAverageSignal(previousClose, previous.value, currentClose, current.value);
+}
+
+/**
+ * Calculate VWAP for the most recent candle and return signal
+ * Convenience function for bot usage
+ */
+export function calculateVWAPWithSignal(
+  candles: Candle[],
+  period: number = 0,
+  anchor: VWAPAnchor = 'DAY'
+): { result: VWAPResult | null; signal: 'LONG' | 'SHORT' | 'NONE'; trend: 'LONG' | 'SHORT' | 'NONE' } {
+  const series = calculateVWAPSeries(candles, period, anchor);
+
+  if (series.length < 2) {
+    return { result: null, signal: 'NONE', trend: 'NONE' };
+  }
+
+  const previous = series[series.length - 2];
+  const current = series[series.length - 1];
+  const { signal, trend } = getVWAPSignal(
+    candles[candles.length - 2].close,
+    previous,
+    candles[candles.length - 1].close,
+    current
+  );
+
+  return { result: current, signal, trend };
+}
@@ -16,6 +16,7 @@ import type {
   VolatilityLevel,
 } from './types.js';
 import type { EventStore } from './EventStore.js';
+import type { TimeExitRule, TrailingStopType } from '../types/index.js';
 
 export interface JournalEmitterConfig {
   botId: string;
@@ -37,6 +38,8 @@ const EVENT_CATEGORIES: Record<JournalEventType, JournalEventCategory> = {
   TP_HIT: 'POSITION',
   TRAILING_STOP_UPDATED: 'POSITION',
   TRAILING_STOP_HIT: 'POSITION',
+  STOP_LOSS_HIT: 'POSITION',
+  TIME_EXIT: 'POSITION',
   RUNNER_TRIMMED: 'POSITION',
   BREAKEVEN_LOCK_ACTIVATED: 'POSITION',
   TRADE_EXECUTED: 'EXECUTION',
@@ -45,6 +48,7 @@ const EVENT_CATEGORIES: Record<JournalEventType, JournalEventCategory> = {
   ERROR: 'SYSTEM',
   STATE_LOADED: 'SYSTEM',
   STATE_SAVED: 'SYSTEM',
+  RECONCILIATION: 'SYSTEM',
 };
 
 export class JournalEmitter {
@@ -129,6 +133,9 @@ export class JournalEmitter {
 
   /**
    * Helper to create market context from candle and indicator data
+   *
+   * Pass `regime` (from RegimeClassifier) for consistent trend/volatility;
+   * without it they are estimated from indicator levels and fixed ATR bands.
    */
   static createMarketContext(options: {
     price: number;
@@ -138,9 +145,15 @@ export class JournalEmitter {
     candleTime: number;
     buyLevel?: number;
     sellLevel?: number;
+    regime?: { trend: TrendDirection; volatility: VolatilityLevel };
   }): MarketContext {
-    const { price, indicator, indicatorName, atr, candleTime, buyLevel, sellLevel } =
+    const { price, indicator, indicatorName, atr, candleTime, buyLevel, sellLevel, regime } =
       options;
+    const atrPercent = (atr / price) * 100;
+
+    if (regime) {
+      return { price, indicator, indicatorName, atr, atrPercent, trend: regime.trend, volatility: regime.volatility, candleTime };
+    }
 
     // Determine trend based on indicator levels
     let trend: TrendDirection = 'NEUTRAL';
@@ -153,7 +166,6 @@ export class JournalEmitter {
     }
 
     // Determine volatility based on ATR percentage
-    const atrPercent = (atr / price) * 100;
     let volatility: VolatilityLevel = 'NORMAL';
     if (atrPercent < 1.5) {
       volatility = 'LOW';
@@ -250,6 +262,9 @@ export class JournalEmitter {
         maxPositions?: number;
         cooldownRemainingMs?: number;
         lastTradeTime?: number;
+        higherTimeframes?: Array<{ interval: string; indicator: string; trend: string; value?: number }>;
+        regime?: { trend: string; volatility: string; adx?: number; atrPercentile?: number };
+        blackout?: { start: string; end: string; exitBeforeMinutes?: number };
       };
     },
     signalId?: string
@@ -296,6 +311,8 @@ export class JournalEmitter {
       totalUsdc: number;
       totalQuantity: number;
       tpTarget: number;
+      tpTargets?: number[];
+      stopLoss?: number;
       breakevenLock: number;
       atrUsed: number;
     },
@@ -319,6 +336,7 @@ export class JournalEmitter {
     market: MarketContext,
     payload: {
       legId: string;
+      level?: number;
       entryPrice: number;
       exitPrice: number;
       quantity: number;
@@ -348,7 +366,8 @@ export class JournalEmitter {
       newStop: number;
       previousHighest: number;
       newHighest: number;
-      reason: 'ACTIVATED' | 'NEW_HIGH';
+      reason: 'ACTIVATED' | 'NEW_HIGH' | 'TIGHTENED';
+      method?: TrailingStopType;
     },
     positionId?: string
   ): JournalEvent {
@@ -386,6 +405,60 @@ export class JournalEmitter {
     });
   }
 
+  /**
+   * Emit STOP_LOSS_HIT event
+   */
+  stopLossHit(
+    asset: string,
+    market: MarketContext,
+    payload: {
+      legId: string;
+      level?: number;
+      entryPrice: number;
+      exitPrice: number;
+      stopLoss: number;
+      quantity: number;
+      pnlUsdc: number;
+      pnlPercent: number;
+      holdingPeriodMs: number;
+    },
+    positionId?: string
+  ): JournalEvent {
+    return this.emit('STOP_LOSS_HIT', {
+      asset,
+      market,
+      payload,
+      positionId,
+    });
+  }
+
+  /**
+   * Emit TIME_EXIT event
+   */
+  timeExit(
+    asset: string,
+    market: MarketContext,
+    payload: {
+      legId: string;
+      level?: number;
+      rule: TimeExitRule;
+      entryPrice: number;
+      exitPrice: number;
+      quantity: number;
+      pnlUsdc: number;
+      pnlPercent: number;
+      holdingPeriodMs: number;
+    },
+    positionId?: string
+  ): JournalEvent {
+    return this.emit('TIME_EXIT', {
+      asset,
+      market,
+      payload,
+      positionId,
+    });
+  }
+
   /**
    * Emit RUNNER_TRIMMED event
    */
@@ -453,4 +526,29 @@ export class JournalEmitter {
       payload,
     });
   }
+
+  /**
+   * Emit RECONCILIATION event
+   */
+  reconciliation(
+    asset: string,
+    market: MarketContext,
+    payload: {
+      mint: string;
+      walletBalance: number;
+      legQuantity: number;
+      drift: number;
+      kind: 'MATCHED' | 'ORPHAN' | 'PHANTOM';
+      action: 'NONE' | 'ADOPT' | 'CLOSE' | 'HALT' | 'IGNORE';
+      legIds?: string[];
+    },
+    positionId?: string
+  ): JournalEvent {
+    return this.emit('RECONCILIATION', {
+      asset,
+      market,
+      payload,
+      positionId,
+    });
+  }
 }
@@ -6,6 +6,8 @@
  * with full market context.
  */
 
+import type { TimeExitRule, TrailingStopType } from '../types';
+
 // ============================================================================
 // Event Categories & Types
 // ============================================================================
@@ -31,6 +33,8 @@ export type JournalEventType =
   | 'TP_HIT'
   | 'TRAILING_STOP_UPDATED'
   | 'TRAILING_STOP_HIT'
+  | 'STOP_LOSS_HIT'
+  | 'TIME_EXIT'
   | 'RUNNER_TRIMMED'
   | 'BREAKEVEN_LOCK_ACTIVATED'
   // Execution events
@@ -40,7 +44,8 @@ export type JournalEventType =
   // System events
   | 'ERROR'
   | 'STATE_LOADED'
-  | 'STATE_SAVED';
+  | 'STATE_SAVED'
+  | 'RECONCILIATION';
 
 // ============================================================================
 // Market Context
@@ -107,6 +112,9 @@ export interface SignalRejectedPayload {
     maxPositions?: number;
     cooldownRemainingMs?: number;
     lastTradeTime?: number;
+    higherTimeframes?: Array<{ interval: string; indicator: string; trend: string; value?: number }>;
+    regime?: { trend: string; volatility: string; adx?: number; atrPercentile?: number };
+    blackout?: { start: string; end: string; exitBeforeMinutes?: number };
   };
 }
 
@@ -124,13 +132,16 @@ export interface PositionOpenedPayload {
   slippageUsdc: number;
   totalUsdc: number;
   totalQuantity: number;
-  tpTarget: number;
+  tpTarget: number;              // Nearest TP target
+  tpTargets?: number[];          // Every TP target, nearest first (ladders)
+  stopLoss?: number;             // Initial stop-loss on every leg
   breakevenLock: number;
   atrUsed: number;
 }
 
 export interface TpHitPayload {
   legId: string;
+  level?: number;                // TP rung in ladders with several TP legs
   entryPrice: number;
   exitPrice: number;
   quantity: number;
@@ -145,7 +156,9 @@ export interface TrailingStopUpdatedPayload {
   newStop: number;
   previousHighest: number;
   newHighest: number;
-  reason: 'ACTIVATED' | 'NEW_HIGH';
+  /** TIGHTENED: the stop moved without a new high (e.g. Parabolic SAR, R-multiple steps) */
+  reason: 'ACTIVATED' | 'NEW_HIGH' | 'TIGHTENED';
+  method?: TrailingStopType; // TRAILING stops only
 }
 
 export interface TrailingStopHitPayload {
@@ -159,6 +172,30 @@ export interface TrailingStopHitPayload {
   holdingPeriodMs: number;
 }
 
+export interface StopLossHitPayload {
+  legId: string;
+  level?: number;                // TP rung in ladders with several TP legs
+  entryPrice: number;
+  exitPrice: number;
+  stopLoss: number;
+  quantity: number;
+  pnlUsdc: number;
+  pnlPercent: number;
+  holdingPeriodMs: number;
+}
+
+export interface TimeExitPayload {
+  legId: string;
+  level?: number;                // TP rung in ladders with several TP legs
+  rule: TimeExitRule;
+  entryPrice: number;
+  exitPrice: number;
+  quantity: number;
+  pnlUsdc: number;
+  pnlPercent: number;
+  holdingPeriodMs: number;
+}
+
 export interface RunnerTrimmedPayload {
   legId: string;
   entryPrice: number;
@@ -184,6 +221,17 @@ export interface ErrorPayload {
   context?: string;
 }
 
+export interface ReconciliationPayload {
+  mint: string;
+  walletBalance: number;
+  legQuantity: number;
+  drift: number;
+  kind: 'MATCHED' | 'ORPHAN' | 'PHANTOM';
+  action: 'NONE' | 'ADOPT' | 'CLOSE' | 'HALT' | 'IGNORE';
+  /** Legs adopted or closed by the decision */
+  legIds?: string[];
+}
+
 export type JournalEventPayload =
   | CycleStartPayload
   | CycleEndPayload
@@ -194,9 +242,12 @@ export type JournalEventPayload =
   | TpHitPayload
   | TrailingStopUpdatedPayload
   | TrailingStopHitPayload
+  | StopLossHitPayload
+  | TimeExitPayload
   | RunnerTrimmedPayload
   | TradeFailedPayload
   | ErrorPayload
+  | ReconciliationPayload
   | Record<string, unknown>; // Allow flexible payloads
 
 // ============================================================================
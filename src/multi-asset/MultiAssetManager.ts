@@ -1,5 +1,5 @@
-import type { PositionLeg, AssetPositions, MultiAssetBotState, AssetConfig, AssetSignal, Logger } from '../types';
-import { getOpenLegs } from '../strategy/position';
+import type { PositionLeg, AssetPositions, MultiAssetBotState, AssetConfig, AssetSignal, LadderLegConfig, Logger } from '../types';
+import { getOpenLegs, getLegLabel, getPositionCostUsdc } from '../strategy/position';
 
 /**
  * Multi-Asset Manager
@@ -171,7 +171,7 @@ export function getMultiAssetSummary(state: MultiAssetBotState): string {
     if (openLegs.length > 0) {
       for (const leg of openLegs) {
         const age = leg.entryTime ? `${((Date.now() - leg.entryTime) / (60 * 60 * 1000)).toFixed(1)}h` : 'N/A';
-        lines.push(`    ${leg.type}: Entry ${leg.entryPrice.toFixed(2)}, Age ${age}`);
+        lines.push(`    ${getLegLabel(leg)}: Entry ${leg.entryPrice.toFixed(2)}, Age ${age}`);
       }
     }
 
@@ -238,7 +238,9 @@ export function getAsset(assets: AssetConfig[], symbol: string): AssetConfig | u
 
 /**
  * Get total capital required per signal (sum of all enabled assets)
+ *
+ * @param ladder - Position ladder (default: two legs)
  */
-export function getTotalCapitalPerSignal(assets: AssetConfig[]): number {
-  return getEnabledAssets(assets).reduce((sum, asset) => sum + (asset.tradeLegUsdc * 2), 0);
+export function getTotalCapitalPerSignal(assets: AssetConfig[], ladder?: LadderLegConfig[]): number {
+  return getEnabledAssets(assets).reduce((sum, asset) => sum + getPositionCostUsdc(asset.tradeLegUsdc, ladder), 0);
 }
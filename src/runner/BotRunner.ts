@@ -0,0 +1,1254 @@
+import path from 'path';
+import type {
+  AssetConfig,
+  AssetPositions,
+  BotConfig,
+  Candle,
+  Logger,
+  MultiAssetBotState,
+  PlatformConfig,
+  PositionLeg,
+  Signal,
+  TimeExitRule,
+} from '../types';
+import type { Broker } from '../core/Broker';
+import { StateManager, type StateSnapshot } from '../core/StateManager';
+import { BOT_STATE_VERSION, botStateMigrations } from './stateMigrations';
+import { PaperBroker } from '../execution/PaperBroker';
+import { LiveBroker } from '../execution/LiveBroker';
+import { CircuitBreaker, type CircuitBreakerState } from '../execution/CircuitBreaker';
+import {
+  reconcileHoldings,
+  type MintHoldings,
+  type ReconciliationPolicy,
+  type ReconciliationResult,
+} from '../execution/reconciliation';
+import { BinanceFetcher, validateCandleArray, type BinanceInterval } from '../data/BinanceFetcher';
+import { JournalEmitter, type JournalEmitterConfig } from '../journal/JournalEmitter';
+import type { EventStore } from '../journal/EventStore';
+import type { MarketContext } from '../journal/types';
+import type { Strategy } from '../strategy/Strategy';
+import { createBotStrategy } from '../strategy/composite';
+import { MultiTimeframeConfirmation, type CandlesByInterval } from '../strategy/multiTimeframe';
+import { RegimeClassifier, type MarketRegime } from '../strategy/regime';
+import { intervalToMs } from '../data/intervals';
+import {
+  applyInitialStop,
+  findBlackout,
+  getLegLabel,
+  getLegStopMode,
+  getOpenLegs,
+  getPositionCostUsdc,
+  TIME_EXIT_REASONS,
+} from '../strategy/position';
+import {
+  initializeMultiAssetState,
+  getAssetPositions,
+  canAssetTrade,
+  recordAssetTrade,
+  getEnabledAssets,
+  getTotalOpenPositions,
+  getTotalCapitalPerSignal,
+  type MultiAssetManagerConfig,
+} from '../multi-asset/MultiAssetManager';
+import { createTradingCSVLogger, type TradingCSVLogger } from '../utils/tradingCSVLogger';
+
+/**
+ * Bot Runner
+ *
+ * Executes a full trading cycle from a BotConfig:
+ * BinanceFetcher → Strategy → Broker (update/trim/open) → StateManager → JournalEmitter.
+ *
+ * One cycle processes each completed candle exactly once. Running the
+ * cycle again before a new candle completes is a no-op, so the runner is safe
+ * to invoke from cron or a scheduler.
+ *
+ * Candles missed during downtime are caught up in order on the next cycle.
+ * Catch-up candles manage exits (TP, trailing stops, trims) but never open
+ * new positions - only the latest candle's signal is fresh enough to enter on.
+ *
+ * In LIVE mode the first cycle reconciles wallet balances with the persisted
+ * open legs before trading, and refuses to run while the drift policy says HALT.
+ */
+
+const DEFAULT_CANDLE_LIMIT = 400;
+const DEFAULT_MAX_CATCH_UP_CANDLES = 24;
+const DEFAULT_STATE_SNAPSHOTS = 20;
+const DEFAULT_PAPER_USDC = 10000;
+const DEFAULT_SLIPPAGE_BPS = 50;
+const DEFAULT_MAX_PRICE_IMPACT_BPS = 100;
+const DEFAULT_MAX_PRICE_DEVIATION_PCT = 5;
+
+/**
+ * Persisted runner state
+ */
+export interface BotRunnerState extends MultiAssetBotState {
+  circuitBreaker?: CircuitBreakerState;
+}
+
+/**
+ * Optional collaborators and overrides for the runner
+ */
+export interface BotRunnerOptions {
+  logger?: Logger;
+  /** Persist journal events. If omitted, events are only emitted in memory. */
+  eventStore?: EventStore | null;
+  /** Real-time journal event callback (e.g., WebSocket broadcast) */
+  onEvent?: JournalEmitterConfig['onEvent'];
+  /** Candles fetched per cycle (default: 400) */
+  candleLimit?: number;
+  /** Max missed candles replayed after downtime, oldest dropped first (default: 24) */
+  maxCatchUpCandles?: number;
+  /** State snapshots kept for restoreState(), one per saved cycle (default: 20) */
+  stateSnapshots?: number;
+  /** Paper account settings (per asset) */
+  paper?: {
+    initialUsdcBalance?: number;
+    slippageBps?: number;
+  };
+  /** Live wallet safety settings */
+  live?: {
+    minBtcBalance?: number;
+    minUsdcReserve?: number;
+  };
+  /** Override candle fetcher creation (defaults to BinanceFetcher) */
+  createFetcher?: (asset: AssetConfig, interval: BinanceInterval) => BinanceFetcher;
+  /** Override broker creation (defaults to PaperBroker/LiveBroker) */
+  createBroker?: (asset: AssetConfig) => Broker;
+  /** Override strategy creation (defaults to createBotStrategy(config)) */
+  createStrategy?: (asset: AssetConfig) => Strategy;
+  /**
+   * Startup reconciliation of wallet balances against open legs
+   * (default: HALT on any drift; set false to skip)
+   */
+  reconciliation?: ReconciliationOptions | false;
+  /** Override wallet balance fetching for reconciliation (defaults to LiveBroker balances, LIVE only) */
+  fetchBalances?: (asset: AssetConfig) => Promise<Array<{ mint: string; balance: number }>>;
+}
+
+export interface ReconciliationOptions extends Partial<ReconciliationPolicy> {
+  /** Balance per mint that isn't the bot's, e.g. BTC kept in the wallet by hand */
+  reservedBalances?: Record<string, number>;
+}
+
+/**
+ * Result of a single cycle
+ */
+export interface CycleResult {
+  processed: boolean;
+  /** Latest candle processed (or already processed when processed = false) */
+  candleTime: number;
+  /** Candles processed this cycle (> 1 when catching up) */
+  candlesProcessed: number;
+  signalsGenerated: number;
+  positionsOpened: number;
+  positionsClosed: number;
+  runnersTrimmed: number;
+}
+
+interface CycleCounters {
+  signalsGenerated: number;
+  positionsOpened: number;
+  positionsClosed: number;
+  runnersTrimmed: number;
+}
+
+export class BotRunner {
+  private config: BotConfig;
+  private platform: PlatformConfig;
+  private options: BotRunnerOptions;
+  private logger?: Logger;
+  private assets: AssetConfig[];
+  private mode: 'PAPER' | 'LIVE';
+  private stateManager: StateManager<BotRunnerState>;
+  private state: BotRunnerState;
+  private circuitBreaker: CircuitBreaker;
+  private journal: JournalEmitter;
+  private csvLogger?: TradingCSVLogger;
+  private fetchers = new Map<string, BinanceFetcher>();
+  private brokers = new Map<string, Broker>();
+  private strategies = new Map<string, Strategy>();
+  private confirmation: MultiTimeframeConfirmation | null = null;
+  private confirmationFetchers = new Map<string, BinanceFetcher>();
+  private confirmationCandles = new Map<string, CandlesByInterval>();
+  private intrabarFetchers = new Map<string, BinanceFetcher>();
+  private intrabarCandles = new Map<string, Candle[]>();
+  private regime: RegimeClassifier;
+  private initialized = false;
+  private reconciled = false;
+  private lastReconciliation: ReconciliationResult | null = null;
+
+  constructor(config: BotConfig, platform: PlatformConfig, options: BotRunnerOptions = {}) {
+    this.config = config;
+    this.platform = platform;
+    this.options = options;
+    this.logger = options.logger;
+
+    this.assets = getEnabledAssets(config.assets ?? [this.getDefaultAsset()]);
+    if (this.assets.length === 0) {
+      throw new Error(`Bot ${config.botId} has no enabled assets`);
+    }
+
+    this.mode = !config.paperMode && config.liveTradingEnabled ? 'LIVE' : 'PAPER';
+    if (!config.paperMode && !config.liveTradingEnabled) {
+      this.logger?.warn('paperMode is off but liveTradingEnabled is false - running in PAPER mode');
+    }
+
+    const stateFile = config.stateFile ?? path.join(process.cwd(), `state-${config.botId}.json`);
+    this.state = initializeMultiAssetState(this.assets);
+    this.stateManager = new StateManager<BotRunnerState>(stateFile, this.state, this.logger, {
+      version: BOT_STATE_VERSION,
+      migrations: botStateMigrations,
+      maxSnapshots: options.stateSnapshots ?? DEFAULT_STATE_SNAPSHOTS,
+    });
+
+    this.circuitBreaker = new CircuitBreaker(
+      {
+        maxDailyLossPct: config.risk.maxDailyLossPct,
+        maxConsecutiveLosses: config.risk.maxConsecutiveLosses,
+        maxDailyTrades: config.risk.maxDailyTrades,
+        minTimeBetweenTradesMs: config.risk.minTimeBetweenTradesMs ?? 0,
+        maxPriceDeviationPct: DEFAULT_MAX_PRICE_DEVIATION_PCT,
+      },
+      this.logger
+    );
+
+    this.journal = new JournalEmitter({
+      botId: config.botId,
+      mode: this.mode,
+      eventStore: options.eventStore ?? null,
+      onEvent: options.onEvent,
+    });
+
+    if (config.csvDir) {
+      this.csvLogger = createTradingCSVLogger({ csvDir: config.csvDir, logger: this.logger });
+    }
+
+    for (const asset of this.assets) {
+      this.fetchers.set(asset.symbol, this.createFetcher(asset, config.timeframe));
+      this.brokers.set(asset.symbol, this.createBroker(asset));
+      this.strategies.set(asset.symbol, this.createStrategy(asset));
+    }
+
+    if (config.confirmations && config.confirmations.length > 0) {
+      this.confirmation = new MultiTimeframeConfirmation(config.confirmations);
+      for (const asset of this.assets) {
+        for (const interval of this.confirmation.getIntervals()) {
+          this.confirmationFetchers.set(`${asset.symbol}:${interval}`, this.createFetcher(asset, interval));
+        }
+      }
+    }
+
+    const intrabar = config.position.intrabar;
+    if (intrabar && this.mode === 'LIVE') {
+      this.logger?.warn('position.intrabar only applies to simulated fills - live exits use the candle close');
+    } else if (intrabar?.policy === 'LOWER_TIMEFRAME' && intrabar.timeframe) {
+      for (const asset of this.assets) {
+        this.intrabarFetchers.set(asset.symbol, this.createFetcher(asset, intrabar.timeframe));
+      }
+    }
+
+    this.regime = new RegimeClassifier(config.regime);
+
+    const warmup = Math.max(
+      ...[...this.strategies.values()].map((s) => s.warmupCandles),
+      config.regime?.blockLongs?.length ? this.regime.warmupCandles : 0
+    );
+    const completedCandles = (options.candleLimit ?? DEFAULT_CANDLE_LIMIT) - 1;
+    if (completedCandles < warmup) {
+      this.logger?.warn(`candleLimit gives ${completedCandles} completed candles, strategy needs ${warmup}`);
+    }
+
+    this.logger?.info('Bot runner created', {
+      botId: config.botId,
+      mode: this.mode,
+      timeframe: config.timeframe,
+      indicator: config.combinator ? `composite (${config.combinator.mode})` : config.indicator.type,
+      assets: this.assets.map((a) => a.symbol),
+    });
+  }
+
+  /**
+   * Load persisted state and restore the circuit breaker
+   * Called automatically by the first runCycle()
+   */
+  async init(): Promise<void> {
+    this.applyState(await this.stateManager.load());
+
+    this.initialized = true;
+    this.logger?.info('Bot runner state loaded', {
+      lastProcessedCandleTime: this.state.lastProcessedCandleTime,
+      openPositions: getTotalOpenPositions(this.state),
+    });
+  }
+
+  /**
+   * List state snapshots (newest first), one per saved cycle
+   */
+  listStateSnapshots(): StateSnapshot[] {
+    return this.stateManager.listSnapshots();
+  }
+
+  /**
+   * Roll state back to a snapshot, e.g. the one before a bad cycle
+   * Candles after the snapshot are replayed as catch-up on the next cycle.
+   *
+   * @param snapshotId - ID from listStateSnapshots()
+   */
+  async restoreState(snapshotId: string): Promise<void> {
+    this.applyState(await this.stateManager.restore(snapshotId));
+
+    this.initialized = true;
+    this.logger?.warn('Bot runner state restored from snapshot', {
+      snapshotId,
+      lastProcessedCandleTime: this.state.lastProcessedCandleTime,
+      openPositions: getTotalOpenPositions(this.state),
+    });
+  }
+
+  private applyState(loaded: BotRunnerState): void {
+    // Add entries for assets enabled since the state was written
+    const assetPositions = [...(loaded.assetPositions ?? [])];
+    for (const asset of this.assets) {
+      if (!assetPositions.some((ap) => ap.asset === asset.symbol)) {
+        assetPositions.push({ asset: asset.symbol, openLegs: [], lastSignalTime: 0, lastTradeTime: 0 });
+      }
+    }
+    this.state = { ...loaded, assetPositions };
+
+    if (this.state.circuitBreaker) {
+      this.circuitBreaker.setState(this.state.circuitBreaker);
+    }
+  }
+
+  /**
+   * Run one cycle for every completed candle not yet processed
+   *
+   * On first run only the latest candle is processed. After downtime, missed
+   * candles are replayed oldest first (up to maxCatchUpCandles).
+   *
+   * @returns Cycle result (processed = false when the candle was already handled)
+   */
+  async runCycle(): Promise<CycleResult> {
+    if (!this.initialized) {
+      await this.init();
+    }
+
+    const candlesByAsset = await this.fetchCompletedCandles();
+    await this.fetchConfirmationCandles();
+    await this.fetchIntrabarCandles();
+    const primary = candlesByAsset.get(this.assets[0].symbol);
+    if (!primary || primary.length === 0) {
+      throw new Error(`No completed candles for ${this.assets[0].symbol}`);
+    }
+
+    if (!this.reconciled) {
+      await this.reconcile(candlesByAsset);
+      this.reconciled = true;
+    }
+
+    const lastProcessed = this.state.lastProcessedCandleTime;
+    const latestTime = primary[primary.length - 1].timestamp;
+    const pending = primary.filter((c) => c.timestamp > lastProcessed).map((c) => c.timestamp);
+
+    if (pending.length === 0) {
+      this.logger?.info(`Candle ${new Date(latestTime).toISOString()} already processed, skipping`);
+      return this.emptyResult(latestTime);
+    }
+
+    const maxCatchUp = this.options.maxCatchUpCandles ?? DEFAULT_MAX_CATCH_UP_CANDLES;
+    const toProcess = lastProcessed === 0 ? pending.slice(-1) : pending.slice(-Math.max(1, maxCatchUp));
+
+    if (lastProcessed > 0 && pending.length > toProcess.length) {
+      this.logger?.warn(
+        `${pending.length - toProcess.length} missed candles exceed catch-up limit (${maxCatchUp}), skipping them`
+      );
+    }
+    if (toProcess.length > 1) {
+      this.logger?.info(`Catching up on ${toProcess.length - 1} missed candles`);
+    }
+
+    const result = this.emptyResult(latestTime);
+    for (let i = 0; i < toProcess.length; i++) {
+      const isCatchUp = i < toProcess.length - 1;
+      const cycle = await this.processCandle(toProcess[i], candlesByAsset, isCatchUp);
+
+      result.processed = true;
+      result.candlesProcessed++;
+      result.signalsGenerated += cycle.signalsGenerated;
+      result.positionsOpened += cycle.positionsOpened;
+      result.positionsClosed += cycle.positionsClosed;
+      result.runnersTrimmed += cycle.runnersTrimmed;
+    }
+
+    return result;
+  }
+
+  /**
+   * Check whether a completed candle newer than the last processed one is available
+   */
+  async hasNewCandle(): Promise<boolean> {
+    if (!this.initialized) {
+      await this.init();
+    }
+
+    const fetcher = this.fetchers.get(this.assets[0].symbol)!;
+    return fetcher.hasNewCandle(this.state.lastProcessedCandleTime);
+  }
+
+  /**
+   * Get current runner state
+   */
+  getState(): BotRunnerState {
+    return { ...this.state };
+  }
+
+  /**
+   * Get the trading mode the runner resolved from its config
+   */
+  getMode(): 'PAPER' | 'LIVE' {
+    return this.mode;
+  }
+
+  /**
+   * Get the broker for an asset
+   */
+  getBroker(symbol: string): Broker | undefined {
+    return this.brokers.get(symbol);
+  }
+
+  /**
+   * Get the journal emitter (for linking external events)
+   */
+  getJournal(): JournalEmitter {
+    return this.journal;
+  }
+
+  /**
+   * Get the circuit breaker
+   */
+  getCircuitBreaker(): CircuitBreaker {
+    return this.circuitBreaker;
+  }
+
+  /**
+   * Get the startup reconciliation result (null until it has run or when disabled)
+   */
+  getLastReconciliation(): ReconciliationResult | null {
+    return this.lastReconciliation;
+  }
+
+  // =========================================================================
+  // Reconciliation
+  // =========================================================================
+
+  /**
+   * Compare wallet balances with open legs per mint, apply the drift policy
+   * and journal every decision
+   *
+   * @throws Error when the policy halts on the drift found
+   */
+  private async reconcile(candlesByAsset: Map<string, Candle[]>): Promise<void> {
+    const options = this.options.reconciliation;
+    if (options === false || (this.mode !== 'LIVE' && !this.options.fetchBalances)) {
+      return;
+    }
+
+    const holdingsByMint = new Map<string, MintHoldings>();
+    for (const asset of this.assets) {
+      const candles = candlesByAsset.get(asset.symbol) ?? [];
+      if (candles.length === 0) {
+        throw new Error(`${asset.symbol}: no candles to price reconciliation`);
+      }
+
+      const balances = await this.fetchBalances(asset);
+      const legs = getOpenLegs(getAssetPositions(this.state, asset.symbol)?.openLegs ?? []);
+      const defaultMint = balances[0]?.mint;
+
+      for (const { mint, balance } of balances) {
+        const mintLegs = legs.filter((leg) => (leg.btcMint ?? defaultMint) === mint);
+        const existing = holdingsByMint.get(mint);
+        if (existing) {
+          // BTC assets share the platform's cbBTC/WBTC mints
+          existing.legs.push(...mintLegs);
+          continue;
+        }
+        holdingsByMint.set(mint, {
+          asset: asset.symbol,
+          mint,
+          walletBalance: balance,
+          reservedBalance: options?.reservedBalances?.[mint],
+          legs: mintLegs,
+          price: candles[candles.length - 1].close,
+        });
+      }
+    }
+
+    const result = reconcileHoldings([...holdingsByMint.values()], {
+      onOrphan: options?.onOrphan ?? 'HALT',
+      onPhantom: options?.onPhantom ?? 'HALT',
+      tolerance: options?.tolerance,
+    });
+    this.lastReconciliation = result;
+
+    let changed = false;
+    for (const item of result.items) {
+      const candles = candlesByAsset.get(item.asset)!;
+      const market = this.createMarket(candles[candles.length - 1], 0, 0);
+      const assetPos = getAssetPositions(this.state, item.asset)!;
+      const legIds: string[] = [];
+
+      if (item.adoptedLeg) {
+        assetPos.openLegs = [...assetPos.openLegs, item.adoptedLeg];
+        legIds.push(item.adoptedLeg.id);
+        changed = true;
+      }
+      if (item.closedLegs) {
+        const closedIds = new Set(item.closedLegs.map((leg) => leg.id));
+        for (const ap of this.state.assetPositions) {
+          ap.openLegs = ap.openLegs.filter((leg) => !closedIds.has(leg.id));
+        }
+        legIds.push(...closedIds);
+        changed = true;
+      }
+
+      const message = `${item.asset} ${item.mint}: ${item.kind} (wallet ${item.walletBalance.toFixed(8)}, legs ${item.legQuantity.toFixed(8)}) → ${item.action}`;
+      if (item.kind === 'MATCHED') {
+        this.logger?.info(`Reconciliation ${message}`);
+      } else {
+        this.logger?.warn(`Reconciliation ${message}`);
+      }
+
+      this.journal.reconciliation(
+        item.asset,
+        market,
+        {
+          mint: item.mint,
+          walletBalance: item.walletBalance,
+          legQuantity: item.legQuantity,
+          drift: item.drift,
+          kind: item.kind,
+          action: item.action,
+          legIds: legIds.length > 0 ? legIds : undefined,
+        },
+        item.adoptedLeg?.positionId
+      );
+    }
+
+    if (changed) {
+      await this.stateManager.setState(this.state);
+    }
+
+    if (result.halted) {
+      throw new Error(`Reconciliation halted trading: ${result.reason}`);
+    }
+  }
+
+  private async fetchBalances(asset: AssetConfig): Promise<Array<{ mint: string; balance: number }>> {
+    if (this.options.fetchBalances) {
+      return this.options.fetchBalances(asset);
+    }
+
+    const broker = this.brokers.get(asset.symbol);
+    if (!(broker instanceof LiveBroker)) {
+      throw new Error(`${asset.symbol}: reconciliation needs a LiveBroker or a fetchBalances override`);
+    }
+    return broker.getAssetBalances();
+  }
+
+  // =========================================================================
+  // Cycle internals
+  // =========================================================================
+
+  /**
+   * Process one candle across all assets and persist the result.
+   * Candles after candleTime are ignored, so catch-up sees no future data.
+   */
+  private async processCandle(
+    candleTime: number,
+    candlesByAsset: Map<string, Candle[]>,
+    isCatchUp: boolean
+  ): Promise<CycleCounters> {
+    const startedAt = Date.now();
+    const counters: CycleCounters = {
+      signalsGenerated: 0,
+      positionsOpened: 0,
+      positionsClosed: 0,
+      runnersTrimmed: 0,
+    };
+
+    this.resetDailyState();
+    this.journal.startCycle();
+
+    const primaryCandle = candlesByAsset.get(this.assets[0].symbol)!.find((c) => c.timestamp === candleTime)!;
+    const cycleMarket = this.createMarket(primaryCandle, 0, 0);
+
+    this.journal.cycleStart(cycleMarket, {
+      assetsToProcess: this.assets.map((a) => a.symbol),
+      totalOpenPositions: getTotalOpenPositions(this.state),
+    });
+
+    let assetsProcessed = 0;
+    for (const asset of this.assets) {
+      const candles = (candlesByAsset.get(asset.symbol) ?? []).filter((c) => c.timestamp <= candleTime);
+
+      if (candles.length === 0 || candles[candles.length - 1].timestamp !== candleTime) {
+        this.logger?.warn(`${asset.symbol}: no candle at ${new Date(candleTime).toISOString()}, skipping`);
+        continue;
+      }
+
+      try {
+        await this.processAsset(asset, candles, counters, isCatchUp);
+        assetsProcessed++;
+      } catch (error: any) {
+        this.logger?.error(`${asset.symbol}: cycle failed: ${error.message}`);
+        this.journal.error(asset.symbol, cycleMarket, {
+          message: error.message,
+          stack: error.stack,
+          context: 'processAsset',
+        });
+      }
+    }
+
+    this.state.lastProcessedCandleTime = candleTime;
+    this.state.circuitBreaker = this.circuitBreaker.getState();
+    await this.stateManager.setState(this.state);
+
+    this.journal.cycleEnd(cycleMarket, {
+      assetsProcessed,
+      ...counters,
+      cycleDurationMs: Date.now() - startedAt,
+    });
+    this.journal.endCycle();
+
+    return counters;
+  }
+
+  /**
+   * Run the position and signal pipeline for a single asset
+   */
+  private async processAsset(
+    asset: AssetConfig,
+    candles: Candle[],
+    counters: CycleCounters,
+    isCatchUp: boolean
+  ): Promise<void> {
+    const broker = this.brokers.get(asset.symbol)!;
+    const assetPos = getAssetPositions(this.state, asset.symbol)!;
+    const candle = candles[candles.length - 1];
+
+    const strategy = this.strategies.get(asset.symbol)!;
+    const signal = strategy.onCandle(candles);
+    const regime = this.regime.classify(candles);
+    const market = this.createMarket(candle, signal.indicatorValue ?? 0, signal.atr, regime);
+
+    // 1. Manage open positions (TP targets, trailing stops)
+    const openLegs = getOpenLegs(assetPos.openLegs);
+    const candleEnd = candle.timestamp + intervalToMs(this.config.timeframe);
+    const lowerCandles = this.intrabarCandles
+      .get(asset.symbol)
+      ?.filter((c) => c.timestamp >= candle.timestamp && c.timestamp < candleEnd);
+    let legs = await broker.updateAndClosePositions(openLegs, candle, signal.atr, {
+      candles,
+      lowerCandles,
+      time: candleEnd,
+    });
+    const closed = await this.recordClosedLegs(asset, openLegs, legs, market);
+    counters.positionsClosed += closed;
+    this.journalStopUpdates(asset, openLegs, legs, market);
+    if (closed > 0) {
+      await this.saveLegs(assetPos, legs);
+    }
+
+    // 2. Trim runners on SHORT
+    if (signal.type === 'SHORT' && strategy.trimsOnShort) {
+      counters.signalsGenerated++;
+      this.journalSignal(asset, signal, market);
+
+      const beforeTrim = legs;
+      legs = await broker.trimRunners(legs, signal, candle);
+      const trimmed = await this.recordClosedLegs(asset, beforeTrim, legs, market, signal);
+      counters.runnersTrimmed += trimmed;
+      counters.positionsClosed += trimmed;
+      if (trimmed > 0) {
+        await this.saveLegs(assetPos, legs);
+      }
+    }
+
+    // 3. Open new position on LONG
+    if (signal.type === 'LONG' && strategy.entersOnLong) {
+      counters.signalsGenerated++;
+      const signalEvent = this.journalSignal(asset, signal, market);
+      const entry = applyInitialStop(signal, this.config.position.initialStop, candles);
+      const opened = isCatchUp
+        ? this.rejectStaleSignal(asset, market, signalEvent.id)
+        : await this.tryOpenPosition(asset, broker, entry, candle, market, regime, signalEvent.id);
+      if (opened) {
+        legs = [...legs, ...opened];
+        counters.positionsOpened++;
+      }
+    }
+
+    if (signal.type === 'NONE') {
+      this.journal.noSignal(asset.symbol, market, {
+        indicatorValue: signal.indicatorValue ?? 0,
+        buyLevel: this.config.indicator.params.buyLevel ?? 0,
+        sellLevel: this.config.indicator.params.sellLevel ?? 0,
+        reason: signal.indicatorValue === undefined ? 'Indicator warming up' : 'No crossover',
+      });
+    }
+
+    assetPos.openLegs = getOpenLegs(legs);
+  }
+
+  /**
+   * Persist an asset's legs straight after executed exits, so a later
+   * failure in the same cycle can't leave sold legs OPEN in saved state
+   */
+  private async saveLegs(assetPos: AssetPositions, legs: PositionLeg[]): Promise<void> {
+    assetPos.openLegs = getOpenLegs(legs);
+    await this.stateManager.setState(this.state);
+  }
+
+  /**
+   * Apply risk checks and open a position
+   */
+  private async tryOpenPosition(
+    asset: AssetConfig,
+    broker: Broker,
+    signal: Signal,
+    candle: Candle,
+    market: MarketContext,
+    regime: MarketRegime,
+    signalId: string
+  ): Promise<PositionLeg[] | null> {
+    const asOf = candle.timestamp + intervalToMs(this.config.timeframe);
+    if (this.confirmation) {
+      const result = this.confirmation.confirm(this.confirmationCandles.get(asset.symbol) ?? {}, asOf);
+      if (!result.confirmed) {
+        this.journal.signalRejected(
+          asset.symbol,
+          market,
+          {
+            signalType: 'LONG',
+            reason: result.reason ?? 'Higher timeframe not confirmed',
+            details: {
+              higherTimeframes: result.checks.map(({ interval, indicator, trend, value }) => ({
+                interval,
+                indicator,
+                trend,
+                value,
+              })),
+            },
+          },
+          signalId
+        );
+        return null;
+      }
+    }
+
+    const regimeCheck = this.regime.checkEntry(regime);
+    if (!regimeCheck.allowed) {
+      this.journal.signalRejected(
+        asset.symbol,
+        market,
+        {
+          signalType: 'LONG',
+          reason: regimeCheck.reason ?? 'Regime blocks entries',
+          details: {
+            regime: {
+              trend: regime.trend,
+              volatility: regime.volatility,
+              adx: regime.adx,
+              atrPercentile: regime.atrPercentile,
+            },
+          },
+        },
+        signalId
+      );
+      return null;
+    }
+
+    const blackout = findBlackout(asOf, this.config.position.timeExits?.blackouts);
+    if (blackout) {
+      this.journal.signalRejected(
+        asset.symbol,
+        market,
+        { signalType: 'LONG', reason: `Blackout window until ${blackout.end}`, details: { blackout } },
+        signalId
+      );
+      return null;
+    }
+
+    const breakerCheck = this.circuitBreaker.canTrade();
+    if (!breakerCheck.allowed) {
+      this.journal.signalRejected(
+        asset.symbol,
+        market,
+        { signalType: 'LONG', reason: breakerCheck.reason ?? 'Circuit breaker' },
+        signalId
+      );
+      return null;
+    }
+
+    const managerConfig = this.getManagerConfig();
+    const assetCheck = canAssetTrade(this.state, asset.symbol, managerConfig, signal.timestamp);
+    if (!assetCheck.canTrade) {
+      const assetPos = getAssetPositions(this.state, asset.symbol);
+      this.journal.signalRejected(
+        asset.symbol,
+        market,
+        {
+          signalType: 'LONG',
+          reason: assetCheck.reason ?? 'Asset cannot trade',
+          details: {
+            currentPositions: getTotalOpenPositions(this.state),
+            maxPositions: managerConfig.maxTotalPositions,
+            lastTradeTime: assetPos?.lastTradeTime,
+          },
+        },
+        signalId
+      );
+      return null;
+    }
+
+    if (this.config.position.initialStop && signal.stopLoss === undefined) {
+      this.logger?.warn(`${asset.symbol}: no valid initial stop below ${signal.price}, opening without one`);
+    }
+
+    const legs = await broker.openPosition(signal, candle);
+    if (!legs || legs.length === 0) {
+      this.journal.tradeFailed(
+        asset.symbol,
+        market,
+        {
+          reason: 'Broker failed to open position',
+          requiredUsdc: getPositionCostUsdc(asset.tradeLegUsdc, this.config.position.ladder),
+          signalType: 'LONG',
+        },
+        signalId
+      );
+      return null;
+    }
+
+    const taggedLegs = legs.map((leg) => ({ ...leg, asset: asset.symbol }));
+    recordAssetTrade(this.state, asset.symbol, signal.timestamp);
+
+    const entryPrice = taggedLegs[0].entryPrice;
+    const totalQuantity = taggedLegs.reduce((sum, leg) => sum + leg.quantity, 0);
+    const totalUsdc = entryPrice * totalQuantity;
+    const tpTargets = taggedLegs.filter((leg) => leg.type === 'TP').map((leg) => leg.targetPrice ?? 0);
+    const breakevenLock = entryPrice + signal.atr * this.config.position.breakEvenLockMultiplier;
+
+    this.journal.positionOpened(
+      asset.symbol,
+      market,
+      {
+        legIds: taggedLegs.map((leg) => leg.id),
+        entryPrice: signal.price,
+        fillPrice: entryPrice,
+        slippageUsdc: (entryPrice - signal.price) * totalQuantity,
+        totalUsdc,
+        totalQuantity,
+        tpTarget: tpTargets[0] ?? 0,
+        ...(tpTargets.length > 1 && { tpTargets }),
+        ...(taggedLegs[0].stopLoss !== undefined && { stopLoss: taggedLegs[0].stopLoss }),
+        breakevenLock,
+        atrUsed: signal.atr,
+      },
+      taggedLegs[0].positionId,
+      signalId
+    );
+
+    this.csvLogger?.logTradeEntry({
+      date: new Date(candle.timestamp).toISOString(),
+      timestamp: candle.timestamp,
+      asset: asset.symbol,
+      action: 'OPEN',
+      signalType: 'LONG',
+      mfi: signal.mfi,
+      atr: signal.atr,
+      price: entryPrice,
+      totalUSDC: totalUsdc,
+      totalQuantity,
+      legsOpened: taggedLegs.length,
+      targetPrice: tpTargets[0] ?? 0,
+      trailingStop: breakevenLock,
+      mode: this.mode,
+    });
+
+    return taggedLegs;
+  }
+
+  /**
+   * Entries are only taken on the latest candle; a missed LONG is stale
+   */
+  private rejectStaleSignal(asset: AssetConfig, market: MarketContext, signalId: string): null {
+    this.journal.signalRejected(
+      asset.symbol,
+      market,
+      { signalType: 'LONG', reason: 'Stale signal from catch-up candle' },
+      signalId
+    );
+    return null;
+  }
+
+  /**
+   * Journal, log and feed the circuit breaker for legs closed by the broker
+   *
+   * @returns Number of legs closed
+   */
+  private async recordClosedLegs(
+    asset: AssetConfig,
+    before: PositionLeg[],
+    after: PositionLeg[],
+    market: MarketContext,
+    trimSignal?: Signal
+  ): Promise<number> {
+    const broker = this.brokers.get(asset.symbol)!;
+    let closed = 0;
+
+    for (let i = 0; i < after.length; i++) {
+      const leg = after[i];
+      if (before[i]?.status !== 'OPEN' || leg.status !== 'CLOSED') {
+        continue;
+      }
+      closed++;
+
+      const exitPrice = leg.closePrice ?? market.price;
+      const pnlUsdc = (exitPrice - leg.entryPrice) * leg.quantity;
+      const pnlPercent = ((exitPrice - leg.entryPrice) / leg.entryPrice) * 100;
+      const holdingPeriodMs = (leg.closeTime ?? Date.now()) - leg.entryTime;
+      const base = {
+        legId: leg.id,
+        entryPrice: leg.entryPrice,
+        exitPrice,
+        quantity: leg.quantity,
+        pnlUsdc,
+        pnlPercent,
+        holdingPeriodMs,
+      };
+      const timeExitRule = (Object.keys(TIME_EXIT_REASONS) as TimeExitRule[]).find(
+        (rule) => TIME_EXIT_REASONS[rule] === leg.closeReason
+      );
+
+      if (trimSignal) {
+        this.journal.runnerTrimmed(
+          asset.symbol,
+          market,
+          {
+            ...base,
+            triggerIndicator: trimSignal.indicatorValue ?? trimSignal.mfi,
+            triggerLevel: this.config.indicator.params.sellLevel ?? 0,
+          },
+          leg.positionId
+        );
+      } else if (leg.closeReason === 'Stop-loss hit') {
+        this.journal.stopLossHit(
+          asset.symbol,
+          market,
+          { ...base, ...(leg.level !== undefined && { level: leg.level }), stopLoss: leg.stopLoss! },
+          leg.positionId
+        );
+      } else if (timeExitRule) {
+        this.journal.timeExit(
+          asset.symbol,
+          market,
+          { ...base, ...(leg.level !== undefined && { level: leg.level }), rule: timeExitRule },
+          leg.positionId
+        );
+      } else if (leg.type === 'TP' && leg.closeReason === `${getLegLabel(leg)} target hit`) {
+        this.journal.tpHit(asset.symbol, market, { ...base, ...(leg.level !== undefined && { level: leg.level }) }, leg.positionId);
+      } else {
+        this.journal.trailingStopHit(
+          asset.symbol,
+          market,
+          { ...base, highestReached: leg.highestPrice ?? exitPrice },
+          leg.positionId
+        );
+      }
+
+      this.csvLogger?.logPositionLegClosure(leg, asset.symbol, this.mode);
+
+      const portfolioValue = await this.getPortfolioValue(broker, market.price);
+      this.circuitBreaker.recordTrade(pnlUsdc, portfolioValue);
+    }
+
+    return closed;
+  }
+
+  /**
+   * Journal stop activations and moves (runners and ladder legs with stops)
+   */
+  private journalStopUpdates(
+    asset: AssetConfig,
+    before: PositionLeg[],
+    after: PositionLeg[],
+    market: MarketContext
+  ): void {
+    for (let i = 0; i < after.length; i++) {
+      const prev = before[i];
+      const leg = after[i];
+      if (!prev || leg.trailingStop === undefined) {
+        continue;
+      }
+      if (prev.trailingStop !== undefined && leg.trailingStop <= prev.trailingStop) {
+        continue;
+      }
+
+      const previousHighest = prev.highestPrice ?? prev.entryPrice;
+      const newHighest = leg.highestPrice ?? leg.entryPrice;
+      let reason: 'ACTIVATED' | 'NEW_HIGH' | 'TIGHTENED' = 'TIGHTENED';
+      if (prev.trailingStop === undefined) {
+        reason = 'ACTIVATED';
+      } else if (newHighest > previousHighest) {
+        reason = 'NEW_HIGH';
+      }
+
+      this.journal.trailingStopUpdated(
+        asset.symbol,
+        market,
+        {
+          legId: leg.id,
+          previousStop: prev.trailingStop ?? null,
+          newStop: leg.trailingStop,
+          previousHighest,
+          newHighest,
+          reason,
+          ...(getLegStopMode(leg) === 'TRAILING' && { method: this.config.position.trailingStop?.type ?? 'ATR' }),
+        },
+        leg.positionId
+      );
+    }
+  }
+
+  private journalSignal(asset: AssetConfig, signal: Signal, market: MarketContext) {
+    const buyLevel = this.config.indicator.params.buyLevel ?? 0;
+    const sellLevel = this.config.indicator.params.sellLevel ?? 0;
+
+    return this.journal.signalGenerated(asset.symbol, market, {
+      signalType: signal.type === 'SHORT' ? 'SHORT' : 'LONG',
+      previousIndicator: signal.previousIndicatorValue ?? 0,
+      currentIndicator: signal.indicatorValue ?? 0,
+      buyLevel,
+      sellLevel,
+      crossDirection: signal.type === 'SHORT' ? 'DOWN' : 'UP',
+    });
+  }
+
+  // =========================================================================
+  // Helpers
+  // =========================================================================
+
+  /**
+   * Fetch candles for every asset and drop the in-progress candle
+   */
+  private async fetchCompletedCandles(): Promise<Map<string, Candle[]>> {
+    const limit = this.options.candleLimit ?? DEFAULT_CANDLE_LIMIT;
+    const result = new Map<string, Candle[]>();
+
+    for (const asset of this.assets) {
+      const fetcher = this.fetchers.get(asset.symbol)!;
+      try {
+        const candles = await fetcher.fetchCandles(limit);
+        // Binance returns the current (incomplete) candle last
+        const completed = candles.slice(0, -1);
+
+        if (!validateCandleArray(completed, this.logger)) {
+          this.logger?.error(`${asset.symbol}: invalid candle data, skipping`);
+          continue;
+        }
+
+        result.set(asset.symbol, completed);
+      } catch (error: any) {
+        this.logger?.error(`${asset.symbol}: failed to fetch candles: ${error.message}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch higher-timeframe candles for confirmations.
+   * In-progress candles are kept; confirm() drops anything not closed yet.
+   */
+  private async fetchConfirmationCandles(): Promise<void> {
+    if (!this.confirmation) return;
+
+    for (const asset of this.assets) {
+      const byInterval: CandlesByInterval = {};
+      for (const interval of this.confirmation.getIntervals()) {
+        const fetcher = this.confirmationFetchers.get(`${asset.symbol}:${interval}`)!;
+        try {
+          const limit = Math.max(
+            this.options.candleLimit ?? DEFAULT_CANDLE_LIMIT,
+            this.confirmation.getWarmupCandles(interval) + 2
+          );
+          byInterval[interval] = await fetcher.fetchCandles(limit);
+        } catch (error: any) {
+          // Missing candles leave the trend NONE, so entries are rejected rather than unconfirmed
+          this.logger?.error(`${asset.symbol}: failed to fetch ${interval} candles: ${error.message}`);
+        }
+      }
+      this.confirmationCandles.set(asset.symbol, byInterval);
+    }
+  }
+
+  /**
+   * Fetch lower-timeframe candles for LOWER_TIMEFRAME intrabar exits, enough
+   * to cover a full catch-up. Candles without them are evaluated pessimistically.
+   */
+  private async fetchIntrabarCandles(): Promise<void> {
+    const interval = this.config.position.intrabar?.timeframe;
+    if (this.intrabarFetchers.size === 0 || !interval) return;
+
+    const perCandle = intervalToMs(this.config.timeframe) / intervalToMs(interval);
+    const limit = perCandle * ((this.options.maxCatchUpCandles ?? DEFAULT_MAX_CATCH_UP_CANDLES) + 2);
+
+    for (const asset of this.assets) {
+      try {
+        const candles = await this.intrabarFetchers.get(asset.symbol)!.fetchCandles(limit);
+        this.intrabarCandles.set(asset.symbol, candles);
+      } catch (error: any) {
+        this.intrabarCandles.delete(asset.symbol);
+        this.logger?.error(`${asset.symbol}: failed to fetch ${interval} candles: ${error.message}`);
+      }
+    }
+  }
+
+  private createMarket(candle: Candle, indicatorValue: number, atr: number, regime?: MarketRegime): MarketContext {
+    return JournalEmitter.createMarketContext({
+      price: candle.close,
+      indicator: indicatorValue,
+      indicatorName: (this.config.combinator ? 'composite' : this.config.indicator.type).toUpperCase(),
+      atr,
+      candleTime: candle.timestamp,
+      buyLevel: this.config.indicator.params.buyLevel,
+      sellLevel: this.config.indicator.params.sellLevel,
+      regime,
+    });
+  }
+
+  /**
+   * Portfolio value for circuit breaker loss limits.
+   * Falls back to the capital committed per signal when the broker
+   * cannot report a value (LiveBroker).
+   */
+  private async getPortfolioValue(broker: Broker, price: number): Promise<number> {
+    const value = await broker.getPortfolioValue(price);
+    return value > 0 ? value : getTotalCapitalPerSignal(this.assets, this.config.position.ladder);
+  }
+
+  private getManagerConfig(): MultiAssetManagerConfig {
+    return {
+      assets: this.assets,
+      maxPositionsPerAsset: this.config.risk.maxPositionsPerAsset ?? 1,
+      maxTotalPositions: this.config.risk.maxTotalPositions ?? this.assets.length,
+      minTimeBetweenTradesMs: this.config.risk.minTimeBetweenTradesMs ?? 0,
+    };
+  }
+
+  private resetDailyState(): void {
+    const today = new Date().toISOString().split('T')[0];
+    if (this.state.lastDayReset !== today) {
+      this.state.lastDayReset = today;
+    }
+    this.circuitBreaker.resetDaily();
+  }
+
+  private emptyResult(candleTime: number): CycleResult {
+    return {
+      processed: false,
+      candleTime,
+      candlesProcessed: 0,
+      signalsGenerated: 0,
+      positionsOpened: 0,
+      positionsClosed: 0,
+      runnersTrimmed: 0,
+    };
+  }
+
+  private getDefaultAsset(): AssetConfig {
+    return {
+      symbol: 'BTC',
+      name: 'Bitcoin',
+      binanceSymbol: 'BTCUSDT',
+      tradeLegUsdc: this.config.position.tradeLegUsdc,
+      enabled: true,
+    };
+  }
+
+  private createFetcher(asset: AssetConfig, interval: BinanceInterval): BinanceFetcher {
+    if (this.options.createFetcher) {
+      return this.options.createFetcher(asset, interval);
+    }
+    return new BinanceFetcher({ symbol: asset.binanceSymbol, interval }, this.logger);
+  }
+
+  private createStrategy(asset: AssetConfig): Strategy {
+    if (this.options.createStrategy) {
+      return this.options.createStrategy(asset);
+    }
+    return createBotStrategy(this.config);
+  }
+
+  private createBroker(asset: AssetConfig): Broker {
+    if (this.options.createBroker) {
+      return this.options.createBroker(asset);
+    }
+
+    const position = this.config.position;
+
+    if (this.mode === 'LIVE') {
+      // BTC assets use the platform's cbBTC/WBTC pair; other assets trade their own mint
+      const isBtc = asset.symbol.toUpperCase().includes('BTC');
+      const cbBtcMint = isBtc ? this.platform.tokens.cbBtc : undefined;
+      const wbtcMint = isBtc
+        ? this.platform.tokens.wbtc ?? asset.solanaMint
+        : asset.solanaMint;
+
+      if (!wbtcMint) {
+        throw new Error(`No Solana mint configured for ${asset.symbol}`);
+      }
+
+      return new LiveBroker(
+        {
+          rpcUrl: this.platform.solanaRpcUrl,
+          walletSecretKey: this.platform.walletSecretKey,
+          usdcMint: this.platform.tokens.usdc,
+          cbBtcMint,
+          wbtcMint,
+          slippageBps: this.platform.slippageBps ?? DEFAULT_SLIPPAGE_BPS,
+          maxPriceImpactBps: this.platform.maxPriceImpactBps ?? DEFAULT_MAX_PRICE_IMPACT_BPS,
+          tradeLegUsdc: asset.tradeLegUsdc,
+          atrTpMultiplier: position.atrTpMultiplier,
+          atrTrailMultiplier: position.atrTrailMultiplier,
+          breakEvenLockMultiplier: position.breakEvenLockMultiplier,
+          ladder: position.ladder,
+          trailingStop: position.trailingStop,
+          timeExits: position.timeExits,
+          minBtcBalance: this.options.live?.minBtcBalance ?? 0,
+          minUsdcReserve: this.options.live?.minUsdcReserve ?? 0,
+        },
+        this.logger
+      );
+    }
+
+    return new PaperBroker(
+      {
+        initialUsdcBalance: this.options.paper?.initialUsdcBalance ?? DEFAULT_PAPER_USDC,
+        initialBtcBalance: 0,
+        slippageBps: this.options.paper?.slippageBps ?? this.platform.slippageBps ?? DEFAULT_SLIPPAGE_BPS,
+        tradeLegUsdc: asset.tradeLegUsdc,
+        atrTpMultiplier: position.atrTpMultiplier,
+        atrTrailMultiplier: position.atrTrailMultiplier,
+        breakEvenLockMultiplier: position.breakEvenLockMultiplier,
+        ladder: position.ladder,
+        intrabar: position.intrabar,
+        trailingStop: position.trailingStop,
+        timeExits: position.timeExits,
+      },
+      this.logger
+    );
+  }
+}
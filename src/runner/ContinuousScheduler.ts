@@ -0,0 +1,196 @@
+import type { BotConfig, ContinuousModeConfig, Logger } from '../types';
+import { getNextCandleClose } from '../data/intervals';
+import type { BotRunner, CycleResult } from './BotRunner';
+
+/**
+ * Continuous Scheduler
+ *
+ * Keeps a BotRunner running in-process according to ContinuousModeConfig:
+ * - Runs a cycle immediately on start (catching up on candles missed while down)
+ * - Sleeps until candle close + executionOffsetMinutes for the bot's timeframe
+ * - Polls every checkIntervalMinutes until Binance publishes the new candle
+ * - Stops on SIGTERM/SIGINT once the in-flight cycle has finished
+ *
+ * A cycle is never interrupted: stop() only takes effect between cycles,
+ * so state is always saved for the last candle that was started.
+ */
+
+// setTimeout overflows above 2^31 - 1 ms (~24.8 days)
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+export interface ContinuousSchedulerOptions {
+  logger?: Logger;
+  /** Stop on SIGTERM/SIGINT (default: true) */
+  handleSignals?: boolean;
+  /** Called after each cycle that processed at least one candle */
+  onCycle?: (result: CycleResult) => void;
+}
+
+export class ContinuousScheduler {
+  private runner: BotRunner;
+  private botId: string;
+  private timeframe: BotConfig['timeframe'];
+  private continuous: ContinuousModeConfig;
+  private logger?: Logger;
+  private options: ContinuousSchedulerOptions;
+  private running = false;
+  private stopping = false;
+  private wake: (() => void) | null = null;
+  private stopped: Promise<void> = Promise.resolve();
+  private signalHandler = (signal: string) => {
+    this.logger?.info(`Received ${signal}, stopping after current cycle`);
+    void this.stop();
+  };
+
+  constructor(runner: BotRunner, config: BotConfig, options: ContinuousSchedulerOptions = {}) {
+    if (!config.continuous) {
+      throw new Error(`Bot ${config.botId} has no continuous mode config`);
+    }
+    if (config.continuous.checkIntervalMinutes <= 0) {
+      throw new Error('checkIntervalMinutes must be greater than 0');
+    }
+    if (config.continuous.executionOffsetMinutes < 0) {
+      throw new Error('executionOffsetMinutes cannot be negative');
+    }
+
+    this.runner = runner;
+    this.botId = config.botId;
+    this.timeframe = config.timeframe;
+    this.continuous = config.continuous;
+    this.logger = options.logger;
+    this.options = options;
+  }
+
+  /**
+   * Run until stop() is called or a termination signal is received
+   *
+   * @returns Promise that resolves once the scheduler has fully stopped
+   */
+  async start(): Promise<void> {
+    if (!this.continuous.enabled) {
+      throw new Error(`Continuous mode is disabled for bot ${this.botId}`);
+    }
+    if (this.running) {
+      throw new Error('Scheduler is already running');
+    }
+
+    this.running = true;
+    this.stopping = false;
+
+    let markStopped!: () => void;
+    this.stopped = new Promise((resolve) => (markStopped = resolve));
+
+    if (this.options.handleSignals ?? true) {
+      process.on('SIGTERM', this.signalHandler);
+      process.on('SIGINT', this.signalHandler);
+    }
+
+    this.logger?.info('Continuous scheduler started', {
+      botId: this.botId,
+      timeframe: this.timeframe,
+      executionOffsetMinutes: this.continuous.executionOffsetMinutes,
+      checkIntervalMinutes: this.continuous.checkIntervalMinutes,
+    });
+
+    try {
+      // Process anything completed while the bot was down
+      await this.runCycleSafely();
+
+      while (!this.stopping) {
+        const candleClose = getNextCandleClose(Date.now(), this.timeframe);
+        const wakeAt = candleClose + this.continuous.executionOffsetMinutes * 60 * 1000;
+
+        this.logger?.info(`Next cycle at ${new Date(wakeAt).toISOString()}`);
+        await this.sleepUntil(wakeAt);
+        if (this.stopping) break;
+
+        // Give up on this candle once the following one is due
+        await this.pollForCandle(getNextCandleClose(candleClose, this.timeframe));
+      }
+    } finally {
+      process.off('SIGTERM', this.signalHandler);
+      process.off('SIGINT', this.signalHandler);
+      this.running = false;
+      this.logger?.info('Continuous scheduler stopped');
+      markStopped();
+    }
+  }
+
+  /**
+   * Request a graceful stop
+   *
+   * @returns Promise that resolves after any in-flight cycle completes
+   */
+  stop(): Promise<void> {
+    this.stopping = true;
+    this.wake?.();
+    return this.stopped;
+  }
+
+  /**
+   * Check whether the scheduler loop is active
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Poll until a new candle is available, then run a cycle
+   */
+  private async pollForCandle(deadline: number): Promise<void> {
+    const checkMs = this.continuous.checkIntervalMinutes * 60 * 1000;
+
+    while (!this.stopping) {
+      let hasNew = false;
+      try {
+        hasNew = await this.runner.hasNewCandle();
+      } catch (error: any) {
+        this.logger?.error(`New candle check failed: ${error.message}`);
+      }
+
+      if (hasNew) {
+        await this.runCycleSafely();
+        return;
+      }
+
+      if (Date.now() + checkMs >= deadline) {
+        this.logger?.warn(`No new ${this.timeframe} candle before next close, waiting for next candle`);
+        return;
+      }
+
+      await this.sleepUntil(Date.now() + checkMs);
+    }
+  }
+
+  private async runCycleSafely(): Promise<void> {
+    try {
+      const result = await this.runner.runCycle();
+      if (result.processed) {
+        this.options.onCycle?.(result);
+      }
+    } catch (error: any) {
+      this.logger?.error(`Cycle failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Sleep until a timestamp, returning early if stop() is called
+   */
+  private async sleepUntil(timestamp: number): Promise<void> {
+    while (!this.stopping) {
+      const remaining = timestamp - Date.now();
+      if (remaining <= 0) return;
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(done, Math.min(remaining, MAX_TIMEOUT_MS));
+        function done() {
+          clearTimeout(timer);
+          resolve();
+        }
+        this.wake = done;
+      });
+      this.wake = null;
+    }
+  }
+}
+
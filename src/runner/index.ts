@@ -0,0 +1,20 @@
+/**
+ * Runner Module
+ *
+ * Exports the config-driven bot runner and continuous scheduler.
+ */
+
+export {
+  BotRunner,
+  type BotRunnerOptions,
+  type ReconciliationOptions,
+  type BotRunnerState,
+  type CycleResult,
+} from './BotRunner';
+
+export {
+  ContinuousScheduler,
+  type ContinuousSchedulerOptions,
+} from './ContinuousScheduler';
+
+export { BOT_STATE_VERSION, botStateMigrations } from './stateMigrations';
@@ -0,0 +1,48 @@
+import type { StateMigration } from '../core/StateManager';
+
+/**
+ * BotRunner State Migrations
+ *
+ * Add a migration here (and bump BOT_STATE_VERSION) whenever the shape of
+ * BotRunnerState or PositionLeg changes, so state files written by the
+ * previous release still load after an upgrade.
+ */
+
+export const BOT_STATE_VERSION = 2;
+
+export const botStateMigrations: StateMigration[] = [
+  {
+    from: 1,
+    description: 'move single-asset openLegs into assetPositions and default leg status',
+    migrate: (state) => {
+      // Single-asset bots (BotState) kept legs at the top level
+      if (!Array.isArray(state.assetPositions)) {
+        const legs: any[] = Array.isArray(state.openLegs) ? state.openLegs : [];
+        const byAsset = new Map<string, any[]>();
+        for (const leg of legs) {
+          const asset = leg.asset ?? 'BTC';
+          byAsset.set(asset, [...(byAsset.get(asset) ?? []), leg]);
+        }
+
+        state.assetPositions = [...byAsset.entries()].map(([asset, openLegs]) => ({
+          asset,
+          openLegs,
+          lastSignalTime: 0,
+          lastTradeTime: state.lastTradeTime ?? 0,
+        }));
+        delete state.openLegs;
+        delete state.lastTradeTime;
+        delete state.totalTradesToday;
+      }
+
+      // Early releases wrote legs without a status; they were open
+      for (const ap of state.assetPositions) {
+        ap.openLegs = (ap.openLegs ?? []).map((leg: any) => ({ ...leg, status: leg.status ?? 'OPEN' }));
+        ap.lastSignalTime = ap.lastSignalTime ?? 0;
+        ap.lastTradeTime = ap.lastTradeTime ?? 0;
+      }
+
+      return state;
+    },
+  },
+];
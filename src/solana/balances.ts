@@ -133,7 +133,7 @@ export async function getAllBalances(
 }
 
 /**
- * Check if wallet can execute a trade
+ * Check if wallet can execute a trade (tradeSizeUsdc for each of legCount legs)
  */
 export async function canTrade(
   connection: Connection,
@@ -143,7 +143,8 @@ export async function canTrade(
   wbtcMint: string,
   tradeSizeUsdc: number,
   config: BalanceConfig,
-  logger?: Logger
+  logger?: Logger,
+  legCount: number = 2
 ): Promise<BalanceInfo> {
   try {
     const balances = await getAllBalances(
@@ -155,8 +156,8 @@ export async function canTrade(
       logger
     );
 
-    // Calculate required USDC (2 legs)
-    const totalRequired = tradeSizeUsdc * 2;
+    // Calculate required USDC (tradeSizeUsdc per leg)
+    const totalRequired = tradeSizeUsdc * legCount;
 
     // Check USDC balance
     if (balances.usdc < totalRequired + config.minUsdcReserve) {
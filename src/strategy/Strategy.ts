@@ -0,0 +1,115 @@
+import type { Candle, Signal, SignalType } from '../types';
+import { calculateATRSeries } from '../indicators/atr';
+import { getIndicatorWarmup } from '../indicators/registry';
+
+/**
+ * Strategy Interface
+ *
+ * A strategy turns a window of completed candles into a Signal for the last
+ * candle. Runners, backtests and custom bots all consume strategies through
+ * this interface, so indicator-specific glue lives in one place.
+ *
+ * Signal semantics (long-only DEX trading):
+ * - LONG: open a new two-leg position (when entersOnLong)
+ * - SHORT: close open runner legs (when trimsOnShort) - never opens a short
+ * - NONE: manage existing positions only
+ */
+export interface Strategy {
+  /** Strategy type name (matches IndicatorConfig.type) */
+  readonly name: string;
+
+  /** Minimum candles required before onCandle can produce LONG/SHORT */
+  readonly warmupCandles: number;
+
+  /** LONG signals open new positions */
+  readonly entersOnLong: boolean;
+
+  /** SHORT signals trim open runner legs */
+  readonly trimsOnShort: boolean;
+
+  /**
+   * Generate a signal for the last candle
+   *
+   * @param candles - Completed candles in chronological order (last = candle to act on)
+   * @returns Signal ('NONE' while warming up)
+   */
+  onCandle(candles: Candle[]): Signal;
+}
+
+/**
+ * Indicator reading for the last candle
+ */
+export interface IndicatorReading {
+  type: SignalType;
+  value: number;
+  previousValue?: number;
+  trend?: SignalType;
+}
+
+/**
+ * Base class for single-indicator strategies
+ *
+ * Handles warmup, ATR and Signal assembly; subclasses only implement
+ * evaluate() for their indicator. Extend this to register custom strategies.
+ */
+export abstract class IndicatorStrategy implements Strategy {
+  readonly name: string;
+  readonly entersOnLong: boolean = true;
+  readonly trimsOnShort: boolean = true;
+  protected params: Record<string, number>;
+  protected atrPeriod: number;
+
+  constructor(name: string, params: Record<string, number> = {}) {
+    this.name = name;
+    this.params = params;
+    this.atrPeriod = params.atrPeriod ?? 14;
+  }
+
+  /**
+   * Candles needed for the indicator and ATR to both be available
+   */
+  get warmupCandles(): number {
+    return Math.max(this.indicatorWarmup(), this.atrPeriod + 1);
+  }
+
+  onCandle(candles: Candle[]): Signal {
+    if (candles.length === 0) {
+      throw new Error('Cannot generate a signal without candles');
+    }
+
+    const last = candles[candles.length - 1];
+    const atrSeries = calculateATRSeries(candles, this.atrPeriod);
+    const atr = atrSeries[atrSeries.length - 1] ?? 0;
+    const reading = candles.length >= this.warmupCandles ? this.evaluate(candles) : null;
+
+    return {
+      type: reading?.type ?? 'NONE',
+      timestamp: last.timestamp,
+      price: last.close,
+      // `mfi` is only meaningful for MFI strategies; others report via indicatorValue
+      mfi: this.name === 'mfi' && reading ? reading.value : 0,
+      atr,
+      indicator: this.name,
+      indicatorValue: reading?.value,
+      previousIndicatorValue: reading?.previousValue,
+      trend: reading?.trend,
+    };
+  }
+
+  /**
+   * Candles the indicator needs for a reading on the last candle
+   *
+   * Built-in indicators take this from the indicator registry; custom
+   * strategies must override it.
+   */
+  protected indicatorWarmup(): number {
+    return getIndicatorWarmup(this.name, this.params);
+  }
+
+  /**
+   * Read the indicator for the last candle
+   *
+   * @returns Reading, or null if the indicator has no value yet
+   */
+  protected abstract evaluate(candles: Candle[]): IndicatorReading | null;
+}
@@ -0,0 +1,188 @@
+import type {
+  BotConfig,
+  Candle,
+  CombinatorConfig,
+  CombinatorRole,
+  Signal,
+  SignalComponent,
+  SignalType,
+} from '../types';
+import type { Strategy } from './Strategy';
+import { createStrategy } from './registry';
+
+/**
+ * Composite Strategy
+ *
+ * Combines registered strategies into one signal:
+ * - TRIGGER members vote on LONG/SHORT using AND, OR or N-of-M VOTE
+ * - FILTER members must report a LONG trend for a LONG to pass
+ *
+ * Filters only gate entries. SHORT (trim) signals are never blocked, so a
+ * filter can't keep runners open longer than the triggers intend.
+ *
+ * Crosses from different indicators rarely land on the same candle, so
+ * confirmationWindow lets a trigger's signal count for N candles. The
+ * combined signal only fires on a candle where at least one agreeing
+ * trigger fired, so one agreement never produces repeated entries.
+ *
+ * Every member's reading is recorded in signal.metadata.components.
+ */
+
+interface Member {
+  strategy: Strategy;
+  role: CombinatorRole;
+}
+
+export class CompositeStrategy implements Strategy {
+  readonly name = 'composite';
+  readonly entersOnLong = true;
+  readonly trimsOnShort = true;
+  readonly warmupCandles: number;
+  private config: CombinatorConfig;
+  private members: Member[];
+  private triggerCount: number;
+  private confirmationWindow: number;
+
+  constructor(config: CombinatorConfig) {
+    this.config = config;
+    this.members = config.indicators.map((indicator) => ({
+      strategy: createStrategy(indicator),
+      role: indicator.role ?? 'TRIGGER',
+    }));
+
+    this.triggerCount = this.members.filter((m) => m.role === 'TRIGGER').length;
+    if (this.triggerCount === 0) {
+      throw new Error('Combinator needs at least one TRIGGER indicator');
+    }
+
+    this.confirmationWindow = config.confirmationWindow ?? 1;
+    if (this.confirmationWindow < 1) {
+      throw new Error('confirmationWindow must be at least 1');
+    }
+
+    if (config.mode === 'VOTE') {
+      const minVotes = this.getMinVotes();
+      if (minVotes < 1 || minVotes > this.triggerCount) {
+        throw new Error(`minVotes must be between 1 and ${this.triggerCount}`);
+      }
+    }
+
+    this.warmupCandles =
+      Math.max(...this.members.map((m) => m.strategy.warmupCandles)) + this.confirmationWindow - 1;
+  }
+
+  onCandle(candles: Candle[]): Signal {
+    const components: SignalComponent[] = [];
+    const triggerTypes: SignalType[] = [];
+    const freshTypes: SignalType[] = [];
+    let filtersPass = true;
+    let reference: Signal | null = null;
+
+    for (const member of this.members) {
+      const signal = member.strategy.onCandle(candles);
+      reference ??= signal;
+
+      const type = member.role === 'TRIGGER' ? this.recentSignal(member.strategy, candles, signal) : signal.type;
+      components.push({
+        indicator: member.strategy.name,
+        role: member.role,
+        type,
+        value: signal.indicatorValue,
+        previousValue: signal.previousIndicatorValue,
+        trend: signal.trend,
+      });
+
+      if (member.role === 'TRIGGER') {
+        triggerTypes.push(type);
+        freshTypes.push(signal.type);
+      } else if (signal.trend !== 'LONG') {
+        filtersPass = false;
+      }
+    }
+
+    let combined = this.combine(triggerTypes);
+    if (!freshTypes.includes(combined)) {
+      combined = 'NONE';
+    }
+    const type = combined === 'LONG' && !filtersPass ? 'NONE' : combined;
+    const votes = triggerTypes.filter((t) => t === combined).length;
+    const mfiComponent = components.find((c) => c.indicator === 'mfi');
+
+    return {
+      type,
+      timestamp: reference!.timestamp,
+      price: reference!.price,
+      mfi: mfiComponent?.value ?? 0,
+      atr: reference!.atr,
+      indicator: this.name,
+      indicatorValue: combined === 'NONE' ? 0 : votes,
+      metadata: {
+        mode: this.config.mode,
+        components,
+        ...(combined === 'LONG' && !filtersPass ? { blockedByFilter: true } : {}),
+      },
+    };
+  }
+
+  /**
+   * Combine trigger signals according to the mode
+   */
+  private combine(types: SignalType[]): SignalType {
+    const longs = types.filter((t) => t === 'LONG').length;
+    const shorts = types.filter((t) => t === 'SHORT').length;
+
+    let longPasses: boolean;
+    let shortPasses: boolean;
+
+    switch (this.config.mode) {
+      case 'AND':
+        longPasses = longs === types.length;
+        shortPasses = shorts === types.length;
+        break;
+      case 'OR':
+        longPasses = longs > 0;
+        shortPasses = shorts > 0;
+        break;
+      case 'VOTE':
+        longPasses = longs >= this.getMinVotes();
+        shortPasses = shorts >= this.getMinVotes();
+        break;
+      default:
+        throw new Error(`Unknown combinator mode: ${this.config.mode}`);
+    }
+
+    // Conflicting directions cancel out
+    if (longPasses && !shortPasses) return 'LONG';
+    if (shortPasses && !longPasses) return 'SHORT';
+    return 'NONE';
+  }
+
+  /**
+   * Most recent non-NONE signal within the confirmation window
+   */
+  private recentSignal(strategy: Strategy, candles: Candle[], current: Signal): SignalType {
+    if (current.type !== 'NONE') {
+      return current.type;
+    }
+
+    for (let back = 1; back < this.confirmationWindow && candles.length - back > 0; back++) {
+      const type = strategy.onCandle(candles.slice(0, candles.length - back)).type;
+      if (type !== 'NONE') {
+        return type;
+      }
+    }
+    return 'NONE';
+  }
+
+  private getMinVotes(): number {
+    return this.config.minVotes ?? Math.floor(this.triggerCount / 2) + 1;
+  }
+}
+
+/**
+ * Create the strategy for a bot: the combinator when configured,
+ * otherwise the single indicator strategy
+ */
+export function createBotStrategy(config: Pick<BotConfig, 'indicator' | 'combinator'>): Strategy {
+  return config.combinator ? new CompositeStrategy(config.combinator) : createStrategy(config.indicator);
+}
@@ -11,14 +11,72 @@ export {
   isValidSignal,
 } from './signals';
 
+// Config-driven signal generation
+export { generateIndicatorSignal } from './indicatorSignal';
+
+// Strategies
+export { IndicatorStrategy, type Strategy, type IndicatorReading } from './Strategy';
+export {
+  MFIStrategy,
+  TCF2Strategy,
+  KPSSStrategy,
+  TDFIStrategy,
+  DSSMOMStrategy,
+  MovingAverageStrategy,
+  MACDStrategy,
+  SuperTrendStrategy,
+  BollingerStrategy,
+  KeltnerStrategy,
+  DonchianStrategy,
+  OBVStrategy,
+  VWAPStrategy,
+  CMFStrategy,
+  VolumeZScoreStrategy,
+  DivergenceStrategy,
+} from './strategies';
+export {
+  registerStrategy,
+  createStrategy,
+  hasStrategy,
+  getRegisteredStrategies,
+  type StrategyFactory,
+} from './registry';
+export { CompositeStrategy, createBotStrategy } from './composite';
+export {
+  MultiTimeframeConfirmation,
+  type ConfirmationResult,
+  type TimeframeCheck,
+  type CandlesByInterval,
+} from './multiTimeframe';
+export { RegimeClassifier, type MarketRegime, type RegimeCheck } from './regime';
+
 // Position management
 export {
   createTwoLegPosition,
+  createLadderPosition,
+  createTwoLegLadder,
+  getPositionCostUsdc,
+  validateLadder,
+  calculateInitialStop,
+  applyInitialStop,
+  getLegLabel,
+  getLegStopMode,
+  parseLegLabel,
   updatePositions,
+  updatePositionsIntrabar,
+  getIntrabarPath,
+  TIME_EXIT_REASONS,
+  findBlackout,
+  getTimeExitRule,
   getOpenLegs,
   getClosedLegs,
   closeRunnersOnTrimSignal,
   calculateUnrealizedPnL,
   calculateRealizedPnL,
   getPositionSummary,
+  type IntrabarOptions,
+  type PositionUpdateOptions,
 } from './position';
+
+// Trailing stop methods
+export { createTrailingStop, type TrailingStopContext, type TrailingStopLevel } from './trailingStops';
@@ -0,0 +1,21 @@
+import type { Candle, IndicatorConfig, Signal } from '../types';
+import { createStrategy } from './registry';
+
+/**
+ * Indicator Signal Generation
+ *
+ * One-off signal for the most recent candle from an IndicatorConfig. Kept as
+ * a shortcut over the Strategy API; bots that run every candle should create
+ * their strategy once (createStrategy / createBotStrategy) instead.
+ */
+
+/**
+ * Generate a signal for the last candle using the configured indicator
+ *
+ * @param candles - Completed candles in chronological order (last = candle to act on)
+ * @param indicator - Indicator type and params (any registered strategy)
+ * @returns Signal for the last candle ('NONE' while the indicator is warming up)
+ */
+export function generateIndicatorSignal(candles: Candle[], indicator: IndicatorConfig): Signal {
+  return createStrategy(indicator).onCandle(candles);
+}
@@ -0,0 +1,102 @@
+import type { Candle, SignalType, TimeframeConfirmationConfig } from '../types';
+import type { BinanceInterval } from '../data/BinanceFetcher';
+import { getCompletedCandles } from '../data/intervals';
+import type { Strategy } from './Strategy';
+import { createStrategy } from './registry';
+
+/**
+ * Multi-Timeframe Confirmation
+ *
+ * Checks higher-timeframe trends before a LONG from the base timeframe is
+ * accepted, e.g. only take 1h MFI entries while the 1d TDFI trend is up.
+ *
+ * Higher-timeframe candles are aligned to the base candle's close time, so
+ * only candles that had fully closed at that moment are used (no lookahead).
+ */
+
+export interface TimeframeCheck {
+  interval: BinanceInterval;
+  indicator: string;
+  trend: SignalType;
+  value?: number;
+  passed: boolean;
+}
+
+export interface ConfirmationResult {
+  confirmed: boolean;
+  /** Human-readable rejection reason (when not confirmed) */
+  reason?: string;
+  checks: TimeframeCheck[];
+}
+
+export type CandlesByInterval = Partial<Record<BinanceInterval, Candle[]>>;
+
+export class MultiTimeframeConfirmation {
+  private checks: Array<{ config: TimeframeConfirmationConfig; strategy: Strategy }>;
+  private windowSize: number;
+
+  /**
+   * @param confirmations - Higher-timeframe checks
+   * @param windowSize - Max candles per interval passed to each strategy (default: 400)
+   */
+  constructor(confirmations: TimeframeConfirmationConfig[], windowSize: number = 400) {
+    this.checks = confirmations.map((config) => ({ config, strategy: createStrategy(config.indicator) }));
+    this.windowSize = windowSize;
+  }
+
+  /**
+   * Intervals whose candles confirm() needs
+   */
+  getIntervals(): BinanceInterval[] {
+    return [...new Set(this.checks.map((c) => c.config.interval))];
+  }
+
+  /**
+   * Candles of an interval needed for every check on it to warm up
+   */
+  getWarmupCandles(interval: BinanceInterval): number {
+    const warmups = this.checks
+      .filter((c) => c.config.interval === interval)
+      .map((c) => c.strategy.warmupCandles);
+    return warmups.length > 0 ? Math.max(...warmups) : 0;
+  }
+
+  /**
+   * Check every higher timeframe as of a point in time
+   *
+   * @param candlesByInterval - Candles per interval (may include candles after asOf)
+   * @param asOf - Close time of the base candle whose signal is being confirmed
+   */
+  confirm(candlesByInterval: CandlesByInterval, asOf: number): ConfirmationResult {
+    const results: TimeframeCheck[] = [];
+
+    for (const { config, strategy } of this.checks) {
+      const completed = getCompletedCandles(candlesByInterval[config.interval] ?? [], config.interval, asOf);
+      const candles = completed.slice(-this.windowSize);
+      const warm = candles.length >= strategy.warmupCandles;
+      const signal = warm ? strategy.onCandle(candles) : null;
+      const trend = signal?.trend ?? 'NONE';
+
+      results.push({
+        interval: config.interval,
+        indicator: strategy.name,
+        trend,
+        value: signal?.indicatorValue,
+        passed: trend === 'LONG' || (trend === 'NONE' && (config.allowNeutral ?? false) && warm),
+      });
+    }
+
+    const failed = results.filter((r) => !r.passed);
+    if (failed.length === 0) {
+      return { confirmed: true, checks: results };
+    }
+
+    return {
+      confirmed: false,
+      reason: `Higher timeframe not confirmed: ${failed
+        .map((r) => `${r.interval} ${r.indicator.toUpperCase()} trend ${r.trend}`)
+        .join(', ')}`,
+      checks: results,
+    };
+  }
+}
@@ -1,15 +1,70 @@
-import type { PositionLeg, LegType, Signal, Logger } from '../types';
-import { calculateATRLevels, updateTrailingStop } from '../indicators/atr';
+import type {
+  Candle,
+  InitialStopConfig,
+  IntrabarPolicy,
+  PositionLeg,
+  LegType,
+  LadderLegConfig,
+  LegStopMode,
+  Signal,
+  Logger,
+  TimeExitConfig,
+  TimeExitRule,
+  BlackoutWindow,
+} from '../types';
+import { updateTrailingStop } from '../indicators/atr';
+import type { TrailingStopLevel } from './trailingStops';
 
 /**
- * Position Management - Two-Leg Model
+ * Position Management - Scale-Out Ladders
  *
- * This module manages the two-leg position structure:
+ * Each LONG signal opens one position split into legs with different exits.
+ * The default ladder is the two-leg model:
  * - Leg 1 (TP): Fixed take-profit at +1×ATR
- * - Leg 2 (Runner): Trailing stop at 2.5×ATR from highest price
+ * - Leg 2 (Runner): Trailing stop at 2.5×ATR from highest price, armed
+ *   (at a break-even lock) once the TP leg fills
  *
- * Each LONG signal opens TWO positions with different exit strategies.
+ * PositionConfig.ladder generalizes this to any number of TP legs at their
+ * own ATR targets and sizes, plus an optional runner. Each leg carries its
+ * stop mode (none, break-even or trailing) and whether the stop arms after
+ * the first TP fill or after all of them.
+ *
+ * PositionConfig.initialStop adds a protective stop-loss to every leg from
+ * entry (carried on the LONG signal), so no leg rides a crash down while
+ * waiting for its TP.
+ *
+ * Armed TRAILING stops follow highest price - trailMultiplier × ATR unless
+ * a trailing stop method (see trailingStops) is passed in.
+ *
+ * PositionConfig.timeExits closes legs at the current price after a max
+ * holding period per leg type, after N candles without a new high, or ahead
+ * of blackout windows.
+ *
+ * updatePositions checks exits against one price (the candle close).
+ * updatePositionsIntrabar walks the candle's open, high, low and close
+ * instead, in the order an IntrabarPolicy picks, so wicks fill targets and
+ * stops at their own price.
+ */
+
+/**
+ * Options for updatePositions
  */
+export interface PositionUpdateOptions {
+  /** Trailing stop method for this candle (default: ATR trail) */
+  trailingStop?: TrailingStopLevel;
+  timeExits?: TimeExitConfig;
+  /** Time of the update, e.g. the candle close; closed legs get it as closeTime (default: now) */
+  time?: number;
+}
+
+/**
+ * Options for updatePositionsIntrabar
+ */
+export interface IntrabarOptions extends PositionUpdateOptions {
+  policy?: IntrabarPolicy;
+  /** Lower-timeframe candles inside the candle (LOWER_TIMEFRAME), in chronological order */
+  lowerCandles?: Candle[];
+}
 
 /**
  * Generate unique position leg ID
@@ -19,91 +74,269 @@ function generateLegId(type: LegType, timestamp: number): string {
 }
 
 /**
- * Generate shared position ID for a two-leg position
+ * Generate shared position ID for a multi-leg position
  */
 function generatePositionId(timestamp: number): string {
   return `POS_${timestamp}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
 /**
- * Create two-leg position from a LONG signal
+ * Two-leg ladder: half at a TP target, half as a trailing runner
+ */
+export function createTwoLegLadder(tpMultiplier: number = 1.0): LadderLegConfig[] {
+  return [{ size: 0.5, atrTarget: tpMultiplier }, { size: 0.5 }];
+}
+
+/**
+ * USDC needed to open one position (tradeLegUsdc per leg)
+ */
+export function getPositionCostUsdc(tradeLegUsdc: number, ladder?: LadderLegConfig[]): number {
+  return tradeLegUsdc * (ladder?.length ?? 2);
+}
+
+/**
+ * Check a ladder: sizes in (0, 1] summing to 1, at least one TP leg,
+ * at most one runner, positive targets
  *
- * @param signal - LONG signal with entry price and ATR
- * @param usdcAmount - USDC amount per leg (default $100)
- * @param tpMultiplier - ATR multiplier for TP (default 1.0)
- * @param trailMultiplier - ATR multiplier for trailing stop (default 2.5)
+ * @returns Problems found, keyed by leg path (e.g. '[1].atrTarget'); empty when valid
+ */
+export function validateLadder(ladder: LadderLegConfig[]): Array<{ path: string; message: string }> {
+  const issues: Array<{ path: string; message: string }> = [];
+
+  ladder.forEach((leg, i) => {
+    if (!(leg.size > 0 && leg.size <= 1)) {
+      issues.push({ path: `[${i}].size`, message: 'must be above 0 and at most 1' });
+    }
+    if (leg.atrTarget !== undefined && !(leg.atrTarget > 0)) {
+      issues.push({ path: `[${i}].atrTarget`, message: 'must be above 0' });
+    }
+  });
+
+  const total = ladder.reduce((sum, leg) => sum + leg.size, 0);
+  if (Math.abs(total - 1) > 1e-6) {
+    issues.push({ path: '', message: `leg sizes must sum to 1 (got ${Number(total.toFixed(6))})` });
+  }
+  if (!ladder.some((leg) => leg.atrTarget !== undefined)) {
+    issues.push({ path: '', message: 'needs at least one TP leg (a leg with atrTarget)' });
+  }
+  if (ladder.filter((leg) => leg.atrTarget === undefined).length > 1) {
+    issues.push({ path: '', message: 'can have at most one runner (a leg without atrTarget)' });
+  }
+
+  return issues;
+}
+
+/**
+ * Initial stop-loss price for a LONG entry
+ *
+ * @param candles - Candles up to and including the entry candle (SWING_LOW only)
+ * @returns Stop price, or undefined when it wouldn't sit between 0 and the entry price
+ */
+export function calculateInitialStop(
+  config: InitialStopConfig,
+  entryPrice: number,
+  atr: number,
+  candles: Candle[] = []
+): number | undefined {
+  let stop: number;
+
+  if (config.type === 'ATR') {
+    stop = entryPrice - atr * config.value;
+  } else if (config.type === 'PERCENT') {
+    stop = entryPrice * (1 - config.value / 100);
+  } else {
+    const recent = candles.slice(-config.value);
+    if (recent.length === 0) {
+      return undefined;
+    }
+    stop = Math.min(...recent.map((c) => c.low)) - atr * (config.bufferAtr ?? 0);
+  }
+
+  return stop > 0 && stop < entryPrice ? stop : undefined;
+}
+
+/**
+ * Attach the initial stop-loss to a LONG signal (unchanged without a config)
+ */
+export function applyInitialStop(signal: Signal, config: InitialStopConfig | undefined, candles: Candle[]): Signal {
+  if (!config || signal.type !== 'LONG') {
+    return signal;
+  }
+  return { ...signal, stopLoss: calculateInitialStop(config, signal.price, signal.atr, candles) };
+}
+
+/**
+ * Display label for a leg: TP, TP1..TPn for ladder rungs, or RUNNER
+ */
+export function getLegLabel(leg: Pick<PositionLeg, 'type' | 'level'>): string {
+  return leg.type === 'TP' && leg.level !== undefined ? `TP${leg.level}` : leg.type;
+}
+
+/**
+ * Read a leg label written by getLegLabel (e.g. from CSV logs) back into type and level
+ */
+export function parseLegLabel(label: string): Pick<PositionLeg, 'type' | 'level'> {
+  const rung = /^TP(\d+)$/.exec(label);
+  if (rung) {
+    return { type: 'TP', level: Number(rung[1]) };
+  }
+  return { type: label === 'RUNNER' ? 'RUNNER' : 'TP' };
+}
+
+/**
+ * Create a laddered position from a LONG signal
+ *
+ * TP legs are numbered by target (level 1 = nearest) when there are several;
+ * legs are returned TP legs first, nearest target first, then the runner.
+ * A signal.stopLoss below the entry price goes on every leg.
+ *
+ * @param signal - LONG signal with entry price, ATR and optional stopLoss
+ * @param ladder - Legs with sizes, targets and stop behavior
+ * @param totalUsdc - USDC for the whole position (split by leg size)
  * @param logger - Optional logger instance
- * @returns Array of two PositionLeg objects
+ * @throws If the signal isn't LONG or the ladder is invalid
  */
-export function createTwoLegPosition(
+export function createLadderPosition(
   signal: Signal,
-  usdcAmount: number = 100,
-  tpMultiplier: number = 1.0,
-  trailMultiplier: number = 2.5,
+  ladder: LadderLegConfig[],
+  totalUsdc: number,
   logger?: Logger
 ): PositionLeg[] {
   if (signal.type !== 'LONG') {
     throw new Error('Can only create positions from LONG signals');
   }
+  const issues = validateLadder(ladder);
+  if (issues.length > 0) {
+    throw new Error(`Invalid ladder: ${issues.map((issue) => `ladder${issue.path} ${issue.message}`).join('; ')}`);
+  }
 
   const entryPrice = signal.price;
   const atr = signal.atr;
   const timestamp = signal.timestamp;
   const positionId = generatePositionId(timestamp);
+  const targets = ladder
+    .filter((leg) => leg.atrTarget !== undefined)
+    .sort((a, b) => a.atrTarget! - b.atrTarget!);
+  const runner = ladder.find((leg) => leg.atrTarget === undefined);
+
+  // Fills can slip past a stop computed from the signal price; never open with a stop above entry
+  let stopLoss = signal.stopLoss;
+  if (stopLoss !== undefined && !(stopLoss < entryPrice)) {
+    logger?.warn('Ignoring stop-loss at or above entry price:', { stopLoss, entry: entryPrice });
+    stopLoss = undefined;
+  }
+  const protection = stopLoss !== undefined ? { stopLoss } : {};
 
-  // Calculate levels
-  const levels = calculateATRLevels(entryPrice, atr, tpMultiplier, trailMultiplier);
-
-  // Calculate quantities (assuming BTC, adjust decimals as needed)
-  const quantity = usdcAmount / entryPrice;
-
-  // Leg 1 - TP Leg
-  const tpLeg: PositionLeg = {
+  const legs: PositionLeg[] = targets.map((config, i) => ({
     id: generateLegId('TP', timestamp),
     positionId,
     type: 'TP',
     entryPrice,
-    quantity,
-    entryTime: timestamp,
-    targetPrice: levels.takeProfitPrice,
-    status: 'OPEN',
-  };
-
-  // Leg 2 - Runner
-  // NO initial stop - only activates when TP leg closes (buy-and-hold mentality)
-  const runnerLeg: PositionLeg = {
-    id: generateLegId('RUNNER', timestamp),
-    positionId,
-    type: 'RUNNER',
-    entryPrice,
-    quantity,
+    quantity: (totalUsdc * config.size) / entryPrice,
     entryTime: timestamp,
-    trailingStop: undefined, // No stop until TP leg closes
-    highestPrice: entryPrice, // Track highest price for trailing stop
+    targetPrice: entryPrice + atr * config.atrTarget!,
+    ...protection,
+    ...(targets.length > 1 && { level: i + 1 }),
+    ...(config.stop !== undefined && config.stop !== 'NONE' && {
+      stopMode: config.stop,
+      highestPrice: entryPrice,
+    }),
+    ...(config.stopActivation !== undefined && { stopActivation: config.stopActivation }),
     status: 'OPEN',
-  };
+  }));
+
+  if (runner) {
+    // NO initial stop - only armed once TP legs fill (buy-and-hold mentality)
+    legs.push({
+      id: generateLegId('RUNNER', timestamp),
+      positionId,
+      type: 'RUNNER',
+      entryPrice,
+      quantity: (totalUsdc * runner.size) / entryPrice,
+      entryTime: timestamp,
+      ...protection,
+      trailingStop: undefined,
+      highestPrice: entryPrice, // Track highest price for trailing stop
+      ...(runner.stop !== undefined && { stopMode: runner.stop }),
+      ...(runner.stopActivation !== undefined && { stopActivation: runner.stopActivation }),
+      status: 'OPEN',
+    });
+  }
 
-  logger?.info('Created two-leg position:', {
+  logger?.info(`Created ${legs.length}-leg position:`, {
     entry: entryPrice,
-    tpTarget: levels.takeProfitPrice,
-    initialStop: levels.initialStopPrice,
-    quantity,
+    tpTargets: legs.filter((leg) => leg.type === 'TP').map((leg) => leg.targetPrice),
+    runner: runner !== undefined,
+    stopLoss,
+    quantity: legs.reduce((sum, leg) => sum + leg.quantity, 0),
     atr,
   });
 
-  return [tpLeg, runnerLeg];
+  return legs;
+}
+
+/**
+ * Create two-leg position from a LONG signal
+ *
+ * @param signal - LONG signal with entry price and ATR
+ * @param usdcAmount - USDC amount per leg (default $100)
+ * @param tpMultiplier - ATR multiplier for TP (default 1.0)
+ * @param loggerOrTrailMultiplier - Optional logger instance. A number is the
+ *   deprecated trail multiplier: it is ignored (trailing stops are applied by
+ *   updatePositions) and the logger is taken from the next argument.
+ * @param logger - Logger after a deprecated trail multiplier
+ * @returns Array of two PositionLeg objects
+ */
+export function createTwoLegPosition(
+  signal: Signal,
+  usdcAmount: number = 100,
+  tpMultiplier: number = 1.0,
+  loggerOrTrailMultiplier?: Logger | number,
+  logger?: Logger
+): PositionLeg[] {
+  const log = typeof loggerOrTrailMultiplier === 'number' ? logger : loggerOrTrailMultiplier;
+  return createLadderPosition(signal, createTwoLegLadder(tpMultiplier), usdcAmount * 2, log);
+}
+
+/**
+ * Stop mode of a leg (TRAILING for runners and NONE for TP legs unless the ladder says otherwise)
+ */
+export function getLegStopMode(leg: Pick<PositionLeg, 'type' | 'stopMode'>): LegStopMode {
+  return leg.stopMode ?? (leg.type === 'RUNNER' ? 'TRAILING' : 'NONE');
+}
+
+/**
+ * Whether a leg's stop should arm on this update
+ *
+ * @param filled - TP legs of the leg's position filling on this update
+ * @param stillOpen - TP legs of the leg's position left open after this update
+ */
+function shouldArmStop(leg: PositionLeg, filled: PositionLeg[], stillOpen: PositionLeg[]): boolean {
+  const othersFilled = filled.some((other) => other.id !== leg.id);
+  if ((leg.stopActivation ?? 'FIRST_TP') === 'FIRST_TP') {
+    return othersFilled;
+  }
+  return othersFilled && !stillOpen.some((other) => other.id !== leg.id);
 }
 
 /**
  * Update position legs based on current price
  *
+ * TP legs close at their target, and any leg closes at its initial
+ * stop-loss until its own stop arms. Legs with a stop (the runner by default)
+ * arm it at entry + breakEvenLockMultiplier × ATR when their activation
+ * rule is met by TP legs of the same position filling; trailing stops then
+ * follow the highest price. Closed legs may already be dropped from `legs`,
+ * so activation only looks at TP legs filling on this update.
+ *
  * @param legs - Array of open position legs
  * @param currentPrice - Current BTC price
  * @param currentATR - Current ATR value
  * @param trailMultiplier - ATR multiplier for trailing stop
- * @param breakEvenLockMultiplier - Lock runner at entry + multiplier×ATR when TP closes
+ * @param breakEvenLockMultiplier - Lock stops at entry + multiplier×ATR when they arm
  * @param logger - Optional logger instance
- * @returns Updated array of legs (some may be closed)
+ * @param options - Trailing stop method and time exits
+ * @returns Updated array of legs (some may be closed), in the same order
  */
 export function updatePositions(
   legs: PositionLeg[],
@@ -111,14 +344,114 @@ export function updatePositions(
   currentATR: number,
   trailMultiplier: number = 2.5,
   breakEvenLockMultiplier: number = 0.25,
-  logger?: Logger
+  logger?: Logger,
+  options: PositionUpdateOptions = {}
 ): PositionLeg[] {
-  const updatedLegs: PositionLeg[] = [];
+  const updated = updateAtPrice(
+    legs,
+    currentPrice,
+    false,
+    currentATR,
+    trailMultiplier,
+    breakEvenLockMultiplier,
+    options.time ?? Date.now(),
+    logger,
+    options.trailingStop
+  );
+  return applyTimeExits(legs, updated, currentPrice, options, logger);
+}
+
+/**
+ * Prices a candle moves through, in order, under an intrabar policy
+ *
+ * LOWER_TIMEFRAME chains the paths of the lower-timeframe candles (each
+ * taken pessimistically) and falls back to PESSIMISTIC without them.
+ */
+export function getIntrabarPath(
+  candle: Candle,
+  policy: IntrabarPolicy = 'PESSIMISTIC',
+  lowerCandles: Candle[] = []
+): number[] {
+  if (policy === 'LOWER_TIMEFRAME' && lowerCandles.length > 0) {
+    return lowerCandles.flatMap((c) => getIntrabarPath(c));
+  }
 
-  // Check if TP leg just closed (to activate runner stops)
-  const tpJustClosed = legs.some(
-    (leg) => leg.type === 'TP' && leg.status === 'OPEN' && currentPrice >= (leg.targetPrice || 0)
+  const highFirst =
+    policy === 'OPTIMISTIC' ||
+    (policy === 'OPEN_PROXIMITY' && candle.high - candle.open < candle.open - candle.low);
+  return highFirst
+    ? [candle.open, candle.high, candle.low, candle.close]
+    : [candle.open, candle.low, candle.high, candle.close];
+}
+
+/**
+ * Update position legs from a candle's high and low
+ *
+ * Same rules as updatePositions, applied at every price of the candle's
+ * intrabar path: targets and stops fill at their level, or at the open when
+ * the candle opens beyond them (a gap). A TP fill arms stops of its position
+ * for the rest of the candle, and the highest price reached counts towards
+ * trailing stops.
+ *
+ * @param legs - Array of open position legs
+ * @param candle - Candle to evaluate
+ * @param currentATR - Current ATR value
+ * @param trailMultiplier - ATR multiplier for trailing stop
+ * @param breakEvenLockMultiplier - Lock stops at entry + multiplier×ATR when they arm
+ * @param options - Which level fills first when several are hit, trailing stop method and time exits
+ * @param logger - Optional logger instance
+ * @returns Updated array of legs (some may be closed), in the same order
+ */
+export function updatePositionsIntrabar(
+  legs: PositionLeg[],
+  candle: Candle,
+  currentATR: number,
+  trailMultiplier: number = 2.5,
+  breakEvenLockMultiplier: number = 0.25,
+  options: IntrabarOptions = {},
+  logger?: Logger
+): PositionLeg[] {
+  const path = getIntrabarPath(candle, options.policy, options.lowerCandles);
+  const time = options.time ?? Date.now();
+  const updated = path.reduce(
+    (current, price, i) =>
+      updateAtPrice(
+        current,
+        price,
+        i === 0,
+        currentATR,
+        trailMultiplier,
+        breakEvenLockMultiplier,
+        time,
+        logger,
+        options.trailingStop
+      ),
+    legs
   );
+  return applyTimeExits(legs, updated, candle.close, options, logger);
+}
+
+/**
+ * Apply one price to the legs
+ *
+ * @param gap - The price jumped here (candle open), so levels it is beyond fill at the price itself
+ * @param time - Close time of legs closing at this price
+ */
+function updateAtPrice(
+  legs: PositionLeg[],
+  currentPrice: number,
+  gap: boolean,
+  currentATR: number,
+  trailMultiplier: number,
+  breakEvenLockMultiplier: number,
+  time: number,
+  logger?: Logger,
+  trailingStop?: TrailingStopLevel
+): PositionLeg[] {
+  const updatedLegs: PositionLeg[] = [];
+  const openTpLegs = legs.filter((leg) => leg.type === 'TP' && leg.status === 'OPEN');
+  const isFilling = (leg: PositionLeg) => currentPrice >= (leg.targetPrice || 0);
+  const fillAt = (level: number) => (gap ? currentPrice : level);
 
   for (const leg of legs) {
     // Skip already closed legs
@@ -128,85 +461,115 @@ export function updatePositions(
     }
 
     const updatedLeg = { ...leg };
+    const label = getLegLabel(leg);
 
-    if (leg.type === 'TP') {
-      // Check if TP target hit
-      if (currentPrice >= leg.targetPrice!) {
-        updatedLeg.status = 'CLOSED';
-        updatedLeg.closePrice = leg.targetPrice;
-        updatedLeg.closeTime = Date.now();
-        updatedLeg.closeReason = 'TP target hit';
+    // Check if TP target hit
+    if (leg.type === 'TP' && isFilling(leg)) {
+      updatedLeg.status = 'CLOSED';
+      updatedLeg.closePrice = fillAt(leg.targetPrice!);
+      updatedLeg.closeTime = time;
+      updatedLeg.closeReason = `${label} target hit`;
 
-        const profit = (leg.targetPrice! - leg.entryPrice) * leg.quantity;
-        const profitPct = ((leg.targetPrice! - leg.entryPrice) / leg.entryPrice) * 100;
+      const profit = (updatedLeg.closePrice - leg.entryPrice) * leg.quantity;
+      const profitPct = ((updatedLeg.closePrice - leg.entryPrice) / leg.entryPrice) * 100;
 
-        logger?.info('TP leg closed:', {
-          id: leg.id,
-          entry: leg.entryPrice,
-          exit: updatedLeg.closePrice,
-          profit: profit.toFixed(4),
-          profitPct: profitPct.toFixed(2) + '%',
-        });
-      }
-    } else if (leg.type === 'RUNNER') {
-      // Activate stop if TP just closed and runner has no stop yet
-      if (tpJustClosed && leg.trailingStop === undefined) {
+      logger?.info(`${label} leg closed:`, {
+        id: leg.id,
+        entry: leg.entryPrice,
+        exit: updatedLeg.closePrice,
+        profit: profit.toFixed(4),
+        profitPct: profitPct.toFixed(2) + '%',
+      });
+
+      updatedLegs.push(updatedLeg);
+      continue;
+    }
+
+    // Initial stop-loss protects the leg until its own stop arms
+    if (leg.trailingStop === undefined && leg.stopLoss !== undefined && currentPrice <= leg.stopLoss) {
+      updatedLeg.status = 'CLOSED';
+      updatedLeg.closePrice = fillAt(leg.stopLoss);
+      updatedLeg.closeTime = time;
+      updatedLeg.closeReason = 'Stop-loss hit';
+
+      logger?.info(`${label} leg stopped out:`, {
+        id: leg.id,
+        entry: leg.entryPrice,
+        exit: updatedLeg.closePrice,
+        loss: ((updatedLeg.closePrice - leg.entryPrice) * leg.quantity).toFixed(4),
+        lossPct: (((updatedLeg.closePrice - leg.entryPrice) / leg.entryPrice) * 100).toFixed(2) + '%',
+      });
+
+      updatedLegs.push(updatedLeg);
+      continue;
+    }
+
+    // Update highest price if we made a new high
+    const newHighest = Math.max(leg.highestPrice || leg.entryPrice, currentPrice);
+    updatedLeg.highestPrice = newHighest;
+
+    const stopMode = getLegStopMode(leg);
+    if (stopMode === 'NONE') {
+      updatedLegs.push(updatedLeg);
+      continue;
+    }
+
+    // Arm the stop once enough TP legs of this position have filled
+    if (leg.trailingStop === undefined) {
+      const siblings = openTpLegs.filter((other) => other.positionId === leg.positionId);
+      if (shouldArmStop(leg, siblings.filter(isFilling), siblings.filter((other) => !isFilling(other)))) {
         const breakEvenLock = leg.entryPrice + (currentATR * breakEvenLockMultiplier);
         updatedLeg.trailingStop = breakEvenLock;
 
-        logger?.info('Runner stop activated (TP closed):', {
+        logger?.info(`${label} stop activated (TP filled):`, {
           id: leg.id,
           entry: leg.entryPrice,
           lockPrice: breakEvenLock,
           lockMultiplier: breakEvenLockMultiplier,
+          stopMode,
           currentPrice,
         });
       }
-      // Update highest price if we made a new high
-      const newHighest = Math.max(leg.highestPrice || leg.entryPrice, currentPrice);
-      updatedLeg.highestPrice = newHighest;
-
-      // Only update/check trailing stop if it's active
-      if (updatedLeg.trailingStop !== undefined) {
-        // Update trailing stop (only moves up, never down)
-        const newStop = updateTrailingStop(
-          newHighest,
-          updatedLeg.trailingStop,
-          currentATR,
-          trailMultiplier
-        );
-        updatedLeg.trailingStop = newStop;
-
-        // Check if stop hit
-        if (currentPrice <= newStop) {
-          updatedLeg.status = 'CLOSED';
-          updatedLeg.closePrice = newStop;
-          updatedLeg.closeTime = Date.now();
-          updatedLeg.closeReason = 'Trailing stop hit';
-
-          const profit = (updatedLeg.closePrice - leg.entryPrice) * leg.quantity;
-          const profitPct = ((updatedLeg.closePrice - leg.entryPrice) / leg.entryPrice) * 100;
-
-          logger?.info('Runner leg closed:', {
-            id: leg.id,
-            entry: leg.entryPrice,
-            highest: newHighest,
-            exit: updatedLeg.closePrice,
-            profit: profit.toFixed(4),
-            profitPct: profitPct.toFixed(2) + '%',
-          });
-        } else {
-          // Log trailing stop update if it moved
-          if (leg.trailingStop !== undefined && newStop > leg.trailingStop) {
-            logger?.info('Trailing stop updated:', {
-              id: leg.id,
-              oldStop: leg.trailingStop,
-              newStop: newStop,
-              highest: newHighest,
-              currentPrice,
-            });
-          }
-        }
+    }
+
+    // Only update/check the stop if it's active
+    if (updatedLeg.trailingStop !== undefined) {
+      // Trailing stops only move up, never down; break-even stops stay put
+      let newStop = updatedLeg.trailingStop;
+      if (stopMode === 'TRAILING') {
+        newStop = trailingStop
+          ? Math.max(trailingStop(updatedLeg, newHighest), updatedLeg.trailingStop)
+          : updateTrailingStop(newHighest, updatedLeg.trailingStop, currentATR, trailMultiplier);
+      }
+      updatedLeg.trailingStop = newStop;
+
+      // Check if stop hit
+      if (currentPrice <= newStop) {
+        updatedLeg.status = 'CLOSED';
+        updatedLeg.closePrice = fillAt(newStop);
+        updatedLeg.closeTime = time;
+        updatedLeg.closeReason = stopMode === 'TRAILING' ? 'Trailing stop hit' : 'Break-even stop hit';
+
+        const profit = (updatedLeg.closePrice - leg.entryPrice) * leg.quantity;
+        const profitPct = ((updatedLeg.closePrice - leg.entryPrice) / leg.entryPrice) * 100;
+
+        logger?.info(`${label} leg closed:`, {
+          id: leg.id,
+          entry: leg.entryPrice,
+          highest: newHighest,
+          exit: updatedLeg.closePrice,
+          profit: profit.toFixed(4),
+          profitPct: profitPct.toFixed(2) + '%',
+        });
+      } else if (leg.trailingStop !== undefined && newStop > leg.trailingStop) {
+        // Log trailing stop update if it moved
+        logger?.info('Trailing stop updated:', {
+          id: leg.id,
+          oldStop: leg.trailingStop,
+          newStop: newStop,
+          highest: newHighest,
+          currentPrice,
+        });
       }
     }
 
@@ -216,6 +579,93 @@ export function updatePositions(
   return updatedLegs;
 }
 
+/**
+ * Close reasons of time exits
+ */
+export const TIME_EXIT_REASONS: Record<TimeExitRule, string> = {
+  MAX_HOLDING: 'Max holding period reached',
+  NO_NEW_HIGH: 'No new high',
+  BLACKOUT: 'Blackout window',
+};
+
+/**
+ * Blackout window a time falls in, counting exitBeforeMinutes ahead of its start
+ */
+export function findBlackout(time: number, windows: BlackoutWindow[] = []): BlackoutWindow | undefined {
+  return windows.find(
+    (w) => time >= Date.parse(w.start) - (w.exitBeforeMinutes ?? 0) * 60000 && time < Date.parse(w.end)
+  );
+}
+
+/**
+ * First time exit rule an open leg has run into (blackouts, then max holding, then no new high)
+ */
+export function getTimeExitRule(leg: PositionLeg, time: number, config: TimeExitConfig): TimeExitRule | null {
+  if (findBlackout(time, config.blackouts)) {
+    return 'BLACKOUT';
+  }
+
+  const maxHours = config.maxHoldingHours?.[leg.type];
+  if (maxHours !== undefined && time - leg.entryTime >= maxHours * 3600000) {
+    return 'MAX_HOLDING';
+  }
+
+  if (config.noNewHighCandles !== undefined && (leg.candlesSinceHigh ?? 0) >= config.noNewHighCandles) {
+    return 'NO_NEW_HIGH';
+  }
+  return null;
+}
+
+/**
+ * Count candles since each leg's last new high and close legs whose time ran out
+ *
+ * Runs once per candle, after targets and stops.
+ *
+ * @param before - Legs as they were before this candle
+ * @param after - Legs after targets and stops were checked (same order)
+ * @param price - Price time exits close at
+ */
+function applyTimeExits(
+  before: PositionLeg[],
+  after: PositionLeg[],
+  price: number,
+  options: PositionUpdateOptions,
+  logger?: Logger
+): PositionLeg[] {
+  const config = options.timeExits;
+  if (!config) {
+    return after;
+  }
+  const time = options.time ?? Date.now();
+
+  return after.map((leg, i) => {
+    if (leg.status === 'CLOSED') {
+      return leg;
+    }
+
+    const previousHighest = before[i].highestPrice ?? before[i].entryPrice;
+    const updated: PositionLeg = {
+      ...leg,
+      candlesSinceHigh: (leg.highestPrice ?? 0) > previousHighest ? 0 : (before[i].candlesSinceHigh ?? 0) + 1,
+    };
+
+    const rule = getTimeExitRule(updated, time, config);
+    if (!rule) {
+      return updated;
+    }
+
+    logger?.info(`${getLegLabel(leg)} leg closed by time exit:`, {
+      id: leg.id,
+      rule,
+      entry: leg.entryPrice,
+      exit: price,
+      heldHours: ((time - leg.entryTime) / 3600000).toFixed(1),
+    });
+
+    return { ...updated, status: 'CLOSED', closePrice: price, closeTime: time, closeReason: TIME_EXIT_REASONS[rule] };
+  });
+}
+
 /**
  * Get only open position legs
  *
@@ -0,0 +1,155 @@
+import type { Candle, RegimeConfig, RegimeRule } from '../types';
+import type { TrendDirection, VolatilityLevel } from '../journal/types';
+import { calculateADXSeries } from '../indicators/adx';
+import { calculateATRSeries } from '../indicators/atr';
+import { calculateMovingAverage } from '../indicators/movingAverages';
+
+/**
+ * Market Regime Classifier
+ *
+ * Labels the market behind a candle the same way everywhere (journal
+ * MarketContext, entry gating, backtests):
+ *
+ * - Trend: BULLISH when ADX is at or above the threshold, +DI leads -DI
+ *   and the moving average slopes up; BEARISH for the mirror image;
+ *   NEUTRAL otherwise (ranging market or the two disagree)
+ * - Volatility: the current ATR percent (ATR / close) ranked against the
+ *   last volatilityWindow values; LOW at or below lowPercentile, HIGH at
+ *   or above highPercentile, NORMAL in between
+ *
+ * Until enough candles are available the regime is NEUTRAL / NORMAL.
+ */
+
+export interface MarketRegime {
+  trend: TrendDirection;
+  volatility: VolatilityLevel;
+  adx?: number;
+  plusDI?: number;
+  minusDI?: number;
+  /** MA change over slopeLookback candles, in percent */
+  maSlopePct?: number;
+  atrPercent?: number;
+  /** Share of the volatility window at or below the current ATR percent (0-100) */
+  atrPercentile?: number;
+}
+
+export interface RegimeCheck {
+  allowed: boolean;
+  /** Human-readable rejection reason (when not allowed) */
+  reason?: string;
+  /** Rule that blocked the entry */
+  rule?: RegimeRule;
+}
+
+export class RegimeClassifier {
+  private adxPeriod: number;
+  private adxThreshold: number;
+  private maType: NonNullable<RegimeConfig['maType']>;
+  private maPeriod: number;
+  private slopeLookback: number;
+  private atrPeriod: number;
+  private volatilityWindow: number;
+  private lowPercentile: number;
+  private highPercentile: number;
+  private blockLongs: RegimeRule[];
+
+  constructor(config: RegimeConfig = {}) {
+    this.adxPeriod = config.adxPeriod ?? 14;
+    this.adxThreshold = config.adxThreshold ?? 25;
+    this.maType = config.maType ?? 'EMA';
+    this.maPeriod = config.maPeriod ?? 50;
+    this.slopeLookback = config.slopeLookback ?? 5;
+    this.atrPeriod = config.atrPeriod ?? 14;
+    this.volatilityWindow = config.volatilityWindow ?? 100;
+    this.lowPercentile = config.lowPercentile ?? 25;
+    this.highPercentile = config.highPercentile ?? 75;
+    this.blockLongs = config.blockLongs ?? [];
+  }
+
+  /**
+   * Candles needed before both trend and volatility are classified
+   */
+  get warmupCandles(): number {
+    return Math.max(
+      this.adxPeriod * 2,
+      this.maPeriod + this.slopeLookback,
+      this.atrPeriod + this.volatilityWindow
+    );
+  }
+
+  /**
+   * Classify the regime as of the last candle
+   *
+   * @param candles - Candles in chronological order (only the last warmupCandles matter much)
+   */
+  classify(candles: Candle[]): MarketRegime {
+    const regime: MarketRegime = { trend: 'NEUTRAL', volatility: 'NORMAL' };
+    if (candles.length === 0) {
+      return regime;
+    }
+
+    const adx = calculateADXSeries(candles, this.adxPeriod).pop();
+    const ma = calculateMovingAverage(candles.map((c) => c.close), this.maPeriod, this.maType);
+    const current = ma[ma.length - 1] ?? null;
+    const previous = ma[ma.length - 1 - this.slopeLookback] ?? null;
+
+    if (adx) {
+      regime.adx = adx.adx;
+      regime.plusDI = adx.plusDI;
+      regime.minusDI = adx.minusDI;
+    }
+    if (current !== null && previous !== null && previous !== 0) {
+      regime.maSlopePct = (current / previous - 1) * 100;
+    }
+    if (adx && regime.maSlopePct !== undefined && adx.adx >= this.adxThreshold) {
+      if (adx.plusDI > adx.minusDI && regime.maSlopePct > 0) {
+        regime.trend = 'BULLISH';
+      } else if (adx.minusDI > adx.plusDI && regime.maSlopePct < 0) {
+        regime.trend = 'BEARISH';
+      }
+    }
+
+    const recent = candles.slice(-(this.atrPeriod + this.volatilityWindow));
+    const atrPercents: number[] = [];
+    calculateATRSeries(recent, this.atrPeriod).forEach((atr, i) => {
+      if (atr !== null) atrPercents.push((atr / recent[i].close) * 100);
+    });
+
+    if (atrPercents.length > 0) {
+      regime.atrPercent = atrPercents[atrPercents.length - 1];
+    }
+    if (atrPercents.length >= this.volatilityWindow) {
+      const atOrBelow = atrPercents.filter((value) => value <= regime.atrPercent!).length;
+      regime.atrPercentile = (atOrBelow / atrPercents.length) * 100;
+
+      if (regime.atrPercentile <= this.lowPercentile) {
+        regime.volatility = 'LOW';
+      } else if (regime.atrPercentile >= this.highPercentile) {
+        regime.volatility = 'HIGH';
+      }
+    }
+
+    return regime;
+  }
+
+  /**
+   * Check whether a LONG entry is allowed in a regime (first matching blockLongs rule wins)
+   */
+  checkEntry(regime: Pick<MarketRegime, 'trend' | 'volatility'>): RegimeCheck {
+    const rule = this.blockLongs.find(
+      (r) =>
+        (r.trend === undefined || r.trend === regime.trend) &&
+        (r.volatility === undefined || r.volatility === regime.volatility)
+    );
+
+    if (!rule) {
+      return { allowed: true };
+    }
+
+    return {
+      allowed: false,
+      reason: `LONG entries blocked in ${regime.trend} trend, ${regime.volatility} volatility regime`,
+      rule,
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import type { IndicatorConfig } from '../types';
+import type { Strategy } from './Strategy';
+import {
+  MFIStrategy,
+  TCF2Strategy,
+  KPSSStrategy,
+  TDFIStrategy,
+  DSSMOMStrategy,
+  MovingAverageStrategy,
+  MACDStrategy,
+  SuperTrendStrategy,
+  BollingerStrategy,
+  KeltnerStrategy,
+  DonchianStrategy,
+  OBVStrategy,
+  VWAPStrategy,
+  CMFStrategy,
+  VolumeZScoreStrategy,
+  DivergenceStrategy,
+} from './strategies';
+import { listIndicators } from '../indicators/registry';
+
+/**
+ * Strategy Registry
+ *
+ * Maps IndicatorConfig.type to a strategy factory. Built-in indicators are
+ * registered on import; custom strategies can be added with registerStrategy:
+ *
+ *   registerStrategy('my-rsi', (params) => new MyRsiStrategy(params));
+ *   const config: IndicatorConfig = { type: 'my-rsi', params: { period: 14 } };
+ *
+ * Every built-in indicator also gets a `<type>-divergence` strategy (e.g. 'mfi-divergence').
+ */
+
+export type StrategyFactory = (params: Record<string, number>) => Strategy;
+
+const registry = new Map<string, StrategyFactory>();
+
+/**
+ * Register a strategy factory under a type name
+ *
+ * @param type - Name used in IndicatorConfig.type
+ * @param factory - Creates a strategy from IndicatorConfig.params
+ * @param options.override - Replace an existing registration (default: false)
+ */
+export function registerStrategy(
+  type: string,
+  factory: StrategyFactory,
+  options: { override?: boolean } = {}
+): void {
+  if (registry.has(type) && !options.override) {
+    throw new Error(`Strategy already registered: ${type}`);
+  }
+  registry.set(type, factory);
+}
+
+/**
+ * Create a strategy from an indicator config
+ *
+ * @throws If no strategy is registered for config.type
+ */
+export function createStrategy(config: IndicatorConfig): Strategy {
+  const factory = registry.get(config.type);
+  if (!factory) {
+    throw new Error(
+      `Unknown strategy type: ${config.type} (registered: ${getRegisteredStrategies().join(', ')})`
+    );
+  }
+  return factory(config.params ?? {});
+}
+
+/**
+ * Check whether a strategy type is registered
+ */
+export function hasStrategy(type: string): boolean {
+  return registry.has(type);
+}
+
+/**
+ * Get all registered strategy type names
+ */
+export function getRegisteredStrategies(): string[] {
+  return [...registry.keys()];
+}
+
+registerStrategy('mfi', (params) => new MFIStrategy(params));
+registerStrategy('tcf2', (params) => new TCF2Strategy(params));
+registerStrategy('kpss', (params) => new KPSSStrategy(params));
+registerStrategy('tdfi', (params) => new TDFIStrategy(params));
+registerStrategy('dssmom', (params) => new DSSMOMStrategy(params));
+registerStrategy('sma', (params) => new MovingAverageStrategy('SMA', params));
+registerStrategy('ema', (params) => new MovingAverageStrategy('EMA', params));
+registerStrategy('wma', (params) => new MovingAverageStrategy('WMA', params));
+registerStrategy('hma', (params) => new MovingAverageStrategy('HMA', params));
+registerStrategy('macd', (params) => new MACDStrategy(params));
+registerStrategy('supertrend', (params) => new SuperTrendStrategy(params));
+registerStrategy('bollinger', (params) => new BollingerStrategy(params));
+registerStrategy('keltner', (params) => new KeltnerStrategy(params));
+registerStrategy('donchian', (params) => new DonchianStrategy(params));
+registerStrategy('obv', (params) => new OBVStrategy(params));
+registerStrategy('vwap', (params) => new VWAPStrategy(params));
+registerStrategy('cmf', (params) => new CMFStrategy(params));
+registerStrategy('volumezscore', (params) => new VolumeZScoreStrategy(params));
+
+for (const { id } of listIndicators()) {
+  registerStrategy(`${id}-divergence`, (params) => new DivergenceStrategy(id, params));
+}
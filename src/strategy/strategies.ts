@@ -0,0 +1,413 @@
+import type { Candle, ChannelSignalMode, IndicatorType, MovingAverageType } from '../types';
+import { calculateMFISeries, detectMFICross } from '../indicators/mfi';
+import { calculateTCF2WithSignal } from '../indicators/tcf2';
+import { calculateKPSSWithSignal } from '../indicators/kpss';
+import { calculateTDFIWithSignal } from '../indicators/tdfi';
+import { calculateDSSMOMWithSignal } from '../indicators/dssmom';
+import { calculateMovingAverageWithSignal } from '../indicators/movingAverages';
+import { calculateMACDWithSignal } from '../indicators/macd';
+import { calculateSuperTrendWithSignal } from '../indicators/supertrend';
+import { calculateBollingerWithSignal } from '../indicators/bollinger';
+import { calculateKeltnerWithSignal } from '../indicators/keltner';
+import { calculateDonchianWithSignal } from '../indicators/donchian';
+import { calculateOBVWithSignal } from '../indicators/obv';
+import { calculateVWAPWithSignal } from '../indicators/vwap';
+import { calculateCMFWithSignal } from '../indicators/cmf';
+import { calculateVolumeZScoreWithSignal } from '../indicators/volumeZScore';
+import { detectDivergences } from '../indicators/divergence';
+import { getIndicatorDefinition, getIndicatorValues, getIndicatorWarmup } from '../indicators/registry';
+import { IndicatorStrategy, type IndicatorReading } from './Strategy';
+
+/**
+ * Built-in Strategies
+ *
+ * One strategy per built-in indicator. Params come from IndicatorConfig.params
+ * and fall back to each indicator's own defaults. All accept atrPeriod (default 14).
+ * Warm-up lengths come from the indicator registry (indicators/registry.ts).
+ *
+ * Besides the cross signal, each reports a trend (e.g. line above/below its
+ * signal line), which composite FILTER members use to gate entries.
+ */
+
+/**
+ * MFI crosses: LONG on cross up through buyLevel, SHORT on cross down through sellLevel
+ * Trend: LONG above 50, SHORT below 50
+ *
+ * Params: period (14), buyLevel (30), sellLevel (70)
+ */
+export class MFIStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number> = {}) {
+    super('mfi', params);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const p = this.params;
+    const series = calculateMFISeries(candles, p.period ?? 14);
+    const current = series[series.length - 1];
+    const previous = series[series.length - 2];
+    if (current === null || current === undefined || previous === null || previous === undefined) {
+      return null;
+    }
+
+    return {
+      type: detectMFICross(previous, current, p.buyLevel ?? 30, p.sellLevel ?? 70),
+      value: current,
+      previousValue: previous,
+      trend: current > 50 ? 'LONG' : current < 50 ? 'SHORT' : 'NONE',
+    };
+  }
+}
+
+/**
+ * TCF2 line crosses (value = line1 - line2)
+ *
+ * Params: n (14), t3Period (5), b (0.618)
+ */
+export class TCF2Strategy extends IndicatorStrategy {
+  constructor(params: Record<string, number> = {}) {
+    super('tcf2', params);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const p = this.params;
+    const { result, signal, trend } = calculateTCF2WithSignal(candles, p.n, p.t3Period, p.b);
+    return result ? { type: signal, value: result.line1 - result.line2, trend } : null;
+  }
+}
+
+/**
+ * KPSS crosses of the smoothed stochastic and its signal line
+ *
+ * Params: pstLength (8), pstX (4), pstSmooth (3), smoothPeriod (11)
+ */
+export class KPSSStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number> = {}) {
+    super('kpss', params);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const p = this.params;
+    const { result, signal, trend } = calculateKPSSWithSignal(
+      candles,
+      p.pstLength,
+      p.pstX,
+      p.pstSmooth,
+      p.smoothPeriod
+    );
+    return result ? { type: signal, value: result.value, trend } : null;
+  }
+}
+
+/**
+ * TDFI trigger level crosses
+ *
+ * Params: trendPeriod (20), triggerUp (0.05), triggerDown (-0.05), smoothLength (5)
+ */
+export class TDFIStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number> = {}) {
+    super('tdfi', params);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const p = this.params;
+    const { result, signal, trend } = calculateTDFIWithSignal(
+      candles,
+      p.trendPeriod,
+      p.triggerUp,
+      p.triggerDown,
+      p.smoothLength
+    );
+    return result ? { type: signal, value: result.value, trend } : null;
+  }
+}
+
+/**
+ * DSS-MOM crosses of DSS and its signal line
+ *
+ * Params: stochasticLength (32), smoothMA (15), signalMA (3), momPeriod (14)
+ */
+export class DSSMOMStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number> = {}) {
+    super('dssmom', params);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const p = this.params;
+    const { result, signal, trend } = calculateDSSMOMWithSignal(
+      candles,
+      p.stochasticLength,
+      p.smoothMA,
+      p.signalMA,
+      p.momPeriod
+    );
+    return result ? { type: signal, value: result.dss, trend } : null;
+  }
+}
+
+/**
+ * Close crossing a moving average (value = average)
+ * Registered as 'sma', 'ema', 'wma' and 'hma'
+ *
+ * Params: period (20)
+ */
+export class MovingAverageStrategy extends IndicatorStrategy {
+  private maType: MovingAverageType;
+
+  constructor(maType: MovingAverageType, params: Record<string, number> = {}) {
+    super(maType.toLowerCase(), params);
+    this.maType = maType;
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const { result, signal, trend } = calculateMovingAverageWithSignal(
+      candles,
+      this.maType,
+      this.params.period ?? 20
+    );
+    return result ? { type: signal, value: result.value, trend } : null;
+  }
+}
+
+/**
+ * MACD crosses of its signal line (value = histogram)
+ *
+ * Params: fastPeriod (12), slowPeriod (26), signalPeriod (9)
+ */
+export class MACDStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number> = {}) {
+    super('macd', params);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const p = this.params;
+    const { result, signal, trend } = calculateMACDWithSignal(
+      candles,
+      p.fastPeriod,
+      p.slowPeriod,
+      p.signalPeriod
+    );
+    return result ? { type: signal, value: result.histogram, trend } : null;
+  }
+}
+
+/**
+ * SuperTrend flips (value = SuperTrend line)
+ *
+ * Params: period (10), multiplier (3)
+ */
+export class SuperTrendStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number> = {}) {
+    super('supertrend', params);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const p = this.params;
+    const { result, signal, trend } = calculateSuperTrendWithSignal(candles, p.period, p.multiplier);
+    return result ? { type: signal, value: result.value, trend } : null;
+  }
+}
+
+/**
+ * Channel params are numeric: breakout = 1 selects BREAKOUT, 0 selects REENTRY
+ */
+function channelMode(params: Record<string, number>, fallback: ChannelSignalMode): ChannelSignalMode {
+  if (params.breakout === undefined) {
+    return fallback;
+  }
+  return params.breakout ? 'BREAKOUT' : 'REENTRY';
+}
+
+/**
+ * Bollinger Band crosses (value = %B), re-entry by default
+ *
+ * Params: period (20), multiplier (2), breakout (0)
+ */
+export class BollingerStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number> = {}) {
+    super('bollinger', params);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const p = this.params;
+    const { result, signal, trend } = calculateBollingerWithSignal(
+      candles,
+      p.period,
+      p.multiplier,
+      channelMode(p, 'REENTRY')
+    );
+    return result ? { type: signal, value: result.percentB, trend } : null;
+  }
+}
+
+/**
+ * Keltner Channel crosses (value = middle line), breakout by default
+ *
+ * Params: period (20), channelAtrPeriod (10), multiplier (2), breakout (1)
+ */
+export class KeltnerStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number> = {}) {
+    super('keltner', params);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const p = this.params;
+    const { result, signal, trend } = calculateKeltnerWithSignal(
+      candles,
+      p.period,
+      p.channelAtrPeriod,
+      p.multiplier,
+      channelMode(p, 'BREAKOUT')
+    );
+    return result ? { type: signal, value: result.middle, trend } : null;
+  }
+}
+
+/**
+ * Donchian Channel breakouts (value = upper band), breakout by default
+ *
+ * Params: period (20), breakout (1)
+ */
+export class DonchianStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number> = {}) {
+    super('donchian', params);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const p = this.params;
+    const { result, signal, trend } = calculateDonchianWithSignal(candles, p.period, channelMode(p, 'BREAKOUT'));
+    return result ? { type: signal, value: result.upper, trend } : null;
+  }
+}
+
+/**
+ * OBV crosses of its signal line (value = OBV)
+ * As a FILTER: passes while OBV is above its signal line
+ *
+ * Params: signalPeriod (20)
+ */
+export class OBVStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number> = {}) {
+    super('obv', params);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const { result, signal, trend } = calculateOBVWithSignal(candles, this.params.signalPeriod);
+    return result ? { type: signal, value: result.value, trend } : null;
+  }
+}
+
+/**
+ * Close crossing VWAP (value = VWAP)
+ * As a FILTER: passes while the close is above VWAP
+ *
+ * Params: period (0 = VWAP anchored at 00:00 UTC, > 0 = rolling window)
+ */
+export class VWAPStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number> = {}) {
+    super('vwap', params);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const { result, signal, trend } = calculateVWAPWithSignal(candles, this.params.period ?? 0, 'DAY');
+    return result ? { type: signal, value: result.value, trend } : null;
+  }
+}
+
+/**
+ * CMF trigger level crosses (value = CMF)
+ * As a FILTER: passes while CMF is positive
+ *
+ * Params: period (20), buyLevel (0.05), sellLevel (-0.05)
+ */
+export class CMFStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number> = {}) {
+    super('cmf', params);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const p = this.params;
+    const { result, signal, trend } = calculateCMFWithSignal(candles, p.period, p.buyLevel, p.sellLevel);
+    return result ? { type: signal, value: result.value, trend } : null;
+  }
+}
+
+/**
+ * Volume spikes (value = z-score)
+ * As a FILTER: passes only on a bullish candle with a volume spike
+ *
+ * Params: period (20), threshold (2)
+ */
+export class VolumeZScoreStrategy extends IndicatorStrategy {
+  constructor(params: Record<string, number> = {}) {
+    super('volumezscore', params);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const p = this.params;
+    const { result, signal, trend } = calculateVolumeZScoreWithSignal(candles, p.period, p.threshold);
+    return result ? { type: signal, value: result.value, trend } : null;
+  }
+}
+
+const DIVERGENCE_PARAMS = ['pivotLeft', 'pivotRight', 'minDistance', 'maxDistance', 'alignment', 'hidden', 'output', 'trendWindow'];
+
+/**
+ * Price / indicator divergence on any registry indicator (registered as `<indicator>-divergence`)
+ * LONG / SHORT on the candle a bullish / bearish divergence is confirmed
+ * Trend: direction of the latest divergence confirmed within trendWindow candles,
+ * so as a FILTER it passes entries shortly after a bullish divergence
+ *
+ * Params: pivotLeft (5), pivotRight (5), minDistance (5), maxDistance (60), alignment (3),
+ * hidden (0 = regular only, 1 = regular and hidden), output (index into the indicator's
+ * outputs, 0), trendWindow (20); everything else goes to the source indicator
+ */
+export class DivergenceStrategy extends IndicatorStrategy {
+  private source: IndicatorType;
+  private sourceParams: Record<string, number>;
+
+  constructor(source: IndicatorType, params: Record<string, number> = {}) {
+    super(`${source}-divergence`, params);
+    this.source = source;
+    this.sourceParams = Object.fromEntries(
+      Object.entries(params).filter(([name]) => !DIVERGENCE_PARAMS.includes(name))
+    );
+  }
+
+  protected indicatorWarmup(): number {
+    const p = this.params;
+    return getIndicatorWarmup(this.source, this.sourceParams) + (p.pivotLeft ?? 5) + (p.minDistance ?? 5) + (p.pivotRight ?? 5);
+  }
+
+  protected evaluate(candles: Candle[]): IndicatorReading | null {
+    const p = this.params;
+    const outputs = getIndicatorDefinition(this.source).outputs;
+    const output = outputs[p.output ?? 0];
+    if (output === undefined) {
+      throw new Error(`${this.name}: output must be between 0 and ${outputs.length - 1}`);
+    }
+
+    const values = getIndicatorValues(this.source, candles, this.sourceParams, output);
+    const current = values[values.length - 1];
+    if (current === null) {
+      return null;
+    }
+
+    const last = candles.length - 1;
+    const divergences = detectDivergences(candles, values, {
+      pivotLeft: p.pivotLeft,
+      pivotRight: p.pivotRight,
+      minDistance: p.minDistance,
+      maxDistance: p.maxDistance,
+      alignment: p.alignment,
+    }).filter((d) => d.type === 'REGULAR' || p.hidden === 1);
+    const latest = divergences[divergences.length - 1];
+    const direction = latest?.direction === 'BULLISH' ? 'LONG' : 'SHORT';
+
+    return {
+      type: latest?.confirmedIndex === last ? direction : 'NONE',
+      value: current,
+      previousValue: values[values.length - 2] ?? undefined,
+      trend: latest && last - latest.confirmedIndex < (p.trendWindow ?? 20) ? direction : 'NONE',
+    };
+  }
+}
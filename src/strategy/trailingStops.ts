@@ -0,0 +1,127 @@
+import type { Candle, PositionLeg, TrailingStopConfig } from '../types';
+import { calculateATRSeries } from '../indicators/atr';
+import { calculateSuperTrendSeries } from '../indicators/supertrend';
+
+/**
+ * Trailing Stop Methods
+ *
+ * Turns PositionConfig.trailingStop into the level an armed TRAILING stop
+ * should move to on the current candle. updatePositions keeps the higher of
+ * that level and the current stop, so a method only ever tightens a stop.
+ *
+ * Levels that depend on the candle series (Chandelier, SuperTrend, Parabolic
+ * SAR) are computed once per candle; the rest only need the leg and the
+ * highest price reached, so intrabar evaluation can re-apply them per price.
+ */
+
+/**
+ * Market data for one candle's trailing stop update
+ */
+export interface TrailingStopContext {
+  /** Candles up to and including the current one */
+  candles: Candle[];
+  atr: number;
+  /** ATR multiple of the ATR method (PositionConfig.atrTrailMultiplier) */
+  trailMultiplier: number;
+}
+
+/**
+ * Stop level for a leg given the highest price it reached (-Infinity: no level yet)
+ */
+export type TrailingStopLevel = (leg: PositionLeg, highestPrice: number) => number;
+
+/**
+ * Create the trailing stop level function for the current candle
+ *
+ * @param config - Trailing stop method (default ATR)
+ * @param context - Candles, ATR and ATR multiple for this candle
+ */
+export function createTrailingStop(
+  config: TrailingStopConfig | undefined,
+  context: TrailingStopContext
+): TrailingStopLevel {
+  const { candles, atr, trailMultiplier } = context;
+  const method: TrailingStopConfig = config ?? { type: 'ATR' };
+
+  switch (method.type) {
+    case 'ATR':
+      return (_leg, highest) => highest - atr * trailMultiplier;
+
+    case 'PERCENT': {
+      const percent = method.percent ?? 0;
+      return (_leg, highest) => highest * (1 - percent / 100);
+    }
+
+    case 'R_MULTIPLE': {
+      const steps = method.steps ?? [];
+      return (leg, highest) => {
+        if (leg.stopLoss === undefined) {
+          return -Infinity;
+        }
+        const risk = leg.entryPrice - leg.stopLoss;
+        return steps
+          .filter((step) => highest >= leg.entryPrice + step.profitR * risk)
+          .reduce((level, step) => Math.max(level, leg.entryPrice + step.lockR * risk), -Infinity);
+      };
+    }
+
+    case 'CHANDELIER': {
+      const period = method.period ?? 22;
+      const multiplier = method.multiplier ?? 3;
+      const chandelierAtr = calculateATRSeries(candles, period).pop() ?? null;
+      if (chandelierAtr === null) {
+        return () => -Infinity;
+      }
+      const highestHigh = Math.max(...candles.slice(-period).map((c) => c.high));
+      const level = highestHigh - multiplier * chandelierAtr;
+      return () => level;
+    }
+
+    case 'SUPERTREND': {
+      const last = calculateSuperTrendSeries(candles, method.period ?? 10, method.multiplier ?? 3).pop();
+      const level = last?.trend === 'LONG' ? last.value : -Infinity;
+      return () => level;
+    }
+
+    case 'PARABOLIC_SAR': {
+      const acceleration = method.acceleration ?? 0.02;
+      const maxAcceleration = method.maxAcceleration ?? 0.2;
+      const byEntry = new Map<number, number>();
+      return (leg) => {
+        if (!byEntry.has(leg.entryTime)) {
+          const start = candles.findIndex((c) => c.timestamp >= leg.entryTime);
+          const since = start === -1 ? [] : candles.slice(start);
+          byEntry.set(leg.entryTime, calculateLongSAR(since, acceleration, maxAcceleration));
+        }
+        return byEntry.get(leg.entryTime)!;
+      };
+    }
+  }
+}
+
+/**
+ * Parabolic SAR of a long trade for the last candle, starting below the first one
+ *
+ * Each candle the SAR moves acceleration × (extreme point - SAR) towards the
+ * highest high, but never above the previous two lows. The acceleration
+ * grows by one step per new high, up to maxAcceleration.
+ */
+function calculateLongSAR(candles: Candle[], acceleration: number, maxAcceleration: number): number {
+  if (candles.length < 2) {
+    return -Infinity;
+  }
+
+  let sar = candles[0].low;
+  let extreme = candles[0].high;
+  let factor = acceleration;
+
+  for (let i = 1; i < candles.length; i++) {
+    sar = Math.min(sar + factor * (extreme - sar), candles[i - 1].low, candles[Math.max(0, i - 2)].low);
+    if (candles[i].high > extreme) {
+      extreme = candles[i].high;
+      factor = Math.min(factor + acceleration, maxAcceleration);
+    }
+  }
+
+  return sar;
+}
@@ -2,6 +2,9 @@
  * Core type definitions for the Trading Bot Platform
  */
 
+import type { BinanceInterval } from '../data/BinanceFetcher';
+import type { TrendDirection, VolatilityLevel } from '../journal/types';
+
 // ============================================================================
 // Candle & Market Data
 // ============================================================================
@@ -52,6 +55,132 @@ export interface DSSMOMResult {
   timestamp: number;
 }
 
+export type MovingAverageType = 'SMA' | 'EMA' | 'WMA' | 'HMA';
+
+export interface MovingAverageResult {
+  value: number;
+  type: MovingAverageType;
+  timestamp: number;
+}
+
+export interface MACDResult {
+  macd: number;
+  signal: number;
+  histogram: number;
+  timestamp: number;
+}
+
+export interface SuperTrendResult {
+  value: number;          // Lower band in an uptrend, upper band in a downtrend
+  trend: 'LONG' | 'SHORT';
+  upper: number;
+  lower: number;
+  timestamp: number;
+}
+
+export interface BollingerResult {
+  middle: number;
+  upper: number;
+  lower: number;
+  percentB: number;       // 0 at the lower band, 1 at the upper band
+  bandwidth: number;      // (upper - lower) / middle
+  timestamp: number;
+}
+
+export interface KeltnerResult {
+  middle: number;
+  upper: number;
+  lower: number;
+  timestamp: number;
+}
+
+export interface DonchianResult {
+  upper: number;
+  middle: number;
+  lower: number;
+  timestamp: number;
+}
+
+export interface OBVResult {
+  value: number;
+  signal: number;         // EMA of OBV
+  timestamp: number;
+}
+
+/**
+ * Anchored VWAP reset point: 00:00 UTC daily, Monday 00:00 UTC weekly, or never
+ */
+export type VWAPAnchor = 'DAY' | 'WEEK' | 'NONE';
+
+export interface VWAPResult {
+  value: number;
+  timestamp: number;
+}
+
+export interface CMFResult {
+  value: number;
+  timestamp: number;
+}
+
+export interface VolumeZScoreResult {
+  value: number;          // z-score of volume against the previous period candles
+  volume: number;
+  mean: number;
+  direction: number;      // Sign of close - open (1, -1 or 0)
+  timestamp: number;
+}
+
+export interface ADXResult {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+  timestamp: number;
+}
+
+/**
+ * How channel indicators signal:
+ * - BREAKOUT: close crosses out of the channel
+ * - REENTRY: close comes back inside after closing outside (mean reversion)
+ */
+export type ChannelSignalMode = 'BREAKOUT' | 'REENTRY';
+
+/**
+ * Swing pivot: a value more extreme than `left` values before it and
+ * `right` values after it (known only `right` candles later)
+ */
+export interface Pivot {
+  index: number;
+  value: number;
+  kind: 'HIGH' | 'LOW';
+}
+
+/**
+ * - REGULAR: price makes a new extreme the indicator doesn't confirm (reversal)
+ * - HIDDEN: the indicator makes a new extreme price doesn't (continuation)
+ */
+export type DivergenceType = 'REGULAR' | 'HIDDEN';
+export type DivergenceDirection = 'BULLISH' | 'BEARISH';
+
+export interface DivergencePoint {
+  /** Candle index of the price pivot */
+  index: number;
+  timestamp: number;
+  price: number;
+  /** Candle index of the matching indicator pivot (within the alignment window) */
+  indicatorIndex: number;
+  indicator: number;
+}
+
+export interface Divergence {
+  type: DivergenceType;
+  direction: DivergenceDirection;
+  start: DivergencePoint;
+  end: DivergencePoint;
+  /** Candle at which both end pivots are confirmed (earliest it can be acted on) */
+  confirmedIndex: number;
+  timestamp: number;
+}
+
 // Generic indicator result type
 export type IndicatorResult =
   | MFIResult
@@ -59,7 +188,18 @@ export type IndicatorResult =
   | TCF2Result
   | KPSSResult
   | TDFIResult
-  | DSSMOMResult;
+  | DSSMOMResult
+  | MovingAverageResult
+  | MACDResult
+  | SuperTrendResult
+  | BollingerResult
+  | KeltnerResult
+  | DonchianResult
+  | OBVResult
+  | VWAPResult
+  | CMFResult
+  | VolumeZScoreResult
+  | ADXResult;
 
 // ============================================================================
 // Signals
@@ -75,6 +215,27 @@ export interface Signal {
   atr: number;
   indicator?: string;
   indicatorValue?: number;
+  previousIndicatorValue?: number;
+  trend?: SignalType;          // Trend state, for indicators that report one
+  stopLoss?: number;           // LONG only: protective stop for every leg of the new position
+  metadata?: SignalMetadata;
+}
+
+/**
+ * Contribution of one indicator to a combined signal
+ */
+export interface SignalComponent {
+  indicator: string;
+  role: CombinatorRole;
+  type: SignalType;
+  value?: number;
+  previousValue?: number;
+  trend?: SignalType;
+}
+
+export interface SignalMetadata {
+  components?: SignalComponent[];
+  [key: string]: unknown;
 }
 
 export interface AssetSignal extends Signal {
@@ -87,6 +248,20 @@ export interface AssetSignal extends Signal {
 
 export type LegType = 'TP' | 'RUNNER';
 
+/**
+ * Stop a leg gets once armed:
+ * - NONE: no stop (TP legs wait for their target, runners for a trim signal)
+ * - BREAKEVEN: fixed at entry + breakEvenLockMultiplier × ATR
+ * - TRAILING: starts at the break-even lock, then trails the highest price
+ */
+export type LegStopMode = 'NONE' | 'BREAKEVEN' | 'TRAILING';
+
+/**
+ * When a leg's stop arms: once the first other TP leg of the position fills,
+ * or once every other TP leg has filled
+ */
+export type StopActivation = 'FIRST_TP' | 'ALL_TP';
+
 export interface PositionLeg {
   id: string;
   positionId?: string;       // Shared ID for multi-leg positions
@@ -95,8 +270,13 @@ export interface PositionLeg {
   quantity: number;
   entryTime: number;
   targetPrice?: number;      // TP leg only
-  trailingStop?: number;     // RUNNER leg only
-  highestPrice?: number;     // RUNNER leg tracking
+  stopLoss?: number;         // Initial protective stop, from entry until the leg's own stop arms
+  trailingStop?: number;     // Armed stop (RUNNER trailing stop, or a ladder leg's stop)
+  highestPrice?: number;     // Highest price since entry
+  candlesSinceHigh?: number; // Candles since highestPrice last rose (time exits only)
+  level?: number;            // TP rung in ladders with several TP legs (1 = nearest target)
+  stopMode?: LegStopMode;    // default: NONE for TP, TRAILING for RUNNER
+  stopActivation?: StopActivation; // default: FIRST_TP
   status: 'OPEN' | 'CLOSED';
   closePrice?: number;
   closeTime?: number;
@@ -143,16 +323,199 @@ export interface AssetConfig {
   enabled: boolean;
 }
 
+export type IndicatorType =
+  | 'mfi'
+  | 'tcf2'
+  | 'kpss'
+  | 'tdfi'
+  | 'dssmom'
+  | 'sma'
+  | 'ema'
+  | 'wma'
+  | 'hma'
+  | 'macd'
+  | 'supertrend'
+  | 'bollinger'
+  | 'keltner'
+  | 'donchian'
+  | 'obv'
+  | 'vwap'
+  | 'cmf'
+  | 'volumezscore';
+
 export interface IndicatorConfig {
-  type: 'mfi' | 'tcf2' | 'kpss' | 'tdfi' | 'dssmom';
+  // Built-in type, or the name of a custom strategy passed to registerStrategy()
+  type: IndicatorType | (string & {});
   params: Record<string, number>;
 }
 
+/**
+ * How trigger signals are combined:
+ * - AND: every trigger agrees
+ * - OR: any trigger fires (conflicting directions cancel out)
+ * - VOTE: at least minVotes triggers agree (N-of-M)
+ */
+export type CombinatorMode = 'AND' | 'OR' | 'VOTE';
+
+/**
+ * TRIGGER indicators produce entry/trim signals; FILTER indicators only
+ * permit entries while their trend agrees (they never block exits)
+ */
+export type CombinatorRole = 'TRIGGER' | 'FILTER';
+
+export interface CombinatorIndicatorConfig extends IndicatorConfig {
+  role?: CombinatorRole;       // default: TRIGGER
+}
+
+export interface CombinatorConfig {
+  mode: CombinatorMode;
+  indicators: CombinatorIndicatorConfig[];
+  minVotes?: number;           // VOTE only (default: majority of triggers)
+  confirmationWindow?: number; // Trigger signals count for this many candles (default: 1)
+}
+
+/**
+ * Higher-timeframe trend check applied to LONG entries
+ */
+export interface TimeframeConfirmationConfig {
+  interval: BinanceInterval;
+  indicator: IndicatorConfig;
+  allowNeutral?: boolean;      // Accept a NONE trend as well as LONG (default: false)
+}
+
+/**
+ * Regime that blocks LONG entries; an omitted field matches any value
+ */
+export interface RegimeRule {
+  trend?: TrendDirection;
+  volatility?: VolatilityLevel;
+}
+
+/**
+ * Market regime classification (trend via ADX + MA slope, volatility via
+ * ATR-percent percentile) and regime-based entry gating
+ */
+export interface RegimeConfig {
+  adxPeriod?: number;          // default: 14
+  adxThreshold?: number;       // ADX at or above this is trending (default: 25)
+  maType?: MovingAverageType;  // default: EMA
+  maPeriod?: number;           // default: 50
+  slopeLookback?: number;      // Candles the MA slope is measured over (default: 5)
+  atrPeriod?: number;          // default: 14
+  volatilityWindow?: number;   // Candles of ATR percent to rank against (default: 100)
+  lowPercentile?: number;      // At or below: LOW volatility (default: 25)
+  highPercentile?: number;     // At or above: HIGH volatility (default: 75)
+  blockLongs?: RegimeRule[];   // e.g. [{ trend: 'BEARISH', volatility: 'HIGH' }]
+}
+
+/**
+ * One leg of a scale-out ladder
+ */
+export interface LadderLegConfig {
+  size: number;                    // Fraction of the position (all legs sum to 1)
+  atrTarget?: number;              // TP at entry + atrTarget × ATR; omit for the runner
+  stop?: LegStopMode;              // default: NONE for TP legs, TRAILING for the runner
+  stopActivation?: StopActivation; // default: FIRST_TP
+}
+
+/**
+ * Protective stop placed on every leg at entry:
+ * - ATR: value × ATR below the entry price
+ * - PERCENT: value percent below the entry price
+ * - SWING_LOW: lowest low of the last value candles (entry candle included),
+ *   minus bufferAtr × ATR
+ */
+export interface InitialStopConfig {
+  type: 'ATR' | 'PERCENT' | 'SWING_LOW';
+  value: number;
+  bufferAtr?: number;              // SWING_LOW only (default 0)
+}
+
+/**
+ * How armed TRAILING stops (the runner by default) follow price. The stop
+ * never moves down, and starts from the break-even lock when it arms.
+ * - ATR: highest price - atrTrailMultiplier × ATR
+ * - CHANDELIER: highest high of the last period candles - multiplier × ATR(period)
+ * - PARABOLIC_SAR: Parabolic SAR started at the leg's entry candle
+ * - PERCENT: percent below the highest price
+ * - R_MULTIPLE: locks lockR × R above entry once the highest price reaches
+ *   profitR × R, where R is the distance from entry to the initial stop
+ * - SUPERTREND: SuperTrend line while the trend is up
+ */
+export type TrailingStopType = 'ATR' | 'CHANDELIER' | 'PARABOLIC_SAR' | 'PERCENT' | 'R_MULTIPLE' | 'SUPERTREND';
+
+export interface RMultipleStep {
+  profitR: number;                 // Highest price at entry + profitR × R...
+  lockR: number;                   // ...moves the stop to entry + lockR × R
+}
+
+export interface TrailingStopConfig {
+  type: TrailingStopType;
+  period?: number;                 // CHANDELIER (default 22) / SUPERTREND ATR period (default 10)
+  multiplier?: number;             // CHANDELIER / SUPERTREND band width in ATRs (default 3)
+  percent?: number;                // PERCENT: trail distance
+  acceleration?: number;           // PARABOLIC_SAR step (default 0.02)
+  maxAcceleration?: number;        // PARABOLIC_SAR cap (default 0.2)
+  steps?: RMultipleStep[];         // R_MULTIPLE (needs position.initialStop)
+}
+
+/**
+ * Which level fills first when a candle's range hits both a target and a
+ * stop (long positions):
+ * - PESSIMISTIC: the low comes first, so the stop wins
+ * - OPTIMISTIC: the high comes first, so the target wins
+ * - OPEN_PROXIMITY: whichever extreme is closer to the open comes first
+ * - LOWER_TIMEFRAME: replay the lower-timeframe candles inside the candle
+ *   (each one pessimistically); PESSIMISTIC when none are available
+ */
+export type IntrabarPolicy = 'PESSIMISTIC' | 'OPTIMISTIC' | 'OPEN_PROXIMITY' | 'LOWER_TIMEFRAME';
+
+/**
+ * Check exits against each candle's high/low instead of its close. Levels
+ * fill at their own price, or at the open when the candle gaps through them.
+ * Simulated fills only (PaperBroker and backtests).
+ */
+export interface IntrabarConfig {
+  policy?: IntrabarPolicy;         // default: PESSIMISTIC
+  timeframe?: BinanceInterval;     // Candles replayed by LOWER_TIMEFRAME (required for it)
+}
+
+/**
+ * Scheduled period without exposure (e.g. a macro release or exchange
+ * maintenance): open legs close exitBeforeMinutes before it starts and no
+ * position opens until it ends
+ */
+export interface BlackoutWindow {
+  start: string;                   // ISO 8601
+  end: string;                     // ISO 8601
+  exitBeforeMinutes?: number;      // default: 0
+}
+
+export type TimeExitRule = 'MAX_HOLDING' | 'NO_NEW_HIGH' | 'BLACKOUT';
+
+/**
+ * Exits that close legs at the current price once time runs out
+ */
+export interface TimeExitConfig {
+  maxHoldingHours?: Partial<Record<LegType, number>>; // e.g. { TP: 48, RUNNER: 720 }
+  noNewHighCandles?: number;       // Close legs whose highest price hasn't risen for this many candles
+  blackouts?: BlackoutWindow[];
+}
+
 export interface PositionConfig {
   tradeLegUsdc: number;
   atrTpMultiplier: number;
   atrTrailMultiplier: number;
   breakEvenLockMultiplier: number;
+  /**
+   * Scale-out ladder (default: one TP leg at atrTpMultiplier + one runner,
+   * half each). A position costs tradeLegUsdc × number of legs.
+   */
+  ladder?: LadderLegConfig[];
+  initialStop?: InitialStopConfig; // default: no stop until TP legs fill
+  intrabar?: IntrabarConfig;       // default: exits checked against the candle close
+  trailingStop?: TrailingStopConfig; // default: ATR
+  timeExits?: TimeExitConfig;      // default: legs stay open until a target or stop
 }
 
 export interface RiskConfig {
@@ -177,6 +540,9 @@ export interface BotConfig {
   liveTradingEnabled: boolean;
 
   indicator: IndicatorConfig;
+  combinator?: CombinatorConfig;   // Overrides `indicator` when set
+  confirmations?: TimeframeConfirmationConfig[];  // Higher-timeframe trend checks for entries
+  regime?: RegimeConfig;           // Regime classification for journal context and entry gating
   position: PositionConfig;
   risk: RiskConfig;
 
@@ -262,6 +628,7 @@ export interface BotRegistryEntry {
   logFile: string;
   serviceName: string;
   csvDir?: string;
+  configFile?: string;  // Declarative BotConfig file (see loadBotConfigFile)
 }
 
 export interface DashboardConfig {
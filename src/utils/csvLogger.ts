@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import type { Candle, Signal, PositionLeg, Logger } from '../types';
+import { getLegLabel } from '../strategy/position';
 
 /**
  * CSV Logging Utilities
@@ -241,7 +242,7 @@ export function createCSVLogger(config: CSVLoggerConfig) {
 
         return [
           leg.id,
-          leg.type,
+          getLegLabel(leg),
           leg.status,
           entryDate,
           formatPrice(leg.entryPrice),
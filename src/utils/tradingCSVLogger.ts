@@ -1,6 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import type { PositionLeg, Logger } from '../types';
+import { getLegLabel } from '../strategy/position';
 
 /**
  * Trading CSV Logger for Position Trading Strategy
@@ -56,7 +57,7 @@ export interface TradeExit {
   timestamp: number;
   asset: string;
   legId: string;
-  legType: 'TP' | 'RUNNER';
+  legType: string;  // TP, TP1..TPn (ladder rungs) or RUNNER
   entryDate: string;
   entryPrice: number;
   exitPrice: number;
@@ -259,7 +260,7 @@ export function createTradingCSVLogger(config: TradingCSVLoggerConfig) {
       timestamp: leg.closeTime,
       asset,
       legId: leg.id,
-      legType: leg.type,
+      legType: getLegLabel(leg),
       entryDate: new Date(leg.entryTime).toISOString(),
       entryPrice: leg.entryPrice,
       exitPrice: leg.closePrice,